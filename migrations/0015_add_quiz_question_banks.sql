@@ -0,0 +1,45 @@
+-- Migration: Add versioned quiz question banks
+-- Description: Store quiz question sets in the database with a version, let a class pin a bank
+-- version, and record on each submission which version was answered.
+-- Seed the built-in bank afterwards with: npm run seed:quiz-banks
+
+CREATE TABLE IF NOT EXISTS quiz_question_banks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    code VARCHAR(50) NOT NULL,
+    version INTEGER NOT NULL DEFAULT 1 CHECK (version > 0),
+    name VARCHAR(255) NOT NULL,
+    grade_band VARCHAR(20),
+    description TEXT,
+    questions JSONB NOT NULL CHECK (jsonb_typeof(questions) = 'array'),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    is_default BOOLEAN NOT NULL DEFAULT false,
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT unique_quiz_bank_code_version UNIQUE (code, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quiz_question_banks_active
+ON quiz_question_banks(is_active)
+WHERE is_active = true;
+
+-- Only one bank version may be the default at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quiz_question_banks_single_default
+ON quiz_question_banks(is_default)
+WHERE is_default = true;
+
+-- Class pinning (NULL means the class uses the default bank)
+ALTER TABLE classes
+ADD COLUMN IF NOT EXISTS quiz_bank_id UUID REFERENCES quiz_question_banks(id) ON DELETE SET NULL;
+
+-- Which bank version a submission answered (NULL for submissions made before versioning)
+ALTER TABLE quiz_submissions
+ADD COLUMN IF NOT EXISTS question_bank_id UUID REFERENCES quiz_question_banks(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_quiz_submissions_question_bank_id
+ON quiz_submissions(question_bank_id);
+
+COMMENT ON TABLE quiz_question_banks IS 'Versioned quiz question sets. A version is never edited once answered; changes are published as a new version.';
+COMMENT ON COLUMN classes.quiz_bank_id IS 'Question bank version the class quiz uses. NULL uses the default bank.';
+COMMENT ON COLUMN quiz_submissions.question_bank_id IS 'Question bank version the student answered. NULL means the original built-in questions.';
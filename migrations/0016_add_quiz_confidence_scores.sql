@@ -0,0 +1,17 @@
+-- Migration: Record quiz result confidence
+-- Description: Store per-dimension preference strength and whether the student was one
+-- answer away from a different MBTI type (a "borderline" result) on each submission.
+
+ALTER TABLE quiz_submissions
+ADD COLUMN IF NOT EXISTS preference_strengths JSONB,
+ADD COLUMN IF NOT EXISTS borderline JSONB,
+ADD COLUMN IF NOT EXISTS is_borderline BOOLEAN NOT NULL DEFAULT false;
+
+-- Teachers look up borderline students per class
+CREATE INDEX IF NOT EXISTS idx_quiz_submissions_borderline
+ON quiz_submissions(student_id)
+WHERE is_borderline = true;
+
+COMMENT ON COLUMN quiz_submissions.preference_strengths IS 'Per-dimension preference and percentage, e.g. {"E/I": {"preference": "I", "percentage": 60}}. NULL for submissions scored before this was recorded';
+COMMENT ON COLUMN quiz_submissions.borderline IS 'MBTI types (and animals) the student was one answer away from';
+COMMENT ON COLUMN quiz_submissions.is_borderline IS 'True when a single different answer would have changed the MBTI type';
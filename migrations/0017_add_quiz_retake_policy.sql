@@ -0,0 +1,34 @@
+-- Migration: Quiz retake policy and result history
+-- Description: Per-class retake rules, per-student teacher unlocks, and the result of each
+-- attempt on the submission itself so a student's history survives later retakes.
+-- Classes default to 'always', which is how retakes worked before; teachers opt in to limits.
+
+ALTER TABLE classes
+ADD COLUMN IF NOT EXISTS quiz_retake_policy VARCHAR(20) NOT NULL DEFAULT 'always'
+    CHECK (quiz_retake_policy IN ('always', 'never', 'once', 'after_days', 'teacher_unlock')),
+ADD COLUMN IF NOT EXISTS quiz_retake_cooldown_days INTEGER
+    CHECK (quiz_retake_cooldown_days IS NULL OR quiz_retake_cooldown_days > 0);
+
+ALTER TABLE students
+ADD COLUMN IF NOT EXISTS quiz_retake_unlocked_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS quiz_retake_unlocked_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE quiz_submissions
+ADD COLUMN IF NOT EXISTS personality_type VARCHAR(20),
+ADD COLUMN IF NOT EXISTS learning_style VARCHAR(50);
+
+-- Backfill attempt results from the legacy answers JSON where present
+UPDATE quiz_submissions
+SET personality_type = answers->>'personalityType',
+    learning_style = answers->>'learningStyle'
+WHERE personality_type IS NULL
+  AND jsonb_typeof(answers) = 'object'
+  AND answers ? 'personalityType';
+
+-- History is read per student, newest or oldest first
+CREATE INDEX IF NOT EXISTS idx_quiz_submissions_student_completed
+ON quiz_submissions(student_id, completed_at);
+
+COMMENT ON COLUMN classes.quiz_retake_policy IS 'always, never, once, after_days (see quiz_retake_cooldown_days) or teacher_unlock';
+COMMENT ON COLUMN students.quiz_retake_unlocked_at IS 'Teacher granted one retake; cleared when the retake is submitted';
+COMMENT ON COLUMN quiz_submissions.personality_type IS 'MBTI result of this attempt (students.personality_type holds the current one)';
@@ -0,0 +1,17 @@
+-- Migration: Multilingual quiz content
+-- Description: Per-locale question translations on question banks, a default quiz language
+-- per class and an optional language choice per student. English stays the source language.
+
+ALTER TABLE quiz_question_banks
+ADD COLUMN IF NOT EXISTS translations JSONB NOT NULL DEFAULT '{}'::jsonb
+    CHECK (jsonb_typeof(translations) = 'object');
+
+ALTER TABLE classes
+ADD COLUMN IF NOT EXISTS default_locale VARCHAR(10) NOT NULL DEFAULT 'en';
+
+ALTER TABLE students
+ADD COLUMN IF NOT EXISTS locale VARCHAR(10);
+
+COMMENT ON COLUMN quiz_question_banks.translations IS 'Translated text, options and audio per locale, keyed by question id: {"es": {"1": {"text": ..., "options": {...}, "audioFile": ...}}}';
+COMMENT ON COLUMN classes.default_locale IS 'Quiz and result language for students who have not chosen one (en, es)';
+COMMENT ON COLUMN students.locale IS 'Student''s chosen language; NULL uses the class default';
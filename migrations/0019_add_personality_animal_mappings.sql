@@ -0,0 +1,46 @@
+-- Migration: Database-owned personality -> animal -> genius mappings
+-- Description: The MBTI -> animal and animal -> genius mappings used to be hard-coded in
+-- several places that disagreed. These tables are now the source of truth; the server
+-- checks the remaining hard-coded copies against them at startup.
+
+CREATE TABLE IF NOT EXISTS personality_animal_mappings (
+    personality_type VARCHAR(4) PRIMARY KEY CHECK (personality_type ~ '^[EI][SN][TF][JP]$'),
+    animal_type_id UUID NOT NULL REFERENCES animal_types(id) ON DELETE RESTRICT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE animal_types
+ADD COLUMN IF NOT EXISTS genius_type_id UUID REFERENCES genius_types(id) ON DELETE RESTRICT;
+
+-- Seed from the mapping the quiz has always scored with (shared/scoring.ts).
+-- Animal codes differ between environments (border_collie / border-collie), so match on name.
+INSERT INTO personality_animal_mappings (personality_type, animal_type_id)
+SELECT m.personality_type, a.id
+FROM (VALUES
+    ('INFP', 'Meerkat'), ('ISFP', 'Meerkat'),
+    ('INFJ', 'Panda'), ('INTJ', 'Panda'),
+    ('ISTP', 'Owl'), ('INTP', 'Owl'),
+    ('ISFJ', 'Beaver'), ('ISTJ', 'Beaver'),
+    ('ESFJ', 'Elephant'), ('ENFJ', 'Elephant'),
+    ('ESFP', 'Otter'), ('ESTP', 'Otter'),
+    ('ENFP', 'Parrot'), ('ENTP', 'Parrot'),
+    ('ESTJ', 'Border Collie'), ('ENTJ', 'Border Collie')
+) AS m(personality_type, animal_name)
+JOIN animal_types a ON LOWER(a.name) = LOWER(m.animal_name)
+ON CONFLICT (personality_type) DO NOTHING;
+
+UPDATE animal_types a
+SET genius_type_id = g.id,
+    updated_at = NOW()
+FROM (VALUES
+    ('Meerkat', 'feeler'), ('Panda', 'feeler'), ('Elephant', 'feeler'),
+    ('Owl', 'thinker'), ('Parrot', 'thinker'),
+    ('Beaver', 'doer'), ('Otter', 'doer'), ('Border Collie', 'doer')
+) AS m(animal_name, genius_code)
+JOIN genius_types g ON LOWER(g.code) = m.genius_code OR LOWER(g.name) = m.genius_code
+WHERE LOWER(a.name) = LOWER(m.animal_name)
+  AND a.genius_type_id IS NULL;
+
+COMMENT ON TABLE personality_animal_mappings IS 'Authoritative MBTI type -> animal mapping';
+COMMENT ON COLUMN animal_types.genius_type_id IS 'Authoritative animal -> genius type mapping (genius_type is a legacy display value)';
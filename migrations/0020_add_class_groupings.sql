@@ -0,0 +1,42 @@
+-- Migration: Seating groups and pairing constraints
+-- Description: Teacher rules for who should / shouldn't sit together, and saved groupings
+-- per class so new groups can avoid repeating recent ones.
+
+CREATE TABLE IF NOT EXISTS class_pairing_constraints (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    class_id UUID NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+    student_a_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+    student_b_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('avoid', 'keep_together')),
+    note VARCHAR(255),
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    -- One row per pair, stored in a fixed order
+    CHECK (student_a_id < student_b_id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS unique_class_pairing_constraint
+ON class_pairing_constraints(class_id, student_a_id, student_b_id);
+
+CREATE INDEX IF NOT EXISTS idx_class_pairing_constraints_class_id
+ON class_pairing_constraints(class_id);
+
+CREATE TABLE IF NOT EXISTS class_groupings (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    class_id UUID NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    group_size INTEGER NOT NULL CHECK (group_size BETWEEN 2 AND 5),
+    groups JSONB NOT NULL,
+    settings JSONB NOT NULL,
+    warnings JSONB NOT NULL DEFAULT '[]',
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_class_groupings_class_created
+ON class_groupings(class_id, created_at);
+
+COMMENT ON TABLE class_pairing_constraints IS 'Teacher rules applied when generating seating groups';
+COMMENT ON COLUMN class_pairing_constraints.type IS 'avoid: never in the same group; keep_together: always in the same group';
+COMMENT ON TABLE class_groupings IS 'Generated seating groups with member snapshots, kept as history';
+COMMENT ON COLUMN class_groupings.settings IS 'Generation inputs: groupings whose pairs were avoided, constraint count, random seed';
@@ -0,0 +1,46 @@
+-- Migration: Database-backed background jobs
+-- Description: Job table used in place of Bull/Redis when REDIS_URL isn't set, so job status,
+-- progress and results survive restarts and are visible to every instance.
+
+CREATE TABLE IF NOT EXISTS background_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    queue VARCHAR(100) NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    data JSONB NOT NULL DEFAULT '{}',
+    status VARCHAR(20) NOT NULL DEFAULT 'waiting'
+        CHECK (status IN ('waiting', 'active', 'completed', 'failed', 'cancelled')),
+    progress INTEGER NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+    result JSONB,
+    error TEXT,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 3 CHECK (max_attempts > 0),
+    backoff_ms INTEGER NOT NULL DEFAULT 2000,
+    run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    owner_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+    locked_by VARCHAR(100),
+    locked_at TIMESTAMP WITH TIME ZONE,
+    started_at TIMESTAMP WITH TIME ZONE,
+    finished_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Workers poll for the next waiting job per queue
+CREATE INDEX IF NOT EXISTS idx_background_jobs_pending
+ON background_jobs(queue, run_at) WHERE status = 'waiting';
+
+CREATE INDEX IF NOT EXISTS idx_background_jobs_owner ON background_jobs(owner_id);
+
+-- Finished jobs are pruned by age
+CREATE INDEX IF NOT EXISTS idx_background_jobs_finished ON background_jobs(finished_at);
+
+CREATE TABLE IF NOT EXISTS background_job_cache (
+    key VARCHAR(255) PRIMARY KEY,
+    value TEXT NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+COMMENT ON TABLE background_jobs IS 'Background jobs when Bull/Redis is not configured';
+COMMENT ON COLUMN background_jobs.run_at IS 'Earliest time a worker may pick the job up; pushed back by retry backoff';
+COMMENT ON COLUMN background_jobs.owner_id IS 'Teacher who requested the job; only they can read or cancel it';
+COMMENT ON TABLE background_job_cache IS 'Expiring key/value results, the database stand-in for the Redis cache';
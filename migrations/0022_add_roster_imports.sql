@@ -0,0 +1,23 @@
+-- Migration: Roster import reports
+-- Description: Per-row results of each roster upload (dry run or committed), kept so
+-- teachers can download the report afterwards and commit a previewed import.
+
+CREATE TABLE IF NOT EXISTS roster_imports (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    class_id UUID NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+    teacher_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    file_name VARCHAR(255),
+    status VARCHAR(20) NOT NULL DEFAULT 'preview' CHECK (status IN ('preview', 'committed')),
+    column_mapping JSONB NOT NULL,
+    summary JSONB NOT NULL,
+    rows JSONB NOT NULL,
+    committed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_roster_imports_class_created
+ON roster_imports(class_id, created_at);
+
+COMMENT ON TABLE roster_imports IS 'Roster upload reports; status preview = dry run not yet committed';
+COMMENT ON COLUMN roster_imports.column_mapping IS 'Roster field -> source column header used for this import';
+COMMENT ON COLUMN roster_imports.rows IS 'Per-row parsed values, status and validation errors';
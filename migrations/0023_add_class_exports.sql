@@ -0,0 +1,29 @@
+-- Migration: Class data exports
+-- Description: Export bundles of a class's data (roster, quiz submissions, currency
+-- transactions, inventory, lesson progress, class values results), built in the
+-- background for large classes and kept for download until they expire.
+
+CREATE TABLE IF NOT EXISTS class_exports (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    class_id UUID NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+    requested_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    format VARCHAR(10) NOT NULL CHECK (format IN ('csv', 'json')),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'failed')),
+    job_id VARCHAR(100),
+    file_name VARCHAR(255),
+    content_type VARCHAR(100),
+    content BYTEA,
+    size_bytes INTEGER,
+    counts JSONB,
+    error TEXT,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_class_exports_class_created ON class_exports(class_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_class_exports_expires ON class_exports(expires_at);
+
+COMMENT ON TABLE class_exports IS 'Downloadable class data bundles; content is cleared once expired';
+COMMENT ON COLUMN class_exports.format IS 'csv: zip with one CSV per section; json: single JSON document';
+COMMENT ON COLUMN class_exports.counts IS 'Number of rows exported per section';
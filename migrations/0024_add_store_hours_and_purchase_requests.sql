@@ -0,0 +1,41 @@
+-- Migration: Store hours and purchase approval
+-- Description: Store settings become one row per class (a teacher with several classes
+-- previously could only keep settings for one), and purchases above a class's
+-- auto-approval threshold wait in purchase_requests with their coins reserved.
+
+ALTER TABLE store_settings DROP CONSTRAINT IF EXISTS store_settings_teacher_id_unique;
+
+-- Keep the most recently updated row if a class somehow has more than one
+DELETE FROM store_settings s
+USING store_settings newer
+WHERE s.class_id = newer.class_id
+  AND s.id <> newer.id
+  AND (s.updated_at, s.id) < (newer.updated_at, newer.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS unique_store_settings_class ON store_settings(class_id);
+
+CREATE TABLE IF NOT EXISTS purchase_requests (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+    class_id UUID NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+    store_item_id UUID NOT NULL REFERENCES store_items(id) ON DELETE RESTRICT,
+    cost INTEGER NOT NULL CHECK (cost >= 0),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'denied', 'cancelled')),
+    reservation_transaction_id UUID REFERENCES currency_transactions(id) ON DELETE SET NULL,
+    refund_transaction_id UUID REFERENCES currency_transactions(id) ON DELETE SET NULL,
+    decided_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    decided_at TIMESTAMP WITH TIME ZONE,
+    note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_requests_class_status ON purchase_requests(class_id, status);
+CREATE INDEX IF NOT EXISTS idx_purchase_requests_student_id ON purchase_requests(student_id);
+-- A student can only have one pending request per item
+CREATE UNIQUE INDEX IF NOT EXISTS unique_pending_purchase_request
+    ON purchase_requests(student_id, store_item_id) WHERE status = 'pending';
+
+COMMENT ON TABLE purchase_requests IS 'Store purchases awaiting teacher approval; cost is reserved from the balance until approved, denied or cancelled';
+COMMENT ON COLUMN purchase_requests.cost IS 'Coins reserved at request time (refunded on deny/cancel)';
+COMMENT ON COLUMN store_settings.settings IS 'autoApprovalThreshold (missing = no approval, null = approve everything) and hours {openTime, closeTime, timezone, days}';
@@ -0,0 +1,85 @@
+-- Migration: Double-entry currency ledger
+-- Description: Every coin movement becomes a currency_transactions row (with an optional
+-- idempotency key and the resulting balance) plus ledger_entries legs that sum to zero:
+-- the student's leg and a system account (or another student). ledger_reconciliations
+-- stores the reports comparing students.currency_balance with the ledger.
+
+-- Normalize the type names code used to write (they never matched the check constraint)
+UPDATE currency_transactions SET transaction_type = 'quiz_reward' WHERE transaction_type = 'quiz_complete';
+UPDATE currency_transactions SET transaction_type = 'teacher_grant' WHERE transaction_type = 'teacher_gift';
+UPDATE currency_transactions SET transaction_type = 'teacher_deduction' WHERE transaction_type = 'teacher_deduct';
+UPDATE currency_transactions SET transaction_type = 'garden_harvest' WHERE transaction_type = 'harvest';
+UPDATE currency_transactions SET transaction_type = 'bonus' WHERE transaction_type = 'achievement';
+
+ALTER TABLE currency_transactions
+DROP CONSTRAINT IF EXISTS check_transaction_amount_valid;
+
+ALTER TABLE currency_transactions
+ADD CONSTRAINT check_transaction_amount_valid
+CHECK (
+  (transaction_type IN ('quiz_reward', 'lesson_complete', 'teacher_grant', 'garden_harvest', 'bonus', 'refund') AND amount > 0) OR
+  (transaction_type IN ('purchase', 'teacher_deduction', 'penalty') AND amount < 0) OR
+  (transaction_type = 'adjustment' AND amount != 0)
+);
+
+ALTER TABLE currency_transactions ADD COLUMN IF NOT EXISTS idempotency_key VARCHAR(150);
+ALTER TABLE currency_transactions ADD COLUMN IF NOT EXISTS balance_after INTEGER;
+
+CREATE UNIQUE INDEX IF NOT EXISTS unique_currency_transactions_idempotency_key
+    ON currency_transactions(idempotency_key) WHERE idempotency_key IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS ledger_entries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    transaction_id UUID NOT NULL REFERENCES currency_transactions(id) ON DELETE CASCADE,
+    account VARCHAR(50) NOT NULL,
+    student_id UUID REFERENCES students(id) ON DELETE CASCADE,
+    amount INTEGER NOT NULL CHECK (amount != 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT check_ledger_student_account CHECK ((account = 'student') = (student_id IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_transaction_id ON ledger_entries(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_student_id ON ledger_entries(student_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_account ON ledger_entries(account);
+
+-- Post the existing history: a student leg and the matching system leg per transaction
+INSERT INTO ledger_entries (transaction_id, account, student_id, amount, created_at)
+SELECT ct.id, 'student', ct.student_id, ct.amount, ct.created_at
+FROM currency_transactions ct
+WHERE ct.amount != 0
+  AND NOT EXISTS (SELECT 1 FROM ledger_entries le WHERE le.transaction_id = ct.id);
+
+INSERT INTO ledger_entries (transaction_id, account, student_id, amount, created_at)
+SELECT ct.id,
+       CASE
+         WHEN ct.transaction_type IN ('purchase', 'refund') THEN 'system:store'
+         WHEN ct.transaction_type IN ('teacher_grant', 'teacher_deduction', 'penalty') THEN 'system:teacher_awards'
+         WHEN ct.transaction_type = 'adjustment' THEN 'system:adjustments'
+         ELSE 'system:rewards'
+       END,
+       NULL, -ct.amount, ct.created_at
+FROM currency_transactions ct
+WHERE ct.amount != 0
+  AND NOT EXISTS (SELECT 1 FROM ledger_entries le WHERE le.transaction_id = ct.id AND le.account <> 'student');
+
+CREATE TABLE IF NOT EXISTS ledger_reconciliations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    class_id UUID REFERENCES classes(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'clean', 'drift', 'failed')),
+    students_checked INTEGER NOT NULL DEFAULT 0,
+    drift_count INTEGER NOT NULL DEFAULT 0,
+    total_drift INTEGER NOT NULL DEFAULT 0,
+    report JSONB,
+    error TEXT,
+    requested_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_reconciliations_started_at ON ledger_reconciliations(started_at);
+
+COMMENT ON TABLE ledger_entries IS 'Double-entry legs of currency_transactions; legs of one transaction sum to zero';
+COMMENT ON COLUMN ledger_entries.account IS 'student (with student_id) or a system account such as system:rewards / system:store';
+COMMENT ON COLUMN currency_transactions.idempotency_key IS 'Caller-supplied key; re-posting the same key returns the original transaction';
+COMMENT ON COLUMN currency_transactions.balance_after IS 'Student balance after this transaction (null for rows written before the ledger)';
+COMMENT ON TABLE ledger_reconciliations IS 'Reports comparing students.currency_balance with the sum of their ledger legs';
@@ -0,0 +1,22 @@
+-- Migration: Class reward rules
+-- Description: Standing coin rewards per class ("+5 for every lesson activity",
+-- "+10 on each achievement unlock"). Awards are posted through the ledger with an
+-- idempotency key per rule, event and student, so an event never pays a rule twice.
+
+CREATE TABLE IF NOT EXISTS class_reward_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    class_id UUID NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+    trigger VARCHAR(40) NOT NULL CHECK (trigger IN ('lesson_activity_complete', 'lesson_complete', 'achievement_unlock', 'game_score')),
+    amount INTEGER NOT NULL CHECK (amount > 0 AND amount <= 1000),
+    conditions JSONB NOT NULL DEFAULT '{}',
+    description VARCHAR(255),
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_class_reward_rules_class_trigger ON class_reward_rules(class_id, trigger);
+
+COMMENT ON TABLE class_reward_rules IS 'Per-class standing coin rewards applied by the lesson, achievement and game-score paths';
+COMMENT ON COLUMN class_reward_rules.conditions IS 'Optional filters: achievementCode, gameType, minScore, maxPerDay';
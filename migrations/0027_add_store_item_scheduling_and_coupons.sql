@@ -0,0 +1,54 @@
+-- Migration: Seasonal, class-only and limited store items
+-- Description: Store items get an availability window, a timed percentage-off sale and an
+-- optional stock limit (first N buyers). Teachers can add class-only coupon items
+-- ("homework pass"); students redeem them and the teacher sees store_redemptions.
+
+ALTER TABLE store_items ADD COLUMN IF NOT EXISTS class_id UUID REFERENCES classes(id) ON DELETE CASCADE;
+ALTER TABLE store_items ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+ALTER TABLE store_items ADD COLUMN IF NOT EXISTS available_from TIMESTAMP WITH TIME ZONE;
+ALTER TABLE store_items ADD COLUMN IF NOT EXISTS available_until TIMESTAMP WITH TIME ZONE;
+ALTER TABLE store_items ADD COLUMN IF NOT EXISTS sale_percent INTEGER;
+ALTER TABLE store_items ADD COLUMN IF NOT EXISTS sale_starts_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE store_items ADD COLUMN IF NOT EXISTS sale_ends_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE store_items ADD COLUMN IF NOT EXISTS stock_limit INTEGER;
+ALTER TABLE store_items ADD COLUMN IF NOT EXISTS stock_sold INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE store_items ADD COLUMN IF NOT EXISTS is_redeemable BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE store_items DROP CONSTRAINT IF EXISTS check_store_item_availability;
+ALTER TABLE store_items ADD CONSTRAINT check_store_item_availability
+CHECK (available_from IS NULL OR available_until IS NULL OR available_from < available_until);
+
+ALTER TABLE store_items DROP CONSTRAINT IF EXISTS check_store_item_sale;
+ALTER TABLE store_items ADD CONSTRAINT check_store_item_sale
+CHECK (sale_percent IS NULL OR (sale_percent BETWEEN 1 AND 90));
+
+ALTER TABLE store_items DROP CONSTRAINT IF EXISTS check_store_item_stock;
+ALTER TABLE store_items ADD CONSTRAINT check_store_item_stock
+CHECK (stock_limit IS NULL OR (stock_limit > 0 AND stock_sold <= stock_limit));
+
+CREATE INDEX IF NOT EXISTS idx_store_items_class_id ON store_items(class_id) WHERE class_id IS NOT NULL;
+
+-- Item type for teacher-made coupons
+INSERT INTO item_types (code, name, category, description) VALUES
+    ('class_coupon', 'Class Coupon', 'coupon', 'Teacher-created class reward a student redeems, like a homework pass')
+ON CONFLICT (code) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS store_redemptions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+    class_id UUID NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+    store_item_id UUID NOT NULL REFERENCES store_items(id) ON DELETE CASCADE,
+    item_name VARCHAR(255) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'fulfilled', 'declined')),
+    note TEXT,
+    decided_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    decided_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_store_redemptions_class_status ON store_redemptions(class_id, status);
+CREATE INDEX IF NOT EXISTS idx_store_redemptions_student_id ON store_redemptions(student_id);
+
+COMMENT ON COLUMN store_items.class_id IS 'Class-only item created by a teacher; NULL for the global catalog';
+COMMENT ON COLUMN store_items.stock_sold IS 'Units claimed so far, including ones reserved by pending purchase requests';
+COMMENT ON TABLE store_redemptions IS 'Coupon items students have redeemed, for the teacher to honor';
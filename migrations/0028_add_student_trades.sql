@@ -0,0 +1,59 @@
+-- Migration: Gifting and trading between classmates
+-- Description: Teachers can let students gift items or coins to classmates and propose
+-- two-sided trades (classes.trading_enabled), optionally with teacher approval.
+-- student_trades holds each gift/trade and student_trade_events its audit trail. Coins
+-- move as a transfer_out / transfer_in pair through the system:transfers ledger account.
+
+ALTER TABLE classes ADD COLUMN IF NOT EXISTS trading_enabled BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE classes ADD COLUMN IF NOT EXISTS trading_requires_approval BOOLEAN NOT NULL DEFAULT TRUE;
+
+ALTER TABLE currency_transactions
+DROP CONSTRAINT IF EXISTS check_transaction_amount_valid;
+
+ALTER TABLE currency_transactions
+ADD CONSTRAINT check_transaction_amount_valid
+CHECK (
+  (transaction_type IN ('quiz_reward', 'lesson_complete', 'teacher_grant', 'garden_harvest', 'bonus', 'refund', 'transfer_in') AND amount > 0) OR
+  (transaction_type IN ('purchase', 'teacher_deduction', 'penalty', 'transfer_out') AND amount < 0) OR
+  (transaction_type = 'adjustment' AND amount != 0)
+);
+
+CREATE TABLE IF NOT EXISTS student_trades (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    class_id UUID NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+    kind VARCHAR(10) NOT NULL CHECK (kind IN ('gift', 'trade')),
+    from_student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+    to_student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+    offer_coins INTEGER NOT NULL DEFAULT 0 CHECK (offer_coins >= 0),
+    offer_item_ids JSONB NOT NULL DEFAULT '[]',
+    request_coins INTEGER NOT NULL DEFAULT 0 CHECK (request_coins >= 0),
+    request_item_ids JSONB NOT NULL DEFAULT '[]',
+    message VARCHAR(200),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'awaiting_approval', 'completed', 'declined', 'cancelled', 'rejected')),
+    decided_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    note TEXT,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT check_student_trade_parties CHECK (from_student_id != to_student_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_student_trades_class_status ON student_trades(class_id, status);
+CREATE INDEX IF NOT EXISTS idx_student_trades_from_student ON student_trades(from_student_id);
+CREATE INDEX IF NOT EXISTS idx_student_trades_to_student ON student_trades(to_student_id);
+
+CREATE TABLE IF NOT EXISTS student_trade_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    trade_id UUID NOT NULL REFERENCES student_trades(id) ON DELETE CASCADE,
+    event VARCHAR(20) NOT NULL,
+    actor_student_id UUID REFERENCES students(id) ON DELETE SET NULL,
+    actor_teacher_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    details JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_student_trade_events_trade_id ON student_trade_events(trade_id, created_at);
+
+COMMENT ON TABLE student_trades IS 'Gifts and trades between classmates; nothing is held until the trade completes';
+COMMENT ON TABLE student_trade_events IS 'Audit trail of every step of a gift or trade';
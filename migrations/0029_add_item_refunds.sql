@@ -0,0 +1,30 @@
+-- Migration: Item sell-back and refunds
+-- Description: Students can sell an owned item back for a share of its cost (full price
+-- within a short grace window after buying); teachers can refund disputed purchases.
+-- student_inventory remembers what was paid so the grace refund matches it, and
+-- item_refunds records every sell-back and refund. The percentage and grace window
+-- live in store_settings.settings (sellBackPercent, refundGraceMinutes).
+
+ALTER TABLE student_inventory ADD COLUMN IF NOT EXISTS purchase_price INTEGER;
+ALTER TABLE student_inventory ADD COLUMN IF NOT EXISTS purchase_transaction_id UUID REFERENCES currency_transactions(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS item_refunds (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+    class_id UUID NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+    store_item_id UUID REFERENCES store_items(id) ON DELETE SET NULL,
+    item_name VARCHAR(255),
+    kind VARCHAR(20) NOT NULL CHECK (kind IN ('sell_back', 'grace_refund', 'teacher_refund')),
+    amount INTEGER NOT NULL CHECK (amount >= 0),
+    transaction_id UUID REFERENCES currency_transactions(id) ON DELETE SET NULL,
+    item_removed BOOLEAN NOT NULL DEFAULT TRUE,
+    refunded_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_item_refunds_class_id ON item_refunds(class_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_item_refunds_student_id ON item_refunds(student_id);
+
+COMMENT ON COLUMN student_inventory.purchase_price IS 'Coins paid for the item; NULL for gifts, trades and purchases before this column';
+COMMENT ON TABLE item_refunds IS 'Items sold back by students and purchase refunds given by teachers';
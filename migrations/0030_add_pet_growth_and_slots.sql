@@ -0,0 +1,21 @@
+-- Migration: Pet growth, multiple pets and vacation mode
+-- Description: Pets earn XP from care (logged per interaction in pet_interactions.xp_gained)
+-- and evolve through the stages in pets.evolution_stages, switching Rive artboard as they
+-- grow. The one-pet-per-student index is replaced by a per-class slot count, and
+-- classes.pet_vacation pauses hunger and happiness decay over weekends and school breaks.
+
+ALTER TABLE pets ADD COLUMN IF NOT EXISTS evolution_stages JSONB NOT NULL DEFAULT '[]';
+
+ALTER TABLE student_pets ADD COLUMN IF NOT EXISTS xp INTEGER NOT NULL DEFAULT 0 CHECK (xp >= 0);
+ALTER TABLE student_pets ADD COLUMN IF NOT EXISTS stage INTEGER NOT NULL DEFAULT 0 CHECK (stage >= 0);
+DROP INDEX IF EXISTS unique_student_pet;
+
+ALTER TABLE pet_interactions ADD COLUMN IF NOT EXISTS xp_gained INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE classes ADD COLUMN IF NOT EXISTS pet_slots INTEGER NOT NULL DEFAULT 1 CHECK (pet_slots BETWEEN 1 AND 5);
+ALTER TABLE classes ADD COLUMN IF NOT EXISTS pet_vacation JSONB NOT NULL DEFAULT '{"weekends": false, "breaks": []}';
+
+COMMENT ON COLUMN pets.evolution_stages IS 'Growth stages [{name, minXp, riveArtboard}] in XP order; the first is the starting stage';
+COMMENT ON COLUMN student_pets.stage IS 'Index into pets.evolution_stages the pet has reached';
+COMMENT ON COLUMN classes.pet_slots IS 'How many pets each student in the class may own';
+COMMENT ON COLUMN classes.pet_vacation IS 'Weekends and break dates when pet stats do not decay';
@@ -0,0 +1,25 @@
+-- Migration: Moderation queue for student-written text
+-- Description: Guestbook messages (and other student text) run through a word list,
+-- leetspeak normalization and personal-information checks. Anything suspect is saved
+-- hidden (room_guestbook.status = 'flagged_for_review') and queued here for the class's
+-- teacher to approve or hide.
+
+CREATE TABLE IF NOT EXISTS moderation_queue (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    class_id UUID NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+    student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+    content_type VARCHAR(30) NOT NULL,
+    content_id UUID NOT NULL,
+    content TEXT NOT NULL,
+    reasons JSONB NOT NULL DEFAULT '[]',
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'hidden')),
+    reviewed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_queue_class_status ON moderation_queue(class_id, status, created_at);
+CREATE UNIQUE INDEX IF NOT EXISTS unique_moderation_queue_content ON moderation_queue(content_type, content_id);
+
+COMMENT ON TABLE moderation_queue IS 'Flagged student-written text awaiting (or after) teacher review';
+COMMENT ON COLUMN moderation_queue.content IS 'What the student wrote, as flagged';
@@ -0,0 +1,39 @@
+-- Migration: Student blocking and reporting
+-- Description: Students can block a classmate, who then can't visit their room, sign
+-- their guestbook, watch it live or see them in the classmates list. They can also
+-- report a classmate or a guestbook message; reports go to the class's teacher.
+
+CREATE TABLE IF NOT EXISTS student_blocks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    blocker_student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+    blocked_student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT check_student_block_not_self CHECK (blocker_student_id != blocked_student_id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS unique_student_block ON student_blocks(blocker_student_id, blocked_student_id);
+CREATE INDEX IF NOT EXISTS idx_student_blocks_blocked ON student_blocks(blocked_student_id);
+
+CREATE TABLE IF NOT EXISTS student_reports (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    class_id UUID NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+    reporter_student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+    reported_student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+    guestbook_message_id UUID REFERENCES room_guestbook(id) ON DELETE SET NULL,
+    message_snapshot TEXT,
+    reason VARCHAR(20) NOT NULL CHECK (reason IN ('unkind', 'inappropriate', 'personal_info', 'other')),
+    details VARCHAR(500),
+    status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'dismissed')),
+    resolved_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    teacher_note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT check_student_report_not_self CHECK (reporter_student_id != reported_student_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_student_reports_class_status ON student_reports(class_id, status, created_at);
+CREATE INDEX IF NOT EXISTS idx_student_reports_reported ON student_reports(reported_student_id);
+
+COMMENT ON TABLE student_blocks IS 'Classmates a student has blocked from their room and guestbook';
+COMMENT ON TABLE student_reports IS 'Reports of classmates or guestbook messages, for the teacher';
+COMMENT ON COLUMN student_reports.message_snapshot IS 'The reported guestbook message as written, kept if the message is deleted';
@@ -0,0 +1,12 @@
+-- Migration: Admin audit log
+-- Description: Every admin mutation is now recorded in admin_logs with the request's IP
+-- and a before/after snapshot in details. Adds the IP column and indexes for browsing
+-- the log by target type and date.
+
+ALTER TABLE admin_logs
+    ADD COLUMN IF NOT EXISTS ip_address VARCHAR(45);
+
+CREATE INDEX IF NOT EXISTS idx_admin_logs_target_type ON admin_logs(target_type, created_at);
+CREATE INDEX IF NOT EXISTS idx_admin_logs_created_at ON admin_logs(created_at);
+
+COMMENT ON COLUMN admin_logs.ip_address IS 'IP address the admin request came from (IPv4 or IPv6)';
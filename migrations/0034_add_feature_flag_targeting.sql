@@ -0,0 +1,25 @@
+-- Migration: Feature flag targeting
+-- Description: Flags can now be rolled out to a percentage of teachers or classes and
+-- switched on or off for particular schools.
+
+CREATE TABLE IF NOT EXISTS feature_flags (
+    id VARCHAR(50) PRIMARY KEY,
+    is_enabled BOOLEAN DEFAULT false,
+    rollout_percentage INTEGER DEFAULT 0 CHECK (rollout_percentage >= 0 AND rollout_percentage <= 100),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE feature_flags
+    ADD COLUMN IF NOT EXISTS description TEXT,
+    ADD COLUMN IF NOT EXISTS bucket_by VARCHAR(10) NOT NULL DEFAULT 'teacher',
+    ADD COLUMN IF NOT EXISTS allowed_schools JSONB NOT NULL DEFAULT '[]'::jsonb,
+    ADD COLUMN IF NOT EXISTS denied_schools JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE feature_flags DROP CONSTRAINT IF EXISTS check_feature_flag_bucket_by;
+ALTER TABLE feature_flags
+    ADD CONSTRAINT check_feature_flag_bucket_by CHECK (bucket_by IN ('teacher', 'class'));
+
+COMMENT ON COLUMN feature_flags.bucket_by IS 'Whether the rollout percentage picks teachers or classes';
+COMMENT ON COLUMN feature_flags.allowed_schools IS 'School names (lower case) that always get the flag while it is enabled';
+COMMENT ON COLUMN feature_flags.denied_schools IS 'School names (lower case) that never get the flag';
@@ -0,0 +1,24 @@
+-- Migration: Class and student lifecycle
+-- Description: Classes can be archived (read-only, students can't sign in) or deleted.
+-- Deleted classes and students can be restored for 30 days before they are purged.
+-- A student's name only has to be unique among the class's current students.
+
+ALTER TABLE classes
+    ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE students
+    ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- Classes archived before this migration have no archive date; use their last update
+UPDATE classes SET archived_at = updated_at WHERE is_archived = true AND archived_at IS NULL;
+
+DROP INDEX IF EXISTS unique_class_student;
+CREATE UNIQUE INDEX IF NOT EXISTS unique_class_student
+    ON students(class_id, student_name) WHERE deleted_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_classes_deleted_at ON classes(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_students_deleted_at ON students(deleted_at) WHERE deleted_at IS NOT NULL;
+
+COMMENT ON COLUMN classes.archived_at IS 'When the class was archived; null while it is active';
+COMMENT ON COLUMN classes.deleted_at IS 'When the class was deleted; it can be restored for 30 days, then it is purged';
+COMMENT ON COLUMN students.deleted_at IS 'When the student was deleted; matches classes.deleted_at when deleted with their class';
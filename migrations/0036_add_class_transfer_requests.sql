@@ -0,0 +1,25 @@
+-- Migration: Class transfer requests
+-- Description: An owner handing a class to another teacher now asks first; the class
+-- moves when that teacher accepts. Admin transfers and offboarding still move classes
+-- straight away. A class has at most one open request.
+
+CREATE TABLE IF NOT EXISTS class_transfer_requests (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    class_id UUID NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+    from_teacher_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    to_teacher_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    keep_previous_owner BOOLEAN NOT NULL DEFAULT TRUE,
+    reason VARCHAR(255),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'accepted', 'declined', 'cancelled')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    responded_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS unique_pending_class_transfer
+    ON class_transfer_requests(class_id) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_class_transfer_requests_to_teacher
+    ON class_transfer_requests(to_teacher_id, status);
+
+COMMENT ON TABLE class_transfer_requests IS 'Owner-initiated class transfers waiting on (or answered by) the receiving teacher';
+COMMENT ON COLUMN class_transfer_requests.keep_previous_owner IS 'The previous owner stays on as an editor after the transfer';
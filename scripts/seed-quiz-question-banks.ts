@@ -0,0 +1,69 @@
+import { db } from '../server/db';
+import { quizQuestionBanks } from '../shared/schema';
+import { questions } from '../shared/quiz-questions';
+import { getBuiltInQuestionTranslations } from '../shared/i18n';
+import { eq, and } from 'drizzle-orm';
+
+const BUILTIN_BANK_CODE = 'core';
+
+/**
+ * Seed version 1 of the built-in question bank from shared/quiz-questions.ts.
+ * Submissions recorded before versioning (question_bank_id IS NULL) were answered
+ * against exactly these questions, so v1 must never be edited afterwards.
+ */
+async function seedQuizQuestionBanks() {
+  try {
+    console.log('Checking for existing built-in question bank...');
+
+    const [existing] = await db
+      .select({ id: quizQuestionBanks.id, translations: quizQuestionBanks.translations })
+      .from(quizQuestionBanks)
+      .where(and(
+        eq(quizQuestionBanks.code, BUILTIN_BANK_CODE),
+        eq(quizQuestionBanks.version, 1)
+      ))
+      .limit(1);
+
+    if (existing) {
+      // Translations don't affect scoring, so they can be added to an existing version
+      if (Object.keys(existing.translations || {}).length === 0) {
+        await db
+          .update(quizQuestionBanks)
+          .set({ translations: getBuiltInQuestionTranslations(), updatedAt: new Date() })
+          .where(eq(quizQuestionBanks.id, existing.id));
+        console.log(`✅ Added translations to existing built-in question bank (${existing.id})`);
+      } else {
+        console.log(`Built-in question bank already exists (${existing.id}). Skipping seed.`);
+      }
+      process.exit(0);
+    }
+
+    const [defaultBank] = await db
+      .select({ id: quizQuestionBanks.id })
+      .from(quizQuestionBanks)
+      .where(eq(quizQuestionBanks.isDefault, true))
+      .limit(1);
+
+    const [bank] = await db
+      .insert(quizQuestionBanks)
+      .values({
+        code: BUILTIN_BANK_CODE,
+        version: 1,
+        name: 'Animal Genius Quiz',
+        description: 'Original question set shipped with the app',
+        questions,
+        translations: getBuiltInQuestionTranslations(),
+        isActive: true,
+        isDefault: !defaultBank
+      })
+      .returning();
+
+    console.log(`✅ Seeded ${BUILTIN_BANK_CODE} v1 with ${questions.length} questions (${bank.id})`);
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Error seeding question banks:', error);
+    process.exit(1);
+  }
+}
+
+seedQuizQuestionBanks();
@@ -7,6 +7,8 @@ import { startPerformanceLogging, resetAuthMetrics } from "./middleware/auth-mon
 import cookieParser from "cookie-parser";
 import { db, pool } from "./db";
 import { sql } from "drizzle-orm";
+import { typeLookup } from "./services/typeLookupService";
+import { assertTypeMappingsConsistent } from "./services/typeMappingCheck";
 import { metricsService } from "./monitoring/metrics-service";
 import { cleanupManager, registerProcessHandlers } from "./lib/resource-cleanup";
 import { apiLimiter } from "./middleware/rateLimiter";
@@ -199,6 +201,10 @@ app.use((req, res, next) => {
     await db.execute(sql`SELECT 1`);
     log("Database connection successful");
 
+    // Type mappings come from the database; refuse to start if the shared copies disagree
+    await typeLookup.initialize();
+    assertTypeMappingsConsistent();
+
     const server = await registerRoutes(app);
 
     // 404 handler - must come after all routes
@@ -15,6 +15,7 @@ const DEFAULT_TTL = CONFIG.CACHE.DEFAULT_TTL;
 
 class RedisCache {
   private client: RedisClientType | null = null;
+  private subscriber: RedisClientType | null = null;
   private isConnected = false;
   private connectionPromise: Promise<void> | null = null;
 
@@ -175,6 +176,10 @@ class RedisCache {
    */
   async disconnect(): Promise<void> {
     try {
+      if (this.subscriber) {
+        await this.subscriber.quit();
+        this.subscriber = null;
+      }
       if (this.client && this.isConnected) {
         await this.client.quit();
         this.isConnected = false;
@@ -236,6 +241,47 @@ class RedisCache {
     }
   }
 
+  /**
+   * Publish a message to a channel
+   */
+  async publish(channel: string, message: string): Promise<number> {
+    try {
+      if (!this.isConnected || !this.client) {
+        logger.debug('Redis not connected, skipping publish');
+        return 0;
+      }
+
+      return await this.client.publish(channel, message);
+    } catch (error) {
+      logger.error('Redis publish error:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Listen on every channel matching a pattern. Subscriptions need their own
+   * connection, so the first call opens one.
+   */
+  async pSubscribe(pattern: string, listener: (message: string, channel: string) => void): Promise<boolean> {
+    try {
+      if (!this.isConnected || !this.client) {
+        logger.debug('Redis not connected, skipping pSubscribe');
+        return false;
+      }
+
+      if (!this.subscriber) {
+        this.subscriber = this.client.duplicate();
+        this.subscriber.on('error', (err) => logger.error('Redis subscriber error:', err));
+        await this.subscriber.connect();
+      }
+      await this.subscriber.pSubscribe(pattern, listener);
+      return true;
+    } catch (error) {
+      logger.error('Redis pSubscribe error:', error);
+      return false;
+    }
+  }
+
   /**
    * Check if Redis is available
    */
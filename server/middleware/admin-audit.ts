@@ -0,0 +1,92 @@
+import type { Request, Response, NextFunction } from 'express';
+import { uuidStorage } from '../storage-uuid';
+import { diffSnapshots } from '../services/adminAuditService';
+import { createSecureLogger } from '../utils/secure-logger';
+
+const logger = createSecureLogger('AdminAudit');
+const UUID_REGEX = /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/;
+
+interface AuditOptions {
+  targetType: string;
+  // Route parameter holding the target's ID (default 'id'). For creates the ID comes from the response.
+  targetParam?: string;
+  // Snapshot of the target before the change, for the before/after diff
+  loadBefore?: (req: Request) => Promise<unknown>;
+}
+
+// Larger responses (bulk operations) are summarised rather than copied into the log
+const MAX_SNAPSHOT_LENGTH = 20000;
+
+/**
+ * Find the record in a response body: the body itself, or the one object it wraps
+ * ({ message, pet } or { success, asset })
+ */
+function extractRecord(body: unknown): Record<string, unknown> | null {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return null;
+  const record = body as Record<string, unknown>;
+  if (typeof record.id === 'string') return record;
+
+  const wrapped = Object.values(record).filter(value => value && typeof value === 'object' && !Array.isArray(value));
+  return wrapped.length === 1 ? wrapped[0] as Record<string, unknown> : null;
+}
+
+function snapshot(value: unknown): unknown {
+  if (value === undefined) return null;
+  const length = JSON.stringify(value)?.length ?? 0;
+  return length > MAX_SNAPSHOT_LENGTH ? { truncated: true, length } : value;
+}
+
+/**
+ * Middleware to record an admin mutation in the audit log: who did it, to what, from
+ * which IP, and what the target looked like before and after. Only successful requests
+ * are logged. Use after requireAuth and requireAdmin.
+ */
+export function auditAdminAction(action: string, options: AuditOptions) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    let before: unknown = null;
+    if (options.loadBefore) {
+      try {
+        before = await options.loadBefore(req);
+      } catch (error) {
+        logger.warn('Could not load audit snapshot', { action, error });
+      }
+    }
+
+    let responseBody: unknown = null;
+    const originalJson = res.json.bind(res);
+    res.json = (body: unknown) => {
+      responseBody = body;
+      return originalJson(body);
+    };
+
+    res.on('finish', () => {
+      const adminId = req.user?.userId;
+      if (!adminId || res.statusCode >= 400) return;
+
+      const record = extractRecord(responseBody);
+      const paramId = req.params[options.targetParam || 'id'];
+      const targetId = paramId ?? (typeof record?.id === 'string' ? record.id : undefined);
+
+      uuidStorage.logAdminAction({
+        adminId,
+        action,
+        targetType: options.targetType,
+        // The column is a UUID; other identifiers (asset paths, item keys) go in details
+        targetId: targetId && UUID_REGEX.test(targetId) ? targetId : null,
+        details: {
+          method: req.method,
+          path: req.originalUrl,
+          target: targetId && !UUID_REGEX.test(targetId) ? targetId : undefined,
+          before: snapshot(before),
+          after: snapshot(record ?? responseBody),
+          changes: record ? diffSnapshots(before, record) : null
+        },
+        ipAddress: req.ip || null
+      }).catch(error => {
+        logger.error('Failed to write admin audit log', { action, error });
+      });
+    });
+
+    next();
+  };
+}
@@ -1,148 +1,223 @@
 import { Request, Response, NextFunction } from 'express';
 import { db } from '../db';
 import { classes, students } from '@shared/schema';
-import { eq } from 'drizzle-orm';
+import { and, eq, isNull } from 'drizzle-orm';
+import { isActiveStudent } from '../utils/student-scope';
 import { createSecureLogger } from '../utils/secure-logger';
+import { ErrorCode } from '../utils/errors';
 import type { AuthenticatedRequest } from '../types/api';
+import { getCollaboratorAccess, type ClassAccess, type ClassRole } from '../services/collaboratorService';
 
 const logger = createSecureLogger('Ownership');
 const UUID_REGEX = /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/;
 
 /**
- * Simple middleware to verify class ownership.
+ * The teacher's role on the class: owner, or an accepted co-teacher's role
+ */
+async function resolveClassAccess(ownerId: string, classId: string, teacherId: string): Promise<ClassAccess | null> {
+  if (ownerId === teacherId) {
+    return { role: 'owner', permissions: {} };
+  }
+  return getCollaboratorAccess(classId, teacherId);
+}
+
+interface ClassStateOptions {
+  // Let the request through while the class is archived (read-only otherwise)
+  allowArchived?: boolean;
+  // Only match deleted classes (restoring); otherwise deleted classes are not found
+  deleted?: boolean;
+}
+
+/**
+ * Middleware factory to verify the teacher has one of the given roles on a class.
  * 
  * The class ID can be provided in:
  * - req.params.classId
  * - req.params.id (when the route parameter is just 'id')
  * 
- * This middleware must be used after requireAuth middleware.
+ * Sets req.classAccess. Must be used after requireAuth middleware.
  */
-export const verifyClassAccess = async (req: Request, res: Response, next: NextFunction) => {
-  try {
-    const authReq = req as AuthenticatedRequest;
-    
-    // SECURITY: Only accept class ID from URL params to prevent IDOR attacks
-    const classId = req.params.classId || req.params.id;
-    const teacherId = authReq.user?.userId;
-
-    if (!classId) {
-      return res.status(400).json({ 
-        message: "Class ID is required in URL parameters" 
-      });
-    }
-
-    // Validate UUID format
-    if (!UUID_REGEX.test(classId)) {
-      logger.warn('Invalid class ID format attempted', { classId, teacherId });
-      return res.status(400).json({ 
-        message: "Invalid class ID format" 
-      });
-    }
-
-    if (!teacherId) {
-      return res.status(401).json({ 
-        message: "Authentication required" 
-      });
-    }
-
-    // Check if the teacher owns the class
-    const [classData] = await db
-      .select({ teacherId: classes.teacherId })
-      .from(classes)
-      .where(eq(classes.id, classId))
-      .limit(1);
-
-    if (!classData) {
-      logger.warn('Class not found', { classId, teacherId });
-      return res.status(404).json({ 
-        message: "Class not found" 
-      });
-    }
-
-    if (classData.teacherId !== teacherId) {
-      logger.warn('Unauthorized class access attempt', { 
-        classId, 
-        teacherId, 
-        ownerId: classData.teacherId 
-      });
-      return res.status(403).json({ 
-        message: "You don't have access to this class" 
+function verifyClassRole(allowedRoles: ClassRole[], stateOptions: ClassStateOptions = {}) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      
+      // SECURITY: Only accept class ID from URL params to prevent IDOR attacks
+      const classId = req.params.classId || req.params.id;
+      const teacherId = authReq.user?.userId;
+
+      if (!classId) {
+        return res.status(400).json({ 
+          message: "Class ID is required in URL parameters" 
+        });
+      }
+
+      // Validate UUID format
+      if (!UUID_REGEX.test(classId)) {
+        logger.warn('Invalid class ID format attempted', { classId, teacherId });
+        return res.status(400).json({ 
+          message: "Invalid class ID format" 
+        });
+      }
+
+      if (!teacherId) {
+        return res.status(401).json({ 
+          message: "Authentication required" 
+        });
+      }
+
+      const [classData] = await db
+        .select({ teacherId: classes.teacherId, isArchived: classes.isArchived, deletedAt: classes.deletedAt })
+        .from(classes)
+        .where(eq(classes.id, classId))
+        .limit(1);
+
+      if (!classData || !!classData.deletedAt !== !!stateOptions.deleted) {
+        logger.warn('Class not found', { classId, teacherId });
+        return res.status(404).json({ 
+          message: "Class not found" 
+        });
+      }
+
+      const access = await resolveClassAccess(classData.teacherId, classId, teacherId);
+
+      if (!access) {
+        logger.warn('Unauthorized class access attempt', { 
+          classId, 
+          teacherId, 
+          ownerId: classData.teacherId 
+        });
+        return res.status(403).json({ 
+          message: "You don't have access to this class" 
+        });
+      }
+
+      if (!allowedRoles.includes(access.role)) {
+        logger.warn('Class action beyond collaborator role', { classId, teacherId, role: access.role });
+        return res.status(403).json({ 
+          message: access.role === 'viewer'
+            ? "You can view this class but not make changes"
+            : "Only the class owner can do this"
+        });
+      }
+
+      if (classData.isArchived && !stateOptions.allowArchived) {
+        return res.status(403).json({ 
+          message: "This class is archived. Unarchive it to make changes.",
+          code: ErrorCode.BIZ_012
+        });
+      }
+
+      req.classAccess = access;
+      next();
+    } catch (error) {
+      logger.error('Error checking class ownership', error);
+      res.status(500).json({ 
+        message: "Failed to verify class ownership" 
       });
     }
-
-    next();
-  } catch (error) {
-    logger.error('Error checking class ownership', error);
-    res.status(500).json({ 
-      message: "Failed to verify class ownership" 
-    });
-  }
-};
+  };
+}
 
 /**
- * Alias for verifyClassAccess since edit access is the same as ownership
+ * Read access: the owner and any co-teacher
  */
-export const verifyClassEditAccess = verifyClassAccess;
+export const verifyClassAccess = verifyClassRole(['owner', 'editor', 'viewer'], { allowArchived: true });
 
 /**
- * Middleware to verify student belongs to teacher's class
+ * Changes to the class: the owner and co-teachers with the editor role
  */
-export const verifyStudentClassAccess = async (req: Request, res: Response, next: NextFunction) => {
-  try {
-    const authReq = req as AuthenticatedRequest;
-    const studentId = req.params.studentId || req.params.id || req.body.studentId;
-    const teacherId = authReq.user?.userId;
-
-    if (!studentId || !teacherId) {
-      return res.status(400).json({ 
-        message: "Student ID and authentication required" 
-      });
-    }
+export const verifyClassEditAccess = verifyClassRole(['owner', 'editor']);
 
-    // Get student with their class ownership info
-    const [student] = await db
-      .select({
-        classId: students.classId,
-        teacherId: classes.teacherId
-      })
-      .from(students)
-      .leftJoin(classes, eq(students.classId, classes.id))
-      .where(eq(students.id, studentId))
-      .limit(1);
-
-    if (!student) {
-      logger.warn('Student not found', { studentId, teacherId });
-      return res.status(404).json({ 
-        message: "Student not found" 
+/**
+ * Middleware factory to verify a student is in a class the teacher has one of the
+ * given roles on
+ */
+function verifyStudentClassRole(allowedRoles: ClassRole[], stateOptions: Pick<ClassStateOptions, 'allowArchived'> = {}) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const studentId = req.params.studentId || req.params.id || req.body.studentId;
+      const teacherId = authReq.user?.userId;
+
+      if (!studentId || !teacherId) {
+        return res.status(400).json({ 
+          message: "Student ID and authentication required" 
+        });
+      }
+
+      // Get student with their class ownership info
+      const [student] = await db
+        .select({
+          classId: students.classId,
+          teacherId: classes.teacherId,
+          isArchived: classes.isArchived
+        })
+        .from(students)
+        .leftJoin(classes, eq(students.classId, classes.id))
+        .where(and(eq(students.id, studentId), isActiveStudent(), isNull(classes.deletedAt)))
+        .limit(1);
+
+      if (!student) {
+        logger.warn('Student not found', { studentId, teacherId });
+        return res.status(404).json({ 
+          message: "Student not found" 
+        });
+      }
+
+      const access = student.teacherId
+        ? await resolveClassAccess(student.teacherId, student.classId, teacherId)
+        : null;
+
+      if (!access || !allowedRoles.includes(access.role)) {
+        logger.warn('Unauthorized student access attempt', { 
+          studentId, 
+          teacherId, 
+          classOwnerId: student.teacherId,
+          role: access?.role
+        });
+        return res.status(403).json({ 
+          message: access?.role === 'viewer'
+            ? "You can view this student but not make changes"
+            : "You don't have access to this student" 
+        });
+      }
+
+      if (student.isArchived && !stateOptions.allowArchived) {
+        return res.status(403).json({ 
+          message: "This class is archived. Unarchive it to make changes.",
+          code: ErrorCode.BIZ_012
+        });
+      }
+
+      req.classAccess = access;
+      next();
+    } catch (error) {
+      logger.error('Error checking student access', error);
+      res.status(500).json({ 
+        message: "Failed to verify student access" 
       });
     }
+  };
+}
 
-    if (student.teacherId !== teacherId) {
-      logger.warn('Unauthorized student access attempt', { 
-        studentId, 
-        teacherId, 
-        classOwnerId: student.teacherId 
-      });
-      return res.status(403).json({ 
-        message: "You don't have access to this student" 
-      });
-    }
+/**
+ * Read access to a student: the class owner and any co-teacher
+ */
+export const verifyStudentClassAccess = verifyStudentClassRole(['owner', 'editor', 'viewer'], { allowArchived: true });
 
-    next();
-  } catch (error) {
-    logger.error('Error checking student access', error);
-    res.status(500).json({ 
-      message: "Failed to verify student access" 
-    });
-  }
-};
+/**
+ * Changes to a student: the class owner and co-teachers with the editor role
+ */
+export const verifyStudentClassEditAccess = verifyStudentClassRole(['owner', 'editor']);
 
 /**
- * Alias for verifyStudentClassAccess since edit access is the same as ownership
+ * Only the class owner: deleting the class and deciding who else has access.
+ * Allowed while archived, so the owner can unarchive, delete or hand it over.
  */
-export const verifyStudentClassEditAccess = verifyStudentClassAccess;
+export const requireClassOwner = verifyClassRole(['owner'], { allowArchived: true });
 
 /**
- * Middleware to verify class ownership for routes that require it
+ * The owner of a deleted class, to restore it
  */
-export const requireClassOwner = verifyClassAccess;
\ No newline at end of file
+export const requireDeletedClassOwner = verifyClassRole(['owner'], { allowArchived: true, deleted: true });
\ No newline at end of file
@@ -1,6 +1,7 @@
 import type { Request, Response, NextFunction } from "express";
 import { supabaseAdmin } from '../supabase-clients';
 import { createSecureLogger, sanitizeError } from '../utils/secure-logger';
+import { getStudentSignInBlock } from '../services/classLifecycleService';
 
 // Rate limiting for brute force protection
 const failedAttempts = new Map<string, { count: number; lastAttempt: number }>();
@@ -105,6 +106,13 @@ export async function requireStudentAuth(req: Request, res: Response, next: Next
       failedAttempts.delete(clientIP);
     }
 
+    // The code is right, but the student or their class is archived or deleted
+    const signInBlock = await getStudentSignInBlock(studentData.student_id);
+    if (signInBlock) {
+      logger.info('Student auth refused: class archived or student deleted', { studentId: studentData.student_id });
+      return res.status(403).json({ error: signInBlock });
+    }
+
     // Add student data to request object for use in route handlers
     // The optimized function now returns all data in one call
     req.student = {
@@ -152,7 +160,7 @@ export async function optionalStudentAuth(req: Request, res: Response, next: Nex
       .rpc('validate_student_login', { p_passport_code: passportCode })
       .single() as { data: StudentLoginData | null, error: any };
 
-    if (!error && studentData) {
+    if (!error && studentData && !(await getStudentSignInBlock(studentData.student_id))) {
       // Add student data to request using optimized data from RPC
       req.student = {
         id: studentData.student_id,
@@ -1,20 +1,28 @@
 import { Request, Response, NextFunction } from 'express';
+import type { CollaboratorPermission } from '@shared/schema';
+import { hasPermission } from '../services/collaboratorService';
 
 /**
- * Placeholder for permission check middleware
- * All collaborator functionality has been removed
+ * Co-teacher permission check. Owners can do everything; co-teachers get their role's
+ * defaults unless the class owner changed them on the invitation.
+ * 
+ * Must be used after verifyClassAccess / verifyClassEditAccess, which work out the role.
  */
-export function requirePermission(_permission: string) {
-  return async (_req: Request, _res: Response, next: NextFunction) => {
-    // Permission checks have been removed - using simple ownership checks instead
+export function requirePermission(permission: CollaboratorPermission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.classAccess || !hasPermission(req.classAccess, permission)) {
+      return res.status(403).json({ 
+        message: "The class owner hasn't given you permission to do this" 
+      });
+    }
     next();
   };
 }
 
-// Convenience middleware for common permissions (now just pass-through)
+// Convenience middleware for common permissions
 export const requireManageStudents = requirePermission('can_manage_students');
 export const requireManageStore = requirePermission('can_manage_store');
 export const requireViewAnalytics = requirePermission('can_view_analytics');
 export const requireExportData = requirePermission('can_export_data');
 export const requireSendMessages = requirePermission('can_send_messages');
-export const requireManageCurriculum = requirePermission('can_manage_curriculum');
\ No newline at end of file
+export const requireManageCurriculum = requirePermission('can_manage_curriculum');
@@ -1,9 +1,11 @@
 import type { Request, Response, NextFunction } from 'express';
 import { db } from '../db';
 import { students } from '@shared/schema';
-import { eq } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
+import { isActiveStudent } from '../utils/student-scope';
 import { supabaseAdmin } from '../supabase-clients';
 import { getCachedProfile } from './profile-cache';
+import { isBlockedBy } from '../services/studentSafetyService';
 // JWT imports removed - using unified auth
 
 /**
@@ -26,7 +28,7 @@ export async function checkRoomAccess(req: Request, res: Response, next: NextFun
         studentName: students.studentName
       })
       .from(students)
-      .where(eq(students.passportCode, passportCode))
+      .where(and(eq(students.passportCode, passportCode), isActiveStudent()))
       .limit(1);
 
     if (!roomOwner) {
@@ -120,7 +122,15 @@ export async function checkRoomAccess(req: Request, res: Response, next: NextFun
         return next();
       }
 
-      // Check 4: Room visibility settings
+      // Check 4: The owner blocked this classmate
+      if (await isBlockedBy(roomOwner.id, req.student.id)) {
+        return res.status(403).json({ 
+          message: 'You can\'t visit this room',
+          blocked: true
+        });
+      }
+
+      // Check 5: Room visibility settings
       const visibility = roomOwner.roomVisibility || 'class'; // Default to 'class' for backwards compatibility
 
       switch (visibility) {
@@ -191,7 +201,7 @@ export async function publicRoomAccess(req: Request, res: Response, next: NextFu
         classId: students.classId
       })
       .from(students)
-      .where(eq(students.passportCode, passportCode))
+      .where(and(eq(students.passportCode, passportCode), isActiveStudent()))
       .limit(1);
 
     if (!roomOwner) {
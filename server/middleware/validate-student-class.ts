@@ -1,7 +1,8 @@
 import type { Request, Response, NextFunction } from 'express';
 import { db } from '../db';
 import { students } from '@shared/schema';
-import { eq } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
+import { isActiveStudent } from '../utils/student-scope';
 
 // Extend Express Request type
 declare global {
@@ -37,7 +38,7 @@ export async function validateStudentAccess(req: Request, res: Response, next: N
         studentName: students.studentName
       })
       .from(students)
-      .where(eq(students.passportCode, passportCode))
+      .where(and(eq(students.passportCode, passportCode), isActiveStudent()))
       .limit(1);
     
     if (!student) {
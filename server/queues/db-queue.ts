@@ -0,0 +1,406 @@
+import { EventEmitter } from 'events';
+import os from 'os';
+import { db } from '../db';
+import { backgroundJobs, backgroundJobCache, type BackgroundJob } from '@shared/schema';
+import { and, eq, inArray, lt, lte, sql } from 'drizzle-orm';
+import { createManagedInterval } from '../lib/resource-cleanup';
+
+export type JobState = 'waiting' | 'active' | 'completed' | 'failed' | 'cancelled';
+
+export interface DbQueueOptions {
+  attempts?: number;        // Default max attempts per job
+  backoffMs?: number;       // First retry delay; doubles on each retry
+  pollIntervalMs?: number;
+  lockTimeoutMs?: number;   // Active jobs not heard from for this long are treated as stalled
+  retentionMs?: number;     // Finished jobs are deleted after this long
+}
+
+export interface AddJobOptions {
+  ownerId?: string | null;  // Teacher allowed to read / cancel the job
+  attempts?: number;
+  backoffMs?: number;
+  delayMs?: number;
+}
+
+/**
+ * Job record in the shape callers already use for Bull jobs
+ * (id, name, data, progress, finishedOn, processedOn). `T` is the job's data as it
+ * was added; it comes back from a JSON column, so it is only as typed as the caller says.
+ */
+export interface DbJob<T = unknown> {
+  id: string;
+  name: string;
+  data: T;
+  status: JobState;
+  progress: number;
+  result: unknown;
+  error: string | null;
+  attemptsMade: number;
+  ownerId: string | null;
+  processedOn: number | null;
+  finishedOn: number | null;
+}
+
+/**
+ * What a processor gets: the job plus progress reporting and a cancellation check.
+ * progress() and queue.client match Bull's job, so processors run on either queue.
+ */
+export interface DbJobContext<T = unknown> extends Omit<DbJob<T>, 'progress'> {
+  queue: DbQueue;
+  progress(value: number): Promise<void>;
+  isCancelled(): Promise<boolean>;
+}
+
+export type DbJobProcessor<T = unknown> = (job: DbJobContext<T>) => Promise<unknown>;
+
+const WORKER_ID = `${os.hostname()}:${process.pid}`;
+const RECOVER_EVERY_MS = 30 * 1000;
+const PRUNE_EVERY_MS = 10 * 60 * 1000;
+
+function toDbJob(row: BackgroundJob): DbJob {
+  return {
+    id: row.id,
+    name: row.name,
+    data: row.data,
+    status: row.status as JobState,
+    progress: row.progress,
+    result: row.result,
+    error: row.error,
+    attemptsMade: row.attempts,
+    ownerId: row.ownerId,
+    processedOn: row.startedAt ? row.startedAt.getTime() : null,
+    finishedOn: row.finishedAt ? row.finishedAt.getTime() : null
+  };
+}
+
+/**
+ * Database-backed job queue with the parts of Bull's API this app uses
+ * (add / process / getJob / getJobs / on / client). Jobs, progress and results
+ * live in background_jobs, so they survive restarts and every instance sees them.
+ * Workers claim jobs with FOR UPDATE SKIP LOCKED, so several instances can poll
+ * the same queue safely.
+ */
+export class DbQueue extends EventEmitter {
+  private processors = new Map<string, DbJobProcessor>();
+  private pollHandle: NodeJS.Timeout | null = null;
+  private polling = false;
+  private lastRecover = 0;
+  private lastPrune = 0;
+  private readonly options: Required<DbQueueOptions>;
+
+  constructor(public readonly name: string, options: DbQueueOptions = {}) {
+    super();
+    this.options = {
+      attempts: options.attempts ?? 3,
+      backoffMs: options.backoffMs ?? 2000,
+      pollIntervalMs: options.pollIntervalMs ?? 1000,
+      lockTimeoutMs: options.lockTimeoutMs ?? 10 * 60 * 1000,
+      retentionMs: options.retentionMs ?? 7 * 24 * 60 * 60 * 1000
+    };
+  }
+
+  /**
+   * Queue a job
+   */
+  async add(jobName: string, data: unknown, opts: AddJobOptions = {}): Promise<DbJob> {
+    const [row] = await db
+      .insert(backgroundJobs)
+      .values({
+        queue: this.name,
+        name: jobName,
+        data: data ?? {},
+        ownerId: opts.ownerId ?? null,
+        maxAttempts: opts.attempts ?? this.options.attempts,
+        backoffMs: opts.backoffMs ?? this.options.backoffMs,
+        runAt: new Date(Date.now() + (opts.delayMs ?? 0))
+      })
+      .returning();
+
+    return toDbJob(row);
+  }
+
+  /**
+   * Register the processor for a job name and start polling for work
+   */
+  process<T = unknown>(jobName: string, processor: DbJobProcessor<T>): void {
+    this.processors.set(jobName, processor as DbJobProcessor);
+
+    if (!this.pollHandle) {
+      this.pollHandle = createManagedInterval(() => {
+        this.poll().catch(error => {
+          console.error(`[DbQueue ${this.name}] Poll failed:`, error);
+        });
+      }, this.options.pollIntervalMs, `db-queue:${this.name}`);
+    }
+  }
+
+  async getJob(jobId: string | number): Promise<DbJob | null> {
+    const id = String(jobId);
+    // Job IDs are UUIDs; anything else can't exist (and would fail the uuid cast)
+    if (!/^[0-9a-f-]{36}$/i.test(id)) return null;
+
+    const [row] = await db
+      .select()
+      .from(backgroundJobs)
+      .where(and(eq(backgroundJobs.id, id), eq(backgroundJobs.queue, this.name)))
+      .limit(1);
+
+    return row ? toDbJob(row) : null;
+  }
+
+  /**
+   * Jobs in the given states. Bull's 'delayed' is a waiting job with a later run_at here.
+   */
+  async getJobs(states: string[]): Promise<DbJob[]> {
+    const statuses = [...new Set(states.map(state => (state === 'delayed' ? 'waiting' : state)))];
+    if (statuses.length === 0) return [];
+
+    const rows = await db
+      .select()
+      .from(backgroundJobs)
+      .where(and(eq(backgroundJobs.queue, this.name), inArray(backgroundJobs.status, statuses)))
+      .orderBy(backgroundJobs.createdAt)
+      .limit(500);
+
+    return rows.map(toDbJob);
+  }
+
+  /**
+   * Cancel a waiting or running job. A running processor finds out through
+   * isCancelled(); whatever it returns afterwards is discarded. Emits 'cancelled'.
+   */
+  async cancel(jobId: string): Promise<boolean> {
+    const [row] = await db
+      .update(backgroundJobs)
+      .set({ status: 'cancelled', finishedAt: new Date(), lockedBy: null, updatedAt: new Date() })
+      .where(and(
+        eq(backgroundJobs.id, jobId),
+        eq(backgroundJobs.queue, this.name),
+        inArray(backgroundJobs.status, ['waiting', 'active'])
+      ))
+      .returning();
+
+    if (row) {
+      this.emit('cancelled', toDbJob(row));
+    }
+    return !!row;
+  }
+
+  /**
+   * Expiring key/value store standing in for Bull's Redis client
+   */
+  readonly client = {
+    get: async (key: string): Promise<string | null> => {
+      const [entry] = await db
+        .select()
+        .from(backgroundJobCache)
+        .where(eq(backgroundJobCache.key, key))
+        .limit(1);
+
+      return entry && entry.expiresAt > new Date() ? entry.value : null;
+    },
+    setex: async (key: string, ttlSeconds: number, value: string): Promise<void> => {
+      const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+      await db
+        .insert(backgroundJobCache)
+        .values({ key, value, expiresAt })
+        .onConflictDoUpdate({ target: backgroundJobCache.key, set: { value, expiresAt } });
+    }
+  };
+
+  /**
+   * Stop polling (jobs already running finish on their own)
+   */
+  close(): void {
+    if (this.pollHandle) {
+      clearInterval(this.pollHandle);
+      this.pollHandle = null;
+    }
+  }
+
+  private async poll(): Promise<void> {
+    // One job at a time per instance
+    if (this.polling || this.processors.size === 0) return;
+    this.polling = true;
+
+    try {
+      if (Date.now() - this.lastRecover > RECOVER_EVERY_MS) {
+        this.lastRecover = Date.now();
+        await this.recoverStalled();
+      }
+      if (Date.now() - this.lastPrune > PRUNE_EVERY_MS) {
+        this.lastPrune = Date.now();
+        await this.prune();
+      }
+
+      const row = await this.claimNext();
+      if (row) {
+        await this.run(row);
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async claimNext(): Promise<BackgroundJob | null> {
+    return db.transaction(async (tx) => {
+      const [next] = await tx
+        .select({ id: backgroundJobs.id })
+        .from(backgroundJobs)
+        .where(and(
+          eq(backgroundJobs.queue, this.name),
+          eq(backgroundJobs.status, 'waiting'),
+          lte(backgroundJobs.runAt, new Date()),
+          inArray(backgroundJobs.name, [...this.processors.keys()])
+        ))
+        .orderBy(backgroundJobs.runAt)
+        .limit(1)
+        .for('update', { skipLocked: true });
+
+      if (!next) return null;
+
+      const [claimed] = await tx
+        .update(backgroundJobs)
+        .set({
+          status: 'active',
+          attempts: sql`${backgroundJobs.attempts} + 1`,
+          lockedBy: WORKER_ID,
+          lockedAt: new Date(),
+          startedAt: sql`COALESCE(${backgroundJobs.startedAt}, NOW())`,
+          updatedAt: new Date()
+        })
+        .where(eq(backgroundJobs.id, next.id))
+        .returning();
+
+      return claimed;
+    });
+  }
+
+  private async run(row: BackgroundJob): Promise<void> {
+    const processor = this.processors.get(row.name)!;
+    const job: DbJobContext = {
+      ...toDbJob(row),
+      queue: this,
+      progress: async (value: number) => {
+        const progress = Math.max(0, Math.min(100, Math.round(value)));
+        await db
+          .update(backgroundJobs)
+          .set({ progress, lockedAt: new Date(), updatedAt: new Date() })
+          .where(and(eq(backgroundJobs.id, row.id), eq(backgroundJobs.status, 'active')));
+      },
+      isCancelled: async () => {
+        const [current] = await db
+          .select({ status: backgroundJobs.status })
+          .from(backgroundJobs)
+          .where(eq(backgroundJobs.id, row.id))
+          .limit(1);
+        return current?.status === 'cancelled';
+      }
+    };
+
+    // Keep the lock fresh while the processor runs, whether or not it reports progress,
+    // so a long job isn't taken for stalled and run a second time
+    const heartbeat = setInterval(() => {
+      this.renewLock(row.id).catch(error => {
+        console.error(`[DbQueue ${this.name}] Heartbeat for job ${row.id} failed:`, error);
+      });
+    }, Math.max(1000, Math.floor(this.options.lockTimeoutMs / 4)));
+    heartbeat.unref();
+
+    try {
+      const result = await processor(job);
+
+      // Only an active job can complete; a cancelled one stays cancelled
+      const [completed] = await db
+        .update(backgroundJobs)
+        .set({
+          status: 'completed',
+          progress: 100,
+          result: result ?? null,
+          error: null,
+          lockedBy: null,
+          finishedAt: new Date(),
+          updatedAt: new Date()
+        })
+        .where(and(eq(backgroundJobs.id, row.id), eq(backgroundJobs.status, 'active')))
+        .returning();
+
+      if (completed) {
+        this.emit('completed', toDbJob(completed), result);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const retry = row.attempts < row.maxAttempts;
+      const delay = row.backoffMs * 2 ** (row.attempts - 1);
+
+      const [failed] = await db
+        .update(backgroundJobs)
+        .set({
+          status: retry ? 'waiting' : 'failed',
+          error: message,
+          lockedBy: null,
+          lockedAt: null,
+          runAt: retry ? new Date(Date.now() + delay) : undefined,
+          finishedAt: retry ? null : new Date(),
+          updatedAt: new Date()
+        })
+        .where(and(eq(backgroundJobs.id, row.id), eq(backgroundJobs.status, 'active')))
+        .returning();
+
+      if (failed && !retry) {
+        this.emit('failed', toDbJob(failed), error);
+      } else if (failed) {
+        console.warn(`[DbQueue ${this.name}] Job ${row.id} failed (attempt ${row.attempts}/${row.maxAttempts}), retrying in ${delay}ms`);
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async renewLock(jobId: string): Promise<void> {
+    await db
+      .update(backgroundJobs)
+      .set({ lockedAt: new Date(), updatedAt: new Date() })
+      .where(and(
+        eq(backgroundJobs.id, jobId),
+        eq(backgroundJobs.status, 'active'),
+        eq(backgroundJobs.lockedBy, WORKER_ID)
+      ));
+  }
+
+  /**
+   * Put back jobs whose worker went away mid-run (crash, deploy), or fail them
+   * if they've used all their attempts
+   */
+  private async recoverStalled(): Promise<void> {
+    const stalledBefore = new Date(Date.now() - this.options.lockTimeoutMs);
+    const exhausted = sql`${backgroundJobs.attempts} >= ${backgroundJobs.maxAttempts}`;
+
+    await db
+      .update(backgroundJobs)
+      .set({
+        status: sql`CASE WHEN ${exhausted} THEN 'failed' ELSE 'waiting' END`,
+        error: 'Worker stopped while processing the job',
+        finishedAt: sql`CASE WHEN ${exhausted} THEN NOW() ELSE NULL END`,
+        lockedBy: null,
+        lockedAt: null,
+        updatedAt: new Date()
+      })
+      .where(and(
+        eq(backgroundJobs.queue, this.name),
+        eq(backgroundJobs.status, 'active'),
+        lt(backgroundJobs.lockedAt, stalledBefore)
+      ));
+  }
+
+  private async prune(): Promise<void> {
+    await db
+      .delete(backgroundJobs)
+      .where(and(
+        eq(backgroundJobs.queue, this.name),
+        inArray(backgroundJobs.status, ['completed', 'failed', 'cancelled']),
+        lt(backgroundJobs.finishedAt, new Date(Date.now() - this.options.retentionMs))
+      ));
+    await db.delete(backgroundJobCache).where(lt(backgroundJobCache.expiresAt, new Date()));
+  }
+}
@@ -0,0 +1,78 @@
+import Bull from 'bull';
+import { buildClassExport, cancelClassExport, pruneExpiredExports } from '../services/classExportService';
+import { createManagedInterval } from '../lib/resource-cleanup';
+import { DbQueue } from './db-queue';
+
+const REDIS_URL = process.env.REDIS_URL;
+
+// Same backend choice as the pairing queue: Bull with Redis, the database queue without
+let exportQueue: any;
+
+if (!REDIS_URL) {
+  exportQueue = new DbQueue('class-exports', { attempts: 2, backoffMs: 5000 });
+} else {
+  exportQueue = new Bull('class-exports', REDIS_URL, {
+    defaultJobOptions: {
+      removeOnComplete: 100,
+      removeOnFail: 50,
+      attempts: 2,
+      backoff: {
+        type: 'exponential',
+        delay: 5000,
+      },
+    },
+  });
+}
+
+// Build a class export; the file is stored on the class_exports row, the job just returns its summary
+exportQueue.process('build-class-export', async (job: Bull.Job) => {
+  const { exportId } = job.data;
+
+  console.log(`[Export Queue] Building export ${exportId}`);
+
+  try {
+    const record = await buildClassExport(exportId, progress => job.progress(progress));
+    console.log(`[Export Queue] Completed export ${exportId} (${record.sizeBytes} bytes)`);
+    return record;
+  } catch (error) {
+    console.error(`[Export Queue] Error building export ${exportId}:`, error);
+    throw error;
+  }
+});
+
+exportQueue.on('failed', (job: Bull.Job, err: Error) => {
+  console.error(`[Export Queue] Job ${job.id} failed:`, err.message);
+});
+
+// A cancelled job never finishes its export, so fail the export rather than leave it pending.
+// The database queue emits 'cancelled'; Bull emits 'removed' for the waiting jobs it can drop.
+const failCancelledExport = (job: { data?: { exportId?: string } } | string) => {
+  const exportId = typeof job === 'object' ? job.data?.exportId : undefined;
+  if (!exportId) return;
+
+  cancelClassExport(exportId).catch(error => {
+    console.error(`[Export Queue] Failed to mark export ${exportId} cancelled:`, error);
+  });
+};
+exportQueue.on('cancelled', failCancelledExport);
+exportQueue.on('removed', failCancelledExport);
+
+// Expired exports hold whole files, so clear them out hourly
+createManagedInterval(() => {
+  pruneExpiredExports()
+    .then(removed => {
+      if (removed > 0) console.log(`[Export Queue] Removed ${removed} expired exports`);
+    })
+    .catch(error => console.error('[Export Queue] Failed to prune expired exports:', error));
+}, 60 * 60 * 1000, 'class-export-prune');
+
+/**
+ * Queue an export to be built in the background. Bull numbers jobs per queue,
+ * so its job ID is derived from the export to keep it distinct from pairing jobs.
+ */
+export async function queueClassExport(exportId: string, ownerId: string): Promise<string> {
+  const job = await exportQueue.add('build-class-export', { exportId }, { ownerId, jobId: `export-${exportId}` });
+  return String(job.id);
+}
+
+export { exportQueue };
@@ -1,114 +1,36 @@
 import Bull from 'bull';
 import { generatePairings, generateClassInsights } from '../services/pairingService';
 import { uuidStorage } from '../storage-uuid';
-
-// Simple in-memory cache for development (replace with Redis in production)
-const memoryCache = new Map<string, any>();
+import { createGrouping } from '../services/classGroupingService';
+import { DbQueue } from './db-queue';
 
 // Create queue with Redis connection from environment
-const REDIS_URL = process.env.REDIS_URL || 'redis://localhost:6379';
+const REDIS_URL = process.env.REDIS_URL;
 
-// For development without Redis, we'll use a simple worker pattern
+// Bull (Redis) when REDIS_URL is set, otherwise the database-backed queue.
+// Both keep jobs and cached results across restarts; the processors below run on either.
 let pairingQueue: any;
 
-if (process.env.NODE_ENV === 'development' && !process.env.REDIS_URL) {
-  console.log('⚠️  Running without Redis - using in-memory worker for development');
-  
-  // Simple in-memory queue for development
-  pairingQueue = {
-    jobs: new Map(),
-    nextJobId: 1,
-    
-    async add(jobName: string, data: any) {
-      const jobId = this.nextJobId++;
-      const job = {
-        id: jobId,
-        name: jobName,
-        data,
-        status: 'waiting',
-        result: null as any,
-        error: null as any
-      };
-      
-      this.jobs.set(jobId, job);
-      
-      // Process asynchronously
-      setTimeout(async () => {
-        console.log(`[Queue] Starting job ${jobId} for ${jobName}`);
-        job.status = 'active';
-        try {
-          if (jobName === 'generate-pairings') {
-            const { classId } = data;
-            console.log(`[Queue] Fetching analytics for class ${classId}`);
-            const allSubmissions = await uuidStorage.getClassAnalytics(classId);
-            
-            console.log(`[Queue] Got ${allSubmissions?.length || 0} submissions`);
-            
-            if (!allSubmissions || allSubmissions.length === 0) {
-              job.result = { dynamicDuos: [], puzzlePairings: [], soloWorkers: [] };
-              console.log('[Queue] No submissions, returning empty result');
-            } else {
-              console.log('[Queue] Generating pairings...');
-              job.result = generatePairings(allSubmissions);
-              console.log('[Queue] Pairings generated successfully');
-            }
-            
-            // Store in memory cache with expiration
-            memoryCache.set(`pairings:${classId}`, job.result);
-            console.log(`[Queue] Cached result for class ${classId}`);
-            
-            // Clean up cache after 1 hour
-            setTimeout(() => {
-              memoryCache.delete(`pairings:${classId}`);
-            }, 3600000);
-            
-            job.status = 'completed';
-            console.log(`[Queue] Job ${jobId} completed successfully`);
-          }
-        } catch (error) {
-          console.error(`[Queue] Job ${jobId} failed:`, error);
-          job.error = error;
-          job.status = 'failed';
-        } finally {
-          // CRITICAL: Clean up job after processing to prevent memory leak
-          setTimeout(() => {
-            this.jobs.delete(jobId);
-          }, 60000); // Keep completed/failed jobs for 1 minute for debugging
-        }
-      }, 0);
-      
-      return job;
-    },
-    
-    async getJob(jobId: number) {
-      return this.jobs.get(jobId);
-    },
-    
-    async getJobs(states: string[]) {
-      return Array.from(this.jobs.values()).filter((job: any) => states.includes(job.status));
-    },
-    
-    client: {
-      get: async (key: string) => memoryCache.get(key) ? JSON.stringify(memoryCache.get(key)) : null,
-      setex: async (key: string, ttl: number, value: string) => memoryCache.set(key, JSON.parse(value))
-    }
-  };
+if (!REDIS_URL) {
+  console.log('⚠️  REDIS_URL not set - using the database job queue');
+  pairingQueue = new DbQueue('pairing-generation', { attempts: 3, backoffMs: 2000 });
 } else {
   // Production queue with Redis
   pairingQueue = new Bull('pairing-generation', REDIS_URL, {
-  defaultJobOptions: {
-    removeOnComplete: 100, // Keep last 100 completed jobs
-    removeOnFail: 50,      // Keep last 50 failed jobs
-    attempts: 3,           // Retry 3 times on failure
-    backoff: {
-      type: 'exponential',
-      delay: 2000,
+    defaultJobOptions: {
+      removeOnComplete: 100, // Keep last 100 completed jobs
+      removeOnFail: 50,      // Keep last 50 failed jobs
+      attempts: 3,           // Retry 3 times on failure
+      backoff: {
+        type: 'exponential',
+        delay: 2000,
+      },
     },
-  },
-});
+  });
+}
 
-  // Process pairing jobs
-  pairingQueue.process('generate-pairings', async (job: Bull.Job) => {
+// Process pairing jobs
+pairingQueue.process('generate-pairings', async (job: Bull.Job) => {
   const { classId } = job.data;
   
   console.log(`[Pairing Queue] Starting pairing generation for class ${classId}`);
@@ -116,19 +38,14 @@ if (process.env.NODE_ENV === 'development' && !process.env.REDIS_URL) {
   try {
     // Get all submissions for the class using getClassAnalytics for properly formatted data
     const allSubmissions = await uuidStorage.getClassAnalytics(classId);
-    
-    if (!allSubmissions || allSubmissions.length === 0) {
-      return {
-        dynamicDuos: [],
-        puzzlePairings: [],
-        soloWorkers: []
-      };
-    }
+    await job.progress(50);
     
     // Generate pairings (this is the CPU-intensive part)
-    const pairings = generatePairings(allSubmissions);
+    const pairings = allSubmissions && allSubmissions.length > 0
+      ? generatePairings(allSubmissions)
+      : { dynamicDuos: [], puzzlePairings: [], soloWorkers: [] };
     
-    // Store result in Redis with 1 hour TTL
+    // Cache the result with 1 hour TTL
     const cacheKey = `pairings:${classId}`;
     await job.queue.client.setex(cacheKey, 3600, JSON.stringify(pairings));
     
@@ -156,7 +73,7 @@ pairingQueue.process('generate-insights', async (job: Bull.Job) => {
     
     const insights = generateClassInsights(allSubmissions);
     
-    // Store result in Redis with 1 hour TTL
+    // Cache the result with 1 hour TTL
     const cacheKey = `insights:${classId}`;
     await job.queue.client.setex(cacheKey, 3600, JSON.stringify(insights));
     
@@ -169,15 +86,30 @@ pairingQueue.process('generate-insights', async (job: Bull.Job) => {
   }
 });
 
-  // Queue event handlers
-  pairingQueue.on('completed', (job: Bull.Job, _result: any) => {
-    console.log(`[Pairing Queue] Job ${job.id} completed successfully`);
-  });
+// Process seating group jobs (results are saved to class_groupings, not cached)
+pairingQueue.process('generate-groups', async (job: Bull.Job) => {
+  const { classId, teacherId, options } = job.data;
+  
+  console.log(`[Pairing Queue] Starting group generation for class ${classId}`);
+  
+  try {
+    const grouping = await createGrouping(classId, teacherId, options);
+    console.log(`[Pairing Queue] Saved grouping ${grouping.id} for class ${classId}`);
+    return grouping;
+  } catch (error) {
+    console.error(`[Pairing Queue] Error generating groups for class ${classId}:`, error);
+    throw error;
+  }
+});
 
-  pairingQueue.on('failed', (job: Bull.Job, err: Error) => {
-    console.error(`[Pairing Queue] Job ${job.id} failed:`, err.message);
-  });
-}
+// Queue event handlers
+pairingQueue.on('completed', (job: Bull.Job, _result: any) => {
+  console.log(`[Pairing Queue] Job ${job.id} completed successfully`);
+});
+
+pairingQueue.on('failed', (job: Bull.Job, err: Error) => {
+  console.error(`[Pairing Queue] Job ${job.id} failed:`, err.message);
+});
 
 export { pairingQueue };
 
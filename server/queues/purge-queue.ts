@@ -0,0 +1,28 @@
+import { asyncTaskManager } from '../services/asyncTaskManager';
+import { purgeExpired } from '../services/classLifecycleService';
+import { createManagedInterval } from '../lib/resource-cleanup';
+
+const TASK_NAME = 'lifecycle-purge';
+
+// Permanently remove classes and students deleted more than the restore window ago
+asyncTaskManager.registerTask(TASK_NAME, async () => {
+  const result = await purgeExpired();
+  if (result.classesRemoved > 0 || result.studentsRemoved > 0) {
+    console.log(`[Lifecycle] Purged ${result.classesRemoved} classes and ${result.studentsRemoved} students`);
+  }
+  return result;
+});
+
+// Purging is idempotent, so every server can queue it hourly
+createManagedInterval(() => {
+  asyncTaskManager.enqueue(TASK_NAME, {})
+    .catch(error => console.error('[Lifecycle] Failed to schedule purge:', error));
+}, 60 * 60 * 1000, 'lifecycle-purge');
+
+/**
+ * Queue a purge to run now rather than waiting for the hourly one
+ */
+export async function queueLifecyclePurge(requestedBy: string): Promise<string> {
+  const job = await asyncTaskManager.enqueue(TASK_NAME, {}, { ownerId: requestedBy });
+  return String(job.id);
+}
@@ -0,0 +1,35 @@
+import { asyncTaskManager } from '../services/asyncTaskManager';
+import { getLatestFullReconciliation, runReconciliation } from '../services/ledgerService';
+import { createManagedInterval } from '../lib/resource-cleanup';
+
+const TASK_NAME = 'ledger-reconciliation';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Recompute balances from the ledger; the report is kept on the ledger_reconciliations row
+asyncTaskManager.registerTask<{ classId?: string | null; requestedBy?: string | null }>(TASK_NAME, async (job) => {
+  const { classId, requestedBy } = job.data;
+
+  console.log(`[Ledger] Running reconciliation${classId ? ` for class ${classId}` : ''}`);
+  const run = await runReconciliation({ classId, requestedBy });
+  console.log(`[Ledger] Reconciliation ${run.id} finished: ${run.status} (${run.studentsChecked} students checked)`);
+
+  return { reconciliationId: run.id, status: run.status, driftCount: run.driftCount };
+});
+
+// Daily full reconciliation. Every server checks hourly, so skip if one already ran today.
+createManagedInterval(() => {
+  getLatestFullReconciliation()
+    .then(lastFull => {
+      if (lastFull?.startedAt && Date.now() - new Date(lastFull.startedAt).getTime() < DAY_MS) return;
+      return asyncTaskManager.enqueue(TASK_NAME, {});
+    })
+    .catch(error => console.error('[Ledger] Failed to schedule reconciliation:', error));
+}, 60 * 60 * 1000, 'ledger-reconciliation');
+
+/**
+ * Queue a reconciliation (of one class, or everything) to run in the background
+ */
+export async function queueReconciliation(options: { classId?: string | null; requestedBy: string }): Promise<string> {
+  const job = await asyncTaskManager.enqueue(TASK_NAME, options, { ownerId: options.requestedBy });
+  return String(job.id);
+}
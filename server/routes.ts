@@ -1,7 +1,17 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { Request, Response } from "express";
-import { handleImportStudents, uploadCSV } from "./routes/import-students";
+import importStudentsRouter from "./routes/import-students";
+import classExportsRouter from "./routes/class-exports";
+import passportCardsRouter from "./routes/passport-cards";
+import classRewardRulesRouter from "./routes/class-reward-rules";
+import classTradesRouter from "./routes/class-trades";
+import studentTradesRouter from "./routes/student-trades";
+import classModerationRouter from "./routes/class-moderation";
+import classReportsRouter from "./routes/class-reports";
+import studentSafetyRouter from "./routes/student-safety";
+import classCollaboratorsRouter from "./routes/class-collaborators";
+import collaborationsRouter from "./routes/collaborations";
 import { metricsService } from "./monitoring/metrics-service";
 import { metricsEndpoint } from "./middleware/observability";
 import { registerRoomRoutes } from "./routes/room";
@@ -34,6 +44,9 @@ import studentPassportRouter from './routes/student-passport-api';
 import lessonsRouter from './routes/lessons';
 import petsRouter from './routes/pets';
 import adminPetsRouter from './routes/admin/pets';
+import adminQuizBanksRouter from './routes/admin/quiz-banks';
+import adminLedgerRouter from './routes/admin/ledger';
+import adminFeatureFlagsRouter from './routes/admin/feature-flags';
 import { registerRoomViewerRoutes } from './routes/room-viewers';
 import healthRouter from './routes/health';
 import jobsRouter from './routes/jobs';
@@ -123,6 +136,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Class settings routes
   app.use('/api/classes', classSettingsRouter);
   
+  // Roster import routes (CSV/XLSX upload, dry run, reports)
+  app.use('/api/classes', importStudentsRouter);
+  
+  // Class data export bundles
+  app.use('/api/classes', classExportsRouter);
+  
+  // Printable passport cards and roster sheets (PDF)
+  app.use('/api/classes', passportCardsRouter);
+  
+  // Standing coin reward rules (lesson activities, achievements, game scores)
+  app.use('/api/classes', classRewardRulesRouter);
+  
+  // Gifts and trades between classmates: teacher queue and audit trail
+  app.use('/api/classes', classTradesRouter);
+  
+  // Review queue for flagged student-written text
+  app.use('/api/classes', classModerationRouter);
+  
+  // Students' reports about classmates
+  app.use('/api/classes', classReportsRouter);
+  
+  // Co-teachers: invitations, roles and permissions on a class
+  app.use('/api/classes', classCollaboratorsRouter);
+  
+  // Invitations to co-teach, for the invited teacher
+  app.use('/api/collaborations', collaborationsRouter);
+  
   // Quiz routes
   app.use('/api/quiz', quizRouter);
   
@@ -150,11 +190,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Avatar processing routes (server-side SVG processing)
   app.use('/api/avatar', avatarProcessor);
   
-  // ==================== LEGACY ROUTES ====================
-  
-  // Import students from CSV (special case with upload middleware)
-  app.post("/api/classes/:id/import-students", requireAuth, uploadCSV, handleImportStudents);
-
   // ==================== STORE ROUTES ====================
   
   // Register store management routes (teacher auth required)
@@ -178,6 +213,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Register direct store routes (no approval required)
   app.use('/api/store-direct', storeDirectRouter);
   
+  // Student gifts and trades with classmates
+  app.use('/api/student-trades', studentTradesRouter);
+  
+  // Student blocking and reporting
+  app.use('/api/student-safety', studentSafetyRouter);
+  
   // Register patterns routes (to be deprecated)
   app.use('/api/patterns', patternsRouter);
   
@@ -192,6 +233,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Register admin pet management routes
   app.use('/api/admin/pets', adminPetsRouter);
   
+  // Register admin quiz question bank routes
+  app.use('/api/admin/quiz-banks', adminQuizBanksRouter);
+  
+  // Register admin currency ledger / reconciliation routes
+  app.use('/api/admin/ledger', adminLedgerRouter);
+  
+  // Register admin feature flag routes (targeting and rollout)
+  app.use('/api/admin/feature-flags', adminFeatureFlagsRouter);
+  
   // Register game scores routes
   app.use(gameScoresRouter);
   
@@ -2,11 +2,18 @@ import { Router, Request, Response } from 'express';
 import { AuthenticatedRequest } from '../types/api';
 import { db } from '../db';
 import { uuidStorage } from '../storage-uuid';
-import { students, quizSubmissions, currencyTransactions, /* purchaseRequests, */ classes } from '@shared/schema';
-import { eq, inArray } from 'drizzle-orm';
+import { classes } from '@shared/schema';
+import { eq } from 'drizzle-orm';
 import { requireAuth, requireAdmin } from '../middleware/auth';
 import { validateParams, validateBody } from '../middleware/validation';
+import { auditAdminAction } from '../middleware/admin-audit';
+import { getPaginationParams, setPaginationHeaders } from '../utils/pagination';
+import { listAuditLog, auditLogCsv } from '../services/adminAuditService';
 import { z } from 'zod';
+import { asyncWrapper } from '../utils/async-wrapper';
+import { transferClass, offboardTeacher, COMMUNITY_CONTENT_HANDLING } from '../services/classTransferService';
+import { purgeClass } from '../services/classLifecycleService';
+import { queueLifecyclePurge } from '../queues/purge-queue';
 
 const router = Router();
 
@@ -17,66 +24,94 @@ const adminSchemas = {
   }),
   updateAdminStatus: z.object({
     isAdmin: z.boolean()
+  }),
+  transferClass: z.object({
+    toTeacherId: z.string().uuid('Invalid UUID format'),
+    keepPreviousOwner: z.boolean().optional().default(false),
+    reason: z.string().max(255).trim().optional().nullable()
+  }),
+  auditLogQuery: z.object({
+    actorId: z.string().uuid('Invalid UUID format').optional(),
+    targetType: z.string().max(50).optional(),
+    action: z.string().max(100).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    format: z.enum(['json', 'csv']).optional().default('json')
+  }),
+  offboardTeacher: z.object({
+    toTeacherId: z.string().uuid('Invalid UUID format'),
+    communityContent: z.enum(COMMUNITY_CONTENT_HANDLING).optional().default('keep'),
+    reason: z.string().max(255).trim().optional().nullable()
   })
 };
 
-// Admin force delete class (deletes class and all associated data)
-router.delete('/classes/:id/force', requireAuth, validateParams(adminSchemas.uuidParam), async (req, res) => {
+// Storage lookups skip deleted classes; admins need to see those too
+async function getClassIncludingDeleted(classId: string) {
+  const [classRecord] = await db.select().from(classes).where(eq(classes.id, classId)).limit(1);
+  return classRecord;
+}
+
+// Admin force delete class (deletes class and all associated data, with no restore window)
+router.delete('/classes/:id/force', requireAuth, validateParams(adminSchemas.uuidParam), auditAdminAction('FORCE_DELETE_CLASS', {
+  targetType: 'class',
+  loadBefore: req => getClassIncludingDeleted(req.params.id)
+}), async (req, res) => {
   const authReq = req as AuthenticatedRequest;
   try {
     const classId = authReq.params.id;
     const teacherId = authReq.user!.userId;
     
-    // Verify teacher owns the class or is admin
-    const classRecord = await uuidStorage.getClassById(classId);
+    // Verify teacher owns the class or is admin. Deleted classes can be purged early too.
+    const classRecord = await getClassIncludingDeleted(classId);
     const profile = await uuidStorage.getProfileById(teacherId);
     
     if (!classRecord || (classRecord.teacherId !== teacherId && !profile?.isAdmin)) {
       return res.status(403).json({ message: "Access denied" });
     }
     
-    // Delete in correct order to avoid foreign key constraints
-    await db.transaction(async (tx) => {
-      // 1. Get all students in the class
-      const classStudents = await tx
-        .select({ id: students.id })
-        .from(students)
-        .where(eq(students.classId, classId));
-      
-      console.log(`Found ${classStudents.length} students to delete`);
-      
-      if (classStudents.length > 0) {
-        const studentIds = classStudents.map(s => s.id);
-        
-        // Delete all related data for students
-        console.log(`Deleting quiz submissions...`);
-        await tx.delete(quizSubmissions).where(inArray(quizSubmissions.studentId, studentIds));
-        
-        console.log(`Deleting currency transactions...`);
-        await tx.delete(currencyTransactions).where(inArray(currencyTransactions.studentId, studentIds));
-        
-        // TODO: Uncomment when purchaseRequests table is defined
-        // console.log(`Deleting purchase requests...`);
-        // await tx.delete(purchaseRequests).where(inArray(purchaseRequests.studentId, studentIds));
-        
-        
-        // 2. Delete all students in the class
-        console.log(`Deleting students...`);
-        await tx.delete(students).where(eq(students.classId, classId));
-      }
-      
-      // 3. Delete the class itself
-      console.log(`Deleting class...`);
-      await tx.delete(classes).where(eq(classes.id, classId));
-    });
+    const { studentsRemoved } = await purgeClass(classId);
     
-    res.json({ message: "Class and all associated data deleted successfully" });
+    res.json({ message: "Class and all associated data deleted successfully", studentsRemoved });
   } catch (error) {
     console.error("Force delete class error:", error);
     res.status(500).json({ message: "Failed to force delete class", error: error instanceof Error ? error.message : String(error) });
   }
 });
 
+// Run the purge of classes and students past their restore window now
+router.post('/lifecycle/purge', requireAuth, requireAdmin, asyncWrapper(async (req, res, _next) => {
+  const authReq = req as AuthenticatedRequest;
+  const jobId = await queueLifecyclePurge(authReq.user.userId);
+  
+  await uuidStorage.logAdminAction({
+    adminId: authReq.user.userId,
+    action: 'RUN_LIFECYCLE_PURGE',
+    targetType: 'class',
+    details: { jobId },
+    ipAddress: authReq.ip || null
+  });
+  
+  res.status(202).json({ jobId });
+}));
+
+// Transfer a class to another teacher
+router.post('/classes/:id/transfer', requireAuth, requireAdmin, validateParams(adminSchemas.uuidParam), validateBody(adminSchemas.transferClass), asyncWrapper(async (req, res, _next) => {
+  const authReq = req as AuthenticatedRequest;
+  const { toTeacherId, keepPreviousOwner, reason } = authReq.body;
+  
+  const transferred = await transferClass(authReq.params.id, toTeacherId, authReq.user.userId, { keepPreviousOwner, reason, ipAddress: authReq.ip });
+  res.json({ ...transferred, toTeacherId });
+}));
+
+// Offboard a departing teacher: all their classes go to another teacher
+router.post('/teachers/:id/offboard', requireAuth, requireAdmin, validateParams(adminSchemas.uuidParam), validateBody(adminSchemas.offboardTeacher), asyncWrapper(async (req, res, _next) => {
+  const authReq = req as AuthenticatedRequest;
+  const { toTeacherId, communityContent, reason } = authReq.body;
+  
+  const result = await offboardTeacher(authReq.params.id, toTeacherId, authReq.user.userId, { communityContent, reason, ipAddress: authReq.ip });
+  res.json(result);
+}));
+
 // Get all teachers/profiles
 router.get('/teachers', requireAuth, requireAdmin, async (req, res) => {
   try {
@@ -105,7 +140,8 @@ router.put('/teachers/:id/admin', requireAuth, requireAdmin, validateParams(admi
       details: { 
         action: isAdmin ? 'granted' : 'revoked',
         targetEmail: updatedProfile.email 
-      }
+      },
+      ipAddress: authReq.ip || null
     });
     
     res.json(updatedProfile);
@@ -126,6 +162,26 @@ router.get('/classes', requireAuth, requireAdmin, async (req, res) => {
   }
 });
 
+// Browse the audit log (?actorId, ?targetType, ?action, ?from, ?to; ?format=csv to download)
+const AUDIT_LOG_EXPORT_LIMIT = 10000;
+
+router.get('/audit-log', requireAuth, requireAdmin, asyncWrapper(async (req, res, _next) => {
+  const { format, ...filters } = adminSchemas.auditLogQuery.parse(req.query);
+  
+  if (format === 'csv') {
+    const { entries } = await listAuditLog(filters, { limit: AUDIT_LOG_EXPORT_LIMIT, offset: 0 });
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`);
+    res.send(auditLogCsv(entries));
+    return;
+  }
+  
+  const { page, limit, offset } = getPaginationParams(req);
+  const { entries, total } = await listAuditLog(filters, { limit, offset });
+  setPaginationHeaders(res, page, limit, total);
+  res.json({ entries, page, limit, total });
+}));
+
 // Get admin stats
 router.get('/stats', requireAuth, requireAdmin, async (req, res) => {
   try {
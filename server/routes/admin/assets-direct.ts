@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { AuthenticatedRequest } from '../../types/api';
 import { requireAuth, requireAdmin } from '../../middleware/auth';
+import { auditAdminAction } from '../../middleware/admin-audit';
 import multer from 'multer';
 import { createClient } from '@supabase/supabase-js';
 import crypto from 'crypto';
@@ -80,7 +81,7 @@ async function generateThumbnail(buffer: Buffer, size: number = 128): Promise<Bu
  * POST /api/admin/assets/upload
  * Enhanced upload endpoint that supports images and RIVE files with automatic thumbnail generation
  */
-router.post('/upload', requireAuth, requireAdmin, upload.fields([
+router.post('/upload', requireAuth, requireAdmin, auditAdminAction('UPLOAD_ASSET', { targetType: 'asset' }), upload.fields([
   { name: 'image', maxCount: 1 },
   { name: 'thumbnail', maxCount: 1 }
 ]), async (req, res) => {
@@ -0,0 +1,145 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAuth, requireAdmin } from '../../middleware/auth';
+import { auditAdminAction } from '../../middleware/admin-audit';
+import {
+  listFlags,
+  evaluateFlag,
+  resolveFlagContext,
+  createFlag,
+  updateFlag,
+  deleteFlag,
+  FLAG_BUCKET_UNITS
+} from '../../services/featureFlagService';
+import { ConflictError, NotFoundError } from '../../utils/errors';
+
+const router = Router();
+
+// All routes require admin authentication
+router.use(requireAuth);
+router.use(requireAdmin);
+
+const schoolListSchema = z.array(z.string().trim().min(1).max(255)).max(500);
+
+const flagFieldsSchema = z.object({
+  description: z.string().max(500).nullable().optional(),
+  isEnabled: z.boolean().optional(),
+  rolloutPercentage: z.number().int().min(0).max(100).optional(),
+  bucketBy: z.enum(FLAG_BUCKET_UNITS).optional(),
+  allowedSchools: schoolListSchema.optional(),
+  deniedSchools: schoolListSchema.optional()
+});
+
+const createFlagSchema = flagFieldsSchema.extend({
+  id: z.string().regex(/^[a-z0-9][a-z0-9_-]{0,49}$/, 'Flag ID must be lower case letters, numbers, - or _')
+});
+
+const evaluateQuerySchema = z.object({
+  teacherId: z.string().uuid().optional(),
+  classId: z.string().uuid().optional(),
+  school: z.string().max(255).optional()
+});
+
+async function loadFlag(flagId: string) {
+  return (await listFlags()).find(flag => flag.id === flagId) ?? null;
+}
+
+/**
+ * GET /api/admin/feature-flags
+ * Every flag with its targeting
+ */
+router.get('/', async (req, res) => {
+  try {
+    res.json(await listFlags());
+  } catch (error) {
+    console.error('Error fetching feature flags:', error);
+    res.status(500).json({ message: 'Failed to fetch feature flags' });
+  }
+});
+
+/**
+ * GET /api/admin/feature-flags/:id/evaluate?teacherId=&classId=&school=
+ * Whether the flag is on for a given teacher, class or school, to check a rollout
+ */
+router.get('/:id/evaluate', async (req, res) => {
+  try {
+    const flag = await loadFlag(req.params.id);
+    if (!flag) {
+      return res.status(404).json({ message: 'Feature flag not found' });
+    }
+
+    const context = await resolveFlagContext(evaluateQuerySchema.parse(req.query));
+    res.json({ flagId: flag.id, context, enabled: evaluateFlag(flag, context) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid evaluation context', errors: error.errors });
+    }
+    console.error('Error evaluating feature flag:', error);
+    res.status(500).json({ message: 'Failed to evaluate feature flag' });
+  }
+});
+
+/**
+ * POST /api/admin/feature-flags
+ * Create a flag (off by default)
+ */
+router.post('/', auditAdminAction('CREATE_FEATURE_FLAG', { targetType: 'feature_flag' }), async (req, res) => {
+  try {
+    const flag = await createFlag(createFlagSchema.parse(req.body));
+    res.status(201).json(flag);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid feature flag', errors: error.errors });
+    }
+    if (error instanceof ConflictError) {
+      return res.status(409).json({ message: error.message });
+    }
+    console.error('Error creating feature flag:', error);
+    res.status(500).json({ message: 'Failed to create feature flag' });
+  }
+});
+
+/**
+ * PATCH /api/admin/feature-flags/:id
+ * Switch a flag on or off, or change its rollout and school lists
+ */
+router.patch('/:id', auditAdminAction('UPDATE_FEATURE_FLAG', {
+  targetType: 'feature_flag',
+  loadBefore: req => loadFlag(req.params.id)
+}), async (req, res) => {
+  try {
+    const flag = await updateFlag(req.params.id, flagFieldsSchema.parse(req.body));
+    res.json(flag);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid feature flag', errors: error.errors });
+    }
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({ message: error.message });
+    }
+    console.error('Error updating feature flag:', error);
+    res.status(500).json({ message: 'Failed to update feature flag' });
+  }
+});
+
+/**
+ * DELETE /api/admin/feature-flags/:id
+ * Remove a flag; anything still checking it sees it as off
+ */
+router.delete('/:id', auditAdminAction('DELETE_FEATURE_FLAG', {
+  targetType: 'feature_flag',
+  loadBefore: req => loadFlag(req.params.id)
+}), async (req, res) => {
+  try {
+    const flag = await deleteFlag(req.params.id);
+    res.json({ message: 'Feature flag deleted', flag });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({ message: error.message });
+    }
+    console.error('Error deleting feature flag:', error);
+    res.status(500).json({ message: 'Failed to delete feature flag' });
+  }
+});
+
+export default router;
@@ -0,0 +1,118 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAuth, requireAdmin } from '../../middleware/auth';
+import { validateUUID } from '../../middleware/validateUUID';
+import { uuidStorage } from '../../storage-uuid';
+import {
+  reconcileBalances,
+  listReconciliations,
+  getReconciliation,
+  getStudentLedger
+} from '../../services/ledgerService';
+import { queueReconciliation } from '../../queues/reconciliation-queue';
+import { NotFoundError } from '../../utils/errors';
+import type { AuthenticatedRequest } from '../../types/api';
+
+const router = Router();
+
+// All routes require admin authentication
+router.use(requireAuth);
+router.use(requireAdmin);
+
+const reconciliationScopeSchema = z.object({
+  classId: z.string().uuid().optional()
+});
+
+/**
+ * GET /api/admin/ledger/reconciliation?classId=
+ * Recompute balances from the ledger now and report drift (nothing is stored)
+ */
+router.get('/reconciliation', async (req, res) => {
+  try {
+    const { classId } = reconciliationScopeSchema.parse(req.query);
+    const report = await reconcileBalances(classId);
+    res.json({ classId: classId ?? null, checkedAt: new Date(), ...report });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid class ID', errors: error.errors });
+    }
+    console.error('Error reconciling ledger:', error);
+    res.status(500).json({ message: 'Failed to reconcile ledger' });
+  }
+});
+
+/**
+ * POST /api/admin/ledger/reconciliations
+ * Queue a stored reconciliation run; poll /api/jobs/:jobId/status or the runs list
+ */
+router.post('/reconciliations', async (req, res) => {
+  const authReq = req as AuthenticatedRequest;
+  try {
+    const { classId } = reconciliationScopeSchema.parse(req.body ?? {});
+    const jobId = await queueReconciliation({ classId, requestedBy: authReq.user.userId });
+
+    await uuidStorage.logAdminAction({
+      adminId: authReq.user.userId,
+      action: 'RUN_LEDGER_RECONCILIATION',
+      targetType: classId ? 'class' : 'ledger',
+      targetId: classId,
+      details: { jobId },
+      ipAddress: authReq.ip || null
+    });
+
+    res.status(202).json({ jobId });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid class ID', errors: error.errors });
+    }
+    console.error('Error queueing ledger reconciliation:', error);
+    res.status(500).json({ message: 'Failed to queue reconciliation' });
+  }
+});
+
+/**
+ * GET /api/admin/ledger/reconciliations
+ * Recent runs, newest first (without their reports)
+ */
+router.get('/reconciliations', async (req, res) => {
+  try {
+    res.json(await listReconciliations(50));
+  } catch (error) {
+    console.error('Error fetching reconciliations:', error);
+    res.status(500).json({ message: 'Failed to fetch reconciliations' });
+  }
+});
+
+/**
+ * GET /api/admin/ledger/reconciliations/:id
+ * One run with its full drift report
+ */
+router.get('/reconciliations/:id', validateUUID('id'), async (req, res) => {
+  try {
+    res.json(await getReconciliation(req.params.id));
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({ message: 'Reconciliation not found' });
+    }
+    console.error('Error fetching reconciliation:', error);
+    res.status(500).json({ message: 'Failed to fetch reconciliation' });
+  }
+});
+
+/**
+ * GET /api/admin/ledger/students/:studentId
+ * A student's stored balance, ledger balance and recent transactions
+ */
+router.get('/students/:studentId', validateUUID('studentId'), async (req, res) => {
+  try {
+    res.json(await getStudentLedger(req.params.studentId));
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({ message: 'Student not found' });
+    }
+    console.error('Error fetching student ledger:', error);
+    res.status(500).json({ message: 'Failed to fetch student ledger' });
+  }
+});
+
+export default router;
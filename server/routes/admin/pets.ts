@@ -1,9 +1,10 @@
-import { Router } from 'express';
+import { Router, type Request } from 'express';
 import { z } from 'zod';
 import { db } from '../../db';
 import { pets, studentPets } from '@shared/schema';
 import { eq, sql } from 'drizzle-orm';
 import { requireAuth, requireAdmin } from '../../middleware/auth';
+import { auditAdminAction } from '../../middleware/admin-audit';
 import multer from 'multer';
 import { getCache } from '../../lib/cache-factory';
 import { EnhancedStorageService } from '../../services/enhanced-storage-service';
@@ -16,6 +17,12 @@ const router = Router();
 router.use(requireAuth);
 router.use(requireAdmin);
 
+// Audit snapshot of the pet a request changes
+const loadPet = async (req: Request) => {
+  const [pet] = await db.select().from(pets).where(eq(pets.id, req.params.id)).limit(1);
+  return pet ?? null;
+};
+
 // Import animation types
 import { SpriteSheetMetadata, DEFAULT_ANIMATIONS } from '../../types/pet-animations';
 
@@ -43,6 +50,16 @@ const createPetSchema = z.object({
       pixelated: z.boolean().default(true),
     }).optional(),
   }),
+  // Growth stages in XP order; the first is where every pet starts
+  evolutionStages: z.array(z.object({
+    name: z.string().min(1).max(50),
+    minXp: z.number().int().min(0),
+    riveArtboard: z.string().max(100).optional(),
+  })).max(10)
+    .refine(stages => stages.every((stage, i) => i === 0 ? stage.minXp === 0 : stage.minXp > stages[i - 1].minXp), {
+      message: 'The first stage starts at 0 XP and each later stage needs more XP than the one before',
+    })
+    .optional(),
   isActive: z.boolean().default(true),
   sortOrder: z.number().int().default(0),
 });
@@ -132,7 +149,7 @@ router.get('/:id', async (req, res) => {
  * POST /api/admin/pets
  * Create a new pet
  */
-router.post('/', async (req, res) => {
+router.post('/', auditAdminAction('CREATE_PET', { targetType: 'pet' }), async (req, res) => {
   try {
     const validatedData = createPetSchema.parse(req.body);
 
@@ -164,7 +181,7 @@ router.post('/', async (req, res) => {
  * PUT /api/admin/pets/:id
  * Update a pet
  */
-router.put('/:id', async (req, res) => {
+router.put('/:id', auditAdminAction('UPDATE_PET', { targetType: 'pet', loadBefore: loadPet }), async (req, res) => {
   try {
     const validatedData = updatePetSchema.parse(req.body);
 
@@ -202,7 +219,7 @@ router.put('/:id', async (req, res) => {
  * DELETE /api/admin/pets/:id
  * Soft delete a pet (set inactive)
  */
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', auditAdminAction('DELETE_PET', { targetType: 'pet', loadBefore: loadPet }), async (req, res) => {
   try {
     // Soft delete by setting inactive
     // Existing owners keep their pets, but no new purchases allowed
@@ -233,7 +250,7 @@ router.delete('/:id', async (req, res) => {
  * POST /api/admin/pets/:id/upload-sprite
  * Upload a sprite sheet for a pet
  */
-router.post('/:id/upload-sprite', upload.single('sprite'), async (req, res) => {
+router.post('/:id/upload-sprite', auditAdminAction('UPLOAD_PET_SPRITE', { targetType: 'pet', loadBefore: loadPet }), upload.single('sprite'), async (req, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({ message: 'No file uploaded' });
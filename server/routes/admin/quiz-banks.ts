@@ -0,0 +1,144 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAuth, requireAdmin } from '../../middleware/auth';
+import { uuidStorage } from '../../storage-uuid';
+import {
+  listBanks,
+  getBankById,
+  publishBankVersion,
+  updateBankStatus,
+  rescoreSubmission
+} from '../../services/quizBankService';
+import { createQuestionBankSchema, updateQuestionBankStatusSchema } from '../../validation/quiz-schemas';
+import type { AuthenticatedRequest } from '../../types/api';
+
+const router = Router();
+
+// All routes require admin authentication
+router.use(requireAuth);
+router.use(requireAdmin);
+
+/**
+ * GET /api/admin/quiz-banks
+ * List every bank version, including inactive ones
+ */
+router.get('/', async (req, res) => {
+  try {
+    const banks = await listBanks({ includeInactive: true });
+    res.json(banks);
+  } catch (error) {
+    console.error('Error fetching question banks:', error);
+    res.status(500).json({ message: 'Failed to fetch question banks' });
+  }
+});
+
+/**
+ * GET /api/admin/quiz-banks/:id
+ * Get a bank version with its questions
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const bank = await getBankById(req.params.id);
+
+    if (!bank) {
+      return res.status(404).json({ message: 'Question bank not found' });
+    }
+
+    res.json(bank);
+  } catch (error) {
+    console.error('Error fetching question bank:', error);
+    res.status(500).json({ message: 'Failed to fetch question bank' });
+  }
+});
+
+/**
+ * POST /api/admin/quiz-banks
+ * Publish a new version of a bank (existing versions are never edited)
+ */
+router.post('/', async (req, res) => {
+  const authReq = req as AuthenticatedRequest;
+  try {
+    const validatedData = createQuestionBankSchema.parse(req.body);
+
+    const bank = await publishBankVersion(validatedData, authReq.user.userId);
+
+    await uuidStorage.logAdminAction({
+      adminId: authReq.user.userId,
+      action: 'PUBLISH_QUIZ_BANK',
+      targetType: 'quiz_question_bank',
+      targetId: bank.id,
+      details: { code: bank.code, version: bank.version, questionCount: bank.questions.length },
+      ipAddress: authReq.ip || null
+    });
+
+    res.status(201).json(bank);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: 'Invalid question bank data',
+        errors: error.errors
+      });
+    }
+    console.error('Error publishing question bank:', error);
+    res.status(500).json({ message: 'Failed to publish question bank' });
+  }
+});
+
+/**
+ * PATCH /api/admin/quiz-banks/:id/status
+ * Activate/deactivate a bank version or make it the default
+ */
+router.patch('/:id/status', async (req, res) => {
+  const authReq = req as AuthenticatedRequest;
+  try {
+    const validatedData = updateQuestionBankStatusSchema.parse(req.body);
+
+    const bank = await updateBankStatus(req.params.id, validatedData);
+
+    if (!bank) {
+      return res.status(404).json({ message: 'Question bank not found' });
+    }
+
+    await uuidStorage.logAdminAction({
+      adminId: authReq.user.userId,
+      action: 'UPDATE_QUIZ_BANK_STATUS',
+      targetType: 'quiz_question_bank',
+      targetId: bank.id,
+      details: validatedData,
+      ipAddress: authReq.ip || null
+    });
+
+    const { questions, ...summary } = bank;
+    res.json({ ...summary, questionCount: questions.length });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: 'Invalid status data',
+        errors: error.errors
+      });
+    }
+    console.error('Error updating question bank status:', error);
+    res.status(500).json({ message: 'Failed to update question bank status' });
+  }
+});
+
+/**
+ * GET /api/admin/quiz-banks/submissions/:submissionId/rescore
+ * Re-score a stored submission against the bank version it was answered on
+ */
+router.get('/submissions/:submissionId/rescore', async (req, res) => {
+  try {
+    const result = await rescoreSubmission(req.params.submissionId);
+
+    if (!result) {
+      return res.status(404).json({ message: 'Submission not found' });
+    }
+
+    res.json(result);
+  } catch (error) {
+    console.error('Error re-scoring submission:', error);
+    res.status(500).json({ message: 'Failed to re-score submission' });
+  }
+});
+
+export default router;
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import { requireAuth, requireAdmin } from '../../middleware/auth';
+import { auditAdminAction } from '../../middleware/admin-audit';
 import StorageRouter from '../../services/storage-router';
 import multer from 'multer';
 import rateLimit from 'express-rate-limit';
@@ -65,7 +66,7 @@ const uploadAssetSchema = z.object({
  * - name: Display name for the asset
  * - bucket: Target bucket (defaults to 'store-items')
  */
-router.post('/upload-asset', requireAuth, requireAdmin, uploadLimiter, upload.single('file'), async (req, res) => {
+router.post('/upload-asset', requireAuth, requireAdmin, auditAdminAction('UPLOAD_ASSET', { targetType: 'asset' }), uploadLimiter, upload.single('file'), async (req, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({ 
@@ -272,7 +273,7 @@ router.post('/upload-asset', requireAuth, requireAdmin, uploadLimiter, upload.si
  * DELETE /api/admin/delete-asset/:assetId
  * Delete an asset (only for cloud storage)
  */
-router.delete('/delete-asset/:assetId', requireAuth, requireAdmin, async (req, res) => {
+router.delete('/delete-asset/:assetId', requireAuth, requireAdmin, auditAdminAction('DELETE_ASSET', { targetType: 'asset', targetParam: 'assetId' }), async (req, res) => {
   try {
     const { assetId } = req.params;
 
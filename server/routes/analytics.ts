@@ -6,18 +6,14 @@ import { parseSubmissionDetails } from '../utils/submission-parser';
 import { asyncWrapper } from '../utils/async-wrapper';
 import { NotFoundError, AuthorizationError, ErrorCode } from '../utils/errors';
 import { createSecureLogger } from '../utils/secure-logger';
+import { getStudentQuizHistory, getRetakeEligibility, unlockRetake, revokeRetakeUnlock } from '../services/quizRetakeService';
 
 const logger = createSecureLogger('AnalyticsRoutes');
 
 const router = Router();
 
-// Get student data for teacher view
-router.get('/teacher/students/:studentId', requireAuth, asyncWrapper(async (req, res) => {
-  const authReq = req as AuthenticatedRequest;
-  const studentId = authReq.params.studentId;
-  const teacherId = authReq.user!.userId;
-  
-  // Get the student
+// Load a student and their class, checking the teacher owns the class
+async function getTeacherStudent(studentId: string, teacherId: string) {
   const student = await uuidStorage.getStudentById(studentId);
   if (!student) {
     throw new NotFoundError('Student not found', ErrorCode.RES_001);
@@ -33,6 +29,17 @@ router.get('/teacher/students/:studentId', requireAuth, asyncWrapper(async (req,
     throw new AuthorizationError('Access denied', ErrorCode.AUTH_005);
   }
   
+  return { student, classRecord };
+}
+
+// Get student data for teacher view
+router.get('/teacher/students/:studentId', requireAuth, asyncWrapper(async (req, res) => {
+  const authReq = req as AuthenticatedRequest;
+  const studentId = authReq.params.studentId;
+  const teacherId = authReq.user!.userId;
+  
+  const { student, classRecord } = await getTeacherStudent(studentId, teacherId);
+  
   // Get the student's submissions (allow empty for students who haven't taken quiz)
   const submissions = await uuidStorage.getSubmissionsByStudentId(studentId);
   
@@ -45,6 +52,12 @@ router.get('/teacher/students/:studentId', requireAuth, asyncWrapper(async (req,
     // Get the student's balance
     const balance = await uuidStorage.getStudentBalance(studentId);
     
+    // Every attempt, so teachers can see how results changed over time
+    const [quizHistory, retake] = await Promise.all([
+      getStudentQuizHistory(studentId),
+      getRetakeEligibility(studentId)
+    ]);
+    
     // Format response similar to what teacher-student-view expects
     const response = {
       id: latestSubmission?.id || null,
@@ -61,6 +74,8 @@ router.get('/teacher/students/:studentId', requireAuth, asyncWrapper(async (req,
       passportCode: student.passportCode,
       currencyBalance: balance,
       hasCompletedQuiz: !!latestSubmission,
+      quizHistory,
+      retake,
       class: {
         id: classRecord.id,
         name: classRecord.name,
@@ -71,4 +86,29 @@ router.get('/teacher/students/:studentId', requireAuth, asyncWrapper(async (req,
     res.json(response);
 }));
 
+// Let a student retake the quiz once, whatever the class retake policy
+router.post('/teacher/students/:studentId/quiz-retake-unlock', requireAuth, asyncWrapper(async (req, res) => {
+  const authReq = req as AuthenticatedRequest;
+  const studentId = authReq.params.studentId;
+  const teacherId = authReq.user!.userId;
+  
+  await getTeacherStudent(studentId, teacherId);
+  await unlockRetake(studentId, teacherId);
+  
+  logger.log('Quiz retake unlocked', { studentId, teacherId });
+  
+  res.json({ retake: await getRetakeEligibility(studentId) });
+}));
+
+// Withdraw an unused retake unlock
+router.delete('/teacher/students/:studentId/quiz-retake-unlock', requireAuth, asyncWrapper(async (req, res) => {
+  const authReq = req as AuthenticatedRequest;
+  const studentId = authReq.params.studentId;
+  
+  await getTeacherStudent(studentId, authReq.user!.userId);
+  await revokeRetakeUnlock(studentId);
+  
+  res.json({ retake: await getRetakeEligibility(studentId) });
+}));
+
 export default router;
\ No newline at end of file
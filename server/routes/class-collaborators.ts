@@ -0,0 +1,42 @@
+import { Router } from "express";
+import { requireAuth } from "../middleware/auth";
+import { verifyClassAccess, requireClassOwner } from "../middleware/ownership-collaborator";
+import { validateUUIDs } from "../middleware/validateUUID";
+import { asyncWrapper } from "../utils/async-wrapper";
+import type { AuthenticatedRequest } from "../types/api";
+import { inviteCollaboratorSchema, updateCollaboratorSchema } from "../validation/class-schemas";
+import {
+  listCollaborators,
+  inviteCollaborator,
+  updateCollaborator,
+  revokeCollaborator
+} from "../services/collaboratorService";
+
+const router = Router();
+
+// Co-teachers on the class and invitations still open. Any co-teacher can see who else helps.
+router.get('/:id/collaborators', requireAuth, verifyClassAccess, asyncWrapper(async (req, res, _next) => {
+  const collaborators = await listCollaborators(req.params.id);
+  res.json({ collaborators, role: req.classAccess?.role });
+}));
+
+// Invite a teacher by the email on their account
+router.post('/:id/collaborators', requireAuth, requireClassOwner, asyncWrapper(async (req, res, _next) => {
+  const authReq = req as AuthenticatedRequest;
+  const invitation = inviteCollaboratorSchema.parse(authReq.body);
+  const collaborator = await inviteCollaborator(authReq.params.id, authReq.user.userId, invitation);
+  res.status(201).json(collaborator);
+}));
+
+// Change a co-teacher's role or permissions
+router.patch('/:id/collaborators/:collaboratorId', requireAuth, validateUUIDs('id', 'collaboratorId'), requireClassOwner, asyncWrapper(async (req, res, _next) => {
+  const changes = updateCollaboratorSchema.parse(req.body);
+  res.json(await updateCollaborator(req.params.id, req.params.collaboratorId, changes));
+}));
+
+// Remove a co-teacher or withdraw their invitation
+router.delete('/:id/collaborators/:collaboratorId', requireAuth, validateUUIDs('id', 'collaboratorId'), requireClassOwner, asyncWrapper(async (req, res, _next) => {
+  res.json(await revokeCollaborator(req.params.id, req.params.collaboratorId));
+}));
+
+export default router;
@@ -0,0 +1,76 @@
+import { Router } from "express";
+import { requireAuth } from "../middleware/auth";
+import { verifyClassAccess } from "../middleware/ownership-collaborator";
+import { requireExportData } from "../middleware/permission-check";
+import { asyncWrapper } from "../utils/async-wrapper";
+import { ConflictError } from "../utils/errors";
+import type { AuthenticatedRequest } from "../types/api";
+import { classExportSchema } from "../validation/class-schemas";
+import {
+  INLINE_EXPORT_MAX_STUDENTS,
+  countClassStudents,
+  createClassExport,
+  buildClassExport,
+  setClassExportJob,
+  listClassExports,
+  getClassExport,
+  getClassExportFile
+} from "../services/classExportService";
+import { queueClassExport } from "../queues/export-queue";
+
+const router = Router();
+
+/**
+ * Export the class's data: roster, quiz submissions with answers, coin transactions,
+ * inventory, lesson progress and class values results.
+ * Small classes are exported straight away (201); larger ones are built in the
+ * background (202) and can be followed through /api/jobs/:jobId or GET /:id/exports/:exportId.
+ */
+router.post('/:id/export', requireAuth, verifyClassAccess, requireExportData, asyncWrapper(async (req, res, _next) => {
+  const authReq = req as AuthenticatedRequest;
+  const classId = authReq.params.id;
+  const { format } = classExportSchema.parse(req.body ?? {});
+
+  const studentCount = await countClassStudents(classId);
+  const record = await createClassExport(classId, authReq.user.userId, format);
+
+  if (studentCount <= INLINE_EXPORT_MAX_STUDENTS) {
+    res.status(201).json(await buildClassExport(record.id));
+    return;
+  }
+
+  const jobId = await queueClassExport(record.id, authReq.user.userId);
+  await setClassExportJob(record.id, jobId);
+
+  res.status(202).json({
+    ...record,
+    jobId,
+    message: `Exporting ${studentCount} students in the background`
+  });
+}));
+
+// Unexpired exports for the class, newest first
+router.get('/:id/exports', requireAuth, verifyClassAccess, asyncWrapper(async (req, res, _next) => {
+  const exports = await listClassExports(req.params.id);
+  res.json({ exports });
+}));
+
+router.get('/:id/exports/:exportId', requireAuth, verifyClassAccess, asyncWrapper(async (req, res, _next) => {
+  res.json(await getClassExport(req.params.id, req.params.exportId));
+}));
+
+router.get('/:id/exports/:exportId/download', requireAuth, verifyClassAccess, requireExportData, asyncWrapper(async (req, res, _next) => {
+  const { record, file } = await getClassExportFile(req.params.id, req.params.exportId);
+
+  if (!file) {
+    throw new ConflictError(record.status === 'failed'
+      ? `Export failed: ${record.error || 'unknown error'}`
+      : 'Export is still being prepared');
+  }
+
+  res.setHeader('Content-Type', file.contentType || 'application/octet-stream');
+  res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+  res.send(file.content);
+}));
+
+export default router;
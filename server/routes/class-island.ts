@@ -3,6 +3,7 @@ import type { Express } from "express";
 import { db } from "../db";
 import { students, classes, animalTypes, geniusTypes, quizSubmissions } from "@shared/schema";
 import { eq, and, sql } from "drizzle-orm";
+import { isActiveStudent } from "../utils/student-scope";
 import { requireAuth } from "../middleware/auth";
 import { requireUnifiedAuth, requireStudent } from "../middleware/unified-auth";
 import { getCache } from "../lib/cache-factory";
@@ -76,7 +77,7 @@ export function registerClassIslandRoutes(app: Express) {
         .from(students)
         .leftJoin(animalTypes, eq(students.animalTypeId, animalTypes.id))
         .leftJoin(geniusTypes, eq(students.geniusTypeId, geniusTypes.id))
-        .where(eq(students.classId, classData.id))
+        .where(and(eq(students.classId, classData.id), isActiveStudent()))
         .orderBy(students.studentName);
       
       console.log('Found students:', studentsData.length);
@@ -154,7 +155,7 @@ export function registerClassIslandRoutes(app: Express) {
         .from(students)
         .leftJoin(animalTypes, eq(students.animalTypeId, animalTypes.id))
         .leftJoin(geniusTypes, eq(students.geniusTypeId, geniusTypes.id))
-        .where(eq(students.classId, classId))
+        .where(and(eq(students.classId, classId), isActiveStudent()))
         .orderBy(students.studentName);
       
       // Format response
@@ -201,7 +202,7 @@ export function registerClassIslandRoutes(app: Express) {
         })
         .from(students)
         .innerJoin(classes, eq(students.classId, classes.id))
-        .where(eq(students.id, studentId))
+        .where(and(eq(students.id, studentId), isActiveStudent()))
         .limit(1);
       
       if (!studentInfo) {
@@ -233,7 +234,7 @@ export function registerClassIslandRoutes(app: Express) {
         .from(students)
         .leftJoin(animalTypes, eq(students.animalTypeId, animalTypes.id))
         .leftJoin(geniusTypes, eq(students.geniusTypeId, geniusTypes.id))
-        .where(eq(students.classId, studentInfo.classId))
+        .where(and(eq(students.classId, studentInfo.classId), isActiveStudent()))
         .orderBy(students.studentName);
       
       // Format for student view (less data than teacher view)
@@ -0,0 +1,35 @@
+import { Router } from "express";
+import { z } from "zod";
+import { requireAuth } from "../middleware/auth";
+import { verifyClassAccess, verifyClassEditAccess } from "../middleware/ownership-collaborator";
+import { validateUUIDs } from "../middleware/validateUUID";
+import { asyncWrapper } from "../utils/async-wrapper";
+import type { AuthenticatedRequest } from "../types/api";
+import { MODERATION_STATUSES, listModerationQueue, reviewContent } from "../services/moderationService";
+
+const router = Router();
+
+const moderationQuerySchema = z.object({
+  status: z.enum(MODERATION_STATUSES).optional()
+});
+
+// Student-written text the filter flagged (?status=approved|hidden for past decisions)
+router.get('/:id/moderation', requireAuth, verifyClassAccess, asyncWrapper(async (req, res, _next) => {
+  const { status } = moderationQuerySchema.parse(req.query);
+  const items = await listModerationQueue(req.params.id, status);
+  res.json({ items });
+}));
+
+// Approve: the content shows as written
+router.post('/:id/moderation/:itemId/approve', requireAuth, validateUUIDs('id', 'itemId'), verifyClassEditAccess, asyncWrapper(async (req, res, _next) => {
+  const authReq = req as AuthenticatedRequest;
+  res.json(await reviewContent(authReq.params.id, authReq.params.itemId, authReq.user.userId, 'approved'));
+}));
+
+// Hide: the content stays out of sight
+router.post('/:id/moderation/:itemId/hide', requireAuth, validateUUIDs('id', 'itemId'), verifyClassEditAccess, asyncWrapper(async (req, res, _next) => {
+  const authReq = req as AuthenticatedRequest;
+  res.json(await reviewContent(authReq.params.id, authReq.params.itemId, authReq.user.userId, 'hidden'));
+}));
+
+export default router;
@@ -0,0 +1,38 @@
+import { Router } from "express";
+import { z } from "zod";
+import { requireAuth } from "../middleware/auth";
+import { verifyClassAccess, verifyClassEditAccess } from "../middleware/ownership-collaborator";
+import { validateUUIDs } from "../middleware/validateUUID";
+import { asyncWrapper } from "../utils/async-wrapper";
+import type { AuthenticatedRequest } from "../types/api";
+import { reportDecisionSchema } from "../validation/class-schemas";
+import { REPORT_STATUSES, listReports, closeReport } from "../services/studentSafetyService";
+
+const router = Router();
+
+const reportQuerySchema = z.object({
+  status: z.enum(REPORT_STATUSES).optional()
+});
+
+// Students' reports about classmates (open ones unless ?status= says otherwise)
+router.get('/:id/reports', requireAuth, verifyClassAccess, asyncWrapper(async (req, res, _next) => {
+  const { status } = reportQuerySchema.parse(req.query);
+  const reports = await listReports(req.params.id, status);
+  res.json({ reports });
+}));
+
+// Resolve: the teacher dealt with it
+router.post('/:id/reports/:reportId/resolve', requireAuth, validateUUIDs('id', 'reportId'), verifyClassEditAccess, asyncWrapper(async (req, res, _next) => {
+  const authReq = req as AuthenticatedRequest;
+  const { note } = reportDecisionSchema.parse(authReq.body ?? {});
+  res.json(await closeReport(authReq.params.id, authReq.params.reportId, authReq.user.userId, 'resolved', note));
+}));
+
+// Dismiss: nothing to act on
+router.post('/:id/reports/:reportId/dismiss', requireAuth, validateUUIDs('id', 'reportId'), verifyClassEditAccess, asyncWrapper(async (req, res, _next) => {
+  const authReq = req as AuthenticatedRequest;
+  const { note } = reportDecisionSchema.parse(authReq.body ?? {});
+  res.json(await closeReport(authReq.params.id, authReq.params.reportId, authReq.user.userId, 'dismissed', note));
+}));
+
+export default router;
@@ -0,0 +1,44 @@
+import { Router } from "express";
+import { requireAuth } from "../middleware/auth";
+import { verifyClassAccess, verifyClassEditAccess } from "../middleware/ownership-collaborator";
+import { validateUUIDs } from "../middleware/validateUUID";
+import { asyncWrapper } from "../utils/async-wrapper";
+import type { AuthenticatedRequest } from "../types/api";
+import { rewardRuleSchema, updateRewardRuleSchema } from "../validation/class-schemas";
+import {
+  listRewardRules,
+  createRewardRule,
+  updateRewardRule,
+  deleteRewardRule
+} from "../services/rewardRuleService";
+
+const router = Router();
+
+// Standing coin rewards for the class, grouped by trigger
+router.get('/:id/reward-rules', requireAuth, verifyClassAccess, asyncWrapper(async (req, res, _next) => {
+  const rules = await listRewardRules(req.params.id);
+  res.json({ rules });
+}));
+
+/**
+ * Add a rule, e.g. { trigger: 'lesson_activity_complete', amount: 5 } pays every student
+ * 5 coins each time the class completes a lesson activity
+ */
+router.post('/:id/reward-rules', requireAuth, verifyClassEditAccess, asyncWrapper(async (req, res, _next) => {
+  const authReq = req as AuthenticatedRequest;
+  const input = rewardRuleSchema.parse(req.body);
+  const rule = await createRewardRule(authReq.params.id, authReq.user.userId, input);
+  res.status(201).json(rule);
+}));
+
+router.put('/:id/reward-rules/:ruleId', requireAuth, validateUUIDs('id', 'ruleId'), verifyClassEditAccess, asyncWrapper(async (req, res, _next) => {
+  const input = updateRewardRuleSchema.parse(req.body);
+  res.json(await updateRewardRule(req.params.id, req.params.ruleId, input));
+}));
+
+router.delete('/:id/reward-rules/:ruleId', requireAuth, validateUUIDs('id', 'ruleId'), verifyClassEditAccess, asyncWrapper(async (req, res, _next) => {
+  await deleteRewardRule(req.params.id, req.params.ruleId);
+  res.status(204).end();
+}));
+
+export default router;
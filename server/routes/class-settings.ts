@@ -2,11 +2,31 @@ import { Router } from 'express';
 import { z } from "zod";
 import { uuidStorage } from '../storage-uuid';
 import { requireAuth } from '../middleware/auth';
-import { verifyClassEditAccess } from '../middleware/ownership-collaborator';
+import { verifyClassAccess, verifyClassEditAccess, requireClassOwner } from '../middleware/ownership-collaborator';
+import { pinQuizBankSchema } from '../validation/quiz-schemas';
+import { getBankById, getBankForClass } from '../services/quizBankService';
+import { RETAKE_POLICIES } from '../services/quizRetakeService';
+import { SUPPORTED_LOCALES } from '@shared/i18n';
+import { MAX_PET_SLOTS } from '../services/petService';
+import { isValidTimezone } from '../services/storeStatusService';
+import { setClassArchived } from '../services/classLifecycleService';
+import { NotFoundError } from '../utils/errors';
 import type { AuthenticatedRequest } from '../types/api';
 
 const router = Router();
 
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+const petVacationSchema = z.object({
+  weekends: z.boolean(),
+  breaks: z.array(z.object({
+    startDate: isoDate,
+    endDate: isoDate,
+    label: z.string().max(100).optional(),
+  }).refine(period => period.startDate <= period.endDate, { message: "Break can't end before it starts", path: ['endDate'] })).max(50),
+  timezone: z.string().refine(isValidTimezone, 'Unknown timezone').optional(),
+});
+
 // Update class settings schema
 const updateClassSettingsSchema = z.object({
   name: z.string().min(1, "Class name is required").optional(),
@@ -16,10 +36,20 @@ const updateClassSettingsSchema = z.object({
   icon: z.string().optional(),
   backgroundColor: z.string().optional(),
   numberOfStudents: z.number().nullable().optional(),
-});
+  quizRetakePolicy: z.enum(RETAKE_POLICIES).optional(),
+  quizRetakeCooldownDays: z.number().int().min(1).max(365).nullable().optional(),
+  defaultLocale: z.enum(SUPPORTED_LOCALES).optional(),
+  tradingEnabled: z.boolean().optional(),
+  tradingRequiresApproval: z.boolean().optional(),
+  petSlots: z.number().int().min(1).max(MAX_PET_SLOTS).optional(),
+  petVacation: petVacationSchema.optional(),
+}).refine(
+  data => data.quizRetakePolicy !== 'after_days' || !!data.quizRetakeCooldownDays,
+  { message: "Number of days is required for the 'after_days' retake policy", path: ['quizRetakeCooldownDays'] }
+);
 
 // Get class settings
-router.get('/:id/settings', requireAuth, verifyClassEditAccess, async (req, res) => {
+router.get('/:id/settings', requireAuth, verifyClassAccess, async (req, res) => {
   const authReq = req as AuthenticatedRequest;
   try {
     const classId = authReq.params.id;
@@ -43,6 +73,15 @@ router.get('/:id/settings', requireAuth, verifyClassEditAccess, async (req, res)
       numberOfStudents: classRecord.numberOfStudents,
       classCode: classRecord.classCode,
       isArchived: classRecord.isArchived,
+      archivedAt: classRecord.archivedAt,
+      quizBankId: classRecord.quizBankId,
+      quizRetakePolicy: classRecord.quizRetakePolicy,
+      quizRetakeCooldownDays: classRecord.quizRetakeCooldownDays,
+      defaultLocale: classRecord.defaultLocale,
+      tradingEnabled: classRecord.tradingEnabled,
+      tradingRequiresApproval: classRecord.tradingRequiresApproval,
+      petSlots: classRecord.petSlots,
+      petVacation: classRecord.petVacation,
     });
   } catch (error) {
     console.error("Get class settings error:", error);
@@ -85,29 +124,91 @@ router.put('/:id/settings', requireAuth, verifyClassEditAccess, async (req, res)
   }
 });
 
-// Archive/Unarchive class
-router.post('/:id/archive', requireAuth, verifyClassEditAccess, async (req, res) => {
+// Archive/Unarchive class (owner only)
+router.post('/:id/archive', requireAuth, requireClassOwner, async (req, res) => {
   const authReq = req as AuthenticatedRequest;
   try {
     const classId = authReq.params.id;
     const { isArchived } = req.body;
     
-    // Update archive status
-    const updatedClass = await uuidStorage.updateClass(classId, { 
-      isArchived: !!isArchived 
+    // Archived classes are read-only and their students can't sign in
+    const updatedClass = await setClassArchived(classId, !!isArchived);
+    
+    res.json({
+      message: `Class ${isArchived ? 'archived' : 'unarchived'} successfully`,
+      class: updatedClass,
     });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({ message: "Class not found" });
+    }
+    console.error("Archive class error:", error);
+    res.status(500).json({ message: "Failed to archive class" });
+  }
+});
+
+// Get the question bank the class quiz uses
+router.get('/:id/quiz-bank', requireAuth, verifyClassAccess, async (req, res) => {
+  const authReq = req as AuthenticatedRequest;
+  try {
+    const classId = authReq.params.id;
+    const classRecord = await uuidStorage.getClassById(classId);
     
-    if (!updatedClass) {
+    if (!classRecord) {
       return res.status(404).json({ message: "Class not found" });
     }
     
+    const bank = await getBankForClass(classId);
+    
     res.json({
-      message: `Class ${isArchived ? 'archived' : 'unarchived'} successfully`,
+      pinned: !!classRecord.quizBankId,
+      bank: {
+        id: bank.id,
+        code: bank.code,
+        version: bank.version,
+        name: bank.name,
+        gradeBand: bank.gradeBand,
+        questionCount: bank.questions.length,
+      },
+    });
+  } catch (error) {
+    console.error("Get class quiz bank error:", error);
+    res.status(500).json({ message: "Failed to get class quiz bank" });
+  }
+});
+
+// Pin the class to a question bank version (null returns to the default bank)
+router.put('/:id/quiz-bank', requireAuth, verifyClassEditAccess, async (req, res) => {
+  const authReq = req as AuthenticatedRequest;
+  try {
+    const classId = authReq.params.id;
+    const { questionBankId } = pinQuizBankSchema.parse(authReq.body);
+    
+    if (questionBankId) {
+      const bank = await getBankById(questionBankId);
+      if (!bank || !bank.isActive) {
+        return res.status(400).json({ message: "Question bank is not available" });
+      }
+    }
+    
+    const updatedClass = await uuidStorage.updateClass(classId, { quizBankId: questionBankId });
+    
+    res.json({
+      message: questionBankId ? "Class quiz pinned to question bank" : "Class quiz reset to default question bank",
       class: updatedClass,
     });
   } catch (error) {
-    console.error("Archive class error:", error);
-    res.status(500).json({ message: "Failed to archive class" });
+    console.error("Update class quiz bank error:", error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        message: "Invalid question bank data", 
+        errors: error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message
+        }))
+      });
+    }
+    res.status(500).json({ message: "Failed to update class quiz bank" });
   }
 });
 
@@ -0,0 +1,53 @@
+import { Router } from "express";
+import { z } from "zod";
+import { requireAuth } from "../middleware/auth";
+import { verifyClassAccess, verifyClassEditAccess } from "../middleware/ownership-collaborator";
+import { validateUUIDs } from "../middleware/validateUUID";
+import { asyncWrapper } from "../utils/async-wrapper";
+import type { AuthenticatedRequest } from "../types/api";
+import { tradeDecisionSchema } from "../validation/class-schemas";
+import {
+  TRADE_STATUSES,
+  listTrades,
+  getTradeHistory,
+  listTradeEvents,
+  decideTrade
+} from "../services/tradeService";
+
+const router = Router();
+
+const tradeQuerySchema = z.object({
+  status: z.enum(TRADE_STATUSES).optional()
+});
+
+// Gifts and trades between the class's students (?status=awaiting_approval for the queue)
+router.get('/:id/trades', requireAuth, verifyClassAccess, asyncWrapper(async (req, res, _next) => {
+  const { status } = tradeQuerySchema.parse(req.query);
+  const trades = await listTrades({ classId: req.params.id, status });
+  res.json({ trades });
+}));
+
+// Every step of every gift and trade in the class, newest first
+router.get('/:id/trades/audit', requireAuth, verifyClassAccess, asyncWrapper(async (req, res, _next) => {
+  const events = await listTradeEvents(req.params.id);
+  res.json({ events });
+}));
+
+router.get('/:id/trades/:tradeId', requireAuth, validateUUIDs('id', 'tradeId'), verifyClassAccess, asyncWrapper(async (req, res, _next) => {
+  res.json(await getTradeHistory(req.params.id, req.params.tradeId));
+}));
+
+// Approve: the items and coins change hands now
+router.post('/:id/trades/:tradeId/approve', requireAuth, validateUUIDs('id', 'tradeId'), verifyClassEditAccess, asyncWrapper(async (req, res, _next) => {
+  const authReq = req as AuthenticatedRequest;
+  res.json(await decideTrade(authReq.params.id, authReq.params.tradeId, authReq.user.userId, true));
+}));
+
+// Reject: nothing moves
+router.post('/:id/trades/:tradeId/reject', requireAuth, validateUUIDs('id', 'tradeId'), verifyClassEditAccess, asyncWrapper(async (req, res, _next) => {
+  const authReq = req as AuthenticatedRequest;
+  const { note } = tradeDecisionSchema.parse(authReq.body ?? {});
+  res.json(await decideTrade(authReq.params.id, authReq.params.tradeId, authReq.user.userId, false, note));
+}));
+
+export default router;
@@ -2,8 +2,9 @@ import { Router } from 'express';
 import { z } from 'zod';
 import { uuidStorage } from '../storage-uuid';
 import { requireAuth } from '../middleware/auth';
-import { verifyClassAccess, verifyClassEditAccess } from '../middleware/ownership-collaborator';
-import { createClassSchema } from '../validation/class-schemas';
+import { verifyClassAccess, verifyClassEditAccess, requireClassOwner, requireDeletedClassOwner } from '../middleware/ownership-collaborator';
+import { validateUUIDs } from '../middleware/validateUUID';
+import { createClassSchema, generateGroupsSchema, pairingConstraintSchema, transferClassSchema } from '../validation/class-schemas';
 import { generateClassInsights, generatePairings } from '../services/pairingService';
 import { getPaginationParams, addPaginationToResponse, setPaginationHeaders } from '../utils/pagination-wrapper';
 import { pairingQueue, getPairingResults, getInsightsResults } from '../queues/pairing-queue';
@@ -12,6 +13,25 @@ import { createSecureLogger } from '../utils/secure-logger';
 import { NotFoundError, ErrorCode } from '../utils/errors';
 import type { AuthenticatedRequest } from '../types/api';
 import { gardenService } from '../services/gardenService';
+import { listSharedClasses } from '../services/collaboratorService';
+import { cancelClassTransfer, requestClassTransfer } from '../services/classTransferService';
+import {
+  deleteClass,
+  restoreClass,
+  listDeletedClasses,
+  deleteStudent,
+  restoreStudent,
+  listDeletedStudents
+} from '../services/classLifecycleService';
+import {
+  listPairingConstraints,
+  setPairingConstraint,
+  removePairingConstraint,
+  listGroupings,
+  getGrouping,
+  deleteGrouping,
+  createGrouping
+} from '../services/classGroupingService';
 
 const logger = createSecureLogger('ClassRoutes');
 
@@ -59,12 +79,19 @@ router.post('/', requireAuth, async (req, res) => {
   }
 });
 
-// Get teacher's classes
+// Get teacher's classes: their own, then ones shared with them (each with the teacher's role)
 router.get('/', requireAuth, async (req, res) => {
   const authReq = req as AuthenticatedRequest;
   try {
-    // Get classes owned by the teacher with student counts
-    const teacherClasses = await uuidStorage.getClassesByTeacherId(authReq.user.userId);
+    // Get classes owned by the teacher and classes they co-teach
+    const [ownClasses, sharedClasses] = await Promise.all([
+      uuidStorage.getClassesByTeacherId(authReq.user.userId),
+      listSharedClasses(authReq.user.userId)
+    ]);
+    const teacherClasses = [
+      ...ownClasses.map(classRecord => ({ ...classRecord, role: 'owner' as const, ownerName: null })),
+      ...sharedClasses
+    ];
     
     // Get student counts for each class
     const classesWithStats = await Promise.all(
@@ -84,6 +111,12 @@ router.get('/', requireAuth, async (req, res) => {
   }
 });
 
+// Get the teacher's deleted classes that can still be restored
+router.get('/deleted', requireAuth, asyncWrapper(async (req, res, _next) => {
+  const authReq = req as AuthenticatedRequest;
+  res.json(await listDeletedClasses(authReq.user.userId));
+}));
+
 // Get individual class by ID
 router.get('/:id', requireAuth, verifyClassAccess, async (req, res) => {
   const authReq = req as AuthenticatedRequest;
@@ -126,31 +159,44 @@ router.get('/class-code/:code', async (req, res) => {
   }
 });
 
-// Delete class (regular - fails if has students)
-router.delete('/:id', requireAuth, verifyClassEditAccess, async (req, res) => {
+// Delete class with its students (owner only). It can be restored until restoreBefore.
+router.delete('/:id', requireAuth, requireClassOwner, asyncWrapper(async (req, res, _next) => {
   const authReq = req as AuthenticatedRequest;
-  try {
-    const classId = authReq.params.id;
-    
-    // Edit access already verified by middleware
-    await uuidStorage.deleteClass(classId);
-    res.status(204).end();
-  } catch (error) {
-    console.error("Delete class error:", error);
-    // Check for foreign key violation
-    if (error instanceof Error && 'code' in error && error.code === '23503') {
-      return res.status(409).json({ message: "Cannot delete class. Please remove all students from the class first." });
-    }
-    res.status(500).json({ message: "Failed to delete class" });
+  const deleted = await deleteClass(authReq.params.id, authReq.user.userId, { ipAddress: authReq.ip });
+  res.json(deleted);
+}));
+
+// Restore a deleted class with the students deleted along with it (owner only)
+router.post('/:id/restore', requireAuth, requireDeletedClassOwner, asyncWrapper(async (req, res, _next) => {
+  const authReq = req as AuthenticatedRequest;
+  const restored = await restoreClass(authReq.params.id, authReq.user.userId, { ipAddress: authReq.ip });
+  res.json(restored);
+}));
+
+// Offer the class to another teacher (owner only). It moves when they accept from
+// /api/collaborations/transfer-requests. By default the owner stays on as an editor.
+router.post('/:id/transfer', requireAuth, requireClassOwner, asyncWrapper(async (req, res, _next) => {
+  const authReq = req as AuthenticatedRequest;
+  const { toTeacherEmail, keepAccess, reason } = transferClassSchema.parse(authReq.body);
+  
+  const newOwner = await uuidStorage.getProfileByEmail(toTeacherEmail.toLowerCase());
+  if (!newOwner) {
+    throw new NotFoundError('Teacher account with that email');
   }
-});
+  
+  const request = await requestClassTransfer(authReq.params.id, authReq.user.userId, newOwner.id, {
+    keepPreviousOwner: keepAccess,
+    reason,
+    ipAddress: authReq.ip
+  });
+  res.status(201).json(request);
+}));
 
-// Import students from CSV
-router.post('/:id/import-students', requireAuth, async (req, res) => {
+// Withdraw the class's transfer offer before it is answered (owner only)
+router.delete('/:id/transfer', requireAuth, requireClassOwner, asyncWrapper(async (req, res, _next) => {
   const authReq = req as AuthenticatedRequest;
-  // This will be handled by the import-students middleware
-  res.status(501).json({ message: "Import functionality moved to separate handler" });
-});
+  res.json(await cancelClassTransfer(authReq.params.id, authReq.user.userId));
+}));
 
 // Get all students in a class (for dashboard view)
 router.get('/:id/students', requireAuth, verifyClassAccess, asyncWrapper(async (req, res, _next) => {
@@ -184,6 +230,21 @@ router.get('/:id/students', requireAuth, verifyClassAccess, asyncWrapper(async (
   }
 }));
 
+// Get students deleted from the class that can still be restored
+router.get('/:id/students/deleted', requireAuth, verifyClassAccess, asyncWrapper(async (req, res, _next) => {
+  res.json(await listDeletedStudents(req.params.id));
+}));
+
+// Delete a student from the class. They can be restored until restoreBefore.
+router.delete('/:id/students/:studentId', requireAuth, validateUUIDs('id', 'studentId'), verifyClassEditAccess, asyncWrapper(async (req, res, _next) => {
+  res.json(await deleteStudent(req.params.id, req.params.studentId));
+}));
+
+// Restore a deleted student
+router.post('/:id/students/:studentId/restore', requireAuth, validateUUIDs('id', 'studentId'), verifyClassEditAccess, asyncWrapper(async (req, res, _next) => {
+  res.json(await restoreStudent(req.params.id, req.params.studentId));
+}));
+
 // Get class analytics
 router.get('/:id/analytics', requireAuth, verifyClassAccess, asyncWrapper(async (req, res, _next) => {
   const authReq = req as AuthenticatedRequest;
@@ -257,6 +318,18 @@ router.get('/:id/analytics', requireAuth, verifyClassAccess, asyncWrapper(async
       }
     });
     
+    // Students one answer away from a different type - results to discuss with care
+    const borderlineStudents = allSubmissions
+      .filter(sub => sub.borderline?.isBorderline)
+      .map(sub => ({
+        studentId: sub.id,
+        studentName: sub.studentName,
+        personalityType: sub.personalityType,
+        animalType: sub.animalType,
+        changesAnimal: sub.borderline!.changesAnimal,
+        alternatives: sub.borderline!.alternatives
+      }));
+    
     // Generate insights if there are submissions
     let insights = undefined;
     if (allSubmissions.length > 0) {
@@ -298,7 +371,9 @@ router.get('/:id/analytics', requireAuth, verifyClassAccess, asyncWrapper(async
           personalityDistribution,
           learningStyleDistribution,
           geniusTypeDistribution,
+          borderlineCount: borderlineStudents.length,
         },
+        borderlineStudents,
         submissions: allSubmissions,
         insights,
       };
@@ -354,7 +429,9 @@ router.get('/:id/analytics', requireAuth, verifyClassAccess, asyncWrapper(async
           personalityDistribution,
           learningStyleDistribution,
           geniusTypeDistribution,
+          borderlineCount: borderlineStudents.length,
         },
+        borderlineStudents,
         submissions: allSubmissions,
         insights,
       };
@@ -444,7 +521,7 @@ router.get('/:id/pairings', requireAuth, verifyClassAccess, async (req, res) =>
     }
     
     // No cached results, start a new job
-    const job = await pairingQueue.add('generate-pairings', { classId });
+    const job = await pairingQueue.add('generate-pairings', { classId }, { ownerId: authReq.user.userId });
     
     res.status(202).json({
       status: 'processing',
@@ -457,6 +534,66 @@ router.get('/:id/pairings', requireAuth, verifyClassAccess, async (req, res) =>
   }
 });
 
+// Generate seating groups (saved to the class's grouping history)
+router.post('/:id/pairings/groups', requireAuth, verifyClassEditAccess, asyncWrapper(async (req, res, _next) => {
+  const authReq = req as AuthenticatedRequest;
+  const classId = authReq.params.id;
+  const options = generateGroupsSchema.parse(authReq.body);
+
+  // If queue is not available, generate synchronously as fallback
+  if (!pairingQueue) {
+    const grouping = await createGrouping(classId, authReq.user.userId, options);
+    res.status(201).json(grouping);
+    return;
+  }
+
+  const job = await pairingQueue.add(
+    'generate-groups',
+    { classId, teacherId: authReq.user.userId, options },
+    { ownerId: authReq.user.userId }
+  );
+
+  res.status(202).json({
+    status: 'processing',
+    message: 'Groups are being generated. Please check back in a moment.',
+    jobId: job.id
+  });
+}));
+
+// Grouping history, newest first
+router.get('/:id/pairings/groups', requireAuth, verifyClassAccess, asyncWrapper(async (req, res, _next) => {
+  const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+  const groupings = await listGroupings(req.params.id, limit);
+  res.json({ groupings });
+}));
+
+router.get('/:id/pairings/groups/:groupingId', requireAuth, verifyClassAccess, asyncWrapper(async (req, res, _next) => {
+  res.json(await getGrouping(req.params.id, req.params.groupingId));
+}));
+
+router.delete('/:id/pairings/groups/:groupingId', requireAuth, verifyClassEditAccess, asyncWrapper(async (req, res, _next) => {
+  await deleteGrouping(req.params.id, req.params.groupingId);
+  res.status(204).send();
+}));
+
+// Pairing rules ("never pair X with Y" / "keep X with Y")
+router.get('/:id/pairings/constraints', requireAuth, verifyClassAccess, asyncWrapper(async (req, res, _next) => {
+  const constraints = await listPairingConstraints(req.params.id);
+  res.json({ constraints });
+}));
+
+router.post('/:id/pairings/constraints', requireAuth, verifyClassEditAccess, asyncWrapper(async (req, res, _next) => {
+  const authReq = req as AuthenticatedRequest;
+  const rule = pairingConstraintSchema.parse(authReq.body);
+  const constraint = await setPairingConstraint(authReq.params.id, authReq.user.userId, rule);
+  res.status(201).json(constraint);
+}));
+
+router.delete('/:id/pairings/constraints/:constraintId', requireAuth, verifyClassEditAccess, asyncWrapper(async (req, res, _next) => {
+  await removePairingConstraint(req.params.id, req.params.constraintId);
+  res.status(204).send();
+}));
+
 // Get class garden for teacher view
 router.get('/:classId/garden', 
   requireAuth, 
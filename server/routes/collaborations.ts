@@ -0,0 +1,66 @@
+// Co-teaching invitations and class transfer offers, from the invited teacher's side
+import { Router } from 'express';
+import { requireAuth } from '../middleware/auth';
+import { validateUUID } from '../middleware/validateUUID';
+import { asyncWrapper } from '../utils/async-wrapper';
+import type { AuthenticatedRequest } from '../types/api';
+import { listMyInvitations, respondToInvitation } from '../services/collaboratorService';
+import { listMyTransferRequests, respondToTransferRequest } from '../services/classTransferService';
+
+const router = Router();
+
+/**
+ * GET /api/collaborations/invitations
+ * Invitations to co-teach that are waiting on the teacher's answer
+ */
+router.get('/invitations', requireAuth, asyncWrapper(async (req, res, _next) => {
+  const authReq = req as AuthenticatedRequest;
+  const invitations = await listMyInvitations(authReq.user.userId);
+  res.json({ invitations });
+}));
+
+/**
+ * POST /api/collaborations/invitations/:token/accept
+ * Join the class with the role the owner picked
+ */
+router.post('/invitations/:token/accept', requireAuth, validateUUID('token'), asyncWrapper(async (req, res, _next) => {
+  const authReq = req as AuthenticatedRequest;
+  res.json(await respondToInvitation(authReq.params.token, authReq.user.userId, true));
+}));
+
+/**
+ * POST /api/collaborations/invitations/:token/decline
+ */
+router.post('/invitations/:token/decline', requireAuth, validateUUID('token'), asyncWrapper(async (req, res, _next) => {
+  const authReq = req as AuthenticatedRequest;
+  res.json(await respondToInvitation(authReq.params.token, authReq.user.userId, false));
+}));
+
+/**
+ * GET /api/collaborations/transfer-requests
+ * Classes other teachers want to hand over, waiting on the teacher's answer
+ */
+router.get('/transfer-requests', requireAuth, asyncWrapper(async (req, res, _next) => {
+  const authReq = req as AuthenticatedRequest;
+  const requests = await listMyTransferRequests(authReq.user.userId);
+  res.json({ requests });
+}));
+
+/**
+ * POST /api/collaborations/transfer-requests/:requestId/accept
+ * Take over the class
+ */
+router.post('/transfer-requests/:requestId/accept', requireAuth, validateUUID('requestId'), asyncWrapper(async (req, res, _next) => {
+  const authReq = req as AuthenticatedRequest;
+  res.json(await respondToTransferRequest(authReq.params.requestId, authReq.user.userId, true, { ipAddress: authReq.ip }));
+}));
+
+/**
+ * POST /api/collaborations/transfer-requests/:requestId/decline
+ */
+router.post('/transfer-requests/:requestId/decline', requireAuth, validateUUID('requestId'), asyncWrapper(async (req, res, _next) => {
+  const authReq = req as AuthenticatedRequest;
+  res.json(await respondToTransferRequest(authReq.params.requestId, authReq.user.userId, false));
+}));
+
+export default router;
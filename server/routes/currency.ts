@@ -2,15 +2,23 @@ import { Router } from 'express';
 import { AuthenticatedRequest } from '../types/api';
 import { uuidStorage } from '../storage-uuid';
 import { requireUnifiedAuth, requireTeacher } from '../middleware/unified-auth';
-import { verifyStudentClassEditAccess, verifyClassAccess, verifyStudentClassAccess } from '../middleware/ownership-collaborator';
+import { verifyStudentClassEditAccess, verifyClassAccess, verifyClassEditAccess, verifyStudentClassAccess } from '../middleware/ownership-collaborator';
 import { asyncWrapper } from '../utils/async-wrapper';
 import { ValidationError, NotFoundError, BusinessError, InternalError, ErrorCode } from '../utils/errors';
 import { createSecureLogger } from '../utils/secure-logger';
+import { bulkAwardSchema } from '../validation/class-schemas';
+import { bulkAward } from '../services/bulkAwardService';
 
 const logger = createSecureLogger('CurrencyRoutes');
 
 const router = Router();
 
+// Clients may send an Idempotency-Key header so a retried give/take only moves coins once
+function teacherIdempotencyKey(req: AuthenticatedRequest, teacherId: string): string | undefined {
+  const key = req.get('Idempotency-Key');
+  return key ? `teacher:${teacherId}:${key.slice(0, 100)}` : undefined;
+}
+
 // Give coins to a student
 router.post('/give', requireUnifiedAuth, requireTeacher, verifyStudentClassEditAccess, asyncWrapper(async (req, res, next) => {
   const authReq = req as AuthenticatedRequest;
@@ -33,8 +41,9 @@ router.post('/give', requireUnifiedAuth, requireTeacher, verifyStudentClassEditA
     studentId,
     teacherId,
     amount,
-    transactionType: 'teacher_gift',
+    transactionType: 'teacher_grant',
     description: reason || 'Teacher bonus',
+    idempotencyKey: teacherIdempotencyKey(authReq, teacherId),
   });
   
   res.json({ 
@@ -61,15 +70,15 @@ router.post('/take', requireUnifiedAuth, requireTeacher, verifyStudentClassEditA
     throw new NotFoundError('Student', ErrorCode.RES_001);
   }
   
-  // Use atomic update to prevent race conditions
-  // The updateCurrencyAtomic method now handles balance checks atomically
+  // The ledger checks the balance while holding the student's row lock
   try {
     const { newBalance } = await uuidStorage.updateCurrencyAtomic({
       studentId,
       teacherId,
       amount: -amount,  // Negative amount for deduction
-      transactionType: 'teacher_deduct',
+      transactionType: 'teacher_deduction',
       description: reason || 'Teacher adjustment',
+      idempotencyKey: teacherIdempotencyKey(authReq, teacherId),
     });
   
     res.json({ 
@@ -85,6 +94,27 @@ router.post('/take', requireUnifiedAuth, requireTeacher, verifyStudentClassEditA
   }
 }));
 
+// Give or take coins from many students of a class at once (a table group, an animal type,
+// the whole class...). One transaction; the response has a result for every student.
+router.post('/classes/:classId/bulk', requireUnifiedAuth, requireTeacher, verifyClassEditAccess, asyncWrapper(async (req, res, _next) => {
+  const authReq = req as AuthenticatedRequest;
+  const teacherId = authReq.auth?.userId || authReq.user?.userId;
+  const { target, amount, reason } = bulkAwardSchema.parse(authReq.body);
+  const retryKey = authReq.get('Idempotency-Key');
+
+  const summary = await bulkAward({
+    classId: authReq.params.classId,
+    teacherId,
+    target,
+    amount,
+    reason,
+    idempotencyKey: retryKey ? `bulk:${teacherId}:${retryKey.slice(0, 60)}` : undefined
+  });
+
+  logger.info('Bulk coin award', { classId: authReq.params.classId, amount, awarded: summary.awarded, skipped: summary.skipped });
+  res.json({ success: true, ...summary });
+}));
+
 // Get currency transactions for a class
 router.get('/transactions/:classId', requireUnifiedAuth, requireTeacher, verifyClassAccess, asyncWrapper(async (req, res, next) => {
   const authReq = req as AuthenticatedRequest;
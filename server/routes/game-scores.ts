@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { requireUnifiedAuth, requireStudent } from '../middleware/unified-auth';
 import { pool } from '../db';
+import { applyRewardRules } from '../services/rewardRuleService';
 
 const router = Router();
 
@@ -54,10 +55,27 @@ router.post('/api/game-scores', requireUnifiedAuth, requireStudent, async (req,
        RETURNING id`,
       [studentId, finalClassId, gameType, score, gameData]
     );
+    const scoreId = result.rows[0].id;
+
+    // Pay any game reward rule the class has (a failure here doesn't lose the score)
+    let coinsEarned = 0;
+    try {
+      const awards = await applyRewardRules(finalClassId!, {
+        trigger: 'game_score',
+        eventKey: `game-score:${scoreId}`,
+        studentIds: [studentId],
+        gameType,
+        score
+      });
+      coinsEarned = awards.reduce((sum, award) => sum + award.amount, 0);
+    } catch (rewardError) {
+      console.error('Error applying game reward rules:', rewardError);
+    }
 
     res.json({ 
       success: true, 
-      scoreId: result.rows[0].id 
+      scoreId,
+      coinsEarned
     });
   } catch (error) {
     console.error('Error saving game score:', error);
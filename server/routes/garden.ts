@@ -9,6 +9,7 @@ import { db } from '../db.js';
 import { students, studentInventory, storeItems, itemTypes, classes, animalTypes, geniusTypes } from '../../shared/schema.js';
 import { seedTypes, gardenPlots } from '../../shared/schema-gardens.js';
 import { eq, and } from 'drizzle-orm';
+import { isActiveStudent } from '../utils/student-scope';
 
 export const router = Router();
 
@@ -34,7 +35,7 @@ router.get('/student/:passportCode',
         classId: students.classId
       })
       .from(students)
-      .where(eq(students.passportCode, passportCode))
+      .where(and(eq(students.passportCode, passportCode), isActiveStudent()))
       .limit(1);
       
     if (!targetStudent) {
@@ -122,7 +123,7 @@ router.get('/plot/:passportCode',
         passportCode: students.passportCode
       })
       .from(students)
-      .where(eq(students.passportCode, passportCode))
+      .where(and(eq(students.passportCode, passportCode), isActiveStudent()))
       .limit(1);
       
     if (!targetStudent) {
@@ -1,290 +1,110 @@
-import { Request, Response } from "express";
-import { db } from "../db";
-import { quizSubmissions, classes, students, animalTypes, geniusTypes } from "../../shared/schema";
-import { eq, and } from "drizzle-orm";
+import { Router } from "express";
 import multer from "multer";
-import { v7 as uuidv7 } from "uuid";
+import { z } from "zod";
+import { requireAuth } from "../middleware/auth";
+import { verifyClassAccess, verifyClassEditAccess } from "../middleware/ownership-collaborator";
+import { requireManageStudents } from "../middleware/permission-check";
+import { asyncWrapper } from "../utils/async-wrapper";
+import { ValidationError } from "../utils/errors";
+import type { AuthenticatedRequest } from "../types/api";
+import {
+  ROSTER_FIELDS,
+  importRoster,
+  commitRosterImport,
+  listRosterImports,
+  getRosterImport,
+  rosterImportReportCsv
+} from "../services/rosterImportService";
+
+const router = Router();
 
 // Configure multer for file uploads
-const upload = multer({ 
+const upload = multer({
   storage: multer.memoryStorage(),
   limits: { fileSize: 5 * 1024 * 1024 }, // 5MB limit
   fileFilter: (req, file, cb) => {
-    if (file.mimetype !== 'text/csv' && !file.originalname.endsWith('.csv')) {
-      cb(new Error('Only CSV files are allowed'));
+    if (!/\.(csv|xlsx)$/i.test(file.originalname)) {
+      cb(new ValidationError('Only CSV and XLSX files are allowed'));
       return;
     }
     cb(null, true);
   }
 });
 
-// Personality to Animal mapping
-const PERSONALITY_TO_ANIMAL: Record<string, string> = {
-  "ESTJ": "Meerkat",
-  "ISFJ": "Panda", 
-  "INTJ": "Owl",
-  "ISTJ": "Beaver",
-  "ESFJ": "Elephant",
-  "ENFP": "Otter",
-  "ESFP": "Parrot",
-  "ENFJ": "Border Collie"
-};
-
-const ANIMAL_GENIUS_TYPES = ["Feeler", "Thinker", "Intuitive", "Sensor"];
+// The roster comes as `file`; older clients still send it as `csvFile`
+const rosterUpload = upload.fields([{ name: 'file', maxCount: 1 }, { name: 'csvFile', maxCount: 1 }]);
 
-interface StudentData {
-  firstName: string;
-  lastInitial: string;
-  gradeLevel?: string;
-  personalityType: string;
-}
+// Multipart fields arrive as strings: dryRun=true, mapping={"firstName":"Given Name",...}
+const importOptionsSchema = z.object({
+  dryRun: z.enum(['true', 'false']).optional().transform(value => value === 'true'),
+  mapping: z.string()
+    .optional()
+    .transform((value, ctx) => {
+      if (!value) return undefined;
+      try {
+        return JSON.parse(value);
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'mapping must be JSON' });
+        return z.NEVER;
+      }
+    })
+    .pipe(z.record(z.enum(ROSTER_FIELDS), z.string().max(255).nullable()).optional())
+});
 
 /**
- * Parse CSV content
+ * Import students from a CSV or XLSX roster.
+ * With dryRun=true nothing is created: the response is the per-row report, which
+ * can be committed later through POST /:id/imports/:importId/commit.
  */
-function parseCSV(csvContent: string): StudentData[] {
-  const lines = csvContent.trim().split('\n');
-  
-  if (lines.length < 2) {
-    throw new Error("CSV file must have at least a header row and one data row");
+router.post('/:id/import-students', requireAuth, verifyClassEditAccess, requireManageStudents, rosterUpload, asyncWrapper(async (req, res, _next) => {
+  const authReq = req as AuthenticatedRequest;
+  const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+  const file = files?.file?.[0] ?? files?.csvFile?.[0];
+  if (!file) {
+    throw new ValidationError('No file uploaded');
   }
-  
-  const headers = lines[0].split(',').map(h => h.replace(/"/g, '').trim());
-  const students: StudentData[] = [];
-  
-  for (let i = 1; i < lines.length; i++) {
-    const values = lines[i].split(',').map(v => v.replace(/"/g, '').trim());
-    
-    if (values.length !== headers.length) {
-      continue; // Skip invalid rows
-    }
-    
-    const student: StudentData = {
-      firstName: values[headers.indexOf('firstName')],
-      lastInitial: values[headers.indexOf('lastInitial')],
-      gradeLevel: values[headers.indexOf('gradeLevel')] || '5th Grade',
-      personalityType: values[headers.indexOf('personalityType')]
-    };
-    
-    // Validate personality type
-    if (!PERSONALITY_TO_ANIMAL[student.personalityType]) {
-      continue; // Skip invalid personality types
-    }
-    
-    students.push(student);
-  }
-  
-  return students;
-}
 
-/**
- * Generate random VARK learning style scores
- */
-function generateRandomVARKScores() {
-  const scores: Record<string, number> = {
-    Visual: Math.floor(Math.random() * 16) + 1,
-    Auditory: Math.floor(Math.random() * 16) + 1,
-    "Reading/Writing": Math.floor(Math.random() * 16) + 1,
-    Kinesthetic: Math.floor(Math.random() * 16) + 1
-  };
-  
-  const primaryStyle = Object.entries(scores)
-    .reduce((a, b) => scores[a[0]] > scores[b[0]] ? a : b)[0];
-  
-  return { scores, primaryStyle };
-}
+  const { dryRun, mapping } = importOptionsSchema.parse(req.body);
+  const result = await importRoster({
+    classId: authReq.params.id,
+    teacherId: authReq.user.userId,
+    file,
+    mapping,
+    dryRun
+  });
 
-/**
- * Generate random MBTI scores based on personality type
- */
-function generateMBTIScores(personalityType: string) {
-  const [ei, sn, tf, jp] = personalityType.split('');
-  
-  return {
-    "E/I": ei === 'E' ? Math.floor(Math.random() * 10) + 11 : Math.floor(Math.random() * 10) + 1,
-    "S/N": sn === 'S' ? Math.floor(Math.random() * 10) + 11 : Math.floor(Math.random() * 10) + 1,
-    "T/F": tf === 'T' ? Math.floor(Math.random() * 10) + 11 : Math.floor(Math.random() * 10) + 1,
-    "J/P": jp === 'J' ? Math.floor(Math.random() * 10) + 11 : Math.floor(Math.random() * 10) + 1
-  };
-}
+  res.status(dryRun ? 200 : 201).json(result);
+}));
 
-/**
- * Generate sample answers array (16 questions)
- */
-function generateSampleAnswers(personalityType: string) {
-  const answers = [];
-  const [ei, sn, tf, jp] = personalityType.split('');
-  
-  for (let i = 1; i <= 16; i++) {
-    let answer;
-    
-    if (i <= 4) answer = ei === 'E' ? 'a' : 'b';
-    else if (i <= 8) answer = sn === 'S' ? 'a' : 'b';
-    else if (i <= 12) answer = tf === 'T' ? 'a' : 'b';
-    else answer = jp === 'J' ? 'a' : 'b';
-    
-    // Add some randomness (20% chance to pick opposite)
-    if (Math.random() < 0.2) {
-      answer = answer === 'a' ? 'b' : 'a';
-    }
-    
-    answers.push({
-      questionId: i,
-      answer: answer,
-      timestamp: new Date().toISOString()
-    });
-  }
-  
-  return answers;
-}
+// Previous imports for the class, newest first
+router.get('/:id/imports', requireAuth, verifyClassAccess, asyncWrapper(async (req, res, _next) => {
+  const imports = await listRosterImports(req.params.id);
+  res.json({ imports });
+}));
 
-/**
- * Handle CSV import endpoint
- */
-export async function handleImportStudents(req: Request, res: Response) {
-  try {
-    const classId = req.params.id;
-    
-    // Verify the class exists and belongs to the teacher
-    const classResult = await db
-      .select()
-      .from(classes)
-      .where(eq(classes.id, classId))
-      .limit(1);
-    
-    if (classResult.length === 0) {
-      return res.status(404).json({ message: "Class not found" });
-    }
-    
-    const classData = classResult[0];
-    
-    // Check if teacher owns this class
-    const userId = (req as any).user?.userId;
-    
-    if (classData.teacherId !== userId) {
-      return res.status(403).json({ message: "You do not have permission to import students to this class" });
-    }
-    
-    // Parse CSV from uploaded file
-    if (!req.file) {
-      return res.status(400).json({ message: "No file uploaded" });
-    }
-    
-    const csvContent = req.file.buffer.toString('utf-8');
-    const parsedStudents = parseCSV(csvContent);
-    
-    if (parsedStudents.length === 0) {
-      return res.status(400).json({ message: "No valid students found in CSV" });
-    }
-    
-    // Look up all animal types and genius types we'll need
-    const animalTypesData = await db.select().from(animalTypes);
-    const geniusTypesData = await db.select().from(geniusTypes);
-    
-    const animalTypeMap = new Map(animalTypesData.map(at => [at.code, at.id]));
-    const geniusTypeMap = new Map(geniusTypesData.map(gt => [gt.code, gt.id]));
-    
-    // Import each student
-    const importedStudents = [];
-    
-    for (const student of parsedStudents) {
-      const varkResults = generateRandomVARKScores();
-      const mbtiScores = generateMBTIScores(student.personalityType);
-      const answers = generateSampleAnswers(student.personalityType);
-      const animalType = PERSONALITY_TO_ANIMAL[student.personalityType];
-      const animalGenius = ANIMAL_GENIUS_TYPES[Math.floor(Math.random() * ANIMAL_GENIUS_TYPES.length)];
-      
-      const studentName = `${student.firstName} ${student.lastInitial}`;
-      
-      // Get the animal type ID
-      const animalTypeId = animalTypeMap.get(animalType);
-      if (!animalTypeId) {
-        console.error(`Animal type not found: ${animalType}`);
-        continue;
-      }
-      
-      // Get the genius type ID
-      const geniusTypeId = geniusTypeMap.get(animalGenius);
-      if (!geniusTypeId) {
-        console.error(`Genius type not found: ${animalGenius}`);
-        continue;
-      }
-      
-      // First, create or find the student
-      let studentRecord = await db
-        .select()
-        .from(students)
-        .where(and(
-          eq(students.classId, classId),
-          eq(students.studentName, studentName)
-        ))
-        .limit(1);
-      
-      if (studentRecord.length === 0) {
-        // Generate a unique passport code for the student
-        const passportCode = `${student.firstName.toUpperCase()}${student.lastInitial.toUpperCase()}${Math.floor(Math.random() * 10000).toString().padStart(4, '0')}`;
-        
-        // Create new student
-        const [newStudent] = await db
-          .insert(students)
-          .values({
-            id: uuidv7(),
-            classId: classId,
-            passportCode: passportCode,
-            studentName: studentName,
-            gradeLevel: student.gradeLevel || "5th Grade",
-            personalityType: student.personalityType,
-            animalTypeId: animalTypeId,
-            geniusTypeId: geniusTypeId,
-            learningStyle: varkResults.primaryStyle
-          })
-          .returning();
-        studentRecord = [newStudent];
-      }
-      
-      const studentId = studentRecord[0].id;
-      
-      // Check if submission already exists
-      const existingSubmission = await db
-        .select()
-        .from(quizSubmissions)
-        .where(eq(quizSubmissions.studentId, studentId))
-        .limit(1);
-      
-      if (existingSubmission.length === 0) {
-        // Create the quiz submission
-        await db.insert(quizSubmissions).values({
-          id: uuidv7(),
-          studentId: studentId,
-          animalTypeId: animalTypeId,
-          geniusTypeId: geniusTypeId,
-          answers: answers,
-          coinsEarned: 100, // Default coins for imported students
-          completedAt: new Date()
-        });
-      }
-      
-      importedStudents.push({
-        name: studentName,
-        personalityType: student.personalityType,
-        animalType: animalType,
-        learningStyle: varkResults.primaryStyle
-      });
-    }
-    
-    res.json({
-      message: `Successfully imported ${importedStudents.length} students`,
-      students: importedStudents
-    });
-    
-  } catch (error) {
-    console.error("Import error:", error);
-    res.status(500).json({ 
-      message: "Failed to import students",
-      error: error instanceof Error ? error.message : "Unknown error"
-    });
+router.get('/:id/imports/:importId', requireAuth, verifyClassAccess, asyncWrapper(async (req, res, _next) => {
+  res.json(await getRosterImport(req.params.id, req.params.importId));
+}));
+
+// Create the students from a dry run
+router.post('/:id/imports/:importId/commit', requireAuth, verifyClassEditAccess, requireManageStudents, asyncWrapper(async (req, res, _next) => {
+  res.json(await commitRosterImport(req.params.id, req.params.importId));
+}));
+
+// Download the per-row report (CSV by default, ?format=json for JSON)
+router.get('/:id/imports/:importId/report', requireAuth, verifyClassAccess, asyncWrapper(async (req, res, _next) => {
+  const record = await getRosterImport(req.params.id, req.params.importId);
+  const baseName = `roster-import-${record.createdAt?.toISOString().slice(0, 10) || record.id}`;
+
+  if (req.query.format === 'json') {
+    res.setHeader('Content-Disposition', `attachment; filename="${baseName}.json"`);
+    res.json(record);
+    return;
   }
-}
 
-// Export the configured multer middleware
-export const uploadCSV = upload.single('csvFile');
\ No newline at end of file
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${baseName}.csv"`);
+  res.send(rosterImportReportCsv(record));
+}));
+
+export default router;
@@ -3,6 +3,7 @@ import { AuthenticatedRequest } from "../types/api";
 import { db } from "../db";
 import { sql } from "drizzle-orm";
 import { requireAuth, requireAdmin } from "../middleware/auth";
+import { auditAdminAction } from "../middleware/admin-audit";
 import { profiles } from "@shared/schema";
 import { eq } from "drizzle-orm";
 
@@ -54,7 +55,7 @@ export function registerNormalizedItemPositionRoutes(app: Express) {
   });
 
   // Save/update normalized position
-  app.post("/api/admin/item-positions-normalized", requireAuth, requireAdmin, async (req, res) => {
+  app.post("/api/admin/item-positions-normalized", requireAuth, requireAdmin, auditAdminAction('SET_ITEM_POSITION', { targetType: 'item_position' }), async (req, res) => {
     const authReq = req as AuthenticatedRequest;
     try {
 
@@ -121,7 +122,7 @@ export function registerNormalizedItemPositionRoutes(app: Express) {
   });
 
   // Copy positions to all animals
-  app.post("/api/admin/item-positions-normalized/copy-all", requireAuth, requireAdmin, async (req, res) => {
+  app.post("/api/admin/item-positions-normalized/copy-all", requireAuth, requireAdmin, auditAdminAction('COPY_ITEM_POSITIONS', { targetType: 'item_position' }), async (req, res) => {
     const authReq = req as AuthenticatedRequest;
     try {
 
@@ -178,7 +179,7 @@ export function registerNormalizedItemPositionRoutes(app: Express) {
   });
 
   // Batch update positions
-  app.post("/api/admin/item-positions-normalized/batch", requireAuth, requireAdmin, async (req, res) => {
+  app.post("/api/admin/item-positions-normalized/batch", requireAuth, requireAdmin, auditAdminAction('BATCH_ITEM_POSITIONS', { targetType: 'item_position' }), async (req, res) => {
     const authReq = req as AuthenticatedRequest;
     try {
       const { positions } = req.body;
@@ -4,6 +4,7 @@ import { db } from "../db";
 import { itemAnimalPositions, profiles, itemTypes, animalTypes } from "@shared/schema";
 import { eq, and } from "drizzle-orm";
 import { requireAuth } from "../middleware/auth";
+import { auditAdminAction } from "../middleware/admin-audit";
 
 export function registerItemPositionRoutes(app: Express) {
   // Public endpoint to get item positions (for avatar display)
@@ -53,7 +54,7 @@ export function registerItemPositionRoutes(app: Express) {
   });
 
   // Save/update item position
-  app.post("/api/admin/item-positions", requireAuth, async (req, res) => {
+  app.post("/api/admin/item-positions", requireAuth, auditAdminAction('SET_ITEM_POSITION', { targetType: 'item_position' }), async (req, res) => {
     const authReq = req as AuthenticatedRequest;
     console.log('=== SAVE ITEM POSITION REQUEST ===');
     console.log('Request body:', authReq.body);
@@ -160,7 +161,7 @@ export function registerItemPositionRoutes(app: Express) {
   });
 
   // Bulk copy positions from one animal to others
-  app.post("/api/admin/item-positions/bulk-copy", requireAuth, async (req, res) => {
+  app.post("/api/admin/item-positions/bulk-copy", requireAuth, auditAdminAction('COPY_ITEM_POSITIONS', { targetType: 'item_position' }), async (req, res) => {
     const authReq = req as AuthenticatedRequest;
     try {
       // Get user details to verify admin access
@@ -250,7 +251,7 @@ export function registerItemPositionRoutes(app: Express) {
   });
 
   // Batch update positions
-  app.post("/api/admin/item-positions/batch", requireAuth, async (req, res) => {
+  app.post("/api/admin/item-positions/batch", requireAuth, auditAdminAction('BATCH_ITEM_POSITIONS', { targetType: 'item_position' }), async (req, res) => {
     const authReq = req as AuthenticatedRequest;
     try {
       // Get user details to verify admin access
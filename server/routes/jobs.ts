@@ -1,30 +1,66 @@
-import { Router, Request, Response } from 'express';
+import { Router } from 'express';
 import { AuthenticatedRequest } from '../types/api';
 import { requireAuth } from '../middleware/auth';
 import { pairingQueue } from '../queues/pairing-queue';
+import { exportQueue } from '../queues/export-queue';
+import { asyncTaskManager } from '../services/asyncTaskManager';
 
 const router = Router();
 
+// Persistent tasks (ledger reconciliation, ...) are database jobs behind the task manager
+const asyncTasks = {
+  getJob: (jobId: string) => asyncTaskManager.getTask(jobId),
+  cancel: (jobId: string) => asyncTaskManager.cancelTask(jobId)
+};
+
+// Job IDs are distinct across queues, so a job is looked up in each in turn
+const queues = [pairingQueue, exportQueue, asyncTasks];
+
+async function findJob(jobId: string) {
+  for (const queue of queues) {
+    const job = await queue.getJob(jobId);
+    if (job) return { job, queue };
+  }
+  return null;
+}
+
+/**
+ * Load a job if it belongs to the requesting teacher. Database jobs record the
+ * owner on the row; Bull keeps it in the job options it was added with.
+ * Someone else's job is reported as not found rather than forbidden.
+ */
+async function getOwnedJob(jobId: string, userId: string) {
+  const found = await findJob(jobId);
+  if (!found) return null;
+
+  const ownerId = (found.job as any).ownerId ?? (found.job as any).opts?.ownerId;
+  return ownerId === userId ? found : null;
+}
+
+// Handle both Bull jobs and database jobs
+async function getJobState(job: any): Promise<string> {
+  return job.getState ? job.getState() : job.status;
+}
+
 // Check job status
 router.get('/:jobId/status', requireAuth, async (req, res) => {
   const authReq = req as AuthenticatedRequest;
   try {
-    const { jobId } = authReq.params;
-    
-    const job = await pairingQueue.getJob(jobId);
+    const owned = await getOwnedJob(authReq.params.jobId, authReq.user.userId);
     
-    if (!job) {
+    if (!owned) {
       return res.status(404).json({ message: 'Job not found' });
     }
+    const { job } = owned;
     
-    // Handle both Bull jobs and our in-memory jobs
-    const state = (job as any).getState ? await (job as any).getState() : (job as any).status;
+    const state = await getJobState(job);
     const progress = (job as any).progress ? (typeof (job as any).progress === 'function' ? (job as any).progress() : (job as any).progress) : 0;
     
     res.json({
       id: job.id,
       state,
       progress,
+      attemptsMade: (job as any).attemptsMade || 0,
       data: job.data,
       result: (job as any).returnvalue || (job as any).result,
       failedReason: (job as any).failedReason || (job as any).error,
@@ -41,15 +77,14 @@ router.get('/:jobId/status', requireAuth, async (req, res) => {
 router.get('/:jobId/result', requireAuth, async (req, res) => {
   const authReq = req as AuthenticatedRequest;
   try {
-    const { jobId } = authReq.params;
-    
-    const job = await pairingQueue.getJob(jobId);
+    const owned = await getOwnedJob(authReq.params.jobId, authReq.user.userId);
     
-    if (!job) {
+    if (!owned) {
       return res.status(404).json({ message: 'Job not found' });
     }
+    const { job } = owned;
     
-    const state = (job as any).getState ? await (job as any).getState() : (job as any).status;
+    const state = await getJobState(job);
     
     if (state === 'completed') {
       return res.json((job as any).returnvalue || (job as any).result);
@@ -58,6 +93,8 @@ router.get('/:jobId/result', requireAuth, async (req, res) => {
         message: 'Job failed', 
         error: (job as any).failedReason || (job as any).error 
       });
+    } else if (state === 'cancelled') {
+      return res.status(410).json({ message: 'Job was cancelled' });
     } else {
       return res.status(202).json({ 
         status: state,
@@ -70,4 +107,36 @@ router.get('/:jobId/result', requireAuth, async (req, res) => {
   }
 });
 
-export default router;
\ No newline at end of file
+// Cancel a job that hasn't finished
+router.post('/:jobId/cancel', requireAuth, async (req, res) => {
+  const authReq = req as AuthenticatedRequest;
+  try {
+    const owned = await getOwnedJob(authReq.params.jobId, authReq.user.userId);
+    
+    if (!owned) {
+      return res.status(404).json({ message: 'Job not found' });
+    }
+    const { job } = owned;
+    
+    let cancelled = false;
+    if (typeof owned.queue.cancel === 'function') {
+      // Database queue: waiting jobs never start, running ones are told to stop
+      cancelled = await owned.queue.cancel(job.id);
+    } else if (['waiting', 'delayed', 'paused'].includes(await getJobState(job))) {
+      // Bull can only drop jobs that haven't started
+      await (job as any).remove();
+      cancelled = true;
+    }
+    
+    if (!cancelled) {
+      return res.status(409).json({ message: 'Job has already finished or can no longer be cancelled' });
+    }
+    
+    res.json({ id: job.id, state: 'cancelled' });
+  } catch (error) {
+    console.error('Cancel job error:', error);
+    res.status(500).json({ message: 'Failed to cancel job' });
+  }
+});
+
+export default router;
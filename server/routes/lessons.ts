@@ -1,12 +1,16 @@
 import { Router } from 'express';
 import { requireAuth } from '../middleware/auth';
-import { verifyClassAccess } from '../middleware/ownership-collaborator';
+import { verifyClassAccess, verifyClassEditAccess } from '../middleware/ownership-collaborator';
+import { requireManageCurriculum } from '../middleware/permission-check';
 import { db } from '../db';
-import { lessonProgress, lessonActivityProgress, classValuesSessions, classes, classValuesVotes, classValuesResults, students, currencyTransactions, lessonFeedback, profiles } from '../../shared/schema';
+import { lessonProgress, lessonActivityProgress, classValuesSessions, classes, classValuesVotes, classValuesResults, students, lessonFeedback, profiles } from '../../shared/schema';
 import { eq, and, sql, desc, avg } from 'drizzle-orm';
+import { isActiveStudent } from '../utils/student-scope';
 import { v7 as uuidv7 } from 'uuid';
 import { lessons } from '../../shared/lessons';
 import { CURRENCY_CONSTANTS, TRANSACTION_REASONS } from '../../shared/currency-types';
+import { postTransaction } from '../services/ledgerService';
+import { applyRewardRules } from '../services/rewardRuleService';
 
 const router = Router();
 
@@ -98,7 +102,7 @@ router.get('/:classId/lessons/:lessonId/progress', requireAuth, verifyClassAcces
 
 // POST /api/classes/:classId/lessons/:lessonId/start
 // Start or resume a lesson
-router.post('/:classId/lessons/:lessonId/start', requireAuth, verifyClassAccess, async (req, res) => {
+router.post('/:classId/lessons/:lessonId/start', requireAuth, verifyClassEditAccess, requireManageCurriculum, async (req, res) => {
   try {
     const { classId, lessonId } = req.params;
     const lessonIdNum = parseInt(lessonId);
@@ -151,7 +155,7 @@ router.post('/:classId/lessons/:lessonId/start', requireAuth, verifyClassAccess,
 
 // POST /api/classes/:classId/lessons/:lessonId/activities/:activityNumber/complete
 // Mark an activity as complete
-router.post('/:classId/lessons/:lessonId/activities/:activityNumber/complete', requireAuth, verifyClassAccess, async (req, res) => {
+router.post('/:classId/lessons/:lessonId/activities/:activityNumber/complete', requireAuth, verifyClassEditAccess, requireManageCurriculum, async (req, res) => {
   try {
     const { classId, lessonId, activityNumber } = req.params;
     const lessonIdNum = parseInt(lessonId);
@@ -216,6 +220,18 @@ router.post('/:classId/lessons/:lessonId/activities/:activityNumber/complete', r
         .where(eq(lessonActivityProgress.id, existingActivity.id));
     }
 
+    // Pay the class's per-activity reward rules the first time the activity is completed
+    if (!existingActivity?.completed) {
+      try {
+        await applyRewardRules(classId, {
+          trigger: 'lesson_activity_complete',
+          eventKey: `activity:${progress.id}:${activityNum}`
+        });
+      } catch (rewardError) {
+        console.error('Error applying lesson activity reward rules:', rewardError);
+      }
+    }
+
     // Update current activity if needed
     if (progress.currentActivity !== null && progress.currentActivity < activityNum + 1 && activityNum < 4) {
       await db
@@ -261,33 +277,27 @@ router.post('/:classId/lessons/:lessonId/activities/:activityNumber/complete', r
           const activeStudents = await tx
             .select()
             .from(students)
-            .where(eq(students.classId, classId));
+            .where(and(eq(students.classId, classId), isActiveStudent()));
 
-          // Create currency transactions for each student
+          // Reward each student one at a time; every posting locks its student row
           const coinAmount = CURRENCY_CONSTANTS.LESSON_COMPLETION_REWARD;
-          const transactionPromises = activeStudents.map(async (student) => {
-            // Create transaction record
-            await tx.insert(currencyTransactions).values({
-              id: uuidv7(),
+          for (const student of activeStudents) {
+            await postTransaction({
               studentId: student.id,
+              teacherId: userId,
               amount: coinAmount,
-              transactionType: 'lesson_complete',
+              type: 'lesson_complete',
               description: `${TRANSACTION_REASONS.LESSON_COMPLETE} - Lesson ${progress.lessonId}`,
-              teacherId: userId,
-              createdAt: new Date(),
-            });
+              idempotencyKey: `lesson:${progress.id}:${student.id}`
+            }, tx);
+          }
 
-            // Update student balance
-            await tx
-              .update(students)
-              .set({
-                currencyBalance: student.currencyBalance + coinAmount,
-                updatedAt: new Date(),
-              })
-              .where(eq(students.id, student.id));
-          });
-
-          await Promise.all(transactionPromises);
+          // Plus any lesson completion bonus the teacher has set up
+          await applyRewardRules(classId, {
+            trigger: 'lesson_complete',
+            eventKey: `lesson:${progress.id}`,
+            studentIds: activeStudents.map(student => student.id)
+          }, tx);
         }
       });
     }
@@ -301,7 +311,7 @@ router.post('/:classId/lessons/:lessonId/activities/:activityNumber/complete', r
 
 // POST /api/classes/:classId/lessons/:lessonId/complete
 // Mark entire lesson as complete and award coins to all students
-router.post('/:classId/lessons/:lessonId/complete', requireAuth, verifyClassAccess, async (req, res) => {
+router.post('/:classId/lessons/:lessonId/complete', requireAuth, verifyClassEditAccess, requireManageCurriculum, async (req, res) => {
   try {
     const { classId, lessonId } = req.params;
     const lessonIdNum = parseInt(lessonId);
@@ -397,6 +407,13 @@ router.post('/:classId/lessons/:lessonId/complete', requireAuth, verifyClassAcce
             })
             .where(eq(lessonActivityProgress.id, existing.id));
         }
+
+        if (!existing?.completed) {
+          await applyRewardRules(classId, {
+            trigger: 'lesson_activity_complete',
+            eventKey: `activity:${progress.id}:${i}`
+          }, tx);
+        }
       }
 
       // Award coins only if not already awarded
@@ -405,33 +422,27 @@ router.post('/:classId/lessons/:lessonId/complete', requireAuth, verifyClassAcce
         const activeStudents = await tx
           .select()
           .from(students)
-          .where(eq(students.classId, classId));
+          .where(and(eq(students.classId, classId), isActiveStudent()));
 
-        // Create currency transactions for each student
+        // Reward each student one at a time; every posting locks its student row
         const coinAmount = CURRENCY_CONSTANTS.LESSON_COMPLETION_REWARD;
-        const transactionPromises = activeStudents.map(async (student) => {
-          // Create transaction record
-          await tx.insert(currencyTransactions).values({
-            id: uuidv7(),
+        for (const student of activeStudents) {
+          await postTransaction({
             studentId: student.id,
+            teacherId: userId,
             amount: coinAmount,
-            transactionType: 'lesson_complete',
+            type: 'lesson_complete',
             description: `${TRANSACTION_REASONS.LESSON_COMPLETE} - Lesson ${lessonIdNum}`,
-            teacherId: userId,
-            createdAt: new Date(),
-          });
-
-          // Update student balance
-          await tx
-            .update(students)
-            .set({
-              currencyBalance: student.currencyBalance + coinAmount,
-              updatedAt: new Date(),
-            })
-            .where(eq(students.id, student.id));
-        });
+            idempotencyKey: `lesson:${progress.id}:${student.id}`
+          }, tx);
+        }
 
-        await Promise.all(transactionPromises);
+        // Plus any lesson completion bonus the teacher has set up
+        await applyRewardRules(classId, {
+          trigger: 'lesson_complete',
+          eventKey: `lesson:${progress.id}`,
+          studentIds: activeStudents.map(student => student.id)
+        }, tx);
       }
     });
 
@@ -500,7 +511,7 @@ router.get('/:classId/lessons/4/activity/2/status', requireAuth, verifyClassAcce
 
 // POST /api/classes/:classId/lessons/4/activity/2/start-voting
 // Start a class values voting session for Activity 2 of Lesson 4
-router.post('/:classId/lessons/4/activity/2/start-voting', requireAuth, verifyClassAccess, async (req, res) => {
+router.post('/:classId/lessons/4/activity/2/start-voting', requireAuth, verifyClassEditAccess, requireManageCurriculum, async (req, res) => {
   try {
     const { classId } = req.params;
     const userId = (req as any).user?.userId;
@@ -592,7 +603,7 @@ router.post('/:classId/lessons/4/activity/2/start-voting', requireAuth, verifyCl
 
 // POST /api/classes/:classId/lessons/4/activity/2/complete
 // Complete Activity 2 (Class Values Voting) and finalize the session
-router.post('/:classId/lessons/4/activity/2/complete', requireAuth, verifyClassAccess, async (req, res) => {
+router.post('/:classId/lessons/4/activity/2/complete', requireAuth, verifyClassEditAccess, requireManageCurriculum, async (req, res) => {
   try {
     const { classId } = req.params;
     const { sessionId } = req.body;
@@ -776,7 +787,7 @@ router.post('/:classId/lessons/4/activity/2/complete', requireAuth, verifyClassA
 
 // POST /api/classes/:classId/lessons/:lessonId/reset
 // Reset lesson progress (but keep coins with students)
-router.post('/:classId/lessons/:lessonId/reset', requireAuth, verifyClassAccess, async (req, res) => {
+router.post('/:classId/lessons/:lessonId/reset', requireAuth, verifyClassEditAccess, requireManageCurriculum, async (req, res) => {
   try {
     const { classId, lessonId } = req.params;
     const lessonIdNum = parseInt(lessonId);
@@ -825,7 +836,7 @@ router.post('/:classId/lessons/:lessonId/reset', requireAuth, verifyClassAccess,
 
 // POST /api/classes/:classId/lessons/:lessonId/activities/:activityNumber/reset
 // Reset specific activity progress
-router.post('/:classId/lessons/:lessonId/activities/:activityNumber/reset', requireAuth, verifyClassAccess, async (req, res) => {
+router.post('/:classId/lessons/:lessonId/activities/:activityNumber/reset', requireAuth, verifyClassEditAccess, requireManageCurriculum, async (req, res) => {
   try {
     const { classId, lessonId, activityNumber } = req.params;
     const lessonIdNum = parseInt(lessonId);
@@ -1,5 +1,7 @@
 import { Router } from 'express';
 import { requireAuth } from '../middleware/auth';
+import { verifyClassAccess } from '../middleware/ownership-collaborator';
+import { validateUUID } from '../middleware/validateUUID';
 import { getProfileById } from '../storage-supabase';
 import { db } from '../db';
 import { profiles } from '@shared/schema';
@@ -8,6 +10,7 @@ import bcrypt from 'bcrypt';
 import { supabaseAdmin, supabaseAnon } from '../supabase-clients';
 import { updateProfileSchema, updatePasswordSchema } from '../validation/auth-schemas';
 import { z } from 'zod';
+import { evaluateFlags } from '../services/featureFlagService';
 
 const router = Router();
 
@@ -38,7 +41,10 @@ router.get('/me', requireAuth, async (req, res) => {
       isAdmin: profile.isAdmin || false,
       schoolOrganization: profile.schoolOrganization,
       roleTitle: profile.roleTitle,
-      howHeardAbout: profile.howHeardAbout
+      howHeardAbout: profile.howHeardAbout,
+      // Same evaluation the server uses, so the client shows what the API allows.
+      // Flags rolled out by class are under /me/classes/:classId/feature-flags.
+      featureFlags: await evaluateFlags({ teacherId: userId, school: profile.schoolOrganization })
     };
     
     res.json({
@@ -54,6 +60,24 @@ router.get('/me', requireAuth, async (req, res) => {
   }
 });
 
+// Feature flags for the current teacher in one of their classes, including the
+// flags rolled out by class
+router.get('/me/classes/:classId/feature-flags', requireAuth, validateUUID('classId'), verifyClassAccess, async (req, res) => {
+  try {
+    const featureFlags = await evaluateFlags({ teacherId: req.user!.userId, classId: req.params.classId });
+    res.json({
+      success: true,
+      data: featureFlags
+    });
+  } catch (error) {
+    console.error('Error evaluating feature flags:', error);
+    res.status(500).json({ 
+      success: false, 
+      error: { message: "Failed to evaluate feature flags" } 
+    });
+  }
+});
+
 // Update current user profile (only allowed fields)
 router.put('/me/profile', requireAuth, async (req, res) => {
   try {
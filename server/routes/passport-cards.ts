@@ -0,0 +1,43 @@
+import { Router, type Response } from "express";
+import { z } from "zod";
+import { requireAuth } from "../middleware/auth";
+import { verifyClassAccess } from "../middleware/ownership-collaborator";
+import { asyncWrapper } from "../utils/async-wrapper";
+import { getPrintableRoster, renderPassportCards, renderRosterSheet } from "../services/passportCardService";
+
+const router = Router();
+
+// ?students=id1,id2 prints just those cards (e.g. to replace a lost one)
+const passportCardsQuerySchema = z.object({
+  students: z.string()
+    .optional()
+    .transform(value => value ? value.split(',').map(id => id.trim()).filter(Boolean) : undefined)
+    .pipe(z.array(z.string().uuid("Invalid student ID")).max(500).optional())
+});
+
+function sendPdf(res: Response, fileName: string, pdf: Buffer) {
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+  res.setHeader('Cache-Control', 'no-store'); // Passport codes are login credentials
+  res.send(pdf);
+}
+
+/**
+ * Printable cut-out passport cards: name, animal, class code, passport code and a
+ * QR code that opens the student login with the code filled in
+ */
+router.get('/:id/passport-cards', requireAuth, verifyClassAccess, asyncWrapper(async (req, res, _next) => {
+  const { students } = passportCardsQuerySchema.parse(req.query);
+  const { classRecord, roster } = await getPrintableRoster(req.params.id, students);
+
+  sendPdf(res, `passport-cards-${classRecord.classCode}.pdf`, await renderPassportCards(classRecord, roster));
+}));
+
+// One-page list of every student's passport code for the teacher
+router.get('/:id/roster-sheet', requireAuth, verifyClassAccess, asyncWrapper(async (req, res, _next) => {
+  const { classRecord, roster } = await getPrintableRoster(req.params.id);
+
+  sendPdf(res, `roster-${classRecord.classCode}.pdf`, await renderRosterSheet(classRecord, roster));
+}));
+
+export default router;
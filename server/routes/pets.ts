@@ -11,6 +11,8 @@ import { eq } from 'drizzle-orm';
 import {
   getAvailablePets,
   getStudentPet,
+  getStudentPets,
+  getPetCareSettings,
   purchasePet,
   interactWithPet,
   updatePetPosition,
@@ -87,7 +89,7 @@ router.get('/catalog', storeBrowsingLimiter, asyncWrapper(async (req, res, _next
 
 /**
  * GET /api/pets/my-pet
- * Get student's pet with current state
+ * Get student's pet with current state (their first, if they have several)
  * Requires student authentication
  */
 router.get('/my-pet', requireUnifiedAuth, requireStudent, asyncWrapper(async (req, res, _next) => {
@@ -107,6 +109,26 @@ router.get('/my-pet', requireUnifiedAuth, requireStudent, asyncWrapper(async (re
   res.json({ pet });
 }));
 
+/**
+ * GET /api/pets/my-pets
+ * Get all of the student's pets with current state, plus how many they may own
+ * Requires student authentication
+ */
+router.get('/my-pets', requireUnifiedAuth, requireStudent, asyncWrapper(async (req, res, _next) => {
+  // Bridge: Set req.studentId for legacy compatibility
+  if (req.auth?.role === 'student') {
+    (req as any).studentId = req.auth.studentId;
+  }
+  
+  const studentId = req.studentId!;
+  const [studentPets, { petSlots }] = await Promise.all([
+    getStudentPets(studentId),
+    getPetCareSettings(studentId)
+  ]);
+  
+  res.json({ pets: studentPets, petSlots });
+}));
+
 /**
  * POST /api/pets/purchase
  * Purchase a pet
@@ -143,8 +165,8 @@ router.post('/purchase', requireUnifiedAuth, requireStudent, storePurchaseLimite
   logger.debug('Purchase result', { success: result.success });
   
   if (!result.success) {
-    if (result.error === 'Student already has a pet') {
-      throw new BusinessError(result.error, ErrorCode.BIZ_002);
+    if (result.error === 'No free pet slots') {
+      throw new BusinessError(result.error, ErrorCode.BIZ_011);
     } else if (result.error === 'Insufficient balance') {
       throw new BusinessError(result.error, ErrorCode.BIZ_001);
     }
@@ -187,7 +209,9 @@ router.post('/:petId/interact', optionalAuth, flexiblePetAuth, storePurchaseLimi
   
   res.json({ 
     success: true, 
-    newStats: result.newStats 
+    newStats: result.newStats,
+    xp: result.xp,
+    evolvedTo: result.evolvedTo
   });
 }));
 
@@ -259,6 +283,7 @@ router.get('/:passportCode/pet', storeBrowsingLimiter, validateOwnDataAccess, as
       assetUrl: pet.pet.assetUrl,
       calculatedStats: pet.calculatedStats,
       visualState: pet.visualState,
+      stageName: pet.stageName,
       position: pet.position
     }
   });
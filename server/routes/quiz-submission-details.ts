@@ -4,6 +4,8 @@ import { db } from '../db';
 import { quizSubmissions, students, classes, animalTypes, geniusTypes } from '@shared/schema';
 import { eq } from 'drizzle-orm';
 import { requireAuth } from '../middleware/auth';
+import { analyzeMbtiScores } from '@shared/scoring';
+import type { QuizAnswers } from '@shared/types/storage-types';
 
 const router = Router();
 
@@ -27,7 +29,9 @@ router.get('/:id/details', requireAuth, async (req, res) => {
         geniusTypeName: geniusTypes.name,
         geniusTypeCode: geniusTypes.code,
         completedAt: quizSubmissions.completedAt,
-        answers: quizSubmissions.answers
+        answers: quizSubmissions.answers,
+        preferenceStrengths: quizSubmissions.preferenceStrengths,
+        borderline: quizSubmissions.borderline
       })
       .from(quizSubmissions)
       .leftJoin(students, eq(quizSubmissions.studentId, students.id))
@@ -48,6 +52,13 @@ router.get('/:id/details', requireAuth, async (req, res) => {
       return res.status(403).json({ message: "Access denied" });
     }
 
+    // Older submissions didn't record confidence; derive it from stored scores where we can
+    let { preferenceStrengths, borderline } = submission;
+    const storedScores = (submission.answers as QuizAnswers | null)?.scores;
+    if (!borderline && storedScores) {
+      ({ preferenceStrengths, borderline } = analyzeMbtiScores(storedScores));
+    }
+
     // Return formatted submission details
     res.json({
       id: submission.submissionId,
@@ -58,7 +69,9 @@ router.get('/:id/details', requireAuth, async (req, res) => {
       animalType: submission.animalTypeName || submission.animalTypeCode,
       geniusType: submission.geniusTypeName || submission.geniusTypeCode,
       completedAt: submission.completedAt,
-      answers: submission.answers
+      answers: submission.answers,
+      preferenceStrengths,
+      borderline
     });
   } catch (error: any) {
     console.error("Get submission details error:", error);
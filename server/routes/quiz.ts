@@ -3,9 +3,14 @@ import { uuidStorage } from '../storage-uuid';
 import { apiLimiter } from '../middleware/rateLimiter';
 import { validateClassAccess } from '../middleware/validate-class';
 import { createQuizSubmissionFast } from '../services/quizSubmissionService';
+import { getBankForClass, listBanks } from '../services/quizBankService';
+import { getRetakeEligibility } from '../services/quizRetakeService';
+import { analyzeMbtiScores } from '@shared/scoring';
+import { resolveLocale, localizeQuestions } from '@shared/i18n';
+import { requireAuth } from '../middleware/auth';
 import { db } from '../db';
-import { classes } from '@shared/schema';
-import { eq } from 'drizzle-orm';
+import { classes, students } from '@shared/schema';
+import { eq, and } from 'drizzle-orm';
 import { metricsService } from '../monitoring/metrics-service';
 
 const router = Router();
@@ -38,6 +43,12 @@ router.post('/submissions', quizLimiter, validateClassAccess, async (req, res) =
       return res.status(400).json({ message: "Animal type is required" });
     }
     
+    // Record which question bank version the class was answering
+    const questionBank = await getBankForClass(classId);
+    
+    // Confidence is derived from the letter counts the client scored
+    const confidence = scores && typeof scores === 'object' ? analyzeMbtiScores(scores) : null;
+    
     // Use the fast submission service
     const submission = await createQuizSubmissionFast({
       studentName,
@@ -54,6 +65,9 @@ router.post('/submissions', quizLimiter, validateClassAccess, async (req, res) =
       },
       personalityType,
       learningStyle: learningStyle || 'visual',
+      questionBankId: questionBank.id,
+      preferenceStrengths: confidence?.preferenceStrengths,
+      borderline: confidence?.borderline,
     });
     
     // Track successful student join
@@ -88,7 +102,7 @@ router.post('/submissions', quizLimiter, validateClassAccess, async (req, res) =
 // New endpoint to check quiz eligibility (proxy to Edge Function)
 router.post('/check-eligibility', apiLimiter, async (req, res) => {
   try {
-    const { classCode, firstName, lastInitial, grade } = req.body;
+    const { classCode, firstName, lastInitial, grade, passportCode } = req.body;
     
     // Basic validation
     if (!classCode || !firstName || !lastInitial) {
@@ -106,7 +120,7 @@ router.post('/check-eligibility', apiLimiter, async (req, res) => {
       .where(eq(classes.classCode, classCode.toUpperCase()))
       .limit(1);
       
-    if (!classData || classData.isArchived) {
+    if (!classData || classData.isArchived || classData.deletedAt) {
       return res.json({
         eligible: false,
         reason: 'INVALID_CLASS',
@@ -114,6 +128,43 @@ router.post('/check-eligibility', apiLimiter, async (req, res) => {
       });
     }
     
+    // Returning students identify themselves with their passport; the class retake policy decides
+    if (passportCode) {
+      const [existingStudent] = await db
+        .select({ id: students.id })
+        .from(students)
+        .where(and(
+          eq(students.passportCode, String(passportCode).toUpperCase()),
+          eq(students.classId, classData.id)
+        ))
+        .limit(1);
+        
+      if (existingStudent) {
+        const retake = await getRetakeEligibility(existingStudent.id);
+        
+        if (retake && !retake.allowed) {
+          return res.json({
+            eligible: false,
+            reason: 'RETAKE_NOT_ALLOWED',
+            message: retake.reason === 'COOLDOWN'
+              ? 'You can retake the quiz after the waiting period.'
+              : 'You have already taken the quiz. Ask your teacher if you want to take it again.',
+            retake
+          });
+        }
+        
+        return res.json({
+          eligible: true,
+          warnings: [],
+          retake,
+          classInfo: {
+            name: classData.name,
+            id: classData.id
+          }
+        });
+      }
+    }
+    
     // For now, return eligible (full validation happens in Edge Function)
     res.json({
       eligible: true,
@@ -131,4 +182,55 @@ router.post('/check-eligibility', apiLimiter, async (req, res) => {
   }
 });
 
+// Get the quiz questions for a class (resolves the class's pinned bank version)
+// ?locale= picks the language; otherwise the class default is used
+router.get('/questions', apiLimiter, async (req, res) => {
+  try {
+    const classCode = typeof req.query.classCode === 'string' ? req.query.classCode : '';
+    
+    if (!classCode) {
+      return res.status(400).json({ message: 'Class code is required' });
+    }
+    
+    const [classData] = await db
+      .select({ id: classes.id, isArchived: classes.isArchived, deletedAt: classes.deletedAt, defaultLocale: classes.defaultLocale })
+      .from(classes)
+      .where(eq(classes.classCode, classCode.toUpperCase()))
+      .limit(1);
+      
+    if (!classData || classData.isArchived || classData.deletedAt) {
+      return res.status(404).json({ message: 'This class code is not valid.' });
+    }
+    
+    const bank = await getBankForClass(classData.id);
+    const locale = resolveLocale(req.query.locale, classData.defaultLocale);
+    
+    res.json({
+      locale,
+      bank: {
+        id: bank.id,
+        code: bank.code,
+        version: bank.version,
+        name: bank.name,
+        gradeBand: bank.gradeBand
+      },
+      questions: localizeQuestions(bank.questions, locale, bank.translations)
+    });
+  } catch (error) {
+    console.error('Get quiz questions error:', error);
+    res.status(500).json({ message: 'Failed to get quiz questions' });
+  }
+});
+
+// List active question banks (for teachers choosing a bank for their class)
+router.get('/banks', requireAuth, async (req, res) => {
+  try {
+    const banks = await listBanks();
+    res.json(banks);
+  } catch (error) {
+    console.error('List question banks error:', error);
+    res.status(500).json({ message: 'Failed to get question banks' });
+  }
+});
+
 export default router;
\ No newline at end of file
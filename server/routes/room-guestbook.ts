@@ -2,10 +2,14 @@
 import type { Express } from "express";
 import { z } from "zod";
 import { db } from "../db.js";
-import { roomGuestbook, students, roomVisits } from "@shared/schema";
-import { eq, and, desc, count, isNotNull } from "drizzle-orm";
+import { roomGuestbook, students, roomVisits, studentBlocks } from "@shared/schema";
+import { eq, and, desc, count, isNotNull, isNull } from "drizzle-orm";
+import { isActiveStudent } from "../utils/student-scope";
 import { optionalStudentAuth } from "../middleware/passport-auth.js";
 import { roomBrowsingLimiter } from "../middleware/rateLimiter.js";
+import { moderateText } from "../utils/profanityFilter.js";
+import { flagContent } from "../services/moderationService.js";
+import { isBlockedBy } from "../services/studentSafetyService.js";
 
 // Validation schemas
 const createMessageSchema = z.object({
@@ -42,7 +46,7 @@ export function registerRoomGuestbookRoutes(app: Express) {
           classId: students.classId,
         })
         .from(students)
-        .where(eq(students.passportCode, roomOwnerPassportCode))
+        .where(and(eq(students.passportCode, roomOwnerPassportCode), isActiveStudent()))
         .limit(1);
 
       if (roomOwnerData.length === 0) {
@@ -62,6 +66,13 @@ export function registerRoomGuestbookRoutes(app: Express) {
         });
       }
 
+      if (await isBlockedBy(roomOwner.id, visitorStudentId)) {
+        return res.status(403).json({ 
+          error: "Blocked", 
+          message: "You can't leave a message in this room" 
+        });
+      }
+
       // Check if visitor has actually visited this room
       const hasVisited = await db
         .select()
@@ -79,24 +90,43 @@ export function registerRoomGuestbookRoutes(app: Express) {
         });
       }
 
-      // Create the guestbook message
-      const newMessage = await db
-        .insert(roomGuestbook)
-        .values({
-          roomOwnerStudentId: roomOwner.id,
-          visitorStudentId,
-          message: message.trim(),
-          visitorName: req.student.studentName,
-          visitorAnimalType: undefined, // TODO: Get from database if needed
-        })
-        .returning();
-
-      // Get visitor name for response
+      // Anything the filter flags is saved hidden and waits for the teacher
+      const moderation = moderateText(message);
       const visitorName = req.student.studentName;
 
+      // Create the guestbook message
+      const newMessage = await db.transaction(async (tx) => {
+        const created = await tx
+          .insert(roomGuestbook)
+          .values({
+            roomOwnerStudentId: roomOwner.id,
+            visitorStudentId,
+            message: message.trim(),
+            status: moderation.flagged ? 'flagged_for_review' : 'visible',
+            visitorName,
+            visitorAnimalType: undefined, // TODO: Get from database if needed
+          })
+          .returning();
+
+        if (moderation.flagged) {
+          await flagContent(tx, {
+            classId: roomOwner.classId,
+            studentId: visitorStudentId,
+            contentType: 'guestbook_message',
+            contentId: created[0].id,
+            content: created[0].message,
+            reasons: moderation.reasons,
+          });
+        }
+        return created;
+      });
+
       return res.json({
         success: true,
-        message: `Message from ${visitorName} posted to ${roomOwner.studentName}'s guestbook`,
+        pendingReview: moderation.flagged,
+        message: moderation.flagged
+          ? `Your message to ${roomOwner.studentName} will show once your teacher has checked it`
+          : `Message from ${visitorName} posted to ${roomOwner.studentName}'s guestbook`,
         guestbookEntry: {
           ...newMessage[0],
           visitorName,
@@ -145,6 +175,7 @@ export function registerRoomGuestbookRoutes(app: Express) {
         .select({
           id: roomGuestbook.id,
           message: roomGuestbook.message,
+          status: roomGuestbook.status,
           createdAt: roomGuestbook.createdAt,
           roomOwnerStudentId: roomGuestbook.roomOwnerStudentId,
           roomOwnerStudentName: students.studentName,
@@ -187,7 +218,7 @@ export function registerRoomGuestbookRoutes(app: Express) {
           classId: students.classId,
         })
         .from(students)
-        .where(eq(students.passportCode, passportCode))
+        .where(and(eq(students.passportCode, passportCode), isActiveStudent()))
         .limit(1);
 
       if (roomOwnerData.length === 0) {
@@ -199,7 +230,8 @@ export function registerRoomGuestbookRoutes(app: Express) {
 
       const roomOwner = roomOwnerData[0];
 
-      // Get all guestbook messages for this room
+      // Get the room's guestbook messages (flagged or hidden ones stay out, and so do
+      // messages from classmates the owner has blocked for as long as the block lasts)
       const guestbookMessages = await db
         .select({
           id: roomGuestbook.id,
@@ -211,7 +243,15 @@ export function registerRoomGuestbookRoutes(app: Express) {
         })
         .from(roomGuestbook)
         .innerJoin(students, eq(roomGuestbook.visitorStudentId, students.id))
-        .where(eq(roomGuestbook.roomOwnerStudentId, roomOwner.id))
+        .leftJoin(studentBlocks, and(
+          eq(studentBlocks.blockerStudentId, roomOwner.id),
+          eq(studentBlocks.blockedStudentId, roomGuestbook.visitorStudentId)
+        ))
+        .where(and(
+          eq(roomGuestbook.roomOwnerStudentId, roomOwner.id),
+          eq(roomGuestbook.status, 'visible'),
+          isNull(studentBlocks.id)
+        ))
         .orderBy(desc(roomGuestbook.createdAt));
 
       // Get unique visitor count for this room
@@ -2,7 +2,8 @@
 import type { Express } from "express";
 import { db } from "../db";
 import { students, classes, animalTypes, geniusTypes } from "@shared/schema";
-import { eq } from "drizzle-orm";
+import { eq, and } from "drizzle-orm";
+import { isActiveStudent } from "../utils/student-scope";
 import { isValidPassportCode } from "@shared/currency-types";
 import { roomBrowsingLimiter } from "../middleware/rateLimiter";
 import { getCache } from "../lib/cache-factory";
@@ -44,7 +45,7 @@ export function registerPublicRoomRoutes(app: Express) {
         .innerJoin(classes, eq(students.classId, classes.id))
         .leftJoin(animalTypes, eq(students.animalTypeId, animalTypes.id))
         .leftJoin(geniusTypes, eq(students.geniusTypeId, geniusTypes.id))
-        .where(eq(students.passportCode, passportCode))
+        .where(and(eq(students.passportCode, passportCode), isActiveStudent()))
         .limit(1);
 
       if (studentData.length === 0) {
@@ -5,6 +5,7 @@ import { z } from "zod";
 import { db } from "../db";
 import { quizSubmissions, students, classes, currencyTransactions, storeSettings, storeItems, animalTypes, geniusTypes } from "@shared/schema";
 import { eq, and, desc } from "drizzle-orm";
+import { isActiveStudent } from "../utils/student-scope";
 import { isValidPassportCode, TRANSACTION_REASONS } from "@shared/currency-types";
 import { requireUnifiedAuth, requireStudent } from "../middleware/unified-auth";
 import { supabaseAdmin } from "../supabase-clients";
@@ -54,7 +55,8 @@ export function registerSecureRoomRoutes(app: Express) {
         .from(students)
         .where(and(
           eq(students.passportCode, passportCode),
-          eq(students.classId, classData.id)
+          eq(students.classId, classData.id),
+          isActiveStudent()
         ))
         .limit(1);
       
@@ -116,7 +118,7 @@ export function registerSecureRoomRoutes(app: Express) {
           classId: students.classId
         })
         .from(students)
-        .where(eq(students.passportCode, passportCode))
+        .where(and(eq(students.passportCode, passportCode), isActiveStudent()))
         .limit(1);
       
       const student = studentResult[0];
@@ -173,7 +175,7 @@ export function registerSecureRoomRoutes(app: Express) {
           passportCode: students.passportCode
         })
         .from(students)
-        .where(eq(students.id, req.studentId!))
+        .where(and(eq(students.id, req.studentId!), isActiveStudent()))
         .limit(1);
 
       if (!student) {
@@ -219,7 +221,7 @@ export function registerSecureRoomRoutes(app: Express) {
         .innerJoin(classes, eq(students.classId, classes.id))
         .leftJoin(animalTypes, eq(students.animalTypeId, animalTypes.id))
         .leftJoin(geniusTypes, eq(students.geniusTypeId, geniusTypes.id))
-        .where(eq(students.id, req.studentId!))
+        .where(and(eq(students.id, req.studentId!), isActiveStudent()))
         .limit(1);
 
       if (studentData.length === 0) {
@@ -263,7 +265,7 @@ export function registerSecureRoomRoutes(app: Express) {
         })
         .from(students)
         .innerJoin(classes, eq(students.classId, classes.id))
-        .where(eq(students.id, req.studentId!))
+        .where(and(eq(students.id, req.studentId!), isActiveStudent()))
         .limit(1);
 
       if (studentClass.length === 0) {
@@ -304,7 +306,7 @@ export function registerSecureRoomRoutes(app: Express) {
           avatarData: students.avatarData
         })
         .from(students)
-        .where(eq(students.id, req.studentId!))
+        .where(and(eq(students.id, req.studentId!), isActiveStudent()))
         .limit(1);
       
       if (studentData.length === 0) {
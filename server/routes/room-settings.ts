@@ -3,7 +3,8 @@ import type { Express } from "express";
 import { z } from "zod";
 import { db } from "../db";
 import { students } from "@shared/schema";
-import { eq } from "drizzle-orm";
+import { eq, and } from "drizzle-orm";
+import { isActiveStudent } from "../utils/student-scope";
 import { checkRoomAccess } from "../middleware/room-access";
 import { optionalStudentAuth } from "../middleware/passport-auth";
 
@@ -29,7 +30,7 @@ export function registerRoomSettingsRoutes(app: Express) {
           roomVisibility: students.roomVisibility
         })
         .from(students)
-        .where(eq(students.passportCode, passportCode))
+        .where(and(eq(students.passportCode, passportCode), isActiveStudent()))
         .limit(1);
 
       if (!student) {
@@ -1,30 +1,36 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
+import { db } from "../db";
+import { students } from "@shared/schema";
+import { eq, and } from "drizzle-orm";
+import { isActiveStudent } from "../utils/student-scope";
+import { optionalStudentAuth } from "../middleware/passport-auth";
+import { checkRoomAccess } from "../middleware/room-access";
+import { isBlockedBy } from "../services/studentSafetyService";
+import {
+  getViewers,
+  joinRoom,
+  leaveRoom,
+  touchViewer,
+  subscribeToRoom,
+  type RoomEvent
+} from "../services/roomPresenceService";
 
-// In-memory storage for room viewers (in production, use Redis)
-const roomViewers = new Map<string, Map<string, { name: string; joinedAt: Date }>>();
+// Comment lines keep proxies from closing an idle event stream
+const EVENT_STREAM_PING_MS = 25 * 1000;
 
-// Cleanup stale viewers every 30 seconds
-setInterval(() => {
-  const now = new Date();
-  const STALE_THRESHOLD = 60 * 1000; // 60 seconds
-  
-  for (const [roomId, viewers] of roomViewers.entries()) {
-    for (const [viewerId, viewer] of viewers.entries()) {
-      if (now.getTime() - viewer.joinedAt.getTime() > STALE_THRESHOLD) {
-        viewers.delete(viewerId);
-      }
-    }
-    
-    // Remove empty rooms
-    if (viewers.size === 0) {
-      roomViewers.delete(roomId);
-    }
-  }
-}, 30000);
+// A signed-in student can only be themselves in a room
+function isForgedViewer(req: Request): boolean {
+  return !!req.student && String(req.body.viewerId) !== req.student.id;
+}
+
+// Visitors without a student session get a guest id so they can't pass for a student
+function viewerIdFor(req: Request): string {
+  return req.student ? req.student.id : `guest:${req.body.viewerId}`;
+}
 
 export function registerRoomViewerRoutes(app: Express) {
   // Join a room as a viewer
-  app.post("/api/room/:passportCode/viewers/join", async (req, res) => {
+  app.post("/api/room/:passportCode/viewers/join", optionalStudentAuth, async (req, res) => {
     try {
       const { passportCode } = req.params;
       const { viewerId, viewerName } = req.body;
@@ -32,23 +38,28 @@ export function registerRoomViewerRoutes(app: Express) {
       if (!viewerId || !viewerName) {
         return res.status(400).json({ message: "viewerId and viewerName required" });
       }
-      
-      // Get or create room viewer map
-      if (!roomViewers.has(passportCode)) {
-        roomViewers.set(passportCode, new Map());
+      if (isForgedViewer(req)) {
+        return res.status(403).json({ message: "You can only join as yourself" });
       }
       
-      const viewers = roomViewers.get(passportCode)!;
-      viewers.set(viewerId, { name: viewerName, joinedAt: new Date() });
+      // Classmates the owner blocked can't watch the room
+      const visitorId = req.student?.id;
+      if (visitorId) {
+        const [roomOwner] = await db
+          .select({ id: students.id })
+          .from(students)
+          .where(and(eq(students.passportCode, passportCode), isActiveStudent()))
+          .limit(1);
+        
+        if (roomOwner && await isBlockedBy(roomOwner.id, visitorId)) {
+          return res.status(403).json({ message: "You can't visit this room" });
+        }
+      }
       
-      // Return current viewers
-      const viewerList = Array.from(viewers.entries()).map(([id, data]) => ({
-        id,
-        name: data.name,
-        joinedAt: data.joinedAt
-      }));
+      const name = req.student ? req.student.studentName : String(viewerName);
+      const viewers = await joinRoom(passportCode, { id: viewerIdFor(req), name });
       
-      res.json({ viewers: viewerList });
+      res.json({ viewers });
     } catch (error) {
       console.error("Join room error:", error);
       res.status(500).json({ message: "Failed to join room" });
@@ -56,7 +67,7 @@ export function registerRoomViewerRoutes(app: Express) {
   });
   
   // Leave a room
-  app.post("/api/room/:passportCode/viewers/leave", async (req, res) => {
+  app.post("/api/room/:passportCode/viewers/leave", optionalStudentAuth, async (req, res) => {
     try {
       const { passportCode } = req.params;
       const { viewerId } = req.body;
@@ -64,16 +75,12 @@ export function registerRoomViewerRoutes(app: Express) {
       if (!viewerId) {
         return res.status(400).json({ message: "viewerId required" });
       }
-      
-      const viewers = roomViewers.get(passportCode);
-      if (viewers) {
-        viewers.delete(viewerId);
-        
-        if (viewers.size === 0) {
-          roomViewers.delete(passportCode);
-        }
+      if (isForgedViewer(req)) {
+        return res.status(403).json({ message: "You can only leave as yourself" });
       }
       
+      await leaveRoom(passportCode, viewerIdFor(req));
+      
       res.json({ success: true });
     } catch (error) {
       console.error("Leave room error:", error);
@@ -86,18 +93,7 @@ export function registerRoomViewerRoutes(app: Express) {
     try {
       const { passportCode } = req.params;
       
-      const viewers = roomViewers.get(passportCode);
-      if (!viewers || viewers.size === 0) {
-        return res.json({ viewers: [] });
-      }
-      
-      const viewerList = Array.from(viewers.entries()).map(([id, data]) => ({
-        id,
-        name: data.name,
-        joinedAt: data.joinedAt
-      }));
-      
-      res.json({ viewers: viewerList });
+      res.json({ viewers: await getViewers(passportCode) });
     } catch (error) {
       console.error("Get viewers error:", error);
       res.status(500).json({ message: "Failed to get viewers" });
@@ -105,7 +101,7 @@ export function registerRoomViewerRoutes(app: Express) {
   });
   
   // Heartbeat to keep viewer active
-  app.post("/api/room/:passportCode/viewers/heartbeat", async (req, res) => {
+  app.post("/api/room/:passportCode/viewers/heartbeat", optionalStudentAuth, async (req, res) => {
     try {
       const { passportCode } = req.params;
       const { viewerId } = req.body;
@@ -113,17 +109,63 @@ export function registerRoomViewerRoutes(app: Express) {
       if (!viewerId) {
         return res.status(400).json({ message: "viewerId required" });
       }
-      
-      const viewers = roomViewers.get(passportCode);
-      if (viewers && viewers.has(viewerId)) {
-        const viewer = viewers.get(viewerId)!;
-        viewer.joinedAt = new Date(); // Update timestamp
+      if (isForgedViewer(req)) {
+        return res.status(403).json({ message: "You can only update your own presence" });
       }
       
+      await touchViewer(passportCode, viewerIdFor(req));
+      
       res.json({ success: true });
     } catch (error) {
       console.error("Heartbeat error:", error);
       res.status(500).json({ message: "Failed to update heartbeat" });
     }
   });
-}
\ No newline at end of file
+  
+  // Live room updates (server-sent events): who is watching, plus avatar and furniture
+  // changes as the owner makes them. Opening the stream joins the room as a viewer and
+  // closing it leaves, so no heartbeats are needed.
+  app.get("/api/room/:passportCode/events", optionalStudentAuth, checkRoomAccess, async (req, res) => {
+    const { passportCode } = req.params;
+    const viewer = req.student
+      ? { id: req.student.id, name: req.student.studentName }
+      : { id: `teacher:${req.user!.userId}`, name: req.profile?.fullName || 'Teacher' };
+    
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no' // Stop nginx holding events back
+    });
+    
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+    
+    const unsubscribe = subscribeToRoom(passportCode, (event: RoomEvent) => {
+      send(event.type, { ...event.data, at: event.at });
+    });
+    
+    const ping = setInterval(() => {
+      res.write(': ping\n\n');
+      touchViewer(passportCode, viewer.id).catch(error => {
+        console.error("Room presence refresh error:", error);
+      });
+    }, EVENT_STREAM_PING_MS);
+    
+    req.on('close', () => {
+      clearInterval(ping);
+      unsubscribe();
+      leaveRoom(passportCode, viewer.id).catch(error => {
+        console.error("Leave room error:", error);
+      });
+    });
+    
+    try {
+      send('presence', { viewers: await joinRoom(passportCode, viewer) });
+    } catch (error) {
+      console.error("Join room error:", error);
+      send('error', { message: "Failed to join room" });
+    }
+  });
+}
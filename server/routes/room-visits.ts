@@ -4,6 +4,7 @@ import type { Express } from "express";
 import { db } from "../db.js";
 import { roomVisits, students, classes } from "@shared/schema";
 import { eq, and, desc, count } from "drizzle-orm";
+import { isActiveStudent } from "../utils/student-scope";
 import { optionalStudentAuth } from "../middleware/passport-auth.js";
 import { roomBrowsingLimiter } from "../middleware/rateLimiter.js";
 
@@ -41,7 +42,7 @@ export function registerRoomVisitRoutes(app: Express) {
           classId: students.classId,
         })
         .from(students)
-        .where(eq(students.passportCode, visitedPassportCode))
+        .where(and(eq(students.passportCode, visitedPassportCode), isActiveStudent()))
         .limit(1);
 
       if (visitedStudentData.length === 0) {
@@ -194,7 +195,7 @@ export function registerRoomVisitRoutes(app: Express) {
           classId: students.classId,
         })
         .from(students)
-        .where(eq(students.passportCode, passportCode))
+        .where(and(eq(students.passportCode, passportCode), isActiveStudent()))
         .limit(1);
 
       if (roomOwnerData.length === 0) {
@@ -270,7 +271,7 @@ export function registerRoomVisitRoutes(app: Express) {
           passportCode: students.passportCode,
         })
         .from(students)
-        .where(eq(students.classId, classId));
+        .where(and(eq(students.classId, classId), isActiveStudent()));
 
       if (classStudents.length === 0) {
         return res.status(404).json({ 
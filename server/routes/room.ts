@@ -4,6 +4,7 @@ import { z } from "zod";
 import { db } from "../db";
 import { students, classes, currencyTransactions, storeItems, quizSubmissions, studentInventory, itemTypes, animalTypes, geniusTypes, patterns } from "@shared/schema";
 import { eq, and, or, desc, asc, inArray, sql, ne } from "drizzle-orm";
+import { isActiveStudent } from "../utils/student-scope";
 import { isValidPassportCode, TRANSACTION_REASONS } from "@shared/currency-types";
 import { getCache } from "../lib/cache-factory";
 
@@ -14,7 +15,8 @@ import { roomSaveLimiter, roomBrowsingLimiter, passportLoginLimiter } from "../m
 import { validateOwnDataAccess } from "../middleware/validate-student-class";
 import { checkRoomAccess } from "../middleware/room-access";
 import { requireEditAccess } from "../middleware/requireEditAccess";
-import { getStudentPet, getAvailablePets } from "../services/petService";
+import { getStudentPets, getAvailablePets, type StudentPetWithState } from "../services/petService";
+import { publishRoomEvent } from "../services/roomPresenceService";
 import { optionalAuth } from "../middleware/auth";
 import { optionalStudentAuth } from "../middleware/passport-auth";
 
@@ -72,7 +74,7 @@ export function registerRoomRoutes(app: Express) {
         .innerJoin(classes, eq(students.classId, classes.id))
         .leftJoin(animalTypes, eq(students.animalTypeId, animalTypes.id))
         .leftJoin(geniusTypes, eq(students.geniusTypeId, geniusTypes.id))
-        .where(eq(students.passportCode, passportCode))
+        .where(and(eq(students.passportCode, passportCode), isActiveStudent()))
         .limit(1);
 
       if (studentData.length === 0) {
@@ -378,10 +380,10 @@ export function registerRoomRoutes(app: Express) {
         }
       }
       
-      // Get student's pet if they have one
-      let pet = null;
+      // Get student's pets if they have any
+      let studentPets: StudentPetWithState[] = [];
       try {
-        pet = await getStudentPet(student.id);
+        studentPets = await getStudentPets(student.id);
       } catch (error) {
         console.error('Error fetching student pet:', error);
         // Continue without pet data
@@ -411,7 +413,8 @@ export function registerRoomRoutes(app: Express) {
         wallet,
         storeStatus,
         storeCatalog,
-        pet, // Include pet data
+        pet: studentPets[0] ?? null, // First pet, for clients that show one
+        pets: studentPets,
         // Include access information for frontend
         access: {
           canView: req.roomAccess?.canView || false,
@@ -463,7 +466,7 @@ export function registerRoomRoutes(app: Express) {
         .innerJoin(classes, eq(students.classId, classes.id))
         .leftJoin(animalTypes, eq(students.animalTypeId, animalTypes.id))
         .leftJoin(geniusTypes, eq(students.geniusTypeId, geniusTypes.id))
-        .where(eq(students.passportCode, passportCode))
+        .where(and(eq(students.passportCode, passportCode), isActiveStudent()))
         .limit(1);
 
       if (studentData.length === 0) {
@@ -513,7 +516,7 @@ export function registerRoomRoutes(app: Express) {
         })
         .from(students)
         .innerJoin(classes, eq(students.classId, classes.id))
-        .where(eq(students.passportCode, passportCode))
+        .where(and(eq(students.passportCode, passportCode), isActiveStudent()))
         .limit(1);
 
       if (studentClass.length === 0) {
@@ -570,7 +573,7 @@ export function registerRoomRoutes(app: Express) {
           updatedAt: students.updatedAt
         })
         .from(students)
-        .where(eq(students.passportCode, passportCode))
+        .where(and(eq(students.passportCode, passportCode), isActiveStudent()))
         .limit(1);
       
       if (studentData.length === 0) {
@@ -626,6 +629,8 @@ export function registerRoomRoutes(app: Express) {
       
       // Clear cache
       cache.del(`room-page-data:${passportCode}`);
+      await publishRoomEvent(passportCode, 'avatar_updated', { avatarData: updatedAvatarData });
+      await publishRoomEvent(passportCode, 'room_updated', { roomData: updatedRoomData });
       
       res.json({
         message: "Room state saved successfully!",
@@ -666,7 +671,7 @@ export function registerRoomRoutes(app: Express) {
           id: students.id
         })
         .from(students)
-        .where(eq(students.passportCode, passportCode))
+        .where(and(eq(students.passportCode, passportCode), isActiveStudent()))
         .limit(1);
       
       if (studentData.length === 0) {
@@ -739,6 +744,7 @@ export function registerRoomRoutes(app: Express) {
       
       // Clear cache
       cache.del(`room-page-data:${passportCode}`);
+      await publishRoomEvent(passportCode, 'avatar_updated', { slot, itemId: itemId || null });
       
       res.json({
         message: itemId ? "Item equipped!" : "Item unequipped!"
@@ -778,7 +784,7 @@ export function registerRoomRoutes(app: Express) {
           id: students.id
         })
         .from(students)
-        .where(eq(students.passportCode, passportCode))
+        .where(and(eq(students.passportCode, passportCode), isActiveStudent()))
         .limit(1);
       
       if (studentData.length === 0) {
@@ -837,7 +843,7 @@ export function registerRoomRoutes(app: Express) {
         const currentAvatarData = await tx
           .select({ avatarData: students.avatarData })
           .from(students)
-          .where(eq(students.id, student.id))
+          .where(and(eq(students.id, student.id), isActiveStudent()))
           .limit(1);
         
         const currentData = currentAvatarData[0]?.avatarData as any || {};
@@ -855,6 +861,7 @@ export function registerRoomRoutes(app: Express) {
       
       // Clear cache
       cache.del(`room-page-data:${passportCode}`);
+      await publishRoomEvent(passportCode, 'avatar_updated', { equipped: equipped || {}, colors });
       
       res.json({
         message: "Avatar customization saved!"
@@ -920,7 +927,7 @@ export function registerRoomRoutes(app: Express) {
           roomData: students.roomData
         })
         .from(students)
-        .where(eq(students.passportCode, passportCode))
+        .where(and(eq(students.passportCode, passportCode), isActiveStudent()))
         .limit(1);
       
       if (studentData.length === 0) {
@@ -1124,7 +1131,7 @@ export function registerRoomRoutes(app: Express) {
         const verifyData = await tx
           .select({ roomData: students.roomData })
           .from(students)
-          .where(eq(students.id, student.id))
+          .where(and(eq(students.id, student.id), isActiveStudent()))
           .limit(1);
         
         console.log('Verification read after update:', {
@@ -1135,6 +1142,7 @@ export function registerRoomRoutes(app: Express) {
       
       // Clear cache
       cache.del(`room-page-data:${passportCode}`);
+      await publishRoomEvent(passportCode, 'room_updated', { roomData: updatedRoomData });
       
       console.log('Room save completed successfully for:', passportCode);
       
@@ -1177,7 +1185,7 @@ export function registerRoomRoutes(app: Express) {
           avatarData: students.avatarData
         })
         .from(students)
-        .where(eq(students.passportCode, passportCode))
+        .where(and(eq(students.passportCode, passportCode), isActiveStudent()))
         .limit(1);
       
       if (studentData.length === 0) {
@@ -1208,6 +1216,7 @@ export function registerRoomRoutes(app: Express) {
       
       // Clear cache
       cache.del(`room-page-data:${passportCode}`);
+      await publishRoomEvent(passportCode, 'avatar_updated', { colors: updatedAvatarData.colors });
       
       res.json({
         message: "Avatar colors saved successfully!",
@@ -1287,7 +1296,7 @@ export function registerRoomRoutes(app: Express) {
           roomData: students.roomData
         })
         .from(students)
-        .where(eq(students.passportCode, passportCode))
+        .where(and(eq(students.passportCode, passportCode), isActiveStudent()))
         .limit(1);
       
       if (studentData.length === 0) {
@@ -1340,6 +1349,7 @@ export function registerRoomRoutes(app: Express) {
       
       // Clear cache
       cache.del(`room-page-data:${passportCode}`);
+      await publishRoomEvent(passportCode, 'room_updated', { wall: updatedRoomData.wall || null, floor: updatedRoomData.floor || null });
       
       // Fetch pattern details for the response if patterns were applied
       const responseData = {
@@ -1,21 +1,28 @@
-// Direct Store Purchase Routes (No Approval Required)
+// Direct Store Purchase Routes (approval only above the class's auto-approval threshold)
 import { z } from "zod";
 import { Router } from 'express';
 import { db } from '../db';
-import { students, storeItems, studentInventory, currencyTransactions, classes, itemTypes } from '@shared/schema';
-import { eq, and, sql, asc, ne } from 'drizzle-orm';
+import { students, storeItems, studentInventory, classes } from '@shared/schema';
+import { eq, and, asc } from 'drizzle-orm';
 import StorageRouter from '../services/storage-router';
 import { storePurchaseLimiter, storeBrowsingLimiter } from '../middleware/rateLimiter';
-import { requireStudentAuth } from '../middleware/passport-auth';
-import { getCache } from '../lib/cache-factory';
+import { requireStudentAuth, optionalStudentAuth } from '../middleware/passport-auth';
 import { createFishForStudent } from '../services/fishbowlService';
+import { computeStoreStatus, getClassStoreSettings, requiresPurchaseApproval } from '../services/storeStatusService';
+import {
+  PURCHASE_REQUEST_STATUSES,
+  createPurchaseRequest,
+  cancelPurchaseRequest,
+  listPurchaseRequests
+} from '../services/purchaseRequestService';
+import { postTransaction } from '../services/ledgerService';
+import { getCatalog, getPurchasableItem, getItemPrice, claimStock, invalidateCatalogCache } from '../services/storeCatalogService';
+import { REDEMPTION_STATUSES, redeemItem, listRedemptions } from '../services/classStoreItemService';
+import { getSellBackQuote, sellBackItem } from '../services/itemRefundService';
+import { redeemItemSchema } from '../validation/class-schemas';
+import { AppError, BusinessError, ErrorCode } from '../utils/errors';
 
 const router = Router();
-const cache = getCache();
-
-// Cache configuration
-const CATALOG_CACHE_KEY = 'store:catalog:active';
-const CATALOG_CACHE_TTL = 300; // 5 minutes in seconds
 
 // Validation schemas
 const purchaseSchema = z.object({
@@ -25,46 +32,13 @@ const purchaseSchema = z.object({
 
 /**
  * GET /api/store-direct/catalog
- * Get all active store items (with caching)
+ * Get the store items available right now (with caching). With a passport code the
+ * student's class-only items are included too.
  */
-router.get('/catalog', storeBrowsingLimiter, async (req, res) => {
+router.get('/catalog', storeBrowsingLimiter, optionalStudentAuth, async (req, res) => {
   try {
-    // Check cache first
-    const cachedData = await cache.get<any[]>(CATALOG_CACHE_KEY);
-    if (cachedData) {
-      return res.json(cachedData);
-    }
-    
-    // v2 Feature - Join with itemTypes to exclude garden items
-    const items = await db
-      .select({
-        id: storeItems.id,
-        name: storeItems.name,
-        description: storeItems.description,
-        cost: storeItems.cost,
-        rarity: storeItems.rarity,
-        itemTypeId: storeItems.itemTypeId,
-        assetId: storeItems.assetId,
-        sortOrder: storeItems.sortOrder,
-        isActive: storeItems.isActive,
-        createdAt: storeItems.createdAt,
-        updatedAt: storeItems.updatedAt
-      })
-      .from(storeItems)
-      .innerJoin(itemTypes, eq(storeItems.itemTypeId, itemTypes.id))
-      .where(and(
-        eq(storeItems.isActive, true),
-        ne(itemTypes.category, 'garden') // Exclude garden items for v2
-      ))
-      .orderBy(asc(storeItems.sortOrder), asc(storeItems.name));
-    
-    // Prepare items with proper image URLs
-    const preparedItems = await StorageRouter.prepareStoreItemsResponse(items);
-    
-    // Cache the result in Redis/centralized cache
-    await cache.set(CATALOG_CACHE_KEY, preparedItems, CATALOG_CACHE_TTL);
-    
-    res.json(preparedItems);
+    const items = await getCatalog(req.student?.classId);
+    res.json(items);
   } catch (error) {
     console.error('Error fetching store catalog:', error);
     res.status(500).json({ error: 'Failed to fetch store catalog' });
@@ -73,7 +47,9 @@ router.get('/catalog', storeBrowsingLimiter, async (req, res) => {
 
 /**
  * POST /api/store-direct/purchase
- * Direct purchase - coins are deducted immediately
+ * Purchases are only allowed while the class store is open (switch, closing time and hours).
+ * Items up to the class's auto-approval threshold are bought immediately; dearer ones
+ * become a pending request (202) with the coins reserved until the teacher decides.
  * REQUIRES AUTHENTICATION - students can only purchase for themselves
  */
 router.post('/purchase', requireStudentAuth, storePurchaseLimiter, async (req, res) => {
@@ -87,6 +63,9 @@ router.post('/purchase', requireStudentAuth, storePurchaseLimiter, async (req, r
     
     console.log(`[PURCHASE ATTEMPT] ${new Date().toISOString()} - Student: ${studentId}, Item: ${itemId}, IP: ${clientIP}`);
     
+    // Class whose cached catalog shows this item's stock, if it is a limited item
+    let limitedItemClassId: string | null | undefined;
+    
     // Execute purchase in a single transaction with row locking
     const result = await db.transaction(async (tx) => {
       // Get student data with row lock to prevent concurrent purchases
@@ -106,20 +85,17 @@ router.post('/purchase', requireStudentAuth, storePurchaseLimiter, async (req, r
         throw new Error('Student not found');
       }
       
-      // Get item details
-      const [item] = await tx
-        .select()
-        .from(storeItems)
-        .where(and(
-          eq(storeItems.id, itemId),
-          eq(storeItems.isActive, true)
-        ))
-        .limit(1);
-      
-      if (!item) {
-        throw new Error('Item not found or not available');
+      // The store has to be open for this class right now
+      const settings = await getClassStoreSettings(student.classId);
+      const storeStatus = computeStoreStatus(settings);
+      if (!storeStatus.isOpen) {
+        throw new BusinessError(storeStatus.message, ErrorCode.BIZ_003, { reason: storeStatus.reason });
       }
       
+      // Get item details: global or this class's own, in its availability window and in stock
+      const item = await getPurchasableItem(tx, itemId, student.classId);
+      const price = getItemPrice(item);
+      
       // Check if student already owns this item
       const [existingOwnership] = await tx
         .select()
@@ -136,8 +112,8 @@ router.post('/purchase', requireStudentAuth, storePurchaseLimiter, async (req, r
       
       // Check balance
       const balance = student.currencyBalance || 0;
-      if (balance < item.cost) {
-        throw new Error(`Insufficient funds. You have ${balance} coins but need ${item.cost}`);
+      if (balance < price) {
+        throw new Error(`Insufficient funds. You have ${balance} coins but need ${price}`);
       }
       
       // Get teacher ID for the transaction record
@@ -151,41 +127,59 @@ router.post('/purchase', requireStudentAuth, storePurchaseLimiter, async (req, r
         throw new Error('Class configuration error');
       }
       
-      // Update student balance with atomic check to prevent negative balance
-      const [updatedStudent] = await tx
-        .update(students)
-        .set({
-          currencyBalance: sql`${students.currencyBalance} - ${item.cost}`,
-          updatedAt: new Date()
-        })
-        .where(and(
-          eq(students.id, student.id),
-          sql`${students.currencyBalance} - ${item.cost} >= 0` // Atomic balance check
-        ))
-        .returning({ currencyBalance: students.currencyBalance });
-      
-      if (!updatedStudent) {
-        throw new Error(`Insufficient funds. Transaction failed.`);
+      // Limited items: the unit is claimed now, and given back if a pending request is turned down
+      await claimStock(tx, item);
+      if (item.stockLimit !== null) {
+        limitedItemClassId = item.classId;
       }
       
-      // Add item to inventory
-      await tx
-        .insert(studentInventory)
-        .values({
+      if (requiresPurchaseApproval(settings, price)) {
+        const { request, newBalance } = await createPurchaseRequest(tx, {
           studentId: student.id,
-          storeItemId: itemId,
-          isEquipped: false
+          classId: student.classId,
+          teacherId: classInfo.teacherId,
+          item,
+          cost: price
         });
+        
+        return {
+          success: true,
+          status: 'pending' as const,
+          requestId: request.id,
+          item: {
+            id: item.id,
+            name: item.name,
+            itemType: item.itemTypeId,
+            cost: price
+          },
+          newBalance
+        };
+      }
+      
+      // Charge through the ledger, which re-checks the balance under a row lock
+      let newBalance = balance;
+      let purchaseTransactionId: string | null = null;
+      if (price > 0) {
+        let charge;
+        ({ newBalance, transaction: charge } = await postTransaction({
+          studentId: student.id,
+          teacherId: classInfo.teacherId,
+          amount: -price,
+          type: 'purchase',
+          description: price < item.cost ? `Purchase: ${item.name} (sale, was ${item.cost})` : `Purchase: ${item.name}`
+        }, tx));
+        purchaseTransactionId = charge.id;
+      }
       
-      // Create currency transaction record
+      // Add item to inventory, remembering the price for a refund
       await tx
-        .insert(currencyTransactions)
+        .insert(studentInventory)
         .values({
           studentId: student.id,
-          teacherId: classInfo.teacherId,
-          amount: -item.cost, // Negative for purchases
-          transactionType: 'purchase',
-          description: `Purchase: ${item.name}`
+          storeItemId: itemId,
+          isEquipped: false,
+          purchasePrice: price,
+          purchaseTransactionId
         });
       
       // Special handling for fishbowl purchases
@@ -202,34 +196,82 @@ router.post('/purchase', requireStudentAuth, storePurchaseLimiter, async (req, r
         }
       }
       
-      // Note: We don't create purchase_requests records in direct purchase mode
-      // This is a simplified flow where coins are deducted immediately
-      
       return {
         success: true,
+        status: 'completed' as const,
         item: {
           id: item.id,
           name: item.name,
           itemType: item.itemTypeId,
-          cost: item.cost
+          cost: price
         },
-        newBalance: updatedStudent.currencyBalance,
+        newBalance,
         ...(fishInfo && { fishInfo }) // Include fish info if fishbowl was purchased
       };
     });
     
+    if (limitedItemClassId !== undefined) {
+      await invalidateCatalogCache(limitedItemClassId);
+    }
+    
     const purchaseEndTime = Date.now();
+    if (result.status === 'pending') {
+      console.log(`[PURCHASE PENDING] Student ${studentId} requested ${result.item.name} for ${result.item.cost} coins in ${purchaseEndTime - purchaseStartTime}ms`);
+      return res.status(202).json(result);
+    }
     console.log(`[PURCHASE SUCCESS] Student ${studentId} bought ${result.item.name} for ${result.item.cost} coins in ${purchaseEndTime - purchaseStartTime}ms`);
     
     res.json(result);
   } catch (error) {
     const purchaseEndTime = Date.now();
     console.error(`[PURCHASE ERROR] Student ${studentId || 'unknown'} - ${error instanceof Error ? error.message : 'Unknown error'} in ${purchaseEndTime - purchaseStartTime}ms`);
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ message: error.message, code: error.code, ...(error.details && { details: error.details }) });
+    }
     const message = error instanceof Error ? error.message : 'Failed to complete purchase';
     res.status(400).json({ message });
   }
 });
 
+/**
+ * GET /api/store-direct/purchase-requests
+ * The authenticated student's purchase requests (?status=pending to filter)
+ */
+router.get('/purchase-requests', requireStudentAuth, storeBrowsingLimiter, async (req, res) => {
+  try {
+    const status = z.enum(PURCHASE_REQUEST_STATUSES).optional().parse(req.query.status);
+    const requests = await listPurchaseRequests({ studentId: req.student!.id, status });
+    res.json({ requests });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid status filter' });
+    }
+    console.error('Get purchase requests error:', error);
+    res.status(500).json({ message: 'Failed to get purchase requests' });
+  }
+});
+
+/**
+ * POST /api/store-direct/purchase-requests/:requestId/cancel
+ * Withdraw a pending request; the reserved coins are refunded
+ */
+router.post('/purchase-requests/:requestId/cancel', requireStudentAuth, storePurchaseLimiter, async (req, res) => {
+  try {
+    const requestId = z.string().uuid().parse(req.params.requestId);
+    const result = await cancelPurchaseRequest(req.student!.id, requestId);
+    res.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid request ID' });
+    }
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ message: error.message, code: error.code });
+    }
+    console.error('Cancel purchase request error:', error);
+    res.status(500).json({ message: 'Failed to cancel purchase request' });
+  }
+});
+
 /**
  * GET /api/store-direct/inventory
  * Get authenticated student's owned items
@@ -247,6 +289,7 @@ router.get('/inventory', requireStudentAuth, storeBrowsingLimiter, async (req, r
         itemType: storeItems.itemTypeId,
         description: storeItems.description,
         rarity: storeItems.rarity,
+        isRedeemable: storeItems.isRedeemable,
         isEquipped: studentInventory.isEquipped,
         acquiredAt: studentInventory.acquiredAt
       })
@@ -282,4 +325,85 @@ router.get('/inventory', requireStudentAuth, storeBrowsingLimiter, async (req, r
   }
 });
 
+/**
+ * GET /api/store-direct/inventory/:itemId/sell-back
+ * What selling the item back would pay right now (full price inside the grace window)
+ */
+router.get('/inventory/:itemId/sell-back', requireStudentAuth, storeBrowsingLimiter, async (req, res) => {
+  try {
+    const itemId = z.string().uuid().parse(req.params.itemId);
+    res.json(await getSellBackQuote(req.student!.id, req.student!.classId, itemId));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid item ID' });
+    }
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ message: error.message, code: error.code });
+    }
+    console.error('Sell-back quote error:', error);
+    res.status(500).json({ message: 'Failed to get sell-back price' });
+  }
+});
+
+/**
+ * POST /api/store-direct/inventory/:itemId/sell-back
+ * Sell an owned item back; it is unequipped and removed from the room if needed
+ */
+router.post('/inventory/:itemId/sell-back', requireStudentAuth, storePurchaseLimiter, async (req, res) => {
+  try {
+    const itemId = z.string().uuid().parse(req.params.itemId);
+    const result = await sellBackItem(req.student!.id, itemId);
+    console.log(`[SELL BACK] Student ${req.student!.id} sold ${result.refund.itemName} for ${result.refund.amount} coins (${result.refund.kind})`);
+    res.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid item ID' });
+    }
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ message: error.message, code: error.code });
+    }
+    console.error('Sell-back error:', error);
+    res.status(500).json({ message: 'Failed to sell item back' });
+  }
+});
+
+/**
+ * POST /api/store-direct/redeem
+ * Use up a coupon item (e.g. a homework pass); the teacher sees it in their redemptions
+ */
+router.post('/redeem', requireStudentAuth, storePurchaseLimiter, async (req, res) => {
+  try {
+    const { itemId, note } = redeemItemSchema.parse(req.body);
+    const redemption = await redeemItem(req.student!.id, itemId, note);
+    res.status(201).json({ redemption });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid request data', errors: error.errors });
+    }
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ message: error.message, code: error.code });
+    }
+    console.error('Redeem item error:', error);
+    res.status(500).json({ message: 'Failed to redeem item' });
+  }
+});
+
+/**
+ * GET /api/store-direct/redemptions
+ * The authenticated student's redeemed coupons (?status=pending to filter)
+ */
+router.get('/redemptions', requireStudentAuth, storeBrowsingLimiter, async (req, res) => {
+  try {
+    const status = z.enum(REDEMPTION_STATUSES).optional().parse(req.query.status);
+    const redemptions = await listRedemptions({ studentId: req.student!.id, status });
+    res.json({ redemptions });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid status filter' });
+    }
+    console.error('Get redemptions error:', error);
+    res.status(500).json({ message: 'Failed to get redemptions' });
+  }
+});
+
 export default router;
\ No newline at end of file
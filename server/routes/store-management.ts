@@ -1,17 +1,37 @@
 // Store Management Routes - Teacher controls for store hours
-import type { Express } from "express";
+import type { Express, NextFunction, Request, Response } from "express";
 import { z } from "zod";
 import { AuthenticatedRequest } from "../types/api";
 import { db } from "../db";
 import { storeSettings, classes } from "@shared/schema";
 import { eq, and } from "drizzle-orm";
 import { requireAuth } from "../middleware/auth";
-import { verifyClassEditAccess } from "../middleware/ownership-collaborator";
+import { verifyClassAccess, verifyClassEditAccess } from "../middleware/ownership-collaborator";
+import { requireManageStore } from "../middleware/permission-check";
 import { getCache } from "../lib/cache-factory";
 
 const cache = getCache();
-import { validateUUID } from "../middleware/validateUUID";
+import { validateUUID, validateUUIDs } from "../middleware/validateUUID";
 import { uuidSchema } from "@shared/validation";
+import { asyncWrapper } from "../utils/async-wrapper";
+import { computeStoreStatus, getSellBackPolicy, isValidTimezone, DEFAULT_STORE_TIMEZONE } from "../services/storeStatusService";
+import {
+  PURCHASE_REQUEST_STATUSES,
+  listPurchaseRequests,
+  approvePurchaseRequest,
+  denyPurchaseRequest
+} from "../services/purchaseRequestService";
+import {
+  REDEMPTION_STATUSES,
+  listClassStoreItems,
+  createClassStoreItem,
+  updateClassStoreItem,
+  deactivateClassStoreItem,
+  listRedemptions,
+  decideRedemption
+} from "../services/classStoreItemService";
+import { listRefunds, teacherRefund } from "../services/itemRefundService";
+import { classStoreItemSchema, updateClassStoreItemSchema, teacherRefundSchema } from "../validation/class-schemas";
 
 // Store toggle schema
 const storeToggleSchema = z.object({
@@ -25,14 +45,92 @@ const autoApprovalSchema = z.object({
   threshold: z.number().min(0).max(1000).nullable() // null means no auto-approval
 });
 
-// Store hours schema
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Use 24-hour HH:MM');
+
+// Store hours schema (null clears the schedule)
 const storeHoursSchema = z.object({
-  classId: uuidSchema,
-  openTime: z.string().optional(), // Format: "HH:MM"
-  closeTime: z.string().optional(), // Format: "HH:MM"
-  timezone: z.string().optional()
+  hours: z.object({
+    openTime: timeOfDay,
+    closeTime: timeOfDay,
+    timezone: z.string()
+      .default(DEFAULT_STORE_TIMEZONE)
+      .refine(isValidTimezone, 'Unknown timezone'),
+    days: z.array(z.number().int().min(0).max(6)).max(7).optional()
+  }).nullable()
+});
+
+// Sell-back rate and full-refund grace window
+const sellBackPolicySchema = z.object({
+  sellBackPercent: z.number().int().min(0).max(100),
+  refundGraceMinutes: z.number().int().min(0).max(24 * 60)
+});
+
+const purchaseRequestQuerySchema = z.object({
+  status: z.enum(PURCHASE_REQUEST_STATUSES).optional()
 });
 
+const denyRequestSchema = z.object({
+  note: z.string().trim().max(500).optional().nullable()
+});
+
+const redemptionQuerySchema = z.object({
+  status: z.enum(REDEMPTION_STATUSES).optional()
+});
+
+// Store hours as the old POST /api/currency/store/hours took them: the times at the top
+// level, and no times to clear the schedule
+const legacyStoreHoursSchema = z.object({
+  openTime: timeOfDay.optional(),
+  closeTime: timeOfDay.optional(),
+  timezone: z.string().optional()
+})
+  .transform(({ openTime, closeTime, timezone }) => ({
+    hours: openTime && closeTime ? { openTime, closeTime, timezone } : null
+  }))
+  .pipe(storeHoursSchema);
+
+// For routes that took the class in the body: class access is checked on URL params only
+function classIdFromBody(req: Request, _res: Response, next: NextFunction) {
+  req.params.classId = typeof req.body?.classId === 'string' ? req.body.classId : '';
+  next();
+}
+
+// Save the weekly store hours read from the request body (null clears them)
+function setStoreHours(parseBody: (body: unknown) => z.infer<typeof storeHoursSchema>) {
+  return asyncWrapper(async (req, res, _next) => {
+    const authReq = req as AuthenticatedRequest;
+    const { classId } = authReq.params;
+    const { hours } = parseBody(authReq.body);
+
+    const [existing] = await db
+      .select()
+      .from(storeSettings)
+      .where(eq(storeSettings.classId, classId))
+      .limit(1);
+
+    if (!existing) {
+      await db
+        .insert(storeSettings)
+        .values({ teacherId: authReq.user.userId, classId, isOpen: false, settings: { hours } });
+    } else {
+      await db
+        .update(storeSettings)
+        .set({ settings: { ...(existing.settings || {}), hours }, updatedAt: new Date() })
+        .where(eq(storeSettings.classId, classId));
+    }
+
+    await cache.del(`store-status:${classId}`);
+
+    res.json({
+      success: true,
+      message: hours
+        ? `Store hours set to ${hours.openTime}–${hours.closeTime} (${hours.timezone}).`
+        : "Store hours cleared. The store follows the open/closed switch only.",
+      hours
+    });
+  });
+}
+
 export function registerStoreManagementRoutes(app: Express) {
   
   // Toggle store open/closed status
@@ -115,7 +213,7 @@ export function registerStoreManagementRoutes(app: Express) {
   });
 
   // Get current store status for a class
-  app.get("/api/classes/:classId/store-status", requireAuth, validateUUID('classId'), verifyClassEditAccess, async (req, res) => {
+  app.get("/api/classes/:classId/store-status", requireAuth, validateUUID('classId'), verifyClassAccess, async (req, res) => {
     const authReq = req as AuthenticatedRequest;
     try {
       const { classId } = authReq.params;
@@ -146,24 +244,21 @@ export function registerStoreManagementRoutes(app: Express) {
       }
 
       const storeData = settings[0];
-      const now = new Date();
       
-      // Check if store should be auto-closed based on time
-      let effectivelyOpen = storeData.isOpen;
-      let message = effectivelyOpen ? "Store is open" : "Store is closed";
-      
-      if (storeData.isOpen && storeData.closesAt && new Date(storeData.closesAt) < now) {
-        effectivelyOpen = false;
-        message = "Store hours have ended";
-      }
+      // Open switch, closing time and weekly hours together decide whether students can buy
+      const status = computeStoreStatus(storeData);
 
       res.json({
-        isOpen: effectivelyOpen,
-        message,
+        isOpen: status.isOpen,
+        reason: status.reason,
+        message: status.message,
         settings: {
+          isOpen: storeData.isOpen,
           openedAt: storeData.openedAt,
           closesAt: storeData.closesAt,
-          autoApprovalThreshold: (storeData.settings as any)?.autoApprovalThreshold || 0,
+          autoApprovalThreshold: storeData.settings?.autoApprovalThreshold ?? 0,
+          hours: storeData.settings?.hours ?? null,
+          ...getSellBackPolicy(storeData),
           lastUpdated: storeData.updatedAt,
           updatedBy: storeData.teacherId
         }
@@ -204,7 +299,7 @@ export function registerStoreManagementRoutes(app: Express) {
         await db
           .update(storeSettings)
           .set({
-            settings: { ...(existingSettings[0].settings as any || {}), autoApprovalThreshold: threshold },
+            settings: { ...(existingSettings[0].settings || {}), autoApprovalThreshold: threshold },
             updatedAt: new Date()
           })
           .where(eq(storeSettings.classId, classId));
@@ -228,25 +323,116 @@ export function registerStoreManagementRoutes(app: Express) {
     }
   });
 
-  // Set store hours (future feature)
-  app.post("/api/currency/store/hours", requireAuth, verifyClassEditAccess, async (req, res) => {
+  // Set (or clear) the weekly store hours, in the class's timezone
+  app.put("/api/classes/:classId/store-hours", requireAuth, validateUUID('classId'), verifyClassEditAccess, requireManageStore, setStoreHours(body => storeHoursSchema.parse(body)));
+
+  // Old path for the same, with the class in the body
+  app.post("/api/currency/store/hours", requireAuth, classIdFromBody, validateUUID('classId'), verifyClassEditAccess, requireManageStore, setStoreHours(body => legacyStoreHoursSchema.parse(body)));
+
+  // How much students get back for selling items, and the full-refund window after buying
+  app.put("/api/classes/:classId/store-sell-back", requireAuth, validateUUID('classId'), verifyClassEditAccess, requireManageStore, asyncWrapper(async (req, res, _next) => {
     const authReq = req as AuthenticatedRequest;
-    try {
-      const { classId, openTime, closeTime, timezone } = storeHoursSchema.parse(authReq.body);
-      const teacherId = authReq.user?.userId;
+    const { classId } = authReq.params;
+    const policy = sellBackPolicySchema.parse(authReq.body);
 
-      // This is a placeholder for future store hours functionality
-      res.json({
-        message: "Store hours feature coming soon!",
-        requestedHours: {
-          openTime,
-          closeTime,
-          timezone: timezone || "America/Phoenix"
-        }
-      });
-    } catch (error) {
-      console.error("Set store hours error:", error);
-      res.status(500).json({ message: "Failed to set store hours" });
+    const [existing] = await db
+      .select()
+      .from(storeSettings)
+      .where(eq(storeSettings.classId, classId))
+      .limit(1);
+
+    if (!existing) {
+      await db
+        .insert(storeSettings)
+        .values({ teacherId: authReq.user.userId, classId, isOpen: false, settings: policy });
+    } else {
+      await db
+        .update(storeSettings)
+        .set({ settings: { ...(existing.settings || {}), ...policy }, updatedAt: new Date() })
+        .where(eq(storeSettings.classId, classId));
     }
-  });
-}
\ No newline at end of file
+
+    res.json({
+      success: true,
+      message: policy.sellBackPercent > 0
+        ? `Items sell back for ${policy.sellBackPercent}% of their cost.`
+        : "Selling items back is turned off.",
+      ...policy
+    });
+  }));
+
+  // Sell-backs and refunds in the class
+  app.get("/api/classes/:classId/refunds", requireAuth, validateUUID('classId'), verifyClassAccess, asyncWrapper(async (req, res, _next) => {
+    const refunds = await listRefunds({ classId: req.params.classId });
+    res.json({ refunds });
+  }));
+
+  // Refund a disputed purchase: an item (optionally taking it back) or a charge with no item
+  app.post("/api/classes/:classId/refunds", requireAuth, validateUUID('classId'), verifyClassEditAccess, requireManageStore, asyncWrapper(async (req, res, _next) => {
+    const authReq = req as AuthenticatedRequest;
+    const input = teacherRefundSchema.parse(authReq.body);
+    const result = await teacherRefund(authReq.params.classId, authReq.user.userId, input);
+    res.status(201).json(result);
+  }));
+
+  // Purchase requests waiting on (or decided by) the teacher
+  app.get("/api/classes/:classId/purchase-requests", requireAuth, validateUUID('classId'), verifyClassAccess, asyncWrapper(async (req, res, _next) => {
+    const { status } = purchaseRequestQuerySchema.parse(req.query);
+    const requests = await listPurchaseRequests({ classId: req.params.classId, status });
+    res.json({ requests });
+  }));
+
+  // Approve: the reserved coins are kept and the item is delivered
+  app.post("/api/classes/:classId/purchase-requests/:requestId/approve", requireAuth, validateUUIDs('classId', 'requestId'), verifyClassEditAccess, requireManageStore, asyncWrapper(async (req, res, _next) => {
+    const authReq = req as AuthenticatedRequest;
+    res.json(await approvePurchaseRequest(authReq.params.classId, authReq.params.requestId, authReq.user.userId));
+  }));
+
+  // Deny: the reserved coins go back to the student
+  app.post("/api/classes/:classId/purchase-requests/:requestId/deny", requireAuth, validateUUIDs('classId', 'requestId'), verifyClassEditAccess, requireManageStore, asyncWrapper(async (req, res, _next) => {
+    const authReq = req as AuthenticatedRequest;
+    const { note } = denyRequestSchema.parse(authReq.body ?? {});
+    res.json(await denyPurchaseRequest(authReq.params.classId, authReq.params.requestId, authReq.user.userId, note));
+  }));
+
+  // The class's own store items (coupons like a homework pass)
+  app.get("/api/classes/:classId/store-items", requireAuth, validateUUID('classId'), verifyClassAccess, asyncWrapper(async (req, res, _next) => {
+    const items = await listClassStoreItems(req.params.classId);
+    res.json({ items });
+  }));
+
+  app.post("/api/classes/:classId/store-items", requireAuth, validateUUID('classId'), verifyClassEditAccess, requireManageStore, asyncWrapper(async (req, res, _next) => {
+    const authReq = req as AuthenticatedRequest;
+    const input = classStoreItemSchema.parse(authReq.body);
+    const item = await createClassStoreItem(authReq.params.classId, authReq.user.userId, input);
+    res.status(201).json(item);
+  }));
+
+  app.put("/api/classes/:classId/store-items/:itemId", requireAuth, validateUUIDs('classId', 'itemId'), verifyClassEditAccess, requireManageStore, asyncWrapper(async (req, res, _next) => {
+    const input = updateClassStoreItemSchema.parse(req.body);
+    res.json(await updateClassStoreItem(req.params.classId, req.params.itemId, input));
+  }));
+
+  // Taken off the shelf; students who bought it keep it
+  app.delete("/api/classes/:classId/store-items/:itemId", requireAuth, validateUUIDs('classId', 'itemId'), verifyClassEditAccess, requireManageStore, asyncWrapper(async (req, res, _next) => {
+    res.json(await deactivateClassStoreItem(req.params.classId, req.params.itemId));
+  }));
+
+  // Coupons students have redeemed
+  app.get("/api/classes/:classId/redemptions", requireAuth, validateUUID('classId'), verifyClassAccess, asyncWrapper(async (req, res, _next) => {
+    const { status } = redemptionQuerySchema.parse(req.query);
+    const redemptions = await listRedemptions({ classId: req.params.classId, status });
+    res.json({ redemptions });
+  }));
+
+  app.post("/api/classes/:classId/redemptions/:redemptionId/fulfill", requireAuth, validateUUIDs('classId', 'redemptionId'), verifyClassEditAccess, requireManageStore, asyncWrapper(async (req, res, _next) => {
+    const authReq = req as AuthenticatedRequest;
+    res.json(await decideRedemption(authReq.params.classId, authReq.params.redemptionId, authReq.user.userId, 'fulfilled'));
+  }));
+
+  // Declined: the coupon goes back to the student's inventory
+  app.post("/api/classes/:classId/redemptions/:redemptionId/decline", requireAuth, validateUUIDs('classId', 'redemptionId'), verifyClassEditAccess, requireManageStore, asyncWrapper(async (req, res, _next) => {
+    const authReq = req as AuthenticatedRequest;
+    res.json(await decideRedemption(authReq.params.classId, authReq.params.redemptionId, authReq.user.userId, 'declined'));
+  }));
+}
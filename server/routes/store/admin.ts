@@ -1,19 +1,15 @@
 // Store Admin Routes - Database-driven store management
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { z } from "zod";
 import { db } from "../../db";
 import { storeItems, itemTypes, patterns } from "@shared/schema";
 import { eq, desc, asc } from "drizzle-orm";
 import { requireAuth, requireAdmin } from "../../middleware/auth";
 import { validateUUID } from "../../middleware/validateUUID";
+import { auditAdminAction } from "../../middleware/admin-audit";
 import multer from "multer";
 import StorageRouter from "../../services/storage-router";
-import { getCache } from "../../lib/cache-factory";
-
-const cache = getCache();
-
-// Cache configuration - must match store.ts
-const CATALOG_CACHE_KEY = 'store:catalog:active';
+import { invalidateCatalogCache } from "../../services/storeCatalogService";
 
 // Configure multer for memory storage
 const upload = multer({
@@ -31,6 +27,12 @@ const upload = multer({
   }
 });
 
+// Audit snapshot of the store item a request changes
+const loadStoreItem = async (req: Request) => {
+  const [item] = await db.select().from(storeItems).where(eq(storeItems.id, req.params.id)).limit(1);
+  return item ?? null;
+};
+
 // Validation schemas
 const createItemSchema = z.object({
   name: z.string().min(1).max(255),
@@ -49,7 +51,14 @@ const createItemSchema = z.object({
   sortOrder: z.number().int().default(0),
   assetType: z.enum(['image', 'rive']).optional(),
   thumbnailUrl: z.string().optional(),
-  riveUrl: z.string().optional()
+  riveUrl: z.string().optional(),
+  // Seasonal window, sale and limited stock (null clears)
+  availableFrom: z.coerce.date().nullable().optional(),
+  availableUntil: z.coerce.date().nullable().optional(),
+  salePercent: z.number().int().min(1).max(90).nullable().optional(),
+  saleStartsAt: z.coerce.date().nullable().optional(),
+  saleEndsAt: z.coerce.date().nullable().optional(),
+  stockLimit: z.number().int().min(1).nullable().optional()
 });
 
 const updateItemSchema = createItemSchema.partial();
@@ -77,6 +86,14 @@ export function registerStoreAdminRoutes(app: Express) {
           assetId: storeItems.assetId,
           assetType: storeItems.assetType,
           thumbnailUrl: storeItems.thumbnailUrl, // ADD THIS LINE
+          classId: storeItems.classId,
+          availableFrom: storeItems.availableFrom,
+          availableUntil: storeItems.availableUntil,
+          salePercent: storeItems.salePercent,
+          saleStartsAt: storeItems.saleStartsAt,
+          saleEndsAt: storeItems.saleEndsAt,
+          stockLimit: storeItems.stockLimit,
+          stockSold: storeItems.stockSold,
           createdAt: storeItems.createdAt,
           updatedAt: storeItems.updatedAt
         })
@@ -102,7 +119,7 @@ export function registerStoreAdminRoutes(app: Express) {
   });
   
   // Create new store item
-  app.post("/api/store/admin/items", requireAuth, requireAdmin, async (req, res) => {
+  app.post("/api/store/admin/items", requireAuth, requireAdmin, auditAdminAction('CREATE_STORE_ITEM', { targetType: 'store_item' }), async (req, res) => {
     console.log('🚀 HIT CREATE STORE ITEM ENDPOINT');
     try {
       console.log('=== CREATE STORE ITEM REQUEST ===');
@@ -221,11 +238,17 @@ export function registerStoreAdminRoutes(app: Express) {
           assetType: assetType, // image or rive
           thumbnailUrl: thumbnailUrl || null, // Save thumbnail URL
           patternId: patternId, // Link to pattern if this is a pattern item
+          availableFrom: validatedData.availableFrom ?? null,
+          availableUntil: validatedData.availableUntil ?? null,
+          salePercent: validatedData.salePercent ?? null,
+          saleStartsAt: validatedData.saleStartsAt ?? null,
+          saleEndsAt: validatedData.saleEndsAt ?? null,
+          stockLimit: validatedData.stockLimit ?? null,
         })
         .returning();
       
       // Clear store catalog cache
-      await cache.del(CATALOG_CACHE_KEY);
+      await invalidateCatalogCache();
       console.log('🗑️ Cleared store catalog cache after creating item');
       
       res.json(newItem);
@@ -240,7 +263,7 @@ export function registerStoreAdminRoutes(app: Express) {
   });
   
   // Update store item
-  app.put("/api/store/admin/items/:id", requireAuth, requireAdmin, validateUUID('id'), async (req, res) => {
+  app.put("/api/store/admin/items/:id", requireAuth, requireAdmin, validateUUID('id'), auditAdminAction('UPDATE_STORE_ITEM', { targetType: 'store_item', loadBefore: loadStoreItem }), async (req, res) => {
     try {
       const { id } = req.params;
       const validatedData = updateItemSchema.parse(req.body);
@@ -271,7 +294,7 @@ export function registerStoreAdminRoutes(app: Express) {
       }
       
       // Clear store catalog cache
-      await cache.del(CATALOG_CACHE_KEY);
+      await invalidateCatalogCache(updatedItem.classId);
       console.log('🗑️ Cleared store catalog cache after updating item');
       
       res.json(updatedItem);
@@ -286,7 +309,7 @@ export function registerStoreAdminRoutes(app: Express) {
   });
   
   // Delete store item
-  app.delete("/api/store/admin/items/:id", requireAuth, requireAdmin, validateUUID('id'), async (req, res) => {
+  app.delete("/api/store/admin/items/:id", requireAuth, requireAdmin, validateUUID('id'), auditAdminAction('DELETE_STORE_ITEM', { targetType: 'store_item', loadBefore: loadStoreItem }), async (req, res) => {
     try {
       const { id } = req.params;
       
@@ -328,7 +351,7 @@ export function registerStoreAdminRoutes(app: Express) {
         .where(eq(storeItems.id, id));
       
       // Clear store catalog cache
-      await cache.del(CATALOG_CACHE_KEY);
+      await invalidateCatalogCache(item.classId);
       console.log('🗑️ Cleared store catalog cache after deleting item');
       
       res.json({ message: "Item and associated asset deleted successfully" });
@@ -343,6 +366,7 @@ export function registerStoreAdminRoutes(app: Express) {
     "/api/store/admin/upload/store-image", 
     requireAuth, 
     requireAdmin,
+    auditAdminAction('UPLOAD_STORE_IMAGE', { targetType: 'asset' }),
     upload.single('image'),
     async (req, res) => {
       try {
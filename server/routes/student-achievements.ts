@@ -6,6 +6,7 @@ import { studentAchievements, students, roomVisits, roomGuestbook } from "@share
 import { eq, and, desc, count, sql } from "drizzle-orm";
 import { optionalStudentAuth } from "../middleware/passport-auth.js";
 import { roomBrowsingLimiter } from "../middleware/rateLimiter.js";
+import { applyRewardRules } from "../services/rewardRuleService.js";
 
 // Achievement definitions
 export const ACHIEVEMENTS = {
@@ -180,9 +181,32 @@ export function registerStudentAchievementRoutes(app: Express) {
         })
         .returning();
 
+      // Pay any achievement reward rule the class has
+      let coinsEarned = 0;
+      try {
+        const [student] = await db
+          .select({ classId: students.classId })
+          .from(students)
+          .where(eq(students.id, studentId))
+          .limit(1);
+
+        if (student) {
+          const awards = await applyRewardRules(student.classId, {
+            trigger: 'achievement_unlock',
+            eventKey: `achievement:${achievementId}`,
+            studentIds: [studentId],
+            achievementCode: achievementId
+          });
+          coinsEarned = awards.reduce((sum, award) => sum + award.amount, 0);
+        }
+      } catch (rewardError) {
+        console.error("Error applying achievement reward rules:", rewardError);
+      }
+
       return res.json({
         success: true,
         message: `Achievement unlocked: ${achievement.name}!`,
+        coinsEarned,
         achievement: {
           ...achievement,
           id: achievementId,
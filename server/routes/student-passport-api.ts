@@ -3,6 +3,12 @@ import { requireStudentAuth, optionalStudentAuth, requireStudentInClass } from '
 import { supabaseAdmin } from '../supabase-clients';
 import { createSecureLogger } from '../utils/secure-logger';
 import { passportLoginLimiter } from '../middleware/rateLimiter';
+import { asyncWrapper } from '../utils/async-wrapper';
+import { quizRetakeSchema } from '../validation/quiz-schemas';
+import { getRetakeEligibility, submitQuizRetake, getStudentQuizHistory } from '../services/quizRetakeService';
+import { getHiddenStudentIds } from '../services/studentSafetyService';
+import { getStudentSignInBlock } from '../services/classLifecycleService';
+import { resolveLocale, normalizeLocale, getLocalizedResultText } from '@shared/i18n';
 
 const router = Router();
 const logger = createSecureLogger('StudentPassportAPI');
@@ -117,13 +123,17 @@ router.get('/classmates', requireStudentAuth, async (req, res) => {
   try {
     const student = req.student!;
     
-    // Get classmates
-    const { data: classmates, error } = await supabaseAdmin
+    // Get classmates, leaving out anyone either side has blocked
+    const hiddenIds = await getHiddenStudentIds(student.id);
+    let query = supabaseAdmin
       .from('students')
       .select('student_name, animal_type, created_at')
       .eq('class_id', student.classId)
-      .neq('id', student.id) // Exclude current student
-      .order('created_at', { ascending: true });
+      .neq('id', student.id); // Exclude current student
+    if (hiddenIds.length > 0) {
+      query = query.not('id', 'in', `(${hiddenIds.join(',')})`);
+    }
+    const { data: classmates, error } = await query.order('created_at', { ascending: true });
     
     if (error) {
       logger.error('Failed to fetch classmates:', error);
@@ -168,6 +178,14 @@ router.post('/validate', passportLoginLimiter, async (req, res) => {
       });
     }
     
+    const signInBlock = await getStudentSignInBlock(studentData.student_id);
+    if (signInBlock) {
+      return res.status(403).json({ 
+        valid: false, 
+        error: signInBlock 
+      });
+    }
+    
     res.json({
       valid: true,
       student: {
@@ -356,7 +374,9 @@ router.get('/quiz-results', requireStudentAuth, async (req, res) => {
         animal_type,
         genius_type,
         personality_type,
-        learning_style
+        learning_style,
+        locale,
+        class_id
       `)
       .eq('id', student.id)
       .single();
@@ -380,6 +400,24 @@ router.get('/quiz-results', requireStudentAuth, async (req, res) => {
       return res.status(404).json({ error: 'Quiz results not found' });
     }
     
+    const [history, retake, { data: classData }] = await Promise.all([
+      getStudentQuizHistory(student.id),
+      getRetakeEligibility(student.id),
+      supabaseAdmin
+        .from('classes')
+        .select('default_locale')
+        .eq('id', studentData.class_id)
+        .single()
+    ]);
+    
+    // ?locale= overrides the student's choice, which overrides the class default
+    const locale = resolveLocale(req.query.locale, studentData.locale, classData?.default_locale);
+    const resultText = getLocalizedResultText({
+      animal: history[history.length - 1]?.animalType || null,
+      animalGenius: studentData.genius_type,
+      learningStyle: studentData.learning_style
+    }, locale);
+    
     res.json({
       student: {
         id: studentData.id,
@@ -390,7 +428,11 @@ router.get('/quiz-results', requireStudentAuth, async (req, res) => {
         learningStyle: studentData.learning_style,
         scores: quizData.mbti_scores,
         learningScores: quizData.learning_scores
-      }
+      },
+      history,
+      retake,
+      locale,
+      resultText
     });
   } catch (error) {
     logger.error('Failed to get quiz results:', error);
@@ -398,6 +440,74 @@ router.get('/quiz-results', requireStudentAuth, async (req, res) => {
   }
 });
 
+/**
+ * GET /api/student-passport/quiz-retake
+ * Check whether the class retake policy lets the student take the quiz again
+ */
+router.get('/quiz-retake', requireStudentAuth, async (req, res) => {
+  try {
+    const eligibility = await getRetakeEligibility(req.student!.id);
+    
+    if (!eligibility) {
+      return res.status(404).json({ error: 'Student not found' });
+    }
+    
+    res.json(eligibility);
+  } catch (error) {
+    logger.error('Failed to check retake eligibility:', error);
+    res.status(500).json({ error: 'Failed to check retake eligibility' });
+  }
+});
+
+/**
+ * POST /api/student-passport/quiz-retake
+ * Submit a retake. Answers are scored on the server against the class's question bank.
+ */
+router.post('/quiz-retake', requireStudentAuth, asyncWrapper(async (req, res, _next) => {
+  const { answers } = quizRetakeSchema.parse(req.body);
+  
+  const { submission, results, attempt } = await submitQuizRetake(req.student!.id, answers);
+  
+  res.status(201).json({
+    submissionId: submission.id,
+    attempt,
+    animalType: results.animal,
+    geniusType: results.animalGenius,
+    personalityType: results.mbtiType,
+    learningStyle: results.learningStyle
+  });
+}));
+
+/**
+ * PUT /api/student-passport/locale
+ * Set the student's quiz and result language (null goes back to the class default)
+ */
+router.put('/locale', requireStudentAuth, async (req, res) => {
+  try {
+    const { locale } = req.body;
+    const normalized = locale === null ? null : normalizeLocale(locale);
+    
+    if (locale !== null && !normalized) {
+      return res.status(400).json({ error: 'Unsupported language' });
+    }
+    
+    const { error } = await supabaseAdmin
+      .from('students')
+      .update({ locale: normalized })
+      .eq('id', req.student!.id);
+    
+    if (error) {
+      logger.error('Failed to update student locale:', error);
+      return res.status(500).json({ error: 'Failed to update language' });
+    }
+    
+    res.json({ locale: normalized });
+  } catch (error) {
+    logger.error('Failed to update student locale:', error);
+    res.status(500).json({ error: 'Failed to update language' });
+  }
+});
+
 /**
  * Example of optional auth - works for both authenticated and anonymous users
  */
@@ -0,0 +1,50 @@
+// Student Safety Routes - blocking classmates and reporting them to the teacher
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireStudentAuth } from '../middleware/passport-auth';
+import { roomBrowsingLimiter } from '../middleware/rateLimiter';
+import { asyncWrapper } from '../utils/async-wrapper';
+import { studentReportSchema } from '../validation/class-schemas';
+import { listBlocks, blockStudent, unblockStudent, createReport } from '../services/studentSafetyService';
+
+const router = Router();
+
+const passportCodeSchema = z.string().regex(/^[A-Z]{3}-[A-Z0-9]{3}$/, "Invalid passport code format");
+
+/**
+ * GET /api/student-safety/blocks
+ * Classmates the student has blocked
+ */
+router.get('/blocks', requireStudentAuth, roomBrowsingLimiter, asyncWrapper(async (req, res, _next) => {
+  const blocks = await listBlocks(req.student!.id);
+  res.json({ blocks });
+}));
+
+/**
+ * POST /api/student-safety/blocks
+ * Block a classmate ({ passportCode }) from your room and guestbook
+ */
+router.post('/blocks', requireStudentAuth, roomBrowsingLimiter, asyncWrapper(async (req, res, _next) => {
+  const passportCode = passportCodeSchema.parse(req.body?.passportCode);
+  const blocked = await blockStudent(req.student!.id, passportCode);
+  res.status(201).json({ blocked });
+}));
+
+router.delete('/blocks/:passportCode', requireStudentAuth, roomBrowsingLimiter, asyncWrapper(async (req, res, _next) => {
+  const passportCode = passportCodeSchema.parse(req.params.passportCode);
+  await unblockStudent(req.student!.id, passportCode);
+  res.json({ success: true });
+}));
+
+/**
+ * POST /api/student-safety/reports
+ * Tell the teacher about a classmate ({ passportCode }) or a guestbook message
+ * ({ guestbookMessageId }), with a reason and optional details
+ */
+router.post('/reports', requireStudentAuth, roomBrowsingLimiter, asyncWrapper(async (req, res, _next) => {
+  const report = studentReportSchema.parse(req.body);
+  const created = await createReport(req.student!.id, report);
+  res.status(201).json({ reportId: created.id, status: created.status });
+}));
+
+export default router;
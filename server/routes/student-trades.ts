@@ -0,0 +1,55 @@
+// Student Trades Routes - gifts and trades between classmates
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireStudentAuth } from '../middleware/passport-auth';
+import { storePurchaseLimiter, storeBrowsingLimiter } from '../middleware/rateLimiter';
+import { validateUUID } from '../middleware/validateUUID';
+import { asyncWrapper } from '../utils/async-wrapper';
+import { tradeProposalSchema } from '../validation/class-schemas';
+import {
+  TRADE_STATUSES,
+  proposeTrade,
+  respondToTrade,
+  cancelTrade,
+  listTrades
+} from '../services/tradeService';
+
+const router = Router();
+
+/**
+ * GET /api/student-trades
+ * Gifts and trades the student sent or received (?status=pending to filter)
+ */
+router.get('/', requireStudentAuth, storeBrowsingLimiter, asyncWrapper(async (req, res, _next) => {
+  const status = z.enum(TRADE_STATUSES).optional().parse(req.query.status);
+  const trades = await listTrades({ studentId: req.student!.id, status });
+  res.json({ trades });
+}));
+
+/**
+ * POST /api/student-trades
+ * Send a gift ({ kind: 'gift', toStudentId, offerCoins?, offerItemIds? }) or propose a trade
+ * that also asks for requestCoins/requestItemIds. 201 with the trade; a gift in a class
+ * without approval comes back already completed.
+ */
+router.post('/', requireStudentAuth, storePurchaseLimiter, asyncWrapper(async (req, res, _next) => {
+  const proposal = tradeProposalSchema.parse(req.body);
+  const trade = await proposeTrade(req.student!.id, proposal);
+  res.status(201).json(trade);
+}));
+
+// The other student's answer
+router.post('/:tradeId/accept', requireStudentAuth, storePurchaseLimiter, validateUUID('tradeId'), asyncWrapper(async (req, res, _next) => {
+  res.json(await respondToTrade(req.student!.id, req.params.tradeId, true));
+}));
+
+router.post('/:tradeId/decline', requireStudentAuth, storePurchaseLimiter, validateUUID('tradeId'), asyncWrapper(async (req, res, _next) => {
+  res.json(await respondToTrade(req.student!.id, req.params.tradeId, false));
+}));
+
+// The sender withdrawing before it completes
+router.post('/:tradeId/cancel', requireStudentAuth, storePurchaseLimiter, validateUUID('tradeId'), asyncWrapper(async (req, res, _next) => {
+  res.json(await cancelTrade(req.student!.id, req.params.tradeId));
+}));
+
+export default router;
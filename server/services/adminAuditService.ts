@@ -0,0 +1,103 @@
+import { db } from "../db";
+import { adminLogs, profiles } from "@shared/schema";
+import { and, count, desc, eq, gte, lt, type SQL } from "drizzle-orm";
+import { toCsv } from "../utils/csv";
+
+export interface AuditLogFilters {
+  actorId?: string;
+  targetType?: string;
+  action?: string;
+  from?: Date;
+  to?: Date; // Exclusive
+}
+
+// Changes to these don't mean anything to someone reading the log
+const IGNORED_FIELDS = new Set(['updatedAt', 'updated_at']);
+
+/**
+ * Top-level fields that differ between two snapshots of a record, as { field: { from, to } }.
+ * Returns null unless both snapshots are objects.
+ */
+export function diffSnapshots(before: unknown, after: unknown): Record<string, { from: unknown; to: unknown }> | null {
+  if (!before || !after || typeof before !== 'object' || typeof after !== 'object' || Array.isArray(before) || Array.isArray(after)) {
+    return null;
+  }
+
+  const previous = before as Record<string, unknown>;
+  const next = after as Record<string, unknown>;
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+
+  for (const field of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    if (JSON.stringify(previous[field]) !== JSON.stringify(next[field])) {
+      changes[field] = { from: previous[field] ?? null, to: next[field] ?? null };
+    }
+  }
+  return changes;
+}
+
+function buildConditions(filters: AuditLogFilters): SQL | undefined {
+  const conditions: SQL[] = [];
+  if (filters.actorId) conditions.push(eq(adminLogs.adminId, filters.actorId));
+  if (filters.targetType) conditions.push(eq(adminLogs.targetType, filters.targetType));
+  if (filters.action) conditions.push(eq(adminLogs.action, filters.action));
+  if (filters.from) conditions.push(gte(adminLogs.createdAt, filters.from));
+  if (filters.to) conditions.push(lt(adminLogs.createdAt, filters.to));
+  return and(...conditions);
+}
+
+/**
+ * Audit log entries matching the filters, newest first, with who did each one
+ */
+export async function listAuditLog(filters: AuditLogFilters, page: { limit: number; offset: number }) {
+  const where = buildConditions(filters);
+
+  const [entries, [{ total }]] = await Promise.all([
+    db
+      .select({
+        id: adminLogs.id,
+        action: adminLogs.action,
+        actorId: adminLogs.adminId,
+        actorName: profiles.fullName,
+        actorEmail: profiles.email,
+        targetType: adminLogs.targetType,
+        targetId: adminLogs.targetId,
+        targetUserId: adminLogs.targetUserId,
+        details: adminLogs.details,
+        ipAddress: adminLogs.ipAddress,
+        createdAt: adminLogs.createdAt
+      })
+      .from(adminLogs)
+      .leftJoin(profiles, eq(adminLogs.adminId, profiles.id))
+      .where(where)
+      .orderBy(desc(adminLogs.createdAt))
+      .limit(page.limit)
+      .offset(page.offset),
+    db
+      .select({ total: count() })
+      .from(adminLogs)
+      .where(where)
+  ]);
+
+  return { entries, total };
+}
+
+/**
+ * The audit log as CSV, one row per entry with its details as JSON
+ */
+export function auditLogCsv(entries: Awaited<ReturnType<typeof listAuditLog>>['entries']): string {
+  return toCsv(
+    ['Time', 'Action', 'Actor', 'Actor email', 'Target type', 'Target ID', 'Target user ID', 'IP address', 'Details'],
+    entries.map(entry => [
+      entry.createdAt,
+      entry.action,
+      entry.actorName,
+      entry.actorEmail,
+      entry.targetType,
+      entry.targetId,
+      entry.targetUserId,
+      entry.ipAddress,
+      entry.details ? JSON.stringify(entry.details) : null
+    ])
+  );
+}
@@ -2,6 +2,7 @@ import { db } from "../db";
 import { quizSubmissions } from "@shared/schema";
 import { eq, and, lte, isNull } from "drizzle-orm";
 import { typeLookup } from "./typeLookupService";
+import { DbQueue, type DbJobProcessor, type DbJob } from "../queues/db-queue";
 
 /**
  * Simple async task manager for quiz processing
@@ -13,6 +14,12 @@ export class AsyncTaskManager {
   private readonly maxRetries = 3;
   private readonly retryDelayMs = 5000; // 5 seconds
   
+  // Persistent tasks: survive restarts and retry with backoff (see enqueue)
+  private readonly jobQueue = new DbQueue('async-tasks', {
+    attempts: this.maxRetries,
+    backoffMs: this.retryDelayMs
+  });
+  
   static getInstance(): AsyncTaskManager {
     if (!AsyncTaskManager.instance) {
       AsyncTaskManager.instance = new AsyncTaskManager();
@@ -62,6 +69,34 @@ export class AsyncTaskManager {
     }
   }
   
+  /**
+   * Register the handler for a persistent task type. Handlers get the job,
+   * can report progress and should check isCancelled() between steps.
+   */
+  registerTask<T = unknown>(taskName: string, handler: DbJobProcessor<T>): void {
+    this.jobQueue.process(taskName, handler);
+  }
+  
+  /**
+   * Queue a persistent task. Unlike executeWithRetry, it is stored in the
+   * database, so it still runs (and retries) after a restart.
+   */
+  async enqueue(
+    taskName: string,
+    payload: unknown,
+    options: { ownerId?: string | null; delayMs?: number } = {}
+  ): Promise<DbJob> {
+    return this.jobQueue.add(taskName, payload, options);
+  }
+  
+  async getTask(taskId: string): Promise<DbJob | null> {
+    return this.jobQueue.getJob(taskId);
+  }
+  
+  async cancelTask(taskId: string): Promise<boolean> {
+    return this.jobQueue.cancel(taskId);
+  }
+  
   /**
    * Recovery process for stuck quiz submissions
    * Run this periodically (e.g., every 5 minutes)
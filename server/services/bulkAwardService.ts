@@ -0,0 +1,152 @@
+import { db } from "../db";
+import { students, animalTypes } from "@shared/schema";
+import { and, asc, eq, inArray, or, sql } from "drizzle-orm";
+import { isActiveStudent } from "../utils/student-scope";
+import { postTransaction } from "./ledgerService";
+import { getGrouping } from "./classGroupingService";
+import { BusinessError, ValidationError, ErrorCode } from "../utils/errors";
+
+export const BULK_AWARD_MAX_AMOUNT = 1000;
+
+// Who gets the coins: picked students, one table group from a saved grouping,
+// everyone with an animal type, or the whole class
+export type BulkAwardTarget =
+  | { type: 'students'; studentIds: string[] }
+  | { type: 'group'; groupingId: string; groupIndex: number }
+  | { type: 'animal'; animalType: string }
+  | { type: 'class' };
+
+export type BulkAwardStatus = 'awarded' | 'duplicate' | 'insufficient_funds' | 'not_in_class';
+
+export interface BulkAwardResult {
+  studentId: string;
+  studentName: string | null;
+  status: BulkAwardStatus;
+  newBalance: number | null;
+}
+
+interface TargetStudent {
+  id: string;
+  studentName: string | null;
+}
+
+/**
+ * Students of the class the target covers, plus any requested IDs that aren't
+ * (or are no longer) in the class
+ */
+export async function resolveAwardTargets(classId: string, target: BulkAwardTarget) {
+  let requestedIds: string[] | null = null;
+  const conditions = [eq(students.classId, classId)];
+
+  switch (target.type) {
+    case 'students':
+      requestedIds = [...new Set(target.studentIds)];
+      conditions.push(inArray(students.id, requestedIds));
+      break;
+    case 'group': {
+      const grouping = await getGrouping(classId, target.groupingId);
+      const group = grouping.groups[target.groupIndex];
+      if (!group) {
+        throw new ValidationError(`Grouping "${grouping.name}" has no group ${target.groupIndex + 1}`);
+      }
+      // Members are a snapshot; anyone who has since left the class is reported, not paid
+      requestedIds = group.members.map(member => member.studentId);
+      if (requestedIds.length === 0) {
+        return { targets: [] as TargetStudent[], missingIds: [] as string[] };
+      }
+      conditions.push(inArray(students.id, requestedIds));
+      break;
+    }
+    case 'animal': {
+      const animal = target.animalType.trim().toLowerCase();
+      const [animalType] = await db
+        .select({ id: animalTypes.id })
+        .from(animalTypes)
+        .where(or(sql`lower(${animalTypes.name}) = ${animal}`, sql`lower(${animalTypes.code}) = ${animal}`))
+        .limit(1);
+      if (!animalType) {
+        throw new ValidationError(`Unknown animal type: ${target.animalType}`);
+      }
+      conditions.push(eq(students.animalTypeId, animalType.id));
+      break;
+    }
+    case 'class':
+      break;
+  }
+
+  const targets: TargetStudent[] = await db
+    .select({ id: students.id, studentName: students.studentName })
+    .from(students)
+    .where(and(...conditions, isActiveStudent()))
+    .orderBy(asc(students.studentName));
+
+  const found = new Set(targets.map(student => student.id));
+  const missingIds = (requestedIds ?? []).filter(id => !found.has(id));
+  return { targets, missingIds };
+}
+
+/**
+ * Give (positive amount) or take (negative) the same number of coins from every targeted
+ * student in one transaction. Each student is posted in a savepoint, so a student who
+ * can't cover a deduction is skipped and reported instead of failing the whole award.
+ */
+export async function bulkAward(params: {
+  classId: string;
+  teacherId: string;
+  target: BulkAwardTarget;
+  amount: number;
+  reason?: string | null;
+  idempotencyKey?: string; // Client retry key; each student's posting is keyed off it
+}) {
+  const { classId, teacherId, target, amount } = params;
+
+  if (!Number.isInteger(amount) || amount === 0 || Math.abs(amount) > BULK_AWARD_MAX_AMOUNT) {
+    throw new ValidationError(`Amount must be a whole number between -${BULK_AWARD_MAX_AMOUNT} and ${BULK_AWARD_MAX_AMOUNT}, not 0`);
+  }
+
+  const { targets, missingIds } = await resolveAwardTargets(classId, target);
+  const description = params.reason || (amount > 0 ? 'Teacher bonus' : 'Teacher adjustment');
+
+  const results = await db.transaction(async (tx) => {
+    const posted: BulkAwardResult[] = [];
+
+    for (const student of targets) {
+      try {
+        const result = await tx.transaction(savepoint => postTransaction({
+          studentId: student.id,
+          teacherId,
+          amount,
+          type: amount > 0 ? 'teacher_grant' : 'teacher_deduction',
+          description,
+          idempotencyKey: params.idempotencyKey ? `${params.idempotencyKey}:${student.id}` : undefined
+        }, savepoint));
+
+        posted.push({
+          studentId: student.id,
+          studentName: student.studentName,
+          status: result.duplicate ? 'duplicate' : 'awarded',
+          newBalance: result.newBalance
+        });
+      } catch (error) {
+        if (!(error instanceof BusinessError && error.code === ErrorCode.BIZ_001)) {
+          throw error;
+        }
+        posted.push({ studentId: student.id, studentName: student.studentName, status: 'insufficient_funds', newBalance: null });
+      }
+    }
+    return posted;
+  });
+
+  for (const studentId of missingIds) {
+    results.push({ studentId, studentName: null, status: 'not_in_class', newBalance: null });
+  }
+
+  const awarded = results.filter(result => result.status === 'awarded').length;
+  return {
+    amount,
+    awarded,
+    skipped: results.length - awarded,
+    totalCoins: awarded * amount,
+    results
+  };
+}
@@ -0,0 +1,429 @@
+import JSZip from "jszip";
+import { db } from "../db";
+import {
+  classes,
+  classExports,
+  students,
+  quizSubmissions,
+  animalTypes,
+  geniusTypes,
+  currencyTransactions,
+  studentInventory,
+  storeItems,
+  lessonProgress,
+  lessonActivityProgress,
+  classValuesResults,
+  type ClassExport
+} from "@shared/schema";
+import { and, asc, count, desc, eq, gt, lt } from "drizzle-orm";
+import { isActiveStudent } from "../utils/student-scope";
+import { ConflictError, NotFoundError } from "../utils/errors";
+import { toCsv } from "../utils/csv";
+
+export const EXPORT_FORMATS = ['csv', 'json'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// Classes up to this size are exported within the request; larger ones go to the job queue
+export const INLINE_EXPORT_MAX_STUDENTS = 50;
+
+const EXPORT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Everything but the file itself, for listings and status checks
+const exportSummaryColumns = {
+  id: classExports.id,
+  classId: classExports.classId,
+  requestedBy: classExports.requestedBy,
+  format: classExports.format,
+  status: classExports.status,
+  jobId: classExports.jobId,
+  fileName: classExports.fileName,
+  sizeBytes: classExports.sizeBytes,
+  counts: classExports.counts,
+  error: classExports.error,
+  expiresAt: classExports.expiresAt,
+  completedAt: classExports.completedAt,
+  createdAt: classExports.createdAt
+};
+
+export type ClassExportSummary = Omit<ClassExport, 'content' | 'contentType'>;
+
+/**
+ * Every section of a class export, as plain rows
+ */
+export async function gatherClassExportData(classId: string) {
+  const [classRecord] = await db
+    .select({
+      id: classes.id,
+      name: classes.name,
+      subject: classes.subject,
+      gradeLevel: classes.gradeLevel,
+      classCode: classes.classCode,
+      schoolName: classes.schoolName
+    })
+    .from(classes)
+    .where(eq(classes.id, classId))
+    .limit(1);
+
+  if (!classRecord) {
+    throw new NotFoundError('Class');
+  }
+
+  const [roster, submissions, transactions, inventory, lessons, activities, valuesResults] = await Promise.all([
+    db
+      .select({
+        studentId: students.id,
+        name: students.studentName,
+        passportCode: students.passportCode,
+        gradeLevel: students.gradeLevel,
+        personalityType: students.personalityType,
+        animal: animalTypes.name,
+        genius: geniusTypes.name,
+        learningStyle: students.learningStyle,
+        currencyBalance: students.currencyBalance,
+        createdAt: students.createdAt
+      })
+      .from(students)
+      .leftJoin(animalTypes, eq(students.animalTypeId, animalTypes.id))
+      .leftJoin(geniusTypes, eq(students.geniusTypeId, geniusTypes.id))
+      .where(and(eq(students.classId, classId), isActiveStudent()))
+      .orderBy(asc(students.studentName)),
+
+    db
+      .select({
+        submissionId: quizSubmissions.id,
+        studentId: students.id,
+        studentName: students.studentName,
+        passportCode: students.passportCode,
+        personalityType: quizSubmissions.personalityType,
+        animal: animalTypes.name,
+        genius: geniusTypes.name,
+        learningStyle: quizSubmissions.learningStyle,
+        isBorderline: quizSubmissions.isBorderline,
+        coinsEarned: quizSubmissions.coinsEarned,
+        answers: quizSubmissions.answers,
+        completedAt: quizSubmissions.completedAt
+      })
+      .from(quizSubmissions)
+      .innerJoin(students, eq(quizSubmissions.studentId, students.id))
+      .leftJoin(animalTypes, eq(quizSubmissions.animalTypeId, animalTypes.id))
+      .leftJoin(geniusTypes, eq(quizSubmissions.geniusTypeId, geniusTypes.id))
+      .where(and(eq(students.classId, classId), isActiveStudent()))
+      .orderBy(asc(students.studentName), asc(quizSubmissions.completedAt)),
+
+    db
+      .select({
+        transactionId: currencyTransactions.id,
+        studentId: students.id,
+        studentName: students.studentName,
+        amount: currencyTransactions.amount,
+        transactionType: currencyTransactions.transactionType,
+        description: currencyTransactions.description,
+        teacherId: currencyTransactions.teacherId,
+        createdAt: currencyTransactions.createdAt
+      })
+      .from(currencyTransactions)
+      .innerJoin(students, eq(currencyTransactions.studentId, students.id))
+      .where(and(eq(students.classId, classId), isActiveStudent()))
+      .orderBy(asc(currencyTransactions.createdAt)),
+
+    db
+      .select({
+        studentId: students.id,
+        studentName: students.studentName,
+        storeItemId: storeItems.id,
+        itemName: storeItems.name,
+        rarity: storeItems.rarity,
+        cost: storeItems.cost,
+        isEquipped: studentInventory.isEquipped,
+        acquiredAt: studentInventory.acquiredAt
+      })
+      .from(studentInventory)
+      .innerJoin(students, eq(studentInventory.studentId, students.id))
+      .innerJoin(storeItems, eq(studentInventory.storeItemId, storeItems.id))
+      .where(and(eq(students.classId, classId), isActiveStudent()))
+      .orderBy(asc(students.studentName), asc(studentInventory.acquiredAt)),
+
+    db
+      .select()
+      .from(lessonProgress)
+      .where(eq(lessonProgress.classId, classId))
+      .orderBy(asc(lessonProgress.lessonId)),
+
+    db
+      .select({
+        lessonProgressId: lessonActivityProgress.lessonProgressId,
+        activityNumber: lessonActivityProgress.activityNumber,
+        completed: lessonActivityProgress.completed,
+        completedAt: lessonActivityProgress.completedAt
+      })
+      .from(lessonActivityProgress)
+      .innerJoin(lessonProgress, eq(lessonActivityProgress.lessonProgressId, lessonProgress.id))
+      .where(eq(lessonProgress.classId, classId))
+      .orderBy(asc(lessonActivityProgress.activityNumber)),
+
+    db
+      .select({
+        sessionId: classValuesResults.sessionId,
+        clusterNumber: classValuesResults.clusterNumber,
+        valueCode: classValuesResults.valueCode,
+        valueName: classValuesResults.valueName,
+        voteCount: classValuesResults.voteCount,
+        isWinner: classValuesResults.isWinner,
+        createdAt: classValuesResults.createdAt
+      })
+      .from(classValuesResults)
+      .where(eq(classValuesResults.classId, classId))
+      .orderBy(asc(classValuesResults.clusterNumber), desc(classValuesResults.voteCount))
+  ]);
+
+  const lessonProgressRows = lessons.map(lesson => ({
+    lessonId: lesson.lessonId,
+    status: lesson.status,
+    currentActivity: lesson.currentActivity,
+    startedAt: lesson.startedAt,
+    completedAt: lesson.completedAt,
+    coinsAwardedAt: lesson.coinsAwardedAt,
+    activities: activities
+      .filter(activity => activity.lessonProgressId === lesson.id)
+      .map(({ activityNumber, completed, completedAt }) => ({ activityNumber, completed, completedAt }))
+  }));
+
+  return {
+    class: classRecord,
+    roster,
+    quizSubmissions: submissions,
+    currencyTransactions: transactions,
+    inventory,
+    lessonProgress: lessonProgressRows,
+    classValuesResults: valuesResults
+  };
+}
+
+export type ClassExportData = Awaited<ReturnType<typeof gatherClassExportData>>;
+
+function sectionCounts(data: ClassExportData): Record<string, number> {
+  return {
+    roster: data.roster.length,
+    quizSubmissions: data.quizSubmissions.length,
+    currencyTransactions: data.currencyTransactions.length,
+    inventory: data.inventory.length,
+    lessonProgress: data.lessonProgress.length,
+    classValuesResults: data.classValuesResults.length
+  };
+}
+
+// Safe for a Content-Disposition filename
+function fileSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'class';
+}
+
+/**
+ * Render the export: a zip with one CSV per section, or a single JSON document
+ */
+export async function buildExportFile(data: ClassExportData, format: ExportFormat, generatedAt = new Date()) {
+  const baseName = `${fileSlug(data.class.name)}-export-${generatedAt.toISOString().slice(0, 10)}`;
+  const counts = sectionCounts(data);
+
+  if (format === 'json') {
+    return {
+      fileName: `${baseName}.json`,
+      contentType: 'application/json',
+      content: Buffer.from(JSON.stringify({ generatedAt, counts, ...data }, null, 2)),
+      counts
+    };
+  }
+
+  const zip = new JSZip();
+  zip.file('manifest.json', JSON.stringify({ generatedAt, class: data.class, counts }, null, 2));
+  zip.file('roster.csv', toCsv(
+    ['Student ID', 'Name', 'Passport Code', 'Grade Level', 'Personality Type', 'Animal', 'Genius Type', 'Learning Style', 'Coin Balance', 'Joined'],
+    data.roster.map(s => [s.studentId, s.name, s.passportCode, s.gradeLevel, s.personalityType, s.animal, s.genius, s.learningStyle, s.currencyBalance, s.createdAt])
+  ));
+  zip.file('quiz_submissions.csv', toCsv(
+    ['Submission ID', 'Student ID', 'Student Name', 'Passport Code', 'Personality Type', 'Animal', 'Genius Type', 'Learning Style', 'Borderline', 'Coins Earned', 'Completed', 'Answers'],
+    data.quizSubmissions.map(q => [q.submissionId, q.studentId, q.studentName, q.passportCode, q.personalityType, q.animal, q.genius, q.learningStyle, q.isBorderline, q.coinsEarned, q.completedAt, JSON.stringify(q.answers)])
+  ));
+  zip.file('currency_transactions.csv', toCsv(
+    ['Transaction ID', 'Student ID', 'Student Name', 'Amount', 'Type', 'Description', 'Teacher ID', 'Date'],
+    data.currencyTransactions.map(t => [t.transactionId, t.studentId, t.studentName, t.amount, t.transactionType, t.description, t.teacherId, t.createdAt])
+  ));
+  zip.file('inventory.csv', toCsv(
+    ['Student ID', 'Student Name', 'Item ID', 'Item', 'Rarity', 'Cost', 'Equipped', 'Acquired'],
+    data.inventory.map(i => [i.studentId, i.studentName, i.storeItemId, i.itemName, i.rarity, i.cost, i.isEquipped, i.acquiredAt])
+  ));
+  zip.file('lesson_progress.csv', toCsv(
+    ['Lesson', 'Status', 'Current Activity', 'Activities Completed', 'Started', 'Completed', 'Coins Awarded'],
+    data.lessonProgress.map(l => [
+      l.lessonId,
+      l.status,
+      l.currentActivity,
+      l.activities.filter(a => a.completed).map(a => a.activityNumber).join('; '),
+      l.startedAt,
+      l.completedAt,
+      l.coinsAwardedAt
+    ])
+  ));
+  zip.file('class_values_results.csv', toCsv(
+    ['Session ID', 'Cluster', 'Value Code', 'Value', 'Votes', 'Winner', 'Date'],
+    data.classValuesResults.map(v => [v.sessionId, v.clusterNumber, v.valueCode, v.valueName, v.voteCount, v.isWinner, v.createdAt])
+  ));
+
+  return {
+    fileName: `${baseName}.zip`,
+    contentType: 'application/zip',
+    content: await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' }),
+    counts
+  };
+}
+
+export async function countClassStudents(classId: string): Promise<number> {
+  const [{ total }] = await db
+    .select({ total: count() })
+    .from(students)
+    .where(and(eq(students.classId, classId), isActiveStudent()));
+  return Number(total);
+}
+
+/**
+ * Record a pending export; the file is produced by buildClassExport
+ */
+export async function createClassExport(classId: string, teacherId: string, format: ExportFormat): Promise<ClassExportSummary> {
+  const [record] = await db
+    .insert(classExports)
+    .values({
+      classId,
+      requestedBy: teacherId,
+      format,
+      expiresAt: new Date(Date.now() + EXPORT_TTL_MS)
+    })
+    .returning(exportSummaryColumns);
+
+  return record;
+}
+
+export async function setClassExportJob(exportId: string, jobId: string): Promise<void> {
+  await db.update(classExports).set({ jobId }).where(eq(classExports.id, exportId));
+}
+
+/**
+ * Gather the class data and store the finished file on the export.
+ * Failures are recorded on the export before being rethrown. An export cancelled
+ * while it was being built stays failed.
+ */
+export async function buildClassExport(
+  exportId: string,
+  onProgress?: (percent: number) => Promise<void> | void
+): Promise<ClassExportSummary> {
+  const [record] = await db
+    .select(exportSummaryColumns)
+    .from(classExports)
+    .where(eq(classExports.id, exportId))
+    .limit(1);
+
+  if (!record) {
+    throw new NotFoundError('Export');
+  }
+
+  try {
+    const data = await gatherClassExportData(record.classId);
+    await onProgress?.(60);
+
+    const file = await buildExportFile(data, record.format as ExportFormat);
+    await onProgress?.(90);
+
+    const [completed] = await db
+      .update(classExports)
+      .set({
+        status: 'completed',
+        fileName: file.fileName,
+        contentType: file.contentType,
+        content: file.content,
+        sizeBytes: file.content.length,
+        counts: file.counts,
+        error: null,
+        completedAt: new Date()
+      })
+      .where(and(eq(classExports.id, exportId), eq(classExports.status, 'pending')))
+      .returning(exportSummaryColumns);
+
+    if (!completed) {
+      throw new ConflictError('This export was cancelled');
+    }
+    return completed;
+  } catch (error) {
+    await db
+      .update(classExports)
+      .set({ status: 'failed', error: error instanceof Error ? error.message : String(error) })
+      .where(and(eq(classExports.id, exportId), eq(classExports.status, 'pending')));
+    throw error;
+  }
+}
+
+/**
+ * Fail a pending export whose background job was cancelled, so it isn't left
+ * pending for good
+ */
+export async function cancelClassExport(exportId: string): Promise<void> {
+  await db
+    .update(classExports)
+    .set({ status: 'failed', error: 'The export was cancelled' })
+    .where(and(eq(classExports.id, exportId), eq(classExports.status, 'pending')));
+}
+
+/**
+ * Unexpired exports for a class, newest first
+ */
+export async function listClassExports(classId: string, limit = 20): Promise<ClassExportSummary[]> {
+  return db
+    .select(exportSummaryColumns)
+    .from(classExports)
+    .where(and(eq(classExports.classId, classId), gt(classExports.expiresAt, new Date())))
+    .orderBy(desc(classExports.createdAt))
+    .limit(limit);
+}
+
+export async function getClassExport(classId: string, exportId: string): Promise<ClassExportSummary> {
+  const [record] = await db
+    .select(exportSummaryColumns)
+    .from(classExports)
+    .where(and(
+      eq(classExports.id, exportId),
+      eq(classExports.classId, classId),
+      gt(classExports.expiresAt, new Date())
+    ))
+    .limit(1);
+
+  if (!record) {
+    throw new NotFoundError('Export');
+  }
+  return record;
+}
+
+/**
+ * The stored file, or null while the export is still being built (or if it failed)
+ */
+export async function getClassExportFile(classId: string, exportId: string) {
+  const record = await getClassExport(classId, exportId);
+  if (record.status !== 'completed') {
+    return { record, file: null };
+  }
+
+  const [file] = await db
+    .select({ fileName: classExports.fileName, contentType: classExports.contentType, content: classExports.content })
+    .from(classExports)
+    .where(eq(classExports.id, exportId))
+    .limit(1);
+
+  return { record, file: file?.content ? file : null };
+}
+
+/**
+ * Remove exports past their expiry; returns how many were removed
+ */
+export async function pruneExpiredExports(): Promise<number> {
+  const removed = await db
+    .delete(classExports)
+    .where(lt(classExports.expiresAt, new Date()))
+    .returning({ id: classExports.id });
+  return removed.length;
+}
@@ -0,0 +1,184 @@
+import { db } from "../db";
+import { classGroupings, classPairingConstraints, students, type ClassGrouping } from "@shared/schema";
+import { and, eq, desc, inArray } from "drizzle-orm";
+import { isActiveStudent } from "../utils/student-scope";
+import { uuidStorage } from "../storage-uuid";
+import { generateGroups, type PairingConstraintType, type GroupingStudent } from "./pairingService";
+import { NotFoundError, ValidationError } from "../utils/errors";
+
+export interface CreateGroupingOptions {
+  name?: string;
+  groupSize: number;
+  avoidRepeatsFromLast: number; // How many recent groupings to avoid repeating pairs from
+  seed?: number;
+}
+
+/**
+ * Pairing rules for a class, with student names for display
+ */
+export async function listPairingConstraints(classId: string) {
+  const constraints = await db
+    .select()
+    .from(classPairingConstraints)
+    .where(eq(classPairingConstraints.classId, classId))
+    .orderBy(classPairingConstraints.createdAt);
+
+  const studentIds = [...new Set(constraints.flatMap(c => [c.studentAId, c.studentBId]))];
+  const names = studentIds.length > 0
+    ? await db
+        .select({ id: students.id, name: students.studentName })
+        .from(students)
+        .where(and(inArray(students.id, studentIds), isActiveStudent()))
+    : [];
+  const nameById = new Map(names.map(n => [n.id, n.name]));
+
+  // Rules for a deleted student stay stored, so they come back if the student is restored
+  return constraints.filter(c => nameById.has(c.studentAId) && nameById.has(c.studentBId)).map(c => ({
+    ...c,
+    studentAName: nameById.get(c.studentAId) || null,
+    studentBName: nameById.get(c.studentBId) || null
+  }));
+}
+
+/**
+ * Add (or change) the rule for a pair of students in the class
+ */
+export async function setPairingConstraint(
+  classId: string,
+  teacherId: string,
+  rule: { studentAId: string; studentBId: string; type: PairingConstraintType; note?: string | null }
+) {
+  if (rule.studentAId === rule.studentBId) {
+    throw new ValidationError('A pairing rule needs two different students');
+  }
+
+  const classStudents = await db
+    .select({ id: students.id })
+    .from(students)
+    .where(and(
+      eq(students.classId, classId),
+      inArray(students.id, [rule.studentAId, rule.studentBId]),
+      isActiveStudent()
+    ));
+  if (classStudents.length !== 2) {
+    throw new NotFoundError('Student');
+  }
+
+  // One row per pair, whichever order the teacher picked them in
+  const [studentAId, studentBId] = [rule.studentAId, rule.studentBId].sort();
+
+  const [constraint] = await db
+    .insert(classPairingConstraints)
+    .values({ classId, studentAId, studentBId, type: rule.type, note: rule.note || null, createdBy: teacherId })
+    .onConflictDoUpdate({
+      target: [classPairingConstraints.classId, classPairingConstraints.studentAId, classPairingConstraints.studentBId],
+      set: { type: rule.type, note: rule.note || null, createdBy: teacherId }
+    })
+    .returning();
+
+  return constraint;
+}
+
+export async function removePairingConstraint(classId: string, constraintId: string): Promise<void> {
+  const [removed] = await db
+    .delete(classPairingConstraints)
+    .where(and(
+      eq(classPairingConstraints.id, constraintId),
+      eq(classPairingConstraints.classId, classId)
+    ))
+    .returning({ id: classPairingConstraints.id });
+
+  if (!removed) {
+    throw new NotFoundError('Pairing rule');
+  }
+}
+
+/**
+ * Saved groupings for a class, newest first
+ */
+export async function listGroupings(classId: string, limit = 20): Promise<ClassGrouping[]> {
+  return db
+    .select()
+    .from(classGroupings)
+    .where(eq(classGroupings.classId, classId))
+    .orderBy(desc(classGroupings.createdAt))
+    .limit(limit);
+}
+
+export async function getGrouping(classId: string, groupingId: string): Promise<ClassGrouping> {
+  const [grouping] = await db
+    .select()
+    .from(classGroupings)
+    .where(and(eq(classGroupings.id, groupingId), eq(classGroupings.classId, classId)))
+    .limit(1);
+
+  if (!grouping) {
+    throw new NotFoundError('Grouping');
+  }
+  return grouping;
+}
+
+export async function deleteGrouping(classId: string, groupingId: string): Promise<void> {
+  const [removed] = await db
+    .delete(classGroupings)
+    .where(and(eq(classGroupings.id, groupingId), eq(classGroupings.classId, classId)))
+    .returning({ id: classGroupings.id });
+
+  if (!removed) {
+    throw new NotFoundError('Grouping');
+  }
+}
+
+/**
+ * Generate seating groups for the whole class and save them to its history.
+ * Students who haven't taken the quiz are still grouped, just without a type to balance on.
+ */
+export async function createGrouping(
+  classId: string,
+  teacherId: string,
+  options: CreateGroupingOptions
+): Promise<ClassGrouping> {
+  const [roster, constraints, recent] = await Promise.all([
+    uuidStorage.getClassAnalytics(classId),
+    db.select().from(classPairingConstraints).where(eq(classPairingConstraints.classId, classId)),
+    options.avoidRepeatsFromLast > 0 ? listGroupings(classId, options.avoidRepeatsFromLast) : Promise.resolve([])
+  ]);
+
+  const groupingStudents: GroupingStudent[] = roster.map(student => ({
+    studentId: student.id,
+    name: student.studentName,
+    animal: student.animalType,
+    genius: student.geniusType,
+    learningStyle: student.completedAt ? student.learningStyle : null
+  }));
+
+  const { groups, warnings, seed } = generateGroups(groupingStudents, {
+    groupSize: options.groupSize,
+    constraints: constraints.map(c => ({
+      type: c.type as PairingConstraintType,
+      studentAId: c.studentAId,
+      studentBId: c.studentBId
+    })),
+    previousGroups: recent.flatMap(grouping => grouping.groups.map(group => group.members.map(m => m.studentId))),
+    seed: options.seed
+  });
+
+  const [grouping] = await db
+    .insert(classGroupings)
+    .values({
+      classId,
+      name: options.name || `Groups of ${options.groupSize} (${new Date().toISOString().slice(0, 10)})`,
+      groupSize: options.groupSize,
+      groups,
+      settings: {
+        avoidRepeatsFrom: recent.map(grouping => grouping.id),
+        constraintCount: constraints.length,
+        seed
+      },
+      warnings,
+      createdBy: teacherId
+    })
+    .returning();
+
+  return grouping;
+}
@@ -0,0 +1,280 @@
+import { db } from "../db";
+import { classes, students, type Class } from "@shared/schema";
+import { and, desc, eq, gt, isNull, lt, sql } from "drizzle-orm";
+import { isActiveStudent } from "../utils/student-scope";
+import { uuidStorage } from "../storage-uuid";
+import { BusinessError, ConflictError, ErrorCode, NotFoundError, ValidationError } from "../utils/errors";
+
+// How long a deleted class or student can be restored before the purge job removes it
+export const RESTORE_WINDOW_DAYS = 30;
+const RESTORE_WINDOW_MS = RESTORE_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+
+export function restoreDeadline(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + RESTORE_WINDOW_MS);
+}
+
+function assertRestorable(deletedAt: Date, what: string) {
+  if (restoreDeadline(deletedAt) <= new Date()) {
+    throw new BusinessError(`This ${what} was deleted more than ${RESTORE_WINDOW_DAYS} days ago and can no longer be restored`, ErrorCode.BIZ_013);
+  }
+}
+
+/**
+ * Why a student can't sign in right now, or null if they can: they, or their class,
+ * were deleted, or the class is archived
+ */
+export async function getStudentSignInBlock(studentId: string): Promise<string | null> {
+  const [student] = await db
+    .select({
+      studentDeletedAt: students.deletedAt,
+      classDeletedAt: classes.deletedAt,
+      isArchived: classes.isArchived
+    })
+    .from(students)
+    .innerJoin(classes, eq(students.classId, classes.id))
+    .where(eq(students.id, studentId))
+    .limit(1);
+
+  if (!student || student.studentDeletedAt || student.classDeletedAt) {
+    return 'This passport code is no longer active';
+  }
+  if (student.isArchived) {
+    return 'This class has been archived. Ask your teacher if you need access.';
+  }
+  return null;
+}
+
+/**
+ * Archive a class (read-only, students can't sign in) or bring it back
+ */
+export async function setClassArchived(classId: string, archived: boolean): Promise<Class> {
+  const [classRecord] = await db
+    .update(classes)
+    .set({ isArchived: archived, archivedAt: archived ? new Date() : null, updatedAt: new Date() })
+    .where(and(eq(classes.id, classId), isNull(classes.deletedAt)))
+    .returning();
+
+  if (!classRecord) {
+    throw new NotFoundError('Class');
+  }
+  return classRecord;
+}
+
+/**
+ * Soft delete a class and its students. Everything stays in place for
+ * RESTORE_WINDOW_DAYS, after which the purge job removes it.
+ */
+export async function deleteClass(classId: string, actorId: string, options: { ipAddress?: string | null } = {}) {
+  const classRecord = await uuidStorage.getClassById(classId);
+  if (!classRecord) {
+    throw new NotFoundError('Class');
+  }
+
+  await uuidStorage.deleteClass(classId);
+  const deletedAt = new Date();
+
+  await uuidStorage.logAdminAction({
+    adminId: actorId,
+    action: 'DELETE_CLASS',
+    targetType: 'class',
+    targetId: classId,
+    details: { className: classRecord.name },
+    ipAddress: options.ipAddress || null
+  });
+
+  return { classId, deletedAt, restoreBefore: restoreDeadline(deletedAt) };
+}
+
+/**
+ * Restore a deleted class with the students that were deleted along with it.
+ * Their inventory, pets, coins and transactions were never removed, so they come
+ * back as they were. Students deleted on their own before the class stay deleted.
+ */
+export async function restoreClass(classId: string, actorId: string, options: { ipAddress?: string | null } = {}) {
+  const result = await db.transaction(async (tx) => {
+    const [classRecord] = await tx
+      .select()
+      .from(classes)
+      .where(eq(classes.id, classId))
+      .limit(1)
+      .for('update');
+
+    if (!classRecord) {
+      throw new NotFoundError('Class');
+    }
+    if (!classRecord.deletedAt) {
+      throw new ValidationError('This class has not been deleted');
+    }
+    assertRestorable(classRecord.deletedAt, 'class');
+
+    const restoredStudents = await tx
+      .update(students)
+      .set({ deletedAt: null, updatedAt: new Date() })
+      .where(and(eq(students.classId, classId), eq(students.deletedAt, classRecord.deletedAt)))
+      .returning({ id: students.id });
+
+    const [restored] = await tx
+      .update(classes)
+      .set({ deletedAt: null, updatedAt: new Date() })
+      .where(eq(classes.id, classId))
+      .returning();
+
+    return { class: restored, studentsRestored: restoredStudents.length };
+  });
+
+  await uuidStorage.logAdminAction({
+    adminId: actorId,
+    action: 'RESTORE_CLASS',
+    targetType: 'class',
+    targetId: classId,
+    details: { className: result.class.name, studentsRestored: result.studentsRestored },
+    ipAddress: options.ipAddress || null
+  });
+
+  return result;
+}
+
+/**
+ * A teacher's deleted classes that can still be restored, most recently deleted first
+ */
+export async function listDeletedClasses(teacherId: string) {
+  const cutoff = new Date(Date.now() - RESTORE_WINDOW_MS);
+  const deleted = await db
+    .select({
+      id: classes.id,
+      name: classes.name,
+      subject: classes.subject,
+      gradeLevel: classes.gradeLevel,
+      icon: classes.icon,
+      backgroundColor: classes.backgroundColor,
+      deletedAt: classes.deletedAt,
+      studentCount: sql<number>`(
+        SELECT COUNT(*)::int FROM ${students}
+        WHERE ${students.classId} = ${classes.id} AND ${students.deletedAt} = ${classes.deletedAt}
+      )`
+    })
+    .from(classes)
+    .where(and(eq(classes.teacherId, teacherId), gt(classes.deletedAt, cutoff)))
+    .orderBy(desc(classes.deletedAt));
+
+  return deleted.map(classRecord => ({ ...classRecord, restoreBefore: restoreDeadline(classRecord.deletedAt!) }));
+}
+
+async function getClassStudent(classId: string, studentId: string) {
+  const [student] = await db
+    .select({ id: students.id, studentName: students.studentName, deletedAt: students.deletedAt })
+    .from(students)
+    .where(and(eq(students.id, studentId), eq(students.classId, classId)))
+    .limit(1);
+
+  if (!student) {
+    throw new NotFoundError('Student');
+  }
+  return student;
+}
+
+/**
+ * Soft delete one student. They can't sign in, and are left out of rosters, reports
+ * and counts until restored or purged.
+ */
+export async function deleteStudent(classId: string, studentId: string) {
+  const student = await getClassStudent(classId, studentId);
+  if (student.deletedAt) {
+    throw new NotFoundError('Student');
+  }
+
+  await uuidStorage.deleteStudent(studentId);
+  const deletedAt = new Date();
+  return { studentId, deletedAt, restoreBefore: restoreDeadline(deletedAt) };
+}
+
+/**
+ * Restore a student deleted on their own. Fails if another student in the class has
+ * since taken their name.
+ */
+export async function restoreStudent(classId: string, studentId: string) {
+  const student = await getClassStudent(classId, studentId);
+  if (!student.deletedAt) {
+    throw new ValidationError('This student has not been deleted');
+  }
+  assertRestorable(student.deletedAt, 'student');
+
+  if (student.studentName) {
+    const [clash] = await db
+      .select({ id: students.id })
+      .from(students)
+      .where(and(eq(students.classId, classId), eq(students.studentName, student.studentName), isActiveStudent()))
+      .limit(1);
+    if (clash) {
+      throw new ConflictError(`Another student in this class is already called ${student.studentName}`);
+    }
+  }
+
+  const [restored] = await db
+    .update(students)
+    .set({ deletedAt: null, updatedAt: new Date() })
+    .where(eq(students.id, studentId))
+    .returning();
+  return restored;
+}
+
+/**
+ * Students deleted from a class that can still be restored
+ */
+export async function listDeletedStudents(classId: string) {
+  const cutoff = new Date(Date.now() - RESTORE_WINDOW_MS);
+  const deleted = await db
+    .select({
+      id: students.id,
+      studentName: students.studentName,
+      passportCode: students.passportCode,
+      deletedAt: students.deletedAt
+    })
+    .from(students)
+    .where(and(eq(students.classId, classId), gt(students.deletedAt, cutoff)))
+    .orderBy(desc(students.deletedAt));
+
+  return deleted.map(student => ({ ...student, restoreBefore: restoreDeadline(student.deletedAt!) }));
+}
+
+/**
+ * Permanently remove a class with all of its students. Everything hanging off a
+ * student (submissions, inventory, pets, transactions) goes with them.
+ */
+export async function purgeClass(classId: string): Promise<{ studentsRemoved: number }> {
+  return db.transaction(async (tx) => {
+    const removed = await tx
+      .delete(students)
+      .where(eq(students.classId, classId))
+      .returning({ id: students.id });
+    await tx.delete(classes).where(eq(classes.id, classId));
+    return { studentsRemoved: removed.length };
+  });
+}
+
+/**
+ * Permanently remove classes and students whose restore window has passed
+ */
+export async function purgeExpired(now = new Date()) {
+  const cutoff = new Date(now.getTime() - RESTORE_WINDOW_MS);
+
+  const expiredClasses = await db
+    .select({ id: classes.id })
+    .from(classes)
+    .where(lt(classes.deletedAt, cutoff));
+
+  let studentsRemoved = 0;
+  for (const classRecord of expiredClasses) {
+    studentsRemoved += (await purgeClass(classRecord.id)).studentsRemoved;
+  }
+
+  const expiredStudents = await db
+    .delete(students)
+    .where(lt(students.deletedAt, cutoff))
+    .returning({ id: students.id });
+
+  return {
+    classesRemoved: expiredClasses.length,
+    studentsRemoved: studentsRemoved + expiredStudents.length
+  };
+}
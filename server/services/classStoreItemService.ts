@@ -0,0 +1,227 @@
+import { db } from "../db";
+import {
+  storeItems,
+  itemTypes,
+  studentInventory,
+  storeRedemptions,
+  students,
+  type StoreItem,
+  type StoreRedemption
+} from "@shared/schema";
+import { and, asc, desc, eq } from "drizzle-orm";
+import { getStockRemaining, invalidateCatalogCache } from "./storeCatalogService";
+import { BusinessError, ConflictError, InternalError, NotFoundError, ValidationError, ErrorCode } from "../utils/errors";
+
+// Item type seeded by migration 0027 for teacher-made coupons
+export const CLASS_COUPON_ITEM_TYPE = 'class_coupon';
+
+export const REDEMPTION_STATUSES = ['pending', 'fulfilled', 'declined'] as const;
+export type RedemptionStatus = typeof REDEMPTION_STATUSES[number];
+
+export interface ClassStoreItemInput {
+  name: string;
+  description?: string | null;
+  cost: number;
+  rarity?: string;
+  isActive?: boolean;
+  sortOrder?: number;
+  availableFrom?: Date | null;
+  availableUntil?: Date | null;
+  salePercent?: number | null;
+  saleStartsAt?: Date | null;
+  saleEndsAt?: Date | null;
+  stockLimit?: number | null;
+}
+
+/**
+ * The class's own items, including switched-off ones, with how many are left
+ */
+export async function listClassStoreItems(classId: string) {
+  const items = await db
+    .select()
+    .from(storeItems)
+    .where(eq(storeItems.classId, classId))
+    .orderBy(asc(storeItems.sortOrder), asc(storeItems.name));
+
+  return items.map(item => ({ ...item, stockRemaining: getStockRemaining(item) }));
+}
+
+/**
+ * A class-only coupon item ("homework pass"). Students buy it like any other item and
+ * redeem it later; the teacher fulfils the redemption.
+ */
+export async function createClassStoreItem(classId: string, teacherId: string, input: ClassStoreItemInput): Promise<StoreItem> {
+  const [couponType] = await db
+    .select({ id: itemTypes.id })
+    .from(itemTypes)
+    .where(eq(itemTypes.code, CLASS_COUPON_ITEM_TYPE))
+    .limit(1);
+
+  if (!couponType) {
+    throw new InternalError(`Item type ${CLASS_COUPON_ITEM_TYPE} is missing`);
+  }
+
+  const [item] = await db
+    .insert(storeItems)
+    .values({
+      ...input,
+      description: input.description ?? null,
+      itemTypeId: couponType.id,
+      classId,
+      createdBy: teacherId,
+      isRedeemable: true
+    })
+    .returning();
+
+  await invalidateCatalogCache(classId);
+  return item;
+}
+
+export async function updateClassStoreItem(classId: string, itemId: string, input: Partial<ClassStoreItemInput>): Promise<StoreItem> {
+  if (input.stockLimit) {
+    const [current] = await db
+      .select({ stockSold: storeItems.stockSold })
+      .from(storeItems)
+      .where(and(eq(storeItems.id, itemId), eq(storeItems.classId, classId)))
+      .limit(1);
+    if (current && input.stockLimit < current.stockSold) {
+      throw new ValidationError(`${current.stockSold} have already been sold, so the stock limit can't be lower`);
+    }
+  }
+
+  const [item] = await db
+    .update(storeItems)
+    .set({ ...input, updatedAt: new Date() })
+    .where(and(eq(storeItems.id, itemId), eq(storeItems.classId, classId)))
+    .returning();
+
+  if (!item) {
+    throw new NotFoundError('Store item');
+  }
+
+  await invalidateCatalogCache(classId);
+  return item;
+}
+
+/**
+ * Take an item off the shelf. It is switched off rather than deleted so students who
+ * bought it keep it and can still redeem it.
+ */
+export async function deactivateClassStoreItem(classId: string, itemId: string): Promise<StoreItem> {
+  return updateClassStoreItem(classId, itemId, { isActive: false });
+}
+
+/**
+ * A student using up a coupon they own: it leaves their inventory and waits for the teacher
+ */
+export async function redeemItem(studentId: string, itemId: string, note?: string | null): Promise<StoreRedemption> {
+  return db.transaction(async (tx) => {
+    const [owned] = await tx
+      .select({
+        inventoryId: studentInventory.id,
+        classId: students.classId,
+        itemName: storeItems.name,
+        isRedeemable: storeItems.isRedeemable
+      })
+      .from(studentInventory)
+      .innerJoin(storeItems, eq(studentInventory.storeItemId, storeItems.id))
+      .innerJoin(students, eq(studentInventory.studentId, students.id))
+      .where(and(eq(studentInventory.studentId, studentId), eq(studentInventory.storeItemId, itemId)))
+      .limit(1)
+      .for('update', { of: studentInventory });
+
+    if (!owned) {
+      throw new NotFoundError('Inventory item');
+    }
+    if (!owned.isRedeemable) {
+      throw new BusinessError('This item can\'t be redeemed', ErrorCode.BIZ_008);
+    }
+
+    await tx
+      .delete(studentInventory)
+      .where(eq(studentInventory.id, owned.inventoryId));
+
+    const [redemption] = await tx
+      .insert(storeRedemptions)
+      .values({
+        studentId,
+        classId: owned.classId,
+        storeItemId: itemId,
+        itemName: owned.itemName,
+        note: note || null
+      })
+      .returning();
+
+    return redemption;
+  });
+}
+
+/**
+ * Redemptions for a class (or one student), newest first
+ */
+export async function listRedemptions(filter: { classId?: string; studentId?: string; status?: RedemptionStatus }) {
+  const conditions = [];
+  if (filter.classId) conditions.push(eq(storeRedemptions.classId, filter.classId));
+  if (filter.studentId) conditions.push(eq(storeRedemptions.studentId, filter.studentId));
+  if (filter.status) conditions.push(eq(storeRedemptions.status, filter.status));
+
+  return db
+    .select({
+      id: storeRedemptions.id,
+      studentId: storeRedemptions.studentId,
+      studentName: students.studentName,
+      storeItemId: storeRedemptions.storeItemId,
+      itemName: storeRedemptions.itemName,
+      status: storeRedemptions.status,
+      note: storeRedemptions.note,
+      decidedBy: storeRedemptions.decidedBy,
+      decidedAt: storeRedemptions.decidedAt,
+      createdAt: storeRedemptions.createdAt
+    })
+    .from(storeRedemptions)
+    .innerJoin(students, eq(storeRedemptions.studentId, students.id))
+    .where(and(...conditions))
+    .orderBy(desc(storeRedemptions.createdAt))
+    .limit(200);
+}
+
+/**
+ * Fulfil a pending redemption, or decline it and give the coupon back to the student
+ */
+export async function decideRedemption(
+  classId: string,
+  redemptionId: string,
+  teacherId: string,
+  status: Exclude<RedemptionStatus, 'pending'>
+): Promise<StoreRedemption> {
+  return db.transaction(async (tx) => {
+    const [redemption] = await tx
+      .select()
+      .from(storeRedemptions)
+      .where(and(eq(storeRedemptions.id, redemptionId), eq(storeRedemptions.classId, classId)))
+      .limit(1)
+      .for('update');
+
+    if (!redemption) {
+      throw new NotFoundError('Redemption');
+    }
+    if (redemption.status !== 'pending') {
+      throw new ConflictError(`Redemption has already been ${redemption.status}`);
+    }
+
+    if (status === 'declined') {
+      await tx
+        .insert(studentInventory)
+        .values({ studentId: redemption.studentId, storeItemId: redemption.storeItemId, isEquipped: false })
+        .onConflictDoNothing();
+    }
+
+    const [updated] = await tx
+      .update(storeRedemptions)
+      .set({ status, decidedBy: teacherId, decidedAt: new Date() })
+      .where(eq(storeRedemptions.id, redemption.id))
+      .returning();
+
+    return updated;
+  });
+}
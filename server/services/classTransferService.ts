@@ -0,0 +1,425 @@
+import { db } from "../db";
+import {
+  classes,
+  classCollaborators,
+  classTransferRequests,
+  storeSettings,
+  discussions,
+  replies,
+  profiles,
+  type ClassTransferRequest
+} from "@shared/schema";
+import { and, desc, eq, isNull, ne, or } from "drizzle-orm";
+import { uuidStorage } from "../storage-uuid";
+import type { Transaction } from "./ledgerService";
+import { ConflictError, NotFoundError, ValidationError } from "../utils/errors";
+
+// What happens to a departing teacher's community posts: they stay under their name
+// (and go if their account is deleted), or move to the new teacher so threads survive
+export const COMMUNITY_CONTENT_HANDLING = ['keep', 'transfer'] as const;
+export type CommunityContentHandling = typeof COMMUNITY_CONTENT_HANDLING[number];
+
+interface TransferredClass {
+  classId: string;
+  className: string;
+  fromTeacherId: string;
+}
+
+async function getTeacher(teacherId: string) {
+  const [teacher] = await db
+    .select({ id: profiles.id, email: profiles.email })
+    .from(profiles)
+    .where(eq(profiles.id, teacherId))
+    .limit(1);
+
+  if (!teacher) {
+    throw new NotFoundError('Teacher');
+  }
+  return teacher;
+}
+
+/**
+ * Hand one (locked) class to a new owner. The store settings row follows the class;
+ * coin transactions keep the teacher who actually awarded them. A new owner who was a
+ * co-teacher stops being one; the previous owner can stay on as an editor.
+ */
+async function moveClass(tx: Transaction, classRecord: { id: string; name: string; teacherId: string }, toTeacherId: string, actorId: string, keepPreviousOwner: boolean) {
+  await tx
+    .update(classes)
+    .set({ teacherId: toTeacherId, updatedAt: new Date() })
+    .where(eq(classes.id, classRecord.id));
+
+  await tx
+    .update(storeSettings)
+    .set({ teacherId: toTeacherId, updatedAt: new Date() })
+    .where(eq(storeSettings.classId, classRecord.id));
+
+  await tx
+    .delete(classCollaborators)
+    .where(and(eq(classCollaborators.classId, classRecord.id), eq(classCollaborators.teacherId, toTeacherId)));
+
+  if (keepPreviousOwner) {
+    const collaboration = {
+      role: 'editor',
+      permissions: {},
+      invitedBy: actorId,
+      invitationStatus: 'accepted',
+      invitationToken: null,
+      acceptedAt: new Date(),
+      declinedAt: null,
+      revokedAt: null,
+      updatedAt: new Date()
+    };
+    await tx
+      .insert(classCollaborators)
+      .values({ classId: classRecord.id, teacherId: classRecord.teacherId, ...collaboration })
+      .onConflictDoUpdate({ target: [classCollaborators.classId, classCollaborators.teacherId], set: collaboration });
+  }
+}
+
+/**
+ * Give a class to another teacher straight away (by an admin). Owners ask first with
+ * requestClassTransfer.
+ */
+export async function transferClass(classId: string, toTeacherId: string, actorId: string, options: {
+  keepPreviousOwner?: boolean;
+  reason?: string | null;
+  ipAddress?: string | null;
+} = {}): Promise<TransferredClass> {
+  await getTeacher(toTeacherId);
+
+  const transferred = await db.transaction(async (tx) => {
+    const [classRecord] = await tx
+      .select({ id: classes.id, name: classes.name, teacherId: classes.teacherId })
+      .from(classes)
+      .where(eq(classes.id, classId))
+      .limit(1)
+      .for('update');
+
+    if (!classRecord) {
+      throw new NotFoundError('Class');
+    }
+    if (classRecord.teacherId === toTeacherId) {
+      throw new ValidationError('That teacher already owns this class');
+    }
+
+    await moveClass(tx, classRecord, toTeacherId, actorId, !!options.keepPreviousOwner);
+    return { classId: classRecord.id, className: classRecord.name, fromTeacherId: classRecord.teacherId };
+  });
+
+  await uuidStorage.logAdminAction({
+    adminId: actorId,
+    action: 'TRANSFER_CLASS',
+    targetType: 'class',
+    targetId: transferred.classId,
+    targetUserId: toTeacherId,
+    details: {
+      className: transferred.className,
+      fromTeacherId: transferred.fromTeacherId,
+      toTeacherId,
+      keepPreviousOwner: !!options.keepPreviousOwner,
+      reason: options.reason || null
+    },
+    ipAddress: options.ipAddress || null
+  });
+
+  return transferred;
+}
+
+/**
+ * Ask another teacher to take over a class (by the class owner). Nothing moves until
+ * they accept; a new request replaces one still waiting.
+ */
+export async function requestClassTransfer(classId: string, fromTeacherId: string, toTeacherId: string, options: {
+  keepPreviousOwner?: boolean;
+  reason?: string | null;
+  ipAddress?: string | null;
+} = {}): Promise<ClassTransferRequest> {
+  if (fromTeacherId === toTeacherId) {
+    throw new ValidationError('That teacher already owns this class');
+  }
+  await getTeacher(toTeacherId);
+
+  const request = await db.transaction(async (tx) => {
+    const [classRecord] = await tx
+      .select({ id: classes.id })
+      .from(classes)
+      .where(and(eq(classes.id, classId), eq(classes.teacherId, fromTeacherId), isNull(classes.deletedAt)))
+      .limit(1)
+      .for('update');
+
+    if (!classRecord) {
+      throw new NotFoundError('Class');
+    }
+
+    await tx
+      .update(classTransferRequests)
+      .set({ status: 'cancelled', respondedAt: new Date() })
+      .where(and(eq(classTransferRequests.classId, classId), eq(classTransferRequests.status, 'pending')));
+
+    const [created] = await tx
+      .insert(classTransferRequests)
+      .values({
+        classId,
+        fromTeacherId,
+        toTeacherId,
+        keepPreviousOwner: options.keepPreviousOwner ?? true,
+        reason: options.reason || null
+      })
+      .returning();
+    return created;
+  });
+
+  await uuidStorage.logAdminAction({
+    adminId: fromTeacherId,
+    action: 'REQUEST_CLASS_TRANSFER',
+    targetType: 'class',
+    targetId: classId,
+    targetUserId: toTeacherId,
+    details: { requestId: request.id, keepPreviousOwner: request.keepPreviousOwner, reason: request.reason },
+    ipAddress: options.ipAddress || null
+  });
+
+  return request;
+}
+
+/**
+ * Withdraw the class's waiting transfer request (by the class owner)
+ */
+export async function cancelClassTransfer(classId: string, fromTeacherId: string): Promise<ClassTransferRequest> {
+  const [cancelled] = await db
+    .update(classTransferRequests)
+    .set({ status: 'cancelled', respondedAt: new Date() })
+    .where(and(
+      eq(classTransferRequests.classId, classId),
+      eq(classTransferRequests.fromTeacherId, fromTeacherId),
+      eq(classTransferRequests.status, 'pending')
+    ))
+    .returning();
+
+  if (!cancelled) {
+    throw new NotFoundError('Transfer request');
+  }
+  return cancelled;
+}
+
+/**
+ * Classes other teachers want to hand to this teacher
+ */
+export async function listMyTransferRequests(teacherId: string) {
+  return db
+    .select({
+      requestId: classTransferRequests.id,
+      classId: classes.id,
+      className: classes.name,
+      fromTeacherName: profiles.fullName,
+      keepPreviousOwner: classTransferRequests.keepPreviousOwner,
+      reason: classTransferRequests.reason,
+      createdAt: classTransferRequests.createdAt
+    })
+    .from(classTransferRequests)
+    .innerJoin(classes, eq(classTransferRequests.classId, classes.id))
+    .innerJoin(profiles, eq(classTransferRequests.fromTeacherId, profiles.id))
+    .where(and(eq(classTransferRequests.toTeacherId, teacherId), eq(classTransferRequests.status, 'pending')))
+    .orderBy(desc(classTransferRequests.createdAt));
+}
+
+/**
+ * Accept or decline a transfer request. Only the teacher it was sent to can answer it,
+ * and only once. Accepting moves the class, unless it changed hands in the meantime.
+ */
+export async function respondToTransferRequest(requestId: string, teacherId: string, accept: boolean, options: {
+  ipAddress?: string | null;
+} = {}) {
+  const outcome = await db.transaction(async (tx) => {
+    const [request] = await tx
+      .select()
+      .from(classTransferRequests)
+      .where(and(
+        eq(classTransferRequests.id, requestId),
+        eq(classTransferRequests.toTeacherId, teacherId),
+        eq(classTransferRequests.status, 'pending')
+      ))
+      .limit(1)
+      .for('update');
+
+    if (!request) {
+      throw new NotFoundError('Transfer request');
+    }
+
+    const answer = async (status: 'accepted' | 'declined' | 'cancelled') => {
+      const [answered] = await tx
+        .update(classTransferRequests)
+        .set({ status, respondedAt: new Date() })
+        .where(eq(classTransferRequests.id, request.id))
+        .returning();
+      return answered;
+    };
+
+    if (!accept) {
+      return { request: await answer('declined'), transferred: null };
+    }
+
+    const [classRecord] = await tx
+      .select({ id: classes.id, name: classes.name, teacherId: classes.teacherId, deletedAt: classes.deletedAt })
+      .from(classes)
+      .where(eq(classes.id, request.classId))
+      .limit(1)
+      .for('update');
+
+    // The owner was offboarded or the class deleted since asking
+    if (!classRecord || classRecord.teacherId !== request.fromTeacherId || classRecord.deletedAt) {
+      return { request: await answer('cancelled'), transferred: null, stale: true };
+    }
+
+    await moveClass(tx, classRecord, teacherId, request.fromTeacherId, request.keepPreviousOwner);
+    return {
+      request: await answer('accepted'),
+      transferred: { classId: classRecord.id, className: classRecord.name, fromTeacherId: classRecord.teacherId } as TransferredClass
+    };
+  });
+
+  if (outcome.stale) {
+    throw new ConflictError('This class is no longer available to transfer');
+  }
+
+  if (outcome.transferred) {
+    await uuidStorage.logAdminAction({
+      adminId: teacherId,
+      action: 'TRANSFER_CLASS',
+      targetType: 'class',
+      targetId: outcome.transferred.classId,
+      targetUserId: teacherId,
+      details: {
+        className: outcome.transferred.className,
+        fromTeacherId: outcome.transferred.fromTeacherId,
+        toTeacherId: teacherId,
+        requestId: outcome.request.id,
+        keepPreviousOwner: outcome.request.keepPreviousOwner,
+        reason: outcome.request.reason
+      },
+      ipAddress: options.ipAddress || null
+    });
+  }
+
+  return outcome;
+}
+
+/**
+ * A teacher leaving: every class they own (archived and deleted ones too) goes to their
+ * successor, their co-teaching access elsewhere is revoked, invitations they sent are
+ * handed to the successor and their community posts are kept or handed over. Their
+ * admin log entries keep pointing at them as the audit trail, so the account can be
+ * deactivated but not deleted.
+ */
+export async function offboardTeacher(fromTeacherId: string, toTeacherId: string, adminId: string, options: {
+  communityContent?: CommunityContentHandling;
+  reason?: string | null;
+  ipAddress?: string | null;
+} = {}) {
+  if (fromTeacherId === toTeacherId) {
+    throw new ValidationError('Choose a different teacher to take over the classes');
+  }
+  const departing = await getTeacher(fromTeacherId);
+  await getTeacher(toTeacherId);
+  const communityContent = options.communityContent || 'keep';
+
+  const result = await db.transaction(async (tx) => {
+    const owned = await tx
+      .select({ id: classes.id, name: classes.name, teacherId: classes.teacherId })
+      .from(classes)
+      .where(eq(classes.teacherId, fromTeacherId))
+      .for('update');
+
+    for (const classRecord of owned) {
+      await moveClass(tx, classRecord, toTeacherId, adminId, false);
+    }
+
+    const revoked = await tx
+      .update(classCollaborators)
+      .set({ invitationStatus: 'revoked', invitationToken: null, revokedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(classCollaborators.teacherId, fromTeacherId), ne(classCollaborators.invitationStatus, 'revoked')))
+      .returning({ classId: classCollaborators.classId });
+
+    const invitationsReassigned = (await tx
+      .update(classCollaborators)
+      .set({ invitedBy: toTeacherId, updatedAt: new Date() })
+      .where(eq(classCollaborators.invitedBy, fromTeacherId))
+      .returning({ id: classCollaborators.id })).length;
+
+    await tx
+      .update(classTransferRequests)
+      .set({ status: 'cancelled', respondedAt: new Date() })
+      .where(and(
+        or(eq(classTransferRequests.fromTeacherId, fromTeacherId), eq(classTransferRequests.toTeacherId, fromTeacherId)),
+        eq(classTransferRequests.status, 'pending')
+      ));
+
+    let discussionsMoved = 0;
+    let repliesMoved = 0;
+    if (communityContent === 'transfer') {
+      discussionsMoved = (await tx
+        .update(discussions)
+        .set({ teacherId: toTeacherId })
+        .where(eq(discussions.teacherId, fromTeacherId))
+        .returning({ id: discussions.id })).length;
+      repliesMoved = (await tx
+        .update(replies)
+        .set({ teacherId: toTeacherId })
+        .where(eq(replies.teacherId, fromTeacherId))
+        .returning({ id: replies.id })).length;
+    }
+
+    return {
+      classes: owned.map(classRecord => ({ classId: classRecord.id, className: classRecord.name, fromTeacherId })),
+      collaborationsRevoked: revoked.length,
+      invitationsReassigned,
+      discussionsMoved,
+      repliesMoved
+    };
+  });
+
+  // One entry per class so each shows up in that class's history, then the summary
+  for (const transferred of result.classes) {
+    await uuidStorage.logAdminAction({
+      adminId,
+      action: 'TRANSFER_CLASS',
+      targetType: 'class',
+      targetId: transferred.classId,
+      targetUserId: toTeacherId,
+      details: { className: transferred.className, fromTeacherId, toTeacherId, offboarding: true, reason: options.reason || null },
+      ipAddress: options.ipAddress || null
+    });
+  }
+  if (result.collaborationsRevoked > 0) {
+    await uuidStorage.logAdminAction({
+      adminId,
+      action: 'REVOKE_COLLABORATIONS',
+      targetType: 'profile',
+      targetId: fromTeacherId,
+      targetUserId: fromTeacherId,
+      details: { count: result.collaborationsRevoked, offboarding: true },
+      ipAddress: options.ipAddress || null
+    });
+  }
+  await uuidStorage.logAdminAction({
+    adminId,
+    action: 'OFFBOARD_TEACHER',
+    targetType: 'profile',
+    targetId: fromTeacherId,
+    targetUserId: fromTeacherId,
+    details: {
+      departingEmail: departing.email,
+      toTeacherId,
+      classCount: result.classes.length,
+      invitationsReassigned: result.invitationsReassigned,
+      communityContent,
+      discussionsMoved: result.discussionsMoved,
+      repliesMoved: result.repliesMoved,
+      reason: options.reason || null
+    },
+    ipAddress: options.ipAddress || null
+  });
+
+  return result;
+}
@@ -0,0 +1,295 @@
+import { db } from "../db";
+import {
+  classCollaborators,
+  classes,
+  profiles,
+  type Class,
+  type ClassCollaborator,
+  type CollaboratorPermission,
+  type CollaboratorPermissions
+} from "@shared/schema";
+import { and, desc, eq, isNull, ne, sql } from "drizzle-orm";
+import { randomUUID } from "crypto";
+import { sendEmail } from "./email";
+import { ConflictError, NotFoundError, ValidationError } from "../utils/errors";
+import { createSecureLogger } from "../utils/secure-logger";
+
+const logger = createSecureLogger('Collaborators');
+
+export const COLLABORATOR_ROLES = ['viewer', 'editor'] as const;
+export type CollaboratorRole = typeof COLLABORATOR_ROLES[number];
+export type ClassRole = 'owner' | CollaboratorRole;
+
+// What each role can do unless the invitation's permissions say otherwise. Viewers can
+// look (including analytics); editors can do everything the owner can except manage
+// who else has access.
+const ROLE_PERMISSIONS: Record<CollaboratorRole, Record<CollaboratorPermission, boolean>> = {
+  viewer: {
+    can_manage_students: false,
+    can_manage_store: false,
+    can_view_analytics: true,
+    can_export_data: false,
+    can_send_messages: false,
+    can_manage_curriculum: false
+  },
+  editor: {
+    can_manage_students: true,
+    can_manage_store: true,
+    can_view_analytics: true,
+    can_export_data: true,
+    can_send_messages: true,
+    can_manage_curriculum: true
+  }
+};
+
+export interface ClassAccess {
+  role: ClassRole;
+  permissions: CollaboratorPermissions;
+}
+
+export function hasPermission(access: ClassAccess, permission: CollaboratorPermission): boolean {
+  if (access.role === 'owner') return true;
+  return access.permissions[permission] ?? ROLE_PERMISSIONS[access.role][permission];
+}
+
+const activeCollaboration = and(
+  eq(classCollaborators.invitationStatus, 'accepted'),
+  isNull(classCollaborators.revokedAt)
+);
+
+/**
+ * The teacher's accepted, unrevoked place on someone else's class, if they have one
+ */
+export async function getCollaboratorAccess(classId: string, teacherId: string): Promise<ClassAccess | null> {
+  const [collaboration] = await db
+    .select({ role: classCollaborators.role, permissions: classCollaborators.permissions })
+    .from(classCollaborators)
+    .where(and(eq(classCollaborators.classId, classId), eq(classCollaborators.teacherId, teacherId), activeCollaboration))
+    .limit(1);
+
+  if (!collaboration) return null;
+  return {
+    role: collaboration.role === 'editor' ? 'editor' : 'viewer',
+    permissions: collaboration.permissions || {}
+  };
+}
+
+/**
+ * Classes other teachers have shared with this teacher, with their role on each
+ */
+export async function listSharedClasses(teacherId: string): Promise<(Class & { role: CollaboratorRole; ownerName: string | null })[]> {
+  const rows = await db
+    .select({ class: classes, role: classCollaborators.role, ownerName: profiles.fullName })
+    .from(classCollaborators)
+    .innerJoin(classes, eq(classCollaborators.classId, classes.id))
+    .innerJoin(profiles, eq(classes.teacherId, profiles.id))
+    .where(and(eq(classCollaborators.teacherId, teacherId), activeCollaboration, sql`${classes.deletedAt} IS NULL`));
+
+  return rows.map(row => ({
+    ...row.class,
+    role: row.role === 'editor' ? 'editor' as const : 'viewer' as const,
+    ownerName: row.ownerName
+  }));
+}
+
+/**
+ * Everyone invited to the class who hasn't been removed: pending, accepted and declined
+ */
+export async function listCollaborators(classId: string) {
+  return db
+    .select({
+      id: classCollaborators.id,
+      teacherId: classCollaborators.teacherId,
+      fullName: profiles.fullName,
+      email: profiles.email,
+      role: classCollaborators.role,
+      permissions: classCollaborators.permissions,
+      invitationStatus: classCollaborators.invitationStatus,
+      invitedAt: classCollaborators.invitedAt,
+      acceptedAt: classCollaborators.acceptedAt,
+      declinedAt: classCollaborators.declinedAt
+    })
+    .from(classCollaborators)
+    .innerJoin(profiles, eq(classCollaborators.teacherId, profiles.id))
+    .where(and(eq(classCollaborators.classId, classId), ne(classCollaborators.invitationStatus, 'revoked')))
+    .orderBy(desc(classCollaborators.invitedAt));
+}
+
+/**
+ * Email the invitation. Failures are logged; the owner can still share the link.
+ */
+async function sendInvitation(email: string, className: string, inviterName: string | null, token: string) {
+  try {
+    const base = (process.env.FRONTEND_URL || 'http://localhost:3000').replace(/\/$/, '');
+    const link = `${base}/invitations/${token}`;
+    const inviter = inviterName || 'A teacher';
+    await sendEmail({
+      to: email,
+      subject: `${inviter} invited you to help with ${className}`,
+      html: `<p>${inviter} invited you to co-teach <strong>${className}</strong>.</p><p><a href="${link}">Accept or decline the invitation</a></p>`,
+      text: `${inviter} invited you to co-teach ${className}. Accept or decline the invitation: ${link}`
+    });
+  } catch (error) {
+    logger.error('Failed to send collaborator invitation', { error });
+  }
+}
+
+/**
+ * Invite another teacher (by their account email) to the class. Inviting someone who
+ * declined or was removed sends them a fresh invitation.
+ */
+export async function inviteCollaborator(classId: string, inviterId: string, params: {
+  email: string;
+  role: CollaboratorRole;
+  permissions?: CollaboratorPermissions;
+}): Promise<ClassCollaborator> {
+  const [classRecord] = await db
+    .select({ name: classes.name, teacherId: classes.teacherId })
+    .from(classes)
+    .where(eq(classes.id, classId))
+    .limit(1);
+
+  if (!classRecord) {
+    throw new NotFoundError('Class');
+  }
+
+  const [invitee] = await db
+    .select({ id: profiles.id, email: profiles.email })
+    .from(profiles)
+    .where(sql`lower(${profiles.email}) = ${params.email.toLowerCase()}`)
+    .limit(1);
+
+  if (!invitee) {
+    throw new NotFoundError('Teacher account with that email');
+  }
+  if (invitee.id === classRecord.teacherId) {
+    throw new ValidationError('That teacher already owns this class');
+  }
+
+  const [existing] = await db
+    .select({ invitationStatus: classCollaborators.invitationStatus })
+    .from(classCollaborators)
+    .where(and(eq(classCollaborators.classId, classId), eq(classCollaborators.teacherId, invitee.id)))
+    .limit(1);
+
+  if (existing?.invitationStatus === 'accepted') {
+    throw new ConflictError('That teacher already has access to this class');
+  }
+  if (existing?.invitationStatus === 'pending') {
+    throw new ConflictError('That teacher has already been invited');
+  }
+
+  const invitation = {
+    role: params.role,
+    permissions: params.permissions || {},
+    invitedBy: inviterId,
+    invitationStatus: 'pending',
+    invitationToken: randomUUID(),
+    invitedAt: new Date(),
+    acceptedAt: null,
+    declinedAt: null,
+    revokedAt: null,
+    updatedAt: new Date()
+  };
+
+  const [collaborator] = await db
+    .insert(classCollaborators)
+    .values({ classId, teacherId: invitee.id, ...invitation })
+    .onConflictDoUpdate({ target: [classCollaborators.classId, classCollaborators.teacherId], set: invitation })
+    .returning();
+
+  const [inviter] = await db
+    .select({ fullName: profiles.fullName })
+    .from(profiles)
+    .where(eq(profiles.id, inviterId))
+    .limit(1);
+
+  void sendInvitation(invitee.email, classRecord.name, inviter?.fullName ?? null, collaborator.invitationToken!);
+  return collaborator;
+}
+
+/**
+ * Change a co-teacher's role or permissions
+ */
+export async function updateCollaborator(classId: string, collaboratorId: string, params: {
+  role?: CollaboratorRole;
+  permissions?: CollaboratorPermissions;
+}): Promise<ClassCollaborator> {
+  const [updated] = await db
+    .update(classCollaborators)
+    .set({ ...params, updatedAt: new Date() })
+    .where(and(
+      eq(classCollaborators.id, collaboratorId),
+      eq(classCollaborators.classId, classId),
+      ne(classCollaborators.invitationStatus, 'revoked')
+    ))
+    .returning();
+
+  if (!updated) {
+    throw new NotFoundError('Collaborator');
+  }
+  return updated;
+}
+
+/**
+ * Take away a co-teacher's access, or withdraw an invitation they haven't answered
+ */
+export async function revokeCollaborator(classId: string, collaboratorId: string): Promise<ClassCollaborator> {
+  const [revoked] = await db
+    .update(classCollaborators)
+    .set({ invitationStatus: 'revoked', invitationToken: null, revokedAt: new Date(), updatedAt: new Date() })
+    .where(and(
+      eq(classCollaborators.id, collaboratorId),
+      eq(classCollaborators.classId, classId),
+      ne(classCollaborators.invitationStatus, 'revoked')
+    ))
+    .returning();
+
+  if (!revoked) {
+    throw new NotFoundError('Collaborator');
+  }
+  return revoked;
+}
+
+/**
+ * Invitations waiting on this teacher's answer
+ */
+export async function listMyInvitations(teacherId: string) {
+  return db
+    .select({
+      token: classCollaborators.invitationToken,
+      classId: classes.id,
+      className: classes.name,
+      role: classCollaborators.role,
+      invitedByName: profiles.fullName,
+      invitedAt: classCollaborators.invitedAt
+    })
+    .from(classCollaborators)
+    .innerJoin(classes, eq(classCollaborators.classId, classes.id))
+    .innerJoin(profiles, eq(classCollaborators.invitedBy, profiles.id))
+    .where(and(eq(classCollaborators.teacherId, teacherId), eq(classCollaborators.invitationStatus, 'pending')))
+    .orderBy(desc(classCollaborators.invitedAt));
+}
+
+/**
+ * Accept or decline an invitation. Only the invited teacher can answer it, and only once.
+ */
+export async function respondToInvitation(token: string, teacherId: string, accept: boolean): Promise<ClassCollaborator> {
+  const now = new Date();
+  const [answered] = await db
+    .update(classCollaborators)
+    .set(accept
+      ? { invitationStatus: 'accepted', acceptedAt: now, invitationToken: null, updatedAt: now }
+      : { invitationStatus: 'declined', declinedAt: now, invitationToken: null, updatedAt: now })
+    .where(and(
+      eq(classCollaborators.invitationToken, token),
+      eq(classCollaborators.teacherId, teacherId),
+      eq(classCollaborators.invitationStatus, 'pending')
+    ))
+    .returning();
+
+  if (!answered) {
+    throw new NotFoundError('Invitation');
+  }
+  return answered;
+}
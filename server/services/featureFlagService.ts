@@ -0,0 +1,155 @@
+import { createHash } from "crypto";
+import { db } from "../db";
+import { featureFlags, classes, profiles, type FeatureFlag, type NewFeatureFlag } from "@shared/schema";
+import { eq } from "drizzle-orm";
+import { getCache } from "../lib/cache-factory";
+import { ConflictError, NotFoundError } from "../utils/errors";
+
+const cache = getCache();
+const FLAGS_CACHE_KEY = 'feature-flags:all';
+const FLAGS_CACHE_TTL = 60; // seconds
+
+export const FLAG_BUCKET_UNITS = ['teacher', 'class'] as const;
+export type FlagBucketUnit = typeof FLAG_BUCKET_UNITS[number];
+
+/**
+ * Who a flag is being evaluated for. A class brings its teacher and school with it.
+ */
+export interface FlagContext {
+  teacherId?: string | null;
+  classId?: string | null;
+  school?: string | null;
+}
+
+export const normalizeSchool = (school: string) => school.trim().toLowerCase();
+
+/**
+ * Where a unit falls in 0-99 for a flag. Hashing with the flag id means each flag picks
+ * its own cohort, and raising the percentage only ever adds units.
+ */
+export function rolloutBucket(flagId: string, unitId: string): number {
+  return createHash('sha256').update(`${flagId}:${unitId}`).digest().readUInt32BE(0) % 100;
+}
+
+/**
+ * Whether the flag is on for the context: off while disabled, then the school deny
+ * list, the school allow list and finally the rollout percentage
+ */
+export function evaluateFlag(flag: FeatureFlag, context: FlagContext): boolean {
+  if (!flag.isEnabled) return false;
+
+  const school = context.school ? normalizeSchool(context.school) : null;
+  if (school && flag.deniedSchools.includes(school)) return false;
+  if (school && flag.allowedSchools.includes(school)) return true;
+
+  const percentage = flag.rolloutPercentage ?? 0;
+  if (percentage >= 100) return true;
+  if (percentage <= 0) return false;
+
+  const unitId = flag.bucketBy === 'class' ? context.classId : context.teacherId;
+  return !!unitId && rolloutBucket(flag.id, unitId) < percentage;
+}
+
+export async function listFlags(): Promise<FeatureFlag[]> {
+  const cached = await cache.get<FeatureFlag[]>(FLAGS_CACHE_KEY);
+  if (cached) return cached;
+
+  const flags = await db.select().from(featureFlags).orderBy(featureFlags.id);
+  await cache.set(FLAGS_CACHE_KEY, flags, FLAGS_CACHE_TTL);
+  return flags;
+}
+
+/**
+ * Fill in what the context leaves out: a class's teacher and school, or the teacher's
+ * school from their profile
+ */
+export async function resolveFlagContext(context: FlagContext): Promise<FlagContext> {
+  const resolved = { ...context };
+
+  if (resolved.classId && (!resolved.teacherId || !resolved.school)) {
+    const [classRecord] = await db
+      .select({ teacherId: classes.teacherId, schoolName: classes.schoolName })
+      .from(classes)
+      .where(eq(classes.id, resolved.classId))
+      .limit(1);
+    resolved.teacherId = resolved.teacherId || classRecord?.teacherId;
+    resolved.school = resolved.school || classRecord?.schoolName;
+  }
+
+  if (resolved.teacherId && !resolved.school) {
+    const [profile] = await db
+      .select({ schoolOrganization: profiles.schoolOrganization })
+      .from(profiles)
+      .where(eq(profiles.id, resolved.teacherId))
+      .limit(1);
+    resolved.school = profile?.schoolOrganization;
+  }
+
+  return resolved;
+}
+
+/**
+ * Whether one flag is on. Unknown flags are off.
+ */
+export async function isFeatureEnabled(flagId: string, context: FlagContext): Promise<boolean> {
+  const flag = (await listFlags()).find(candidate => candidate.id === flagId);
+  if (!flag) return false;
+  return evaluateFlag(flag, await resolveFlagContext(context));
+}
+
+/**
+ * Every flag evaluated for the context, as { flagId: on }
+ */
+export async function evaluateFlags(context: FlagContext): Promise<Record<string, boolean>> {
+  const [flags, resolved] = await Promise.all([listFlags(), resolveFlagContext(context)]);
+  return Object.fromEntries(flags.map(flag => [flag.id, evaluateFlag(flag, resolved)]));
+}
+
+function normalizeLists<T extends Partial<NewFeatureFlag>>(values: T): T {
+  return {
+    ...values,
+    ...(values.allowedSchools && { allowedSchools: [...new Set(values.allowedSchools.map(normalizeSchool))] }),
+    ...(values.deniedSchools && { deniedSchools: [...new Set(values.deniedSchools.map(normalizeSchool))] })
+  };
+}
+
+export async function createFlag(values: NewFeatureFlag): Promise<FeatureFlag> {
+  const [flag] = await db
+    .insert(featureFlags)
+    .values(normalizeLists(values))
+    .onConflictDoNothing()
+    .returning();
+
+  if (!flag) {
+    throw new ConflictError(`Feature flag ${values.id} already exists`);
+  }
+  await cache.del(FLAGS_CACHE_KEY);
+  return flag;
+}
+
+export async function updateFlag(flagId: string, changes: Partial<Omit<NewFeatureFlag, 'id'>>): Promise<FeatureFlag> {
+  const [flag] = await db
+    .update(featureFlags)
+    .set({ ...normalizeLists(changes), updatedAt: new Date() })
+    .where(eq(featureFlags.id, flagId))
+    .returning();
+
+  if (!flag) {
+    throw new NotFoundError('Feature flag');
+  }
+  await cache.del(FLAGS_CACHE_KEY);
+  return flag;
+}
+
+export async function deleteFlag(flagId: string): Promise<FeatureFlag> {
+  const [flag] = await db
+    .delete(featureFlags)
+    .where(eq(featureFlags.id, flagId))
+    .returning();
+
+  if (!flag) {
+    throw new NotFoundError('Feature flag');
+  }
+  await cache.del(FLAGS_CACHE_KEY);
+  return flag;
+}
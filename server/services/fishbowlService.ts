@@ -1,7 +1,8 @@
 import { db } from "../db";
 import { pets, studentPets, students } from "@shared/schema";
-import { eq, sql } from "drizzle-orm";
+import { and, asc, eq, sql } from "drizzle-orm";
 import { v4 as uuidv4 } from 'uuid';
+import { calculatePetState, getPetCareSettings, hasFreePetSlot } from "./petService";
 
 // Fish color variants for random selection
 const FISH_VARIANTS = [
@@ -20,15 +21,9 @@ export async function createFishForStudent(
   studentId: string
 ): Promise<{ petId: string; fishName: string; fishColor: string }> {
   try {
-    // Check if student already has a pet (shouldn't happen with fishbowl system)
-    const existingPet = await tx
-      .select()
-      .from(studentPets)
-      .where(eq(studentPets.studentId, studentId))
-      .limit(1);
-      
-    if (existingPet.length > 0) {
-      throw new Error("Student already has a pet");
+    // The fish takes one of the student's pet slots
+    if (!(await hasFreePetSlot(tx, studentId))) {
+      throw new Error("No free pet slots");
     }
     
     // First, ensure we have a fish pet type in the catalog
@@ -106,23 +101,20 @@ export async function getFishbowlPet(studentId: string): Promise<any | null> {
     })
     .from(studentPets)
     .innerJoin(pets, eq(studentPets.petId, pets.id))
-    .where(eq(studentPets.studentId, studentId))
+    .where(and(eq(studentPets.studentId, studentId), eq(pets.species, 'goldfish')))
+    .orderBy(asc(studentPets.acquiredAt))
     .limit(1);
     
   if (!result) return null;
   
-  // Calculate current state (reuse logic from petService)
-  const now = new Date();
-  const hoursElapsed = (now.getTime() - result.studentPet.lastInteractionAt.getTime()) / (1000 * 60 * 60);
-  
-  const baseStats = result.pet.baseStats as { hungerDecayRate: number; happinessDecayRate: number };
-  const hungerDecay = Math.min(100, hoursElapsed * baseStats.hungerDecayRate);
-  const happinessDecay = Math.min(100, hoursElapsed * baseStats.happinessDecayRate);
-  
-  const calculatedStats = {
-    hunger: Math.max(0, Math.min(100, result.studentPet.hunger - hungerDecay)),
-    happiness: Math.max(0, Math.min(100, result.studentPet.happiness - happinessDecay))
-  };
+  // Calculate current state, pausing over the class's vacation like other pets
+  const { petVacation } = await getPetCareSettings(studentId);
+  const calculatedStats = calculatePetState(
+    { hunger: result.studentPet.hunger, happiness: result.studentPet.happiness },
+    result.studentPet.lastInteractionAt,
+    result.pet.baseStats as { hungerDecayRate: number; happinessDecayRate: number },
+    petVacation
+  );
   
   return {
     ...result.studentPet,
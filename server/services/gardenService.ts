@@ -2,7 +2,6 @@ import { db } from '../db.js';
 import { 
   students,
   studentInventory,
-  currencyTransactions,
   storeItems,
   classes,
   animalTypes,
@@ -19,8 +18,10 @@ import {
   type SeedType
 } from '../../shared/schema-gardens.js';
 import { eq, and, sql, lt, inArray, desc } from 'drizzle-orm';
+import { isActiveStudent } from '../utils/student-scope';
 import { getCache } from '../lib/cache-factory.js';
 import { ConflictError, ValidationError, NotFoundError, AuthorizationError, RateLimitError } from '../utils/errors.js';
+import { postTransaction } from './ledgerService.js';
 
 // Constants
 const WATER_BOOST_MULTIPLIER = 2;
@@ -410,14 +411,6 @@ export class GardenService {
           eq(plantedCrops.version, crop.crop.version) // Optimistic lock
         ));
 
-      // Update student balance
-      await tx
-        .update(students)
-        .set({
-          currencyBalance: sql`${students.currencyBalance} + ${coinsEarned}`
-        })
-        .where(eq(students.id, studentId));
-
       // Log the harvest
       await tx.insert(harvestLogs).values({
         studentId,
@@ -437,13 +430,14 @@ export class GardenService {
         })
         .where(eq(classGardens.classId, crop.plotClassId));
 
-      // Log transaction
-      await tx.insert(currencyTransactions).values({
+      // Pay out; a crop can only ever be paid once
+      await postTransaction({
         studentId,
         amount: coinsEarned,
-        transactionType: 'harvest',
-        description: `Harvested ${crop.seed.name}`
-      });
+        type: 'garden_harvest',
+        description: `Harvested ${crop.seed.name}`,
+        idempotencyKey: `harvest:${cropId}`
+      }, tx);
 
       return {
         coinsEarned,
@@ -552,7 +546,7 @@ export class GardenService {
         .leftJoin(gardenPlots, eq(students.id, gardenPlots.studentId))
         .leftJoin(animalTypes, eq(students.animalTypeId, animalTypes.id))
         .leftJoin(geniusTypes, eq(students.geniusTypeId, geniusTypes.id))
-        .where(eq(students.classId, classId));
+        .where(and(eq(students.classId, classId), isActiveStudent()));
       console.log('Found students:', studentsWithPlots.length);
       console.log('Student data sample:', studentsWithPlots[0]);
     } catch (error) {
@@ -680,7 +674,7 @@ export class GardenService {
     const studentsInClass = await db
       .select({ id: students.id })
       .from(students)
-      .where(eq(students.classId, classId));
+      .where(and(eq(students.classId, classId), isActiveStudent()));
 
     const keys = studentsInClass.map(s => `garden-plot:${s.id}`);
     await Promise.all(keys.map(key => cache.del(key)));
@@ -0,0 +1,354 @@
+import { db } from "../db";
+import {
+  students,
+  storeItems,
+  studentInventory,
+  currencyTransactions,
+  itemRefunds,
+  type ItemRefund
+} from "@shared/schema";
+import type { AvatarData, RoomData } from "@shared/currency-types";
+import { and, desc, eq } from "drizzle-orm";
+import { postTransaction, type Transaction } from "./ledgerService";
+import { getClassStoreSettings, getSellBackPolicy } from "./storeStatusService";
+import { invalidateCatalogCache, releaseStock } from "./storeCatalogService";
+import { BusinessError, ConflictError, NotFoundError, ValidationError, ErrorCode } from "../utils/errors";
+
+export type RefundKind = 'sell_back' | 'grace_refund' | 'teacher_refund';
+
+interface OwnedItem {
+  inventoryId: string;
+  storeItemId: string;
+  name: string;
+  cost: number;
+  classId: string | null; // The item's class, for class-only items
+  stockLimit: number | null;
+  acquiredAt: Date | null;
+  purchasePrice: number | null;
+  purchaseTransactionId: string | null;
+}
+
+/**
+ * The idempotency key for refunding a purchase. Selling back, a teacher refunding the
+ * item and a teacher refunding the charge all use the purchase's key, so whichever
+ * comes first is the only one that pays. Items with no purchase on record are keyed
+ * on the inventory row instead.
+ */
+function refundKey(purchaseTransactionId: string | null, inventoryId?: string) {
+  return purchaseTransactionId ? `refund:${purchaseTransactionId}` : `refund:item:${inventoryId}`;
+}
+
+/**
+ * What selling an item back pays right now. Within the grace window after buying it the
+ * full price paid comes back; after that the class's percentage of the item's cost, never
+ * more than was paid (so buying on sale and selling back can't make coins). Items with no
+ * price paid on record (gifts, trades, purchases from before prices were kept) sell back
+ * for nothing, so a traded item can't be cashed in by both students.
+ */
+export function quoteSellBack(
+  item: Pick<OwnedItem, 'cost' | 'acquiredAt' | 'purchasePrice'>,
+  policy: { sellBackPercent: number; refundGraceMinutes: number },
+  now = new Date()
+) {
+  const graceEndsAt = item.purchasePrice !== null && item.acquiredAt
+    ? new Date(new Date(item.acquiredAt).getTime() + policy.refundGraceMinutes * 60 * 1000)
+    : null;
+
+  if (graceEndsAt && graceEndsAt > now) {
+    return { kind: 'grace_refund' as const, amount: item.purchasePrice!, graceEndsAt };
+  }
+
+  const amount = Math.floor(item.cost * policy.sellBackPercent / 100);
+  return {
+    kind: 'sell_back' as const,
+    amount: Math.min(amount, item.purchasePrice ?? 0),
+    graceEndsAt: null
+  };
+}
+
+async function lockOwnedItem(tx: Transaction, studentId: string, storeItemId: string): Promise<OwnedItem> {
+  const [owned] = await tx
+    .select({
+      inventoryId: studentInventory.id,
+      storeItemId: studentInventory.storeItemId,
+      name: storeItems.name,
+      cost: storeItems.cost,
+      classId: storeItems.classId,
+      stockLimit: storeItems.stockLimit,
+      acquiredAt: studentInventory.acquiredAt,
+      purchasePrice: studentInventory.purchasePrice,
+      purchaseTransactionId: studentInventory.purchaseTransactionId
+    })
+    .from(studentInventory)
+    .innerJoin(storeItems, eq(studentInventory.storeItemId, storeItems.id))
+    .where(and(eq(studentInventory.studentId, studentId), eq(studentInventory.storeItemId, storeItemId)))
+    .limit(1)
+    .for('update', { of: studentInventory });
+
+  if (!owned) {
+    throw new NotFoundError('Inventory item');
+  }
+  return owned;
+}
+
+/**
+ * Take the item out of the student's inventory and anywhere it is in use: avatar slots,
+ * the owned list and room furniture, wallpaper or flooring
+ */
+async function removeOwnedItem(tx: Transaction, studentId: string, owned: OwnedItem) {
+  const [student] = await tx
+    .select({ avatarData: students.avatarData, roomData: students.roomData })
+    .from(students)
+    .where(eq(students.id, studentId))
+    .limit(1)
+    .for('update');
+
+  await tx
+    .delete(studentInventory)
+    .where(eq(studentInventory.id, owned.inventoryId));
+
+  const itemId = owned.storeItemId;
+  const avatarData: AvatarData = { ...((student?.avatarData as AvatarData | null) || {}) };
+  const roomData: RoomData = { ...((student?.roomData as RoomData | null) || { furniture: [] }) };
+  let changed = false;
+
+  if (Array.isArray(avatarData.owned) && avatarData.owned.includes(itemId)) {
+    avatarData.owned = avatarData.owned.filter((id: string) => id !== itemId);
+    changed = true;
+  }
+  if (avatarData.equipped) {
+    const equipped = { ...avatarData.equipped };
+    for (const slot of Object.keys(equipped) as (keyof typeof equipped)[]) {
+      if (equipped[slot] === itemId) {
+        delete equipped[slot];
+        changed = true;
+      }
+    }
+    avatarData.equipped = equipped;
+  }
+  if (Array.isArray(roomData.furniture) && roomData.furniture.some(piece => piece?.id === itemId)) {
+    roomData.furniture = roomData.furniture.filter(piece => piece?.id !== itemId);
+    changed = true;
+  }
+  for (const surface of ['wallpaper', 'flooring'] as const) {
+    if (roomData[surface] === itemId) {
+      delete roomData[surface];
+      changed = true;
+    }
+  }
+
+  if (changed) {
+    await tx
+      .update(students)
+      .set({ avatarData, roomData, updatedAt: new Date() })
+      .where(eq(students.id, studentId));
+  }
+}
+
+/**
+ * What the student would get for selling the item back now
+ */
+export async function getSellBackQuote(studentId: string, classId: string, storeItemId: string) {
+  const [owned] = await db
+    .select({ cost: storeItems.cost, acquiredAt: studentInventory.acquiredAt, purchasePrice: studentInventory.purchasePrice })
+    .from(studentInventory)
+    .innerJoin(storeItems, eq(studentInventory.storeItemId, storeItems.id))
+    .where(and(eq(studentInventory.studentId, studentId), eq(studentInventory.storeItemId, storeItemId)))
+    .limit(1);
+
+  if (!owned) {
+    throw new NotFoundError('Inventory item');
+  }
+
+  const policy = getSellBackPolicy(await getClassStoreSettings(classId));
+  const quote = quoteSellBack(owned, policy);
+  return { ...quote, allowed: quote.kind === 'grace_refund' || policy.sellBackPercent > 0 };
+}
+
+/**
+ * A student selling an owned item back. It leaves their inventory (and avatar or room)
+ * and the coins come back as a refund.
+ */
+export async function sellBackItem(studentId: string, storeItemId: string) {
+  const result = await db.transaction(async (tx) => {
+    const [student] = await tx
+      .select({ id: students.id, classId: students.classId })
+      .from(students)
+      .where(eq(students.id, studentId))
+      .limit(1)
+      .for('update');
+
+    if (!student) {
+      throw new NotFoundError('Student');
+    }
+
+    const owned = await lockOwnedItem(tx, studentId, storeItemId);
+    const policy = getSellBackPolicy(await getClassStoreSettings(student.classId));
+    const quote = quoteSellBack(owned, policy);
+
+    if (quote.kind === 'sell_back' && policy.sellBackPercent === 0) {
+      throw new BusinessError('Your teacher has turned off selling items back', ErrorCode.BIZ_010);
+    }
+
+    const refund = quote.amount > 0
+      ? await postTransaction({
+          studentId,
+          amount: quote.amount,
+          type: 'refund',
+          description: quote.kind === 'grace_refund' ? `Refund: ${owned.name}` : `Sold back: ${owned.name}`,
+          idempotencyKey: refundKey(owned.purchaseTransactionId, owned.inventoryId)
+        }, tx)
+      : null;
+
+    if (refund?.duplicate) {
+      throw new ConflictError('Your teacher has already refunded this item', ErrorCode.BIZ_006);
+    }
+
+    await removeOwnedItem(tx, studentId, owned);
+
+    // A change-of-mind refund puts a limited item back on the shelf
+    if (quote.kind === 'grace_refund') {
+      await releaseStock(tx, owned.storeItemId);
+    }
+
+    const [record] = await tx
+      .insert(itemRefunds)
+      .values({
+        studentId,
+        classId: student.classId,
+        storeItemId: owned.storeItemId,
+        itemName: owned.name,
+        kind: quote.kind,
+        amount: quote.amount,
+        transactionId: refund?.transaction.id ?? null
+      })
+      .returning();
+
+    return { refund: record, newBalance: refund?.newBalance ?? null, owned };
+  });
+
+  if (result.refund.kind === 'grace_refund' && result.owned.stockLimit !== null) {
+    await invalidateCatalogCache(result.owned.classId);
+  }
+  return { refund: result.refund, newBalance: result.newBalance };
+}
+
+/**
+ * A teacher settling a dispute: refund an item the student owns (optionally taking it
+ * back), or a purchase charge that has no item to show for it. Each purchase can only be
+ * refunded once, by the teacher or by the student selling the item back.
+ */
+export async function teacherRefund(classId: string, teacherId: string, params: {
+  studentId: string;
+  itemId?: string;
+  transactionId?: string;
+  amount?: number; // Defaults to what was paid (or the item's cost if unknown)
+  removeItem?: boolean;
+  reason: string;
+}) {
+  if (!params.itemId === !params.transactionId) {
+    throw new ValidationError('Refund either an item or a purchase transaction');
+  }
+
+  return db.transaction(async (tx) => {
+    const [student] = await tx
+      .select({ id: students.id })
+      .from(students)
+      .where(and(eq(students.id, params.studentId), eq(students.classId, classId)))
+      .limit(1)
+      .for('update');
+
+    if (!student) {
+      throw new NotFoundError('Student');
+    }
+
+    let paid: number;
+    let itemName: string | null = null;
+    let storeItemId: string | null = null;
+    let owned: OwnedItem | null = null;
+    let idempotencyKey: string;
+
+    if (params.itemId) {
+      owned = await lockOwnedItem(tx, student.id, params.itemId);
+      paid = owned.purchasePrice ?? owned.cost;
+      itemName = owned.name;
+      storeItemId = owned.storeItemId;
+      idempotencyKey = refundKey(owned.purchaseTransactionId, owned.inventoryId);
+    } else {
+      const [charge] = await tx
+        .select()
+        .from(currencyTransactions)
+        .where(and(eq(currencyTransactions.id, params.transactionId!), eq(currencyTransactions.studentId, student.id)))
+        .limit(1);
+
+      if (!charge || charge.transactionType !== 'purchase') {
+        throw new NotFoundError('Purchase transaction');
+      }
+      paid = -charge.amount;
+      itemName = charge.description;
+      idempotencyKey = refundKey(charge.id);
+    }
+
+    const amount = params.amount ?? paid;
+    if (amount > paid) {
+      throw new ValidationError(`Refund can be at most the ${paid} coins paid`);
+    }
+    if (amount <= 0) {
+      throw new ValidationError('Nothing was paid, so there is nothing to refund');
+    }
+
+    const refund = await postTransaction({
+      studentId: student.id,
+      teacherId,
+      amount,
+      type: 'refund',
+      description: `Refund: ${itemName || 'purchase'} (${params.reason})`,
+      idempotencyKey
+    }, tx);
+
+    if (refund.duplicate) {
+      throw new ConflictError('This has already been refunded', ErrorCode.BIZ_006);
+    }
+
+    if (owned && params.removeItem) {
+      await removeOwnedItem(tx, student.id, owned);
+    }
+
+    const [record] = await tx
+      .insert(itemRefunds)
+      .values({
+        studentId: student.id,
+        classId,
+        storeItemId,
+        itemName,
+        kind: 'teacher_refund',
+        amount,
+        transactionId: refund.transaction.id,
+        itemRemoved: !!params.itemId && !!params.removeItem,
+        refundedBy: teacherId,
+        reason: params.reason
+      })
+      .returning();
+
+    return { refund: record, newBalance: refund.newBalance };
+  });
+}
+
+/**
+ * Sell-backs and refunds for a class (or one student), newest first
+ */
+export async function listRefunds(filter: { classId?: string; studentId?: string }): Promise<(ItemRefund & { studentName: string | null })[]> {
+  const conditions = [];
+  if (filter.classId) conditions.push(eq(itemRefunds.classId, filter.classId));
+  if (filter.studentId) conditions.push(eq(itemRefunds.studentId, filter.studentId));
+
+  const rows = await db
+    .select({ refund: itemRefunds, studentName: students.studentName })
+    .from(itemRefunds)
+    .innerJoin(students, eq(itemRefunds.studentId, students.id))
+    .where(and(...conditions))
+    .orderBy(desc(itemRefunds.createdAt))
+    .limit(200);
+
+  return rows.map(row => ({ ...row.refund, studentName: row.studentName }));
+}
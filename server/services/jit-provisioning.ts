@@ -10,6 +10,7 @@ import { db } from '../db';
 import { profiles, students, classes } from '@shared/schema';
 import { eq } from 'drizzle-orm';
 import { createSecureLogger } from '../utils/secure-logger';
+import { getStudentSignInBlock } from './classLifecycleService';
 import { v4 as uuidv4 } from 'uuid';
 
 const logger = createSecureLogger('JITProvisioning');
@@ -284,6 +285,11 @@ export async function verifyPassportCode(passportCode: string, classCode?: strin
       return { valid: false, error: 'Invalid passport code' };
     }
     
+    const signInBlock = await getStudentSignInBlock(student.id);
+    if (signInBlock) {
+      return { valid: false, error: signInBlock };
+    }
+    
     // If class code is provided, verify student belongs to that class
     if (classCode) {
       const [classData] = await db
@@ -0,0 +1,330 @@
+import { db } from "../db";
+import {
+  currencyTransactions,
+  ledgerEntries,
+  ledgerReconciliations,
+  students,
+  type CurrencyTransaction,
+  type LedgerReconciliation,
+  type LedgerReconciliationReport
+} from "@shared/schema";
+import {
+  CREDIT_TRANSACTION_TYPES,
+  DEBIT_TRANSACTION_TYPES,
+  type TransactionType
+} from "@shared/currency-types";
+import { and, desc, eq, isNull, sql } from "drizzle-orm";
+import { BusinessError, NotFoundError, ValidationError, ErrorCode } from "../utils/errors";
+
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export const STUDENT_ACCOUNT = 'student';
+
+// The other side of each kind of movement
+export const COUNTER_ACCOUNTS: Record<TransactionType, string> = {
+  quiz_reward: 'system:rewards',
+  lesson_complete: 'system:rewards',
+  garden_harvest: 'system:rewards',
+  bonus: 'system:rewards',
+  teacher_grant: 'system:teacher_awards',
+  teacher_deduction: 'system:teacher_awards',
+  penalty: 'system:teacher_awards',
+  purchase: 'system:store',
+  refund: 'system:store',
+  transfer_in: 'system:transfers', // Both sides of a classmate transfer post in one transaction,
+  transfer_out: 'system:transfers', // so this account nets to zero
+  adjustment: 'system:adjustments'
+};
+
+export interface LedgerPosting {
+  studentId: string;
+  amount: number; // Positive credits the student, negative debits them
+  type: TransactionType;
+  description: string;
+  teacherId?: string | null;
+  idempotencyKey?: string; // Posting the same key twice moves coins once
+  counterAccount?: string; // Defaults to COUNTER_ACCOUNTS[type]
+}
+
+export interface LedgerResult {
+  transaction: CurrencyTransaction;
+  newBalance: number;
+  duplicate: boolean; // True when the idempotency key had already been posted
+}
+
+function assertValidPosting(posting: LedgerPosting) {
+  if (!Number.isInteger(posting.amount) || posting.amount === 0) {
+    throw new ValidationError('Coin amount must be a non-zero whole number');
+  }
+  if ((CREDIT_TRANSACTION_TYPES as readonly string[]).includes(posting.type) && posting.amount < 0) {
+    throw new ValidationError(`A ${posting.type} transaction must add coins`);
+  }
+  if ((DEBIT_TRANSACTION_TYPES as readonly string[]).includes(posting.type) && posting.amount > 0) {
+    throw new ValidationError(`A ${posting.type} transaction must remove coins`);
+  }
+}
+
+async function post(tx: Transaction, posting: LedgerPosting): Promise<LedgerResult> {
+  // Lock the student first so concurrent postings (and retries of the same key) queue up
+  const [student] = await tx
+    .select({ id: students.id, currencyBalance: students.currencyBalance })
+    .from(students)
+    .where(eq(students.id, posting.studentId))
+    .limit(1)
+    .for('update');
+
+  if (!student) {
+    throw new NotFoundError('Student');
+  }
+
+  if (posting.idempotencyKey) {
+    const [existing] = await tx
+      .select()
+      .from(currencyTransactions)
+      .where(eq(currencyTransactions.idempotencyKey, posting.idempotencyKey))
+      .limit(1);
+
+    if (existing) {
+      return { transaction: existing, newBalance: student.currencyBalance, duplicate: true };
+    }
+  }
+
+  const newBalance = student.currencyBalance + posting.amount;
+  if (newBalance < 0) {
+    throw new BusinessError('Insufficient funds', ErrorCode.BIZ_001, {
+      balance: student.currencyBalance,
+      required: -posting.amount
+    });
+  }
+
+  const [transaction] = await tx
+    .insert(currencyTransactions)
+    .values({
+      studentId: posting.studentId,
+      teacherId: posting.teacherId ?? null,
+      amount: posting.amount,
+      transactionType: posting.type,
+      description: posting.description,
+      idempotencyKey: posting.idempotencyKey ?? null,
+      balanceAfter: newBalance
+    })
+    .returning();
+
+  await tx.insert(ledgerEntries).values([
+    { transactionId: transaction.id, account: STUDENT_ACCOUNT, studentId: posting.studentId, amount: posting.amount },
+    { transactionId: transaction.id, account: posting.counterAccount ?? COUNTER_ACCOUNTS[posting.type], amount: -posting.amount }
+  ]);
+
+  await tx
+    .update(students)
+    .set({ currencyBalance: newBalance, updatedAt: new Date() })
+    .where(eq(students.id, posting.studentId));
+
+  return { transaction, newBalance, duplicate: false };
+}
+
+/**
+ * Move coins into or out of a student's balance. This is the only code that should
+ * change students.currency_balance: it writes the currency_transactions row, both
+ * ledger legs and the new balance together. Pass `tx` to join a caller's transaction.
+ */
+export async function postTransaction(posting: LedgerPosting, tx?: Transaction): Promise<LedgerResult> {
+  assertValidPosting(posting);
+  return tx ? post(tx, posting) : db.transaction(innerTx => post(innerTx, posting));
+}
+
+/**
+ * A student's balance according to the ledger
+ */
+export async function getLedgerBalance(studentId: string): Promise<number> {
+  const [row] = await db
+    .select({ total: sql<number>`COALESCE(SUM(${ledgerEntries.amount}), 0)::int` })
+    .from(ledgerEntries)
+    .where(and(eq(ledgerEntries.account, STUDENT_ACCOUNT), eq(ledgerEntries.studentId, studentId)));
+  return Number(row?.total ?? 0);
+}
+
+/**
+ * Recompute every balance (or one class's) from the ledger and report where they differ,
+ * along with transactions whose legs don't net to zero and transactions with no legs at all
+ */
+export async function reconcileBalances(classId?: string): Promise<LedgerReconciliationReport & { studentsChecked: number }> {
+  const classFilter = classId ? sql`WHERE s.class_id = ${classId}` : sql``;
+
+  const balances = await db.execute<{
+    student_id: string;
+    student_name: string | null;
+    class_id: string;
+    balance: number;
+    ledger_balance: number;
+  }>(sql`
+    SELECT s.id AS student_id, s.student_name, s.class_id, s.currency_balance AS balance,
+           COALESCE(l.total, 0)::int AS ledger_balance
+    FROM students s
+    LEFT JOIN (
+      SELECT student_id, SUM(amount) AS total
+      FROM ledger_entries
+      WHERE account = ${STUDENT_ACCOUNT}
+      GROUP BY student_id
+    ) l ON l.student_id = s.id
+    ${classFilter}
+  `);
+
+  const drift = balances.rows
+    .map(row => ({
+      studentId: row.student_id,
+      studentName: row.student_name,
+      classId: row.class_id,
+      balance: Number(row.balance),
+      ledgerBalance: Number(row.ledger_balance),
+      drift: Number(row.balance) - Number(row.ledger_balance)
+    }))
+    .filter(row => row.drift !== 0);
+
+  const studentScope = classId
+    ? sql`AND ct.student_id IN (SELECT id FROM students WHERE class_id = ${classId})`
+    : sql``;
+
+  const unbalanced = await db.execute<{ transaction_id: string; sum: number }>(sql`
+    SELECT le.transaction_id, SUM(le.amount)::int AS sum
+    FROM ledger_entries le
+    JOIN currency_transactions ct ON ct.id = le.transaction_id
+    WHERE TRUE ${studentScope}
+    GROUP BY le.transaction_id
+    HAVING SUM(le.amount) <> 0
+    LIMIT 100
+  `);
+
+  // COUNT(*) is a bigint, which pg hands back as a string
+  const unposted = await db.execute<{ id: string; total: string }>(sql`
+    SELECT ct.id, COUNT(*) OVER () AS total
+    FROM currency_transactions ct
+    WHERE NOT EXISTS (SELECT 1 FROM ledger_entries le WHERE le.transaction_id = ct.id)
+      ${studentScope}
+    ORDER BY ct.created_at DESC
+    LIMIT 20
+  `);
+
+  return {
+    studentsChecked: balances.rows.length,
+    drift,
+    unbalancedTransactions: unbalanced.rows.map(row => ({ transactionId: row.transaction_id, sum: Number(row.sum) })),
+    unpostedTransactions: {
+      count: Number(unposted.rows[0]?.total ?? 0),
+      sample: unposted.rows.map(row => row.id)
+    }
+  };
+}
+
+/**
+ * Run a reconciliation and keep its report
+ */
+export async function runReconciliation(options: { classId?: string | null; requestedBy?: string | null } = {}): Promise<LedgerReconciliation> {
+  const [run] = await db
+    .insert(ledgerReconciliations)
+    .values({ classId: options.classId ?? null, requestedBy: options.requestedBy ?? null })
+    .returning();
+
+  try {
+    const { studentsChecked, ...report } = await reconcileBalances(options.classId ?? undefined);
+    const inconsistent = report.drift.length > 0
+      || report.unbalancedTransactions.length > 0
+      || report.unpostedTransactions.count > 0;
+
+    if (inconsistent) {
+      console.warn(`[Ledger] Reconciliation ${run.id}: ${report.drift.length} balances drifted, ` +
+        `${report.unbalancedTransactions.length} unbalanced and ${report.unpostedTransactions.count} unposted transactions`);
+    }
+
+    const [finished] = await db
+      .update(ledgerReconciliations)
+      .set({
+        status: inconsistent ? 'drift' : 'clean',
+        studentsChecked,
+        driftCount: report.drift.length,
+        totalDrift: report.drift.reduce((sum, row) => sum + row.drift, 0),
+        report,
+        finishedAt: new Date()
+      })
+      .where(eq(ledgerReconciliations.id, run.id))
+      .returning();
+    return finished;
+  } catch (error) {
+    await db
+      .update(ledgerReconciliations)
+      .set({ status: 'failed', error: error instanceof Error ? error.message : String(error), finishedAt: new Date() })
+      .where(eq(ledgerReconciliations.id, run.id));
+    throw error;
+  }
+}
+
+export async function listReconciliations(limit = 20) {
+  return db
+    .select({
+      id: ledgerReconciliations.id,
+      classId: ledgerReconciliations.classId,
+      status: ledgerReconciliations.status,
+      studentsChecked: ledgerReconciliations.studentsChecked,
+      driftCount: ledgerReconciliations.driftCount,
+      totalDrift: ledgerReconciliations.totalDrift,
+      requestedBy: ledgerReconciliations.requestedBy,
+      startedAt: ledgerReconciliations.startedAt,
+      finishedAt: ledgerReconciliations.finishedAt
+    })
+    .from(ledgerReconciliations)
+    .orderBy(desc(ledgerReconciliations.startedAt))
+    .limit(limit);
+}
+
+/**
+ * The most recent reconciliation of every class, if one has run
+ */
+export async function getLatestFullReconciliation(): Promise<LedgerReconciliation | null> {
+  const [run] = await db
+    .select()
+    .from(ledgerReconciliations)
+    .where(isNull(ledgerReconciliations.classId))
+    .orderBy(desc(ledgerReconciliations.startedAt))
+    .limit(1);
+  return run ?? null;
+}
+
+export async function getReconciliation(id: string): Promise<LedgerReconciliation> {
+  const [run] = await db
+    .select()
+    .from(ledgerReconciliations)
+    .where(eq(ledgerReconciliations.id, id))
+    .limit(1);
+
+  if (!run) {
+    throw new NotFoundError('Reconciliation');
+  }
+  return run;
+}
+
+/**
+ * A student's recent transactions with their stored and ledger balances side by side
+ */
+export async function getStudentLedger(studentId: string, limit = 100) {
+  const [student] = await db
+    .select({ id: students.id, studentName: students.studentName, classId: students.classId, balance: students.currencyBalance })
+    .from(students)
+    .where(eq(students.id, studentId))
+    .limit(1);
+
+  if (!student) {
+    throw new NotFoundError('Student');
+  }
+
+  const [ledgerBalance, transactions] = await Promise.all([
+    getLedgerBalance(studentId),
+    db
+      .select()
+      .from(currencyTransactions)
+      .where(eq(currencyTransactions.studentId, studentId))
+      .orderBy(desc(currencyTransactions.createdAt))
+      .limit(limit)
+  ]);
+
+  return { ...student, ledgerBalance, drift: student.balance - ledgerBalance, transactions };
+}
@@ -0,0 +1,105 @@
+import { db } from "../db";
+import { moderationQueue, roomGuestbook, students, type ModerationQueueItem } from "@shared/schema";
+import { and, desc, eq } from "drizzle-orm";
+import type { ModerationReason } from "../utils/profanityFilter";
+import type { Transaction } from "./ledgerService";
+import { ConflictError, NotFoundError } from "../utils/errors";
+
+export const MODERATION_CONTENT_TYPES = ['guestbook_message'] as const;
+export type ModerationContentType = typeof MODERATION_CONTENT_TYPES[number];
+
+export const MODERATION_STATUSES = ['pending', 'approved', 'hidden'] as const;
+export type ModerationStatus = typeof MODERATION_STATUSES[number];
+
+type ModerationDecision = Exclude<ModerationStatus, 'pending'>;
+
+// How each kind of content is shown or hidden once the teacher decides
+const applyDecision: Record<ModerationContentType, (tx: Transaction, contentId: string, decision: ModerationDecision) => Promise<void>> = {
+  guestbook_message: async (tx, contentId, decision) => {
+    await tx
+      .update(roomGuestbook)
+      .set({ status: decision === 'approved' ? 'visible' : 'hidden_by_admin', updatedAt: new Date() })
+      .where(eq(roomGuestbook.id, contentId));
+  }
+};
+
+/**
+ * Put flagged content in front of the class's teacher. The caller saves the content
+ * hidden; it only shows once approved.
+ */
+export async function flagContent(tx: Transaction | typeof db, params: {
+  classId: string;
+  studentId: string;
+  contentType: ModerationContentType;
+  contentId: string;
+  content: string;
+  reasons: ModerationReason[];
+}): Promise<ModerationQueueItem> {
+  const [item] = await tx
+    .insert(moderationQueue)
+    .values(params)
+    .returning();
+  return item;
+}
+
+/**
+ * The class's review queue (pending by default), newest first
+ */
+export async function listModerationQueue(classId: string, status: ModerationStatus = 'pending') {
+  return db
+    .select({
+      id: moderationQueue.id,
+      studentId: moderationQueue.studentId,
+      studentName: students.studentName,
+      contentType: moderationQueue.contentType,
+      contentId: moderationQueue.contentId,
+      content: moderationQueue.content,
+      reasons: moderationQueue.reasons,
+      status: moderationQueue.status,
+      reviewedBy: moderationQueue.reviewedBy,
+      reviewedAt: moderationQueue.reviewedAt,
+      createdAt: moderationQueue.createdAt
+    })
+    .from(moderationQueue)
+    .innerJoin(students, eq(moderationQueue.studentId, students.id))
+    .where(and(eq(moderationQueue.classId, classId), eq(moderationQueue.status, status)))
+    .orderBy(desc(moderationQueue.createdAt))
+    .limit(200);
+}
+
+/**
+ * Approve (show) or hide a queued item. A teacher can change their mind later, e.g.
+ * hide something they approved.
+ */
+export async function reviewContent(
+  classId: string,
+  itemId: string,
+  teacherId: string,
+  decision: ModerationDecision
+): Promise<ModerationQueueItem> {
+  return db.transaction(async (tx) => {
+    const [item] = await tx
+      .select()
+      .from(moderationQueue)
+      .where(and(eq(moderationQueue.id, itemId), eq(moderationQueue.classId, classId)))
+      .limit(1)
+      .for('update');
+
+    if (!item) {
+      throw new NotFoundError('Moderation item');
+    }
+    if (item.status === decision) {
+      throw new ConflictError(`This has already been ${decision}`);
+    }
+
+    await applyDecision[item.contentType as ModerationContentType](tx, item.contentId, decision);
+
+    const [updated] = await tx
+      .update(moderationQueue)
+      .set({ status: decision, reviewedBy: teacherId, reviewedAt: new Date() })
+      .where(eq(moderationQueue.id, item.id))
+      .returning();
+
+    return updated;
+  });
+}
@@ -1,21 +1,5 @@
 import { QuizSubmission } from "@shared/schema";
-
-// Animal to genius type mapping - updated to match current system
-export const animalGeniusMap: Record<string, string> = {
-  // Thinkers - analytical, logical (ISTP, INTP)
-  'Owl': 'Thinker',
-  
-  // Feelers - empathetic, people-focused (INFP, ISFP, INFJ, INTJ, ISFJ, ISTJ, ESFJ, ENFJ)
-  'Meerkat': 'Feeler',      // INFP, ISFP - creative, empathetic
-  'Panda': 'Feeler',        // INFJ, INTJ - reflective, strategic  
-  'Beaver': 'Feeler',       // ISFJ, ISTJ - reliable, supportive
-  'Elephant': 'Feeler',     // ESFJ, ENFJ - caring, nurturing
-  
-  // Doers - action-oriented, hands-on (ESFP, ESTP, ENFP, ENTP, ESTJ, ENTJ)
-  'Otter': 'Doer',          // ESFP, ESTP - playful, energetic
-  'Parrot': 'Doer',         // ENFP, ENTP - enthusiastic, creative
-  'Border Collie': 'Doer'   // ESTJ, ENTJ - leadership, goal-oriented
-};
+import { typeLookup } from "./typeLookupService";
 
 // Dynamic duos - complementary pairs that work well together
 const DYNAMIC_PAIRS = [
@@ -82,16 +66,15 @@ export interface PairingAnalysis {
 }
 
 export function calculateGeniusDistribution(submissions: QuizSubmission[]) {
-  // TODO: This function needs to be updated to work with animalTypeId instead of animalType
-  // For now, return empty distribution
   const distribution = { Thinker: 0, Feeler: 0, Doer: 0 };
   
-  // submissions.forEach(submission => {
-  //   const geniusType = animalGeniusMap[submission.animalType];
-  //   if (geniusType && geniusType in distribution) {
-  //     distribution[geniusType as keyof typeof distribution]++;
-  //   }
-  // });
+  submissions.forEach(submission => {
+    // Genius comes from the submission's animal (animal_types owns the mapping)
+    const geniusType = typeLookup.getGeniusForAnimal(submission.animalTypeId)?.name;
+    if (geniusType && geniusType in distribution) {
+      distribution[geniusType as keyof typeof distribution]++;
+    }
+  });
   
   return distribution;
 }
@@ -257,4 +240,234 @@ export function generatePairings(submissions: any[]): PairingAnalysis {
   
   console.log('[Pairings] Final result:', JSON.stringify(result, null, 2));
   return result;
-}
\ No newline at end of file
+}
+
+// ===== GROUP GENERATION =====
+
+export const MIN_GROUP_SIZE = 2;
+export const MAX_GROUP_SIZE = 5;
+
+export type PairingConstraintType = 'avoid' | 'keep_together';
+
+export interface GroupingStudent {
+  studentId: string;
+  name: string;
+  animal: string | null;
+  genius: string | null;
+  learningStyle: string | null;
+}
+
+export interface GroupingConstraint {
+  type: PairingConstraintType;
+  studentAId: string;
+  studentBId: string;
+}
+
+export interface GeneratedGroup {
+  members: GroupingStudent[];
+  repeatedPairs: number;
+}
+
+export interface GenerateGroupsOptions {
+  groupSize: number;
+  constraints?: GroupingConstraint[];
+  previousGroups?: string[][]; // Student IDs per group from recent groupings
+  seed?: number;
+}
+
+// Cost of each problem in a group; a broken 'avoid' outweighs everything else
+const GROUP_COSTS = {
+  avoidBroken: 1000,
+  repeatedPair: 40,
+  missingGenius: 10,
+  missingLearningStyle: 4
+};
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+// Small seeded PRNG (mulberry32) so a saved grouping can be regenerated from its seed
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Split students into groups of at most groupSize (some groups get one fewer member
+ * when the class doesn't divide evenly, and pairs in an odd class get one trio
+ * rather than a student on their own). Groups mix Thinker/Feeler/Doer and learning
+ * styles where the class allows it, honour 'avoid' and 'keep_together' rules, and
+ * avoid pairs that already sat together in previousGroups. Rules that can't all
+ * be satisfied are reported in warnings rather than failing the whole grouping.
+ */
+export function generateGroups(
+  students: GroupingStudent[],
+  options: GenerateGroupsOptions
+): { groups: GeneratedGroup[]; warnings: string[]; seed: number } {
+  const groupSize = Math.min(MAX_GROUP_SIZE, Math.max(MIN_GROUP_SIZE, Math.floor(options.groupSize)));
+  const seed = options.seed ?? Math.floor(Math.random() * 2 ** 31);
+  const random = createRandom(seed);
+  const warnings: string[] = [];
+
+  if (students.length === 0) {
+    return { groups: [], warnings, seed };
+  }
+
+  const byId = new Map(students.map(s => [s.studentId, s]));
+  const nameOf = (id: string) => byId.get(id)?.name || id;
+  const constraints = (options.constraints || [])
+    .filter(c => byId.has(c.studentAId) && byId.has(c.studentBId));
+
+  const avoidPairs = new Set(
+    constraints.filter(c => c.type === 'avoid').map(c => pairKey(c.studentAId, c.studentBId))
+  );
+  const previousPairs = new Set<string>();
+  for (const group of options.previousGroups || []) {
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        previousPairs.add(pairKey(group[i], group[j]));
+      }
+    }
+  }
+
+  // Group sizes: enough groups that none is over groupSize, sizes as even as possible.
+  // A student who would be left on their own (pairs in an odd class) joins a group instead.
+  let groupCount = Math.ceil(students.length / groupSize);
+  if (groupCount > 1 && Math.floor(students.length / groupCount) < MIN_GROUP_SIZE) {
+    groupCount--;
+  }
+  const capacities = Array.from({ length: groupCount }, (_, i) =>
+    Math.floor(students.length / groupCount) + (i < students.length % groupCount ? 1 : 0)
+  );
+
+  // 'keep_together' students move as one unit (union-find over the rules)
+  const parent = new Map(students.map(s => [s.studentId, s.studentId]));
+  const find = (id: string): string => {
+    const p = parent.get(id)!;
+    if (p === id) return id;
+    const root = find(p);
+    parent.set(id, root);
+    return root;
+  };
+  for (const c of constraints.filter(c => c.type === 'keep_together')) {
+    parent.set(find(c.studentAId), find(c.studentBId));
+  }
+  const unitMap = new Map<string, GroupingStudent[]>();
+  for (const student of shuffle(students, random)) {
+    const root = find(student.studentId);
+    unitMap.set(root, [...(unitMap.get(root) || []), student]);
+  }
+
+  const maxCapacity = Math.max(...capacities);
+  for (const unit of unitMap.values()) {
+    if (unit.length > maxCapacity) {
+      warnings.push(`Keep-together rules link ${unit.length} students (${unit.map(s => s.name).join(', ')}), more than fit in one group`);
+    }
+    for (let i = 0; i < unit.length; i++) {
+      for (let j = i + 1; j < unit.length; j++) {
+        if (avoidPairs.has(pairKey(unit[i].studentId, unit[j].studentId))) {
+          warnings.push(`${unit[i].name} and ${unit[j].name} are linked by keep-together rules but also set to avoid each other`);
+        }
+      }
+    }
+  }
+
+  const distinctGenius = new Set(students.map(s => s.genius).filter(Boolean)).size;
+  const distinctStyles = new Set(students.map(s => s.learningStyle).filter(Boolean)).size;
+
+  const groupCost = (members: GroupingStudent[]) => {
+    let cost = 0;
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const key = pairKey(members[i].studentId, members[j].studentId);
+        if (avoidPairs.has(key)) cost += GROUP_COSTS.avoidBroken;
+        if (previousPairs.has(key)) cost += GROUP_COSTS.repeatedPair;
+      }
+    }
+    const genius = new Set(members.map(m => m.genius).filter(Boolean)).size;
+    const styles = new Set(members.map(m => m.learningStyle).filter(Boolean)).size;
+    cost += (Math.min(members.length, distinctGenius) - genius) * GROUP_COSTS.missingGenius;
+    cost += (Math.min(members.length, distinctStyles) - styles) * GROUP_COSTS.missingLearningStyle;
+    return cost;
+  };
+
+  // Greedy placement, biggest units first, each into the group where it adds the least cost
+  const groups: GroupingStudent[][] = capacities.map(() => []);
+  const units = [...unitMap.values()].sort((a, b) => b.length - a.length);
+  for (const unit of units) {
+    let best = -1;
+    let bestDelta = Infinity;
+    groups.forEach((members, index) => {
+      if (members.length + unit.length > capacities[index]) return;
+      const delta = groupCost([...members, ...unit]) - groupCost(members);
+      if (delta < bestDelta) {
+        bestDelta = delta;
+        best = index;
+      }
+    });
+    if (best === -1) {
+      // No group has room (oversized keep-together unit): use the emptiest group
+      best = groups.reduce((emptiest, members, index) =>
+        capacities[index] - members.length > capacities[emptiest] - groups[emptiest].length ? index : emptiest, 0);
+    }
+    groups[best].push(...unit);
+  }
+
+  // Improve by swapping single students (not kept-together ones) between groups
+  const isLinked = (id: string) => (unitMap.get(find(id))?.length || 1) > 1;
+  let improved = true;
+  for (let pass = 0; improved && pass < 20; pass++) {
+    improved = false;
+    for (let a = 0; a < groups.length; a++) {
+      for (let b = a + 1; b < groups.length; b++) {
+        for (let i = 0; i < groups[a].length; i++) {
+          for (let j = 0; j < groups[b].length; j++) {
+            const x = groups[a][i];
+            const y = groups[b][j];
+            if (isLinked(x.studentId) || isLinked(y.studentId)) continue;
+
+            const before = groupCost(groups[a]) + groupCost(groups[b]);
+            const nextA = groups[a].map((m, k) => (k === i ? y : m));
+            const nextB = groups[b].map((m, k) => (k === j ? x : m));
+            if (groupCost(nextA) + groupCost(nextB) < before) {
+              groups[a] = nextA;
+              groups[b] = nextB;
+              improved = true;
+            }
+          }
+        }
+      }
+    }
+  }
+
+  const result = groups.map(members => {
+    let repeatedPairs = 0;
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const key = pairKey(members[i].studentId, members[j].studentId);
+        if (previousPairs.has(key)) repeatedPairs++;
+        // Conflicts inside a keep-together unit were already reported above
+        if (avoidPairs.has(key) && find(members[i].studentId) !== find(members[j].studentId)) {
+          warnings.push(`${nameOf(members[i].studentId)} and ${nameOf(members[j].studentId)} could not be kept apart`);
+        }
+      }
+    }
+    return { members, repeatedPairs };
+  });
+
+  return { groups: result, warnings, seed };
+}
@@ -0,0 +1,270 @@
+import fs from "fs";
+import path from "path";
+import { createRequire } from "module";
+import PDFDocument from "pdfkit";
+import QRCode from "qrcode";
+import { db } from "../db";
+import { classes, students, animalTypes } from "@shared/schema";
+import { getAnimalEmoji } from "@shared/personality-regions";
+import { and, asc, eq, inArray, isNull } from "drizzle-orm";
+import { isActiveStudent } from "../utils/student-scope";
+import { NotFoundError } from "../utils/errors";
+
+export interface PrintableClass {
+  name: string;
+  classCode: string;
+}
+
+export interface PrintableStudent {
+  id: string;
+  name: string;
+  passportCode: string;
+  animal: string | null; // null until the student takes the quiz
+}
+
+// US Letter in points, 0.5in margins
+const PAGE = { width: 612, height: 792, margin: 36 };
+
+// 2 x 4 cut-out cards per page, each 3.5in x 2.25in
+const CARD = { width: 252, height: 162, columns: 2, rows: 4, gap: 12 };
+
+/**
+ * Where students enter their passport code; the QR code pre-fills it
+ */
+export function passportLoginUrl(passportCode: string): string {
+  const base = (process.env.FRONTEND_URL || 'http://localhost:3000').replace(/\/$/, '');
+  return `${base}/student/login?passport=${encodeURIComponent(passportCode)}`;
+}
+
+/**
+ * Roster for printing, optionally limited to some students (to reprint lost cards)
+ */
+export async function getPrintableRoster(classId: string, studentIds?: string[]) {
+  const [classRecord] = await db
+    .select({ name: classes.name, classCode: classes.classCode })
+    .from(classes)
+    .where(and(eq(classes.id, classId), isNull(classes.deletedAt)))
+    .limit(1);
+
+  if (!classRecord) {
+    throw new NotFoundError('Class');
+  }
+
+  const conditions = [eq(students.classId, classId)];
+  if (studentIds && studentIds.length > 0) {
+    conditions.push(inArray(students.id, studentIds));
+  }
+
+  const rows = await db
+    .select({
+      id: students.id,
+      name: students.studentName,
+      passportCode: students.passportCode,
+      animal: animalTypes.name
+    })
+    .from(students)
+    .leftJoin(animalTypes, eq(students.animalTypeId, animalTypes.id))
+    .where(and(...conditions, isActiveStudent()))
+    .orderBy(asc(students.studentName));
+
+  const roster: PrintableStudent[] = rows.map(row => ({ ...row, name: row.name || 'Student' }));
+  return { classRecord, roster };
+}
+
+// Noto Emoji ships as unicode-range subsets; find the file that has a given emoji
+type EmojiFonts = { subsets: Array<{ file: string; ranges: Array<[number, number]> }> } | null;
+let emojiFonts: EmojiFonts | undefined;
+
+function loadEmojiFonts(): EmojiFonts {
+  if (emojiFonts !== undefined) return emojiFonts;
+
+  try {
+    const require = createRequire(import.meta.url);
+    const unicodePath = require.resolve('@fontsource/noto-emoji/unicode.json');
+    const unicode: Record<string, string> = JSON.parse(fs.readFileSync(unicodePath, 'utf8'));
+
+    emojiFonts = {
+      subsets: Object.entries(unicode).map(([key, value]) => ({
+        file: path.join(path.dirname(unicodePath), 'files', `noto-emoji-${key.replace(/[[\]]/g, '')}-400-normal.woff`),
+        ranges: value.split(',').map(range => {
+          const [start, end] = range.trim().replace(/^U\+/i, '').split('-').map(hex => parseInt(hex, 16));
+          return [start, end ?? start] as [number, number];
+        })
+      }))
+    };
+  } catch (error) {
+    console.warn('[Passport Cards] Emoji font unavailable, printing animal names instead:', error);
+    emojiFonts = null;
+  }
+  return emojiFonts;
+}
+
+/**
+ * Switch to a font that can draw the emoji; returns false if none can
+ */
+function useEmojiFont(doc: PDFKit.PDFDocument, emoji: string): boolean {
+  const fonts = loadEmojiFonts();
+  const codePoint = emoji.codePointAt(0);
+  if (!fonts || codePoint === undefined) return false;
+
+  const subset = fonts.subsets.find(s => s.ranges.some(([start, end]) => codePoint >= start && codePoint <= end));
+  if (!subset || !fs.existsSync(subset.file)) return false;
+
+  doc.font(subset.file);
+  return true;
+}
+
+// Draw the QR code as vector squares so it prints sharp at any size
+function drawQrCode(doc: PDFKit.PDFDocument, text: string, x: number, y: number, size: number) {
+  const qr = QRCode.create(text, { errorCorrectionLevel: 'M' });
+  const quietZone = 2;
+  const count = qr.modules.size;
+  const cell = size / (count + quietZone * 2);
+
+  for (let row = 0; row < count; row++) {
+    for (let col = 0; col < count; col++) {
+      if (qr.modules.get(row, col)) {
+        doc.rect(x + (col + quietZone) * cell, y + (row + quietZone) * cell, cell, cell);
+      }
+    }
+  }
+  doc.fillColor('black').fill();
+}
+
+function drawCard(doc: PDFKit.PDFDocument, classRecord: PrintableClass, student: PrintableStudent, x: number, y: number) {
+  const padding = 12;
+  const qrSize = 96;
+  const textWidth = CARD.width - qrSize - padding * 3;
+
+  // Dashed cut line
+  doc.save()
+    .lineWidth(0.5)
+    .dash(4, { space: 3 })
+    .strokeColor('#999999')
+    .roundedRect(x, y, CARD.width, CARD.height, 8)
+    .stroke()
+    .restore();
+
+  // Animal: emoji when the font has it, the name otherwise
+  const emoji = student.animal ? getAnimalEmoji(student.animal).replace(/\uFE0F/g, '') : null;
+  if (emoji && useEmojiFont(doc, emoji)) {
+    doc.fontSize(28).fillColor('black').text(emoji, x + padding, y + padding, { lineBreak: false });
+  } else {
+    doc.font('Helvetica-Bold').fontSize(10).fillColor('#555555')
+      .text(student.animal || 'Take the quiz!', x + padding, y + padding + 8, { width: textWidth, lineBreak: false });
+  }
+
+  doc.font('Helvetica-Bold').fontSize(13).fillColor('black')
+    .text(student.name, x + padding, y + 52, { width: textWidth, height: 16, ellipsis: true, lineBreak: false });
+
+  doc.font('Helvetica').fontSize(8).fillColor('#555555')
+    .text('PASSPORT CODE', x + padding, y + 78);
+  doc.font('Courier-Bold').fontSize(18).fillColor('black')
+    .text(student.passportCode, x + padding, y + 89, { width: textWidth, lineBreak: false });
+
+  doc.font('Helvetica').fontSize(8).fillColor('#555555')
+    .text(`Class code: ${classRecord.classCode}`, x + padding, y + 116, { width: textWidth, lineBreak: false })
+    .text(classRecord.name, x + padding, y + 128, { width: textWidth, height: 10, ellipsis: true, lineBreak: false });
+
+  drawQrCode(doc, passportLoginUrl(student.passportCode), x + CARD.width - qrSize - padding, y + (CARD.height - qrSize) / 2, qrSize);
+  doc.font('Helvetica').fontSize(6).fillColor('#555555')
+    .text('Scan to log in', x + CARD.width - qrSize - padding, y + (CARD.height + qrSize) / 2 - 4, { width: qrSize, align: 'center' });
+}
+
+function renderDocument(draw: (doc: PDFKit.PDFDocument) => void, title: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'LETTER', margin: PAGE.margin, autoFirstPage: false, info: { Title: title } });
+    const chunks: Buffer[] = [];
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    try {
+      draw(doc);
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Cut-out passport cards, eight per page
+ */
+export function renderPassportCards(classRecord: PrintableClass, roster: PrintableStudent[]): Promise<Buffer> {
+  const perPage = CARD.columns * CARD.rows;
+  const left = (PAGE.width - (CARD.columns * CARD.width + (CARD.columns - 1) * CARD.gap)) / 2;
+  const top = (PAGE.height - (CARD.rows * CARD.height + (CARD.rows - 1) * CARD.gap)) / 2;
+
+  return renderDocument(doc => {
+    if (roster.length === 0) {
+      doc.addPage();
+      doc.font('Helvetica').fontSize(14).text(`${classRecord.name} has no students yet.`);
+      return;
+    }
+
+    roster.forEach((student, index) => {
+      const slot = index % perPage;
+      if (slot === 0) doc.addPage();
+
+      const x = left + (slot % CARD.columns) * (CARD.width + CARD.gap);
+      const y = top + Math.floor(slot / CARD.columns) * (CARD.height + CARD.gap);
+      drawCard(doc, classRecord, student, x, y);
+    });
+  }, `${classRecord.name} passport cards`);
+}
+
+/**
+ * One-page sheet for the teacher: every student's passport code, in one or two columns
+ * with the text shrunk to fit
+ */
+export function renderRosterSheet(classRecord: PrintableClass, roster: PrintableStudent[]): Promise<Buffer> {
+  return renderDocument(doc => {
+    doc.addPage();
+    const contentWidth = PAGE.width - PAGE.margin * 2;
+
+    doc.font('Helvetica-Bold').fontSize(18).fillColor('black')
+      .text(classRecord.name, PAGE.margin, PAGE.margin, { width: contentWidth });
+    doc.font('Helvetica').fontSize(10).fillColor('#555555')
+      .text(`Class code: ${classRecord.classCode}   ·   ${roster.length} students   ·   Printed ${new Date().toLocaleDateString('en-US')}`)
+      .text(`Students log in at ${passportLoginUrl('').replace(/\?passport=$/, '')} with their passport code.`);
+
+    const tableTop = doc.y + 16;
+    const columns = roster.length > 40 ? 2 : 1;
+    const rowsPerColumn = Math.max(1, Math.ceil(roster.length / columns));
+    const rowHeight = Math.min(20, (PAGE.height - PAGE.margin - tableTop - 14) / rowsPerColumn);
+    const fontSize = Math.max(5, Math.min(11, rowHeight * 0.7));
+    const columnWidth = (contentWidth - (columns - 1) * 18) / columns;
+    const cells = [
+      { label: '#', width: 0.08 },
+      { label: 'Student', width: 0.47 },
+      { label: 'Animal', width: 0.2 },
+      { label: 'Passport Code', width: 0.25 }
+    ];
+
+    for (let column = 0; column < columns; column++) {
+      const columnLeft = PAGE.margin + column * (columnWidth + 18);
+      let cellLeft = columnLeft;
+      doc.font('Helvetica-Bold').fontSize(9).fillColor('black');
+      for (const cell of cells) {
+        doc.text(cell.label, cellLeft, tableTop, { width: cell.width * columnWidth, lineBreak: false });
+        cellLeft += cell.width * columnWidth;
+      }
+      doc.moveTo(columnLeft, tableTop + 12).lineTo(columnLeft + columnWidth, tableTop + 12).lineWidth(0.5).strokeColor('#999999').stroke();
+    }
+
+    roster.forEach((student, index) => {
+      const column = Math.floor(index / rowsPerColumn);
+      const y = tableTop + 14 + (index % rowsPerColumn) * rowHeight;
+      const values = [String(index + 1), student.name, student.animal || '—', student.passportCode];
+      let cellLeft = PAGE.margin + column * (columnWidth + 18);
+
+      values.forEach((value, cellIndex) => {
+        const width = cells[cellIndex].width * columnWidth;
+        doc.font(cellIndex === 3 ? 'Courier-Bold' : 'Helvetica').fontSize(fontSize).fillColor('black')
+          .text(value, cellLeft, y + (rowHeight - fontSize) / 2, { width: width - 4, height: rowHeight, ellipsis: true, lineBreak: false });
+        cellLeft += width;
+      });
+    });
+  }, `${classRecord.name} roster`);
+}
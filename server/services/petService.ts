@@ -1,7 +1,14 @@
 import { db } from "../db";
-import { pets, studentPets, petInteractions, students, currencyTransactions } from "@shared/schema";
-import { eq, and, sql } from "drizzle-orm";
-import { Pet, StudentPet, NewStudentPet, NewPetInteraction } from "@shared/schema";
+import { pets, studentPets, petInteractions, students, classes } from "@shared/schema";
+import { eq, and, asc, count } from "drizzle-orm";
+import { isActiveStudent } from "../utils/student-scope";
+import { Pet, StudentPet, NewStudentPet, NewPetInteraction, PetEvolutionStage, PetVacationSettings } from "@shared/schema";
+import { postTransaction, type Transaction } from "./ledgerService";
+import { DEFAULT_STORE_TIMEZONE } from "./storeStatusService";
+
+export const MAX_PET_SLOTS = 5;
+
+const HOUR_MS = 60 * 60 * 1000;
 
 export interface PetStats {
   hunger: number;
@@ -14,15 +21,66 @@ export interface PetState {
 }
 
 /**
- * Calculate the current state of a pet based on time elapsed
+ * Whether the hour starting at `at` is vacation time for the class's pets
+ */
+function isVacationHour(formatter: Intl.DateTimeFormat, at: Date, vacation: PetVacationSettings): boolean {
+  const parts = formatter.formatToParts(at);
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+
+  if (vacation.weekends && ['Sat', 'Sun'].includes(part('weekday'))) return true;
+
+  const day = `${part('year')}-${part('month')}-${part('day')}`;
+  return vacation.breaks.some(period => period.startDate <= day && day <= period.endDate);
+}
+
+/**
+ * Hours between `from` and `to` that count towards decay, i.e. outside the class's
+ * weekends and breaks (to the hour). Counting stops at `maxHours`, once the stats would
+ * have bottomed out anyway.
+ */
+export function getDecayHours(
+  from: Date,
+  to: Date,
+  vacation?: PetVacationSettings | null,
+  maxHours = Infinity
+): number {
+  const totalHours = Math.max(0, (to.getTime() - from.getTime()) / HOUR_MS);
+  if (!vacation || (!vacation.weekends && vacation.breaks.length === 0)) {
+    return Math.min(totalHours, maxHours);
+  }
+
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: vacation.timezone || DEFAULT_STORE_TIMEZONE,
+    weekday: 'short',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  });
+
+  // Walk back from now so a long-neglected pet only costs the hours that matter
+  let hours = 0;
+  for (let end = to.getTime(); end > from.getTime() && hours < maxHours; end -= HOUR_MS) {
+    const start = Math.max(from.getTime(), end - HOUR_MS);
+    if (!isVacationHour(formatter, new Date(start), vacation)) {
+      hours += (end - start) / HOUR_MS;
+    }
+  }
+  return Math.min(hours, maxHours);
+}
+
+/**
+ * Calculate the current state of a pet based on time elapsed. Time the class is on
+ * vacation doesn't count, so pets come back from a weekend the way they were left.
  */
 export function calculatePetState(
   currentStats: PetStats,
   lastInteractionAt: Date,
-  decayRates: { hungerDecayRate: number; happinessDecayRate: number }
+  decayRates: { hungerDecayRate: number; happinessDecayRate: number },
+  vacation?: PetVacationSettings | null,
+  now = new Date()
 ): PetStats {
-  const now = new Date();
-  const hoursElapsed = (now.getTime() - lastInteractionAt.getTime()) / (1000 * 60 * 60);
+  const slowestRate = Math.min(...[decayRates.hungerDecayRate, decayRates.happinessDecayRate].filter(rate => rate > 0));
+  const hoursElapsed = getDecayHours(lastInteractionAt, now, vacation, 100 / slowestRate);
   
   // Calculate decay
   const hungerDecay = Math.min(100, hoursElapsed * decayRates.hungerDecayRate);
@@ -38,6 +96,17 @@ export function calculatePetState(
   };
 }
 
+/**
+ * The growth stage a pet with `xp` has reached (0 when the pet doesn't evolve)
+ */
+export function getPetStage(stages: PetEvolutionStage[], xp: number): number {
+  let stage = 0;
+  stages.forEach((candidate, index) => {
+    if (xp >= candidate.minXp) stage = index;
+  });
+  return stage;
+}
+
 /**
  * Determine the pet's visual state based on stats
  */
@@ -61,42 +130,86 @@ export async function getAvailablePets(): Promise<Pet[]> {
 }
 
 /**
- * Get a student's pet with calculated current state
+ * The student's class pet rules: how many pets they may own and when pets are on vacation
  */
-export async function getStudentPet(studentId: string): Promise<(StudentPet & { 
-  pet: Pet; 
+export async function getPetCareSettings(studentId: string, tx: Transaction | typeof db = db) {
+  const [settings] = await tx
+    .select({ petSlots: classes.petSlots, petVacation: classes.petVacation })
+    .from(students)
+    .innerJoin(classes, eq(students.classId, classes.id))
+    .where(and(eq(students.id, studentId), isActiveStudent()))
+    .limit(1);
+
+  return settings ?? { petSlots: 1, petVacation: null };
+}
+
+export type StudentPetWithState = StudentPet & {
+  pet: Pet;
   calculatedStats: PetStats;
   visualState: PetState['state'];
-}) | null> {
-  const [result] = await db
-    .select({
-      studentPet: studentPets,
-      pet: pets
-    })
-    .from(studentPets)
-    .innerJoin(pets, eq(studentPets.petId, pets.id))
-    .where(eq(studentPets.studentId, studentId))
-    .limit(1);
-    
-  if (!result) return null;
-  
-  // Calculate current state
+  stageName: string | null;
+  nextStageXp: number | null; // XP the next stage needs; null at the final stage
+};
+
+function withCurrentState(studentPet: StudentPet, pet: Pet, vacation: PetVacationSettings | null): StudentPetWithState {
   const calculatedStats = calculatePetState(
-    { hunger: result.studentPet.hunger, happiness: result.studentPet.happiness },
-    result.studentPet.lastInteractionAt,
-    result.pet.baseStats as { hungerDecayRate: number; happinessDecayRate: number }
+    { hunger: studentPet.hunger, happiness: studentPet.happiness },
+    studentPet.lastInteractionAt,
+    pet.baseStats as { hungerDecayRate: number; happinessDecayRate: number },
+    vacation
   );
-  
-  const visualState = getPetVisualState(calculatedStats);
-  
+  const stages = pet.evolutionStages || [];
+
   return {
-    ...result.studentPet,
-    pet: result.pet,
+    ...studentPet,
+    pet,
     calculatedStats,
-    visualState
+    visualState: getPetVisualState(calculatedStats),
+    stageName: stages[studentPet.stage]?.name ?? null,
+    nextStageXp: stages[studentPet.stage + 1]?.minXp ?? null
   };
 }
 
+/**
+ * All of a student's pets with calculated current state, oldest first
+ */
+export async function getStudentPets(studentId: string): Promise<StudentPetWithState[]> {
+  const [rows, settings] = await Promise.all([
+    db
+      .select({
+        studentPet: studentPets,
+        pet: pets
+      })
+      .from(studentPets)
+      .innerJoin(pets, eq(studentPets.petId, pets.id))
+      .where(eq(studentPets.studentId, studentId))
+      .orderBy(asc(studentPets.acquiredAt)),
+    getPetCareSettings(studentId)
+  ]);
+
+  return rows.map(row => withCurrentState(row.studentPet, row.pet, settings.petVacation));
+}
+
+/**
+ * Get a student's pet (their first, if they have several) with calculated current state
+ */
+export async function getStudentPet(studentId: string): Promise<StudentPetWithState | null> {
+  const [first] = await getStudentPets(studentId);
+  return first ?? null;
+}
+
+/**
+ * Whether the student has a free pet slot. Call inside the transaction that adds the pet,
+ * after locking the student row.
+ */
+export async function hasFreePetSlot(tx: Transaction, studentId: string): Promise<boolean> {
+  const [{ petSlots }, [owned]] = await Promise.all([
+    getPetCareSettings(studentId, tx),
+    tx.select({ total: count() }).from(studentPets).where(eq(studentPets.studentId, studentId))
+  ]);
+  return owned.total < petSlots;
+}
+
 /**
  * Purchase a pet for a student
  */
@@ -107,15 +220,16 @@ export async function purchasePet(
 ): Promise<{ success: boolean; error?: string; studentPet?: StudentPet; newBalance?: number }> {
   try {
     return await db.transaction(async (tx) => {
-      // Check if student already has a pet (MVP: one pet per student)
-      const existingPet = await tx
+      // Lock the student so two purchases can't both take the last slot
+      const [student] = await tx
         .select()
-        .from(studentPets)
-        .where(eq(studentPets.studentId, studentId))
-        .limit(1);
-        
-      if (existingPet.length > 0) {
-        return { success: false, error: "Student already has a pet" };
+        .from(students)
+        .where(and(eq(students.id, studentId), isActiveStudent()))
+        .limit(1)
+        .for('update');
+
+      if (student && !(await hasFreePetSlot(tx, studentId))) {
+        return { success: false, error: "No free pet slots" };
       }
       
       // Get pet details
@@ -130,27 +244,10 @@ export async function purchasePet(
       }
       
       // Check student balance
-      const [student] = await tx
-        .select()
-        .from(students)
-        .where(eq(students.id, studentId))
-        .limit(1);
-        
       if (!student || student.currencyBalance === null || student.currencyBalance < pet.cost) {
         return { success: false, error: "Insufficient balance" };
       }
       
-      const newBalance = student.currencyBalance - pet.cost;
-      
-      // Deduct coins
-      await tx
-        .update(students)
-        .set({ 
-          currencyBalance: sql`${students.currencyBalance} - ${pet.cost}`,
-          updatedAt: new Date()
-        })
-        .where(eq(students.id, studentId));
-      
       // Create pet instance
       const [newPet] = await tx
         .insert(studentPets)
@@ -161,13 +258,16 @@ export async function purchasePet(
         })
         .returning();
       
-      // Log transaction
-      await tx.insert(currencyTransactions).values({
-        studentId,
-        amount: -pet.cost,
-        transactionType: 'purchase',
-        description: `Purchased pet: ${pet.name}`
-      });
+      // Deduct coins
+      let newBalance = student.currencyBalance;
+      if (pet.cost > 0) {
+        ({ newBalance } = await postTransaction({
+          studentId,
+          amount: -pet.cost,
+          type: 'purchase',
+          description: `Purchased pet: ${pet.name}`
+        }, tx));
+      }
       
       return { success: true, studentPet: newPet, newBalance };
     });
@@ -184,11 +284,11 @@ export async function interactWithPet(
   studentPetId: string,
   interactionType: 'feed' | 'play' | 'pet',
   studentId: string
-): Promise<{ success: boolean; error?: string; newStats?: PetStats }> {
+): Promise<{ success: boolean; error?: string; newStats?: PetStats; xp?: number; evolvedTo?: PetEvolutionStage | null }> {
   const interactionEffects = {
-    feed: { hunger: 30, happiness: 0, cost: 5 },
-    play: { hunger: 0, happiness: 20, cost: 0 },
-    pet: { hunger: 0, happiness: 10, cost: 0 }
+    feed: { hunger: 30, happiness: 0, cost: 5, xp: 10 },
+    play: { hunger: 0, happiness: 20, cost: 0, xp: 8 },
+    pet: { hunger: 0, happiness: 10, cost: 0, xp: 4 }
   };
   
   const effect = interactionEffects[interactionType];
@@ -207,13 +307,16 @@ export async function interactWithPet(
         .select({
           studentPet: studentPets,
           pet: pets,
-          student: students
+          student: students,
+          petVacation: classes.petVacation
         })
         .from(studentPets)
         .innerJoin(pets, eq(studentPets.petId, pets.id))
         .innerJoin(students, eq(studentPets.studentId, students.id))
+        .leftJoin(classes, eq(students.classId, classes.id))
         .where(whereConditions)
-        .limit(1);
+        .limit(1)
+        .for('update', { of: studentPets });
         
       if (!petData) {
         return { success: false, error: "Pet not found" };
@@ -228,7 +331,8 @@ export async function interactWithPet(
       const currentStats = calculatePetState(
         { hunger: petData.studentPet.hunger, happiness: petData.studentPet.happiness },
         petData.studentPet.lastInteractionAt,
-        petData.pet.baseStats as { hungerDecayRate: number; happinessDecayRate: number }
+        petData.pet.baseStats as { hungerDecayRate: number; happinessDecayRate: number },
+        petData.petVacation
       );
       
       // Apply interaction effects
@@ -237,12 +341,25 @@ export async function interactWithPet(
         happiness: Math.min(100, currentStats.happiness + effect.happiness)
       };
       
-      // Update pet stats
+      // XP only for the student's own care that the pet needed, so tapping a full pet doesn't grow it
+      const neededCare = newStats.hunger > currentStats.hunger || newStats.happiness > currentStats.happiness;
+      const xpGained = studentId !== 'teacher-override' && neededCare ? effect.xp : 0;
+      const xp = petData.studentPet.xp + xpGained;
+      const stages = petData.pet.evolutionStages || [];
+      const stage = Math.max(petData.studentPet.stage, getPetStage(stages, xp));
+      const evolvedTo = stage !== petData.studentPet.stage ? stages[stage] : null;
+      
+      // Update pet stats (and its artboard when it reaches a new stage)
       await tx
         .update(studentPets)
         .set({
           hunger: newStats.hunger,
           happiness: newStats.happiness,
+          xp,
+          stage,
+          ...(evolvedTo?.riveArtboard && {
+            variantData: { ...(petData.studentPet.variantData || {}), riveArtboard: evolvedTo.riveArtboard }
+          }),
           lastInteractionAt: new Date(),
           updatedAt: new Date()
         })
@@ -250,20 +367,12 @@ export async function interactWithPet(
       
       // Deduct coins if needed (skip for teachers)
       if (studentId !== 'teacher-override' && effect.cost > 0) {
-        await tx
-          .update(students)
-          .set({ 
-            currencyBalance: sql`${students.currencyBalance} - ${effect.cost}`,
-            updatedAt: new Date()
-          })
-          .where(eq(students.id, petData.student.id));
-          
-        await tx.insert(currencyTransactions).values({
+        await postTransaction({
           studentId: petData.student.id,
           amount: -effect.cost,
-          transactionType: 'purchase',
+          type: 'purchase',
           description: `Fed pet: ${petData.studentPet.customName}`
-        });
+        }, tx);
       }
       
       // Log interaction
@@ -274,10 +383,11 @@ export async function interactWithPet(
         happinessBefore: currentStats.happiness,
         hungerAfter: newStats.hunger,
         happinessAfter: newStats.happiness,
-        coinsCost: effect.cost
+        coinsCost: effect.cost,
+        xpGained
       });
       
-      return { success: true, newStats };
+      return { success: true, newStats, xp, evolvedTo };
     });
   } catch (error) {
     console.error('Error interacting with pet:', error);
@@ -0,0 +1,257 @@
+import { db } from "../db";
+import {
+  purchaseRequests,
+  students,
+  storeItems,
+  studentInventory,
+  currencyTransactions,
+  type PurchaseRequest,
+  type StoreItem
+} from "@shared/schema";
+import { and, desc, eq } from "drizzle-orm";
+import { createFishForStudent } from "./fishbowlService";
+import { postTransaction, type Transaction } from "./ledgerService";
+import { invalidateCatalogCache, releaseStock } from "./storeCatalogService";
+import { ConflictError, NotFoundError, ErrorCode } from "../utils/errors";
+
+export const PURCHASE_REQUEST_STATUSES = ['pending', 'approved', 'denied', 'cancelled'] as const;
+export type PurchaseRequestStatus = typeof PURCHASE_REQUEST_STATUSES[number];
+
+/**
+ * Hold a purchase for teacher approval: the cost (the price at the time of asking, so a
+ * sale ending doesn't change it) comes off the balance now and the item is granted on
+ * approval. Runs inside the purchase transaction; the ledger rejects the reservation if
+ * the student can't afford it.
+ */
+export async function createPurchaseRequest(
+  tx: Transaction,
+  params: { studentId: string; classId: string; teacherId: string; item: StoreItem; cost: number }
+) {
+  const { studentId, classId, teacherId, item, cost } = params;
+
+  const [pending] = await tx
+    .select({ id: purchaseRequests.id })
+    .from(purchaseRequests)
+    .where(and(
+      eq(purchaseRequests.studentId, studentId),
+      eq(purchaseRequests.storeItemId, item.id),
+      eq(purchaseRequests.status, 'pending')
+    ))
+    .limit(1);
+
+  if (pending) {
+    throw new ConflictError('You already asked for this item. Waiting for your teacher!', ErrorCode.BIZ_006);
+  }
+
+  // Free items have nothing to reserve
+  const reservation = cost > 0
+    ? await postTransaction({
+        studentId,
+        teacherId,
+        amount: -cost,
+        type: 'purchase',
+        description: `Pending purchase: ${item.name}`
+      }, tx)
+    : null;
+
+  const [request] = await tx
+    .insert(purchaseRequests)
+    .values({
+      studentId,
+      classId,
+      storeItemId: item.id,
+      cost,
+      reservationTransactionId: reservation?.transaction.id ?? null
+    })
+    .returning();
+
+  return { request, newBalance: reservation?.newBalance ?? null };
+}
+
+/**
+ * Lock a class's request for a decision; only pending requests can change
+ */
+async function lockPendingRequest(tx: Transaction, requestId: string, scope: { classId?: string; studentId?: string }) {
+  const conditions = [eq(purchaseRequests.id, requestId)];
+  if (scope.classId) conditions.push(eq(purchaseRequests.classId, scope.classId));
+  if (scope.studentId) conditions.push(eq(purchaseRequests.studentId, scope.studentId));
+
+  const [request] = await tx
+    .select()
+    .from(purchaseRequests)
+    .where(and(...conditions))
+    .limit(1)
+    .for('update');
+
+  if (!request) {
+    throw new NotFoundError('Purchase request');
+  }
+  if (request.status !== 'pending') {
+    throw new ConflictError(`Purchase request has already been ${request.status}`);
+  }
+
+  const [item] = await tx
+    .select()
+    .from(storeItems)
+    .where(eq(storeItems.id, request.storeItemId))
+    .limit(1);
+
+  return { request, item };
+}
+
+// Give the reserved coins (and any limited-stock unit) back and close the request
+async function refundRequest(
+  tx: Transaction,
+  request: PurchaseRequest,
+  itemName: string,
+  outcome: { status: 'denied' | 'cancelled'; teacherId: string | null; note?: string | null }
+) {
+  const refund = request.cost > 0
+    ? await postTransaction({
+        studentId: request.studentId,
+        teacherId: outcome.teacherId,
+        amount: request.cost,
+        type: 'refund',
+        description: `Refund: ${itemName} (request ${outcome.status})`,
+        idempotencyKey: `purchase-request:${request.id}:refund`
+      }, tx)
+    : null;
+
+  await releaseStock(tx, request.storeItemId);
+
+  const [updated] = await tx
+    .update(purchaseRequests)
+    .set({
+      status: outcome.status,
+      refundTransactionId: refund?.transaction.id ?? null,
+      decidedBy: outcome.teacherId,
+      decidedAt: new Date(),
+      note: outcome.note || null,
+      updatedAt: new Date()
+    })
+    .where(eq(purchaseRequests.id, request.id))
+    .returning();
+
+  return { request: updated, newBalance: refund?.newBalance ?? null };
+}
+
+/**
+ * Approve: the reserved coins are kept and the item goes into the student's inventory
+ */
+export async function approvePurchaseRequest(classId: string, requestId: string, teacherId: string) {
+  return db.transaction(async (tx) => {
+    const { request, item } = await lockPendingRequest(tx, requestId, { classId });
+    if (!item) {
+      throw new NotFoundError('Store item');
+    }
+
+    const [owned] = await tx
+      .select({ id: studentInventory.id })
+      .from(studentInventory)
+      .where(and(eq(studentInventory.studentId, request.studentId), eq(studentInventory.storeItemId, item.id)))
+      .limit(1);
+
+    if (owned) {
+      throw new ConflictError('Student already owns this item. Deny the request to refund their coins.');
+    }
+
+    await tx
+      .insert(studentInventory)
+      .values({
+        studentId: request.studentId,
+        storeItemId: item.id,
+        isEquipped: false,
+        purchasePrice: request.cost,
+        purchaseTransactionId: request.reservationTransactionId
+      });
+
+    let fishInfo = null;
+    if (item.name === 'Fish Bowl') {
+      try {
+        fishInfo = await createFishForStudent(tx, request.studentId);
+      } catch (fishError) {
+        // Same as a direct purchase: the student still gets the fishbowl
+        console.error('[FISHBOWL PURCHASE] Error creating fish:', fishError);
+      }
+    }
+
+    if (request.reservationTransactionId) {
+      await tx
+        .update(currencyTransactions)
+        .set({ description: `Purchase: ${item.name}` })
+        .where(eq(currencyTransactions.id, request.reservationTransactionId));
+    }
+
+    const [updated] = await tx
+      .update(purchaseRequests)
+      .set({ status: 'approved', decidedBy: teacherId, decidedAt: new Date(), updatedAt: new Date() })
+      .where(eq(purchaseRequests.id, request.id))
+      .returning();
+
+    return { request: updated, item: { id: item.id, name: item.name, cost: request.cost }, ...(fishInfo && { fishInfo }) };
+  });
+}
+
+/**
+ * Deny: the reserved coins are refunded
+ */
+export async function denyPurchaseRequest(classId: string, requestId: string, teacherId: string, note?: string | null) {
+  const { result, item } = await db.transaction(async (tx) => {
+    const { request, item } = await lockPendingRequest(tx, requestId, { classId });
+    const result = await refundRequest(tx, request, item?.name || 'store item', { status: 'denied', teacherId, note });
+    return { result, item };
+  });
+  await refreshStockedCatalog(item);
+  return result;
+}
+
+/**
+ * A student withdrawing their own pending request
+ */
+export async function cancelPurchaseRequest(studentId: string, requestId: string) {
+  const { result, item } = await db.transaction(async (tx) => {
+    const { request, item } = await lockPendingRequest(tx, requestId, { studentId });
+    const result = await refundRequest(tx, request, item?.name || 'store item', { status: 'cancelled', teacherId: null });
+    return { result, item };
+  });
+  await refreshStockedCatalog(item);
+  return result;
+}
+
+// A returned unit of a limited item shows up in the catalog again
+async function refreshStockedCatalog(item: StoreItem | undefined) {
+  if (item && item.stockLimit !== null) {
+    await invalidateCatalogCache(item.classId);
+  }
+}
+
+/**
+ * Requests for a class (or one student), newest first, with student and item names
+ */
+export async function listPurchaseRequests(filter: { classId?: string; studentId?: string; status?: PurchaseRequestStatus }) {
+  const conditions = [];
+  if (filter.classId) conditions.push(eq(purchaseRequests.classId, filter.classId));
+  if (filter.studentId) conditions.push(eq(purchaseRequests.studentId, filter.studentId));
+  if (filter.status) conditions.push(eq(purchaseRequests.status, filter.status));
+
+  return db
+    .select({
+      id: purchaseRequests.id,
+      studentId: purchaseRequests.studentId,
+      studentName: students.studentName,
+      storeItemId: purchaseRequests.storeItemId,
+      itemName: storeItems.name,
+      cost: purchaseRequests.cost,
+      status: purchaseRequests.status,
+      note: purchaseRequests.note,
+      decidedBy: purchaseRequests.decidedBy,
+      decidedAt: purchaseRequests.decidedAt,
+      createdAt: purchaseRequests.createdAt
+    })
+    .from(purchaseRequests)
+    .innerJoin(students, eq(purchaseRequests.studentId, students.id))
+    .innerJoin(storeItems, eq(purchaseRequests.storeItemId, storeItems.id))
+    .where(and(...conditions))
+    .orderBy(desc(purchaseRequests.createdAt))
+    .limit(200);
+}
@@ -0,0 +1,299 @@
+import { db } from "../db";
+import { quizQuestionBanks, quizSubmissions, classes, animalTypes } from "@shared/schema";
+import type { QuizQuestionBank } from "@shared/schema";
+import { eq, and, desc, sql } from "drizzle-orm";
+import { questions as builtInQuestions, type Question } from "@shared/quiz-questions";
+import { calculateResults, type QuizAnswer, type QuizResults } from "@shared/scoring";
+import { getBuiltInQuestionTranslations, type BankTranslations } from "@shared/i18n";
+import { getCache } from "../lib/cache-factory";
+
+const cache = getCache();
+const CACHE_TTL = 300; // 5 minutes
+
+/**
+ * Code of the bank seeded from shared/quiz-questions.ts.
+ * Submissions without a question_bank_id were answered against this bank.
+ */
+export const BUILTIN_BANK_CODE = 'core';
+
+export type QuestionBankSummary = Omit<QuizQuestionBank, 'questions'> & { questionCount: number };
+
+export interface ResolvedQuestionBank {
+  id: string | null; // null when falling back to the built-in questions
+  code: string;
+  version: number;
+  name: string;
+  gradeBand: string | null;
+  questions: Question[];
+  translations: BankTranslations;
+}
+
+const BUILTIN_BANK: ResolvedQuestionBank = {
+  id: null,
+  code: BUILTIN_BANK_CODE,
+  version: 1,
+  name: 'Animal Genius Quiz',
+  gradeBand: null,
+  questions: builtInQuestions,
+  translations: getBuiltInQuestionTranslations()
+};
+
+function toResolved(bank: QuizQuestionBank): ResolvedQuestionBank {
+  return {
+    id: bank.id,
+    code: bank.code,
+    version: bank.version,
+    name: bank.name,
+    gradeBand: bank.gradeBand,
+    questions: bank.questions,
+    translations: bank.translations || {}
+  };
+}
+
+function toSummary(bank: QuizQuestionBank): QuestionBankSummary {
+  const { questions, ...rest } = bank;
+  return { ...rest, questionCount: questions.length };
+}
+
+async function invalidateBankCache(bankId?: string): Promise<void> {
+  const keys = ['quiz-bank:default'];
+  if (bankId) keys.push(`quiz-bank:${bankId}`);
+  await cache.del(keys);
+}
+
+/**
+ * Get a bank version by ID (cached - versions never change once published)
+ */
+export async function getBankById(bankId: string): Promise<QuizQuestionBank | null> {
+  const cacheKey = `quiz-bank:${bankId}`;
+  const cached = await cache.get<QuizQuestionBank>(cacheKey);
+  if (cached) return cached;
+
+  const [bank] = await db
+    .select()
+    .from(quizQuestionBanks)
+    .where(eq(quizQuestionBanks.id, bankId))
+    .limit(1);
+
+  if (!bank) return null;
+
+  await cache.set(cacheKey, bank, CACHE_TTL);
+  return bank;
+}
+
+/**
+ * Get the active default bank, or null if none has been seeded yet
+ */
+export async function getDefaultBank(): Promise<QuizQuestionBank | null> {
+  const cached = await cache.get<QuizQuestionBank | 'none'>('quiz-bank:default');
+  if (cached) return cached === 'none' ? null : cached;
+
+  const [bank] = await db
+    .select()
+    .from(quizQuestionBanks)
+    .where(and(
+      eq(quizQuestionBanks.isDefault, true),
+      eq(quizQuestionBanks.isActive, true)
+    ))
+    .limit(1);
+
+  await cache.set('quiz-bank:default', bank || 'none', CACHE_TTL);
+  return bank || null;
+}
+
+/**
+ * Resolve the questions a class should be shown.
+ * A pinned bank keeps working after it is deactivated so a quiz in progress
+ * never changes underneath the class; deactivation only hides it from selection.
+ */
+export async function getBankForClass(classId: string): Promise<ResolvedQuestionBank> {
+  const [classRecord] = await db
+    .select({ quizBankId: classes.quizBankId })
+    .from(classes)
+    .where(eq(classes.id, classId))
+    .limit(1);
+
+  if (classRecord?.quizBankId) {
+    const pinned = await getBankById(classRecord.quizBankId);
+    if (pinned) return toResolved(pinned);
+  }
+
+  const defaultBank = await getDefaultBank();
+  return defaultBank ? toResolved(defaultBank) : BUILTIN_BANK;
+}
+
+/**
+ * Resolve the questions for a recorded submission bank (null = built-in questions)
+ */
+export async function getBankForSubmission(questionBankId: string | null): Promise<ResolvedQuestionBank> {
+  if (!questionBankId) return BUILTIN_BANK;
+
+  const bank = await getBankById(questionBankId);
+  if (!bank) {
+    throw new Error(`Question bank not found: ${questionBankId}`);
+  }
+  return toResolved(bank);
+}
+
+/**
+ * List bank versions without their question payloads
+ */
+export async function listBanks(options: { includeInactive?: boolean } = {}): Promise<QuestionBankSummary[]> {
+  const rows = await db
+    .select()
+    .from(quizQuestionBanks)
+    .where(options.includeInactive ? undefined : eq(quizQuestionBanks.isActive, true))
+    .orderBy(quizQuestionBanks.code, desc(quizQuestionBanks.version));
+
+  return rows.map(toSummary);
+}
+
+/**
+ * Publish a new version of a bank. The version number is the next one for the code,
+ * so publishing 'core' after 'core' v2 creates v3 and leaves v2 untouched.
+ */
+export async function publishBankVersion(input: {
+  code: string;
+  name: string;
+  gradeBand?: string | null;
+  description?: string | null;
+  questions: Question[];
+  translations?: BankTranslations;
+  isDefault?: boolean;
+}, createdBy: string | null): Promise<QuizQuestionBank> {
+  const bank = await db.transaction(async (tx) => {
+    // Serialize publishes for the same code so two admins can't claim the same version
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${'quiz-bank:' + input.code}))`);
+
+    const [latest] = await tx
+      .select({ version: sql<number>`COALESCE(MAX(${quizQuestionBanks.version}), 0)` })
+      .from(quizQuestionBanks)
+      .where(eq(quizQuestionBanks.code, input.code));
+
+    if (input.isDefault) {
+      await tx
+        .update(quizQuestionBanks)
+        .set({ isDefault: false, updatedAt: new Date() })
+        .where(eq(quizQuestionBanks.isDefault, true));
+    }
+
+    const [created] = await tx
+      .insert(quizQuestionBanks)
+      .values({
+        code: input.code,
+        version: Number(latest?.version || 0) + 1,
+        name: input.name,
+        gradeBand: input.gradeBand ?? null,
+        description: input.description ?? null,
+        questions: input.questions,
+        translations: input.translations ?? {},
+        isDefault: !!input.isDefault,
+        createdBy
+      })
+      .returning();
+
+    return created;
+  });
+
+  await invalidateBankCache();
+  return bank;
+}
+
+/**
+ * Activate/deactivate a bank version or make it the default
+ */
+export async function updateBankStatus(
+  bankId: string,
+  status: { isActive?: boolean; isDefault?: boolean }
+): Promise<QuizQuestionBank | null> {
+  const bank = await db.transaction(async (tx) => {
+    if (status.isDefault) {
+      await tx
+        .update(quizQuestionBanks)
+        .set({ isDefault: false, updatedAt: new Date() })
+        .where(eq(quizQuestionBanks.isDefault, true));
+    }
+
+    const [updated] = await tx
+      .update(quizQuestionBanks)
+      .set({ ...status, updatedAt: new Date() })
+      .where(eq(quizQuestionBanks.id, bankId))
+      .returning();
+
+    return updated;
+  });
+
+  await invalidateBankCache(bankId);
+  return bank || null;
+}
+
+/**
+ * Pull scoreable answers out of a stored submission.
+ * Edge function submissions store an array of {questionId, answer}; legacy
+ * submissions store {q1: 'A', ...} merged with computed result fields.
+ */
+export function extractQuizAnswers(stored: unknown): QuizAnswer[] {
+  const normalizeAnswer = (value: unknown) =>
+    typeof value === 'string' ? value.toUpperCase() as QuizAnswer['answer'] : null;
+
+  if (Array.isArray(stored)) {
+    return stored
+      .filter((item): item is { questionId: unknown; answer: unknown } =>
+        !!item && typeof item === 'object' && 'questionId' in item && 'answer' in item)
+      .map(item => ({ questionId: Number(item.questionId), answer: normalizeAnswer(item.answer) }))
+      .filter((a): a is QuizAnswer => Number.isInteger(a.questionId) && a.answer !== null);
+  }
+
+  if (stored && typeof stored === 'object') {
+    const record = stored as Record<string, unknown>;
+    if (Array.isArray(record.answers)) {
+      return extractQuizAnswers(record.answers);
+    }
+
+    return Object.entries(record)
+      .filter(([key]) => /^(q|question)?\d+$/i.test(key))
+      .map(([key, value]) => ({ questionId: parseInt(key.replace(/\D/g, ''), 10), answer: normalizeAnswer(value) }))
+      .filter((a): a is QuizAnswer => a.answer !== null)
+      .sort((a, b) => a.questionId - b.questionId);
+  }
+
+  return [];
+}
+
+/**
+ * Re-score a stored submission against the bank version it was answered on.
+ * Does not modify the submission; callers decide what to do with any difference.
+ */
+export async function rescoreSubmission(submissionId: string): Promise<{
+  submissionId: string;
+  bank: Omit<ResolvedQuestionBank, 'questions' | 'translations'>;
+  storedAnimal: string | null;
+  results: QuizResults;
+  changed: boolean;
+} | null> {
+  const [submission] = await db
+    .select({
+      id: quizSubmissions.id,
+      answers: quizSubmissions.answers,
+      questionBankId: quizSubmissions.questionBankId,
+      animalName: animalTypes.name
+    })
+    .from(quizSubmissions)
+    .leftJoin(animalTypes, eq(quizSubmissions.animalTypeId, animalTypes.id))
+    .where(eq(quizSubmissions.id, submissionId))
+    .limit(1);
+
+  if (!submission) return null;
+
+  const bank = await getBankForSubmission(submission.questionBankId);
+  const results = calculateResults(extractQuizAnswers(submission.answers), bank.questions);
+  const { questions: _questions, translations: _translations, ...bankInfo } = bank;
+
+  return {
+    submissionId: submission.id,
+    bank: bankInfo,
+    storedAnimal: submission.animalName,
+    results,
+    changed: !!submission.animalName && submission.animalName !== results.animal
+  };
+}
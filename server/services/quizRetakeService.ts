@@ -0,0 +1,329 @@
+import { db } from "../db";
+import { quizSubmissions, students, classes, animalTypes, geniusTypes } from "@shared/schema";
+import { eq, desc, count } from "drizzle-orm";
+import { calculateResults, type QuizAnswer } from "@shared/scoring";
+import type { Question } from "@shared/quiz-questions";
+import { getBankForClass } from "./quizBankService";
+import { typeLookup } from "./typeLookupService";
+import { BusinessError, NotFoundError, ValidationError, ErrorCode } from "../utils/errors";
+
+// 'always' is how classes worked before retake rules, and stays the default
+export const RETAKE_POLICIES = ['always', 'never', 'once', 'after_days', 'teacher_unlock'] as const;
+export type RetakePolicy = typeof RETAKE_POLICIES[number];
+
+export type RetakeBlockReason =
+  | 'NO_RETAKES'        // Class doesn't allow retakes
+  | 'RETAKE_USED'       // 'once' and the retake has been taken
+  | 'COOLDOWN'          // 'after_days' and the waiting period hasn't passed
+  | 'NEEDS_UNLOCK';     // 'teacher_unlock' and the teacher hasn't unlocked this student
+
+export interface RetakeEligibility {
+  allowed: boolean;
+  policy: RetakePolicy;
+  attempts: number;
+  reason?: RetakeBlockReason;
+  availableAt?: Date; // When a 'COOLDOWN' block lifts
+  unlockedAt?: Date | null;
+}
+
+export interface QuizHistoryEntry {
+  submissionId: string;
+  attempt: number;
+  animalType: string | null;
+  animalTypeCode: string | null;
+  geniusType: string | null;
+  personalityType: string | null;
+  learningStyle: string | null;
+  isBorderline: boolean;
+  animalChanged: boolean; // Compared with the previous attempt
+  learningStyleChanged: boolean;
+  completedAt: Date | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Decide whether another attempt is allowed. A teacher unlock always grants one
+ * retake, whatever the class policy, so teachers can make exceptions.
+ */
+export function evaluateRetakePolicy(params: {
+  policy: string | null;
+  cooldownDays: number | null;
+  attempts: number;
+  lastCompletedAt: Date | null;
+  unlockedAt: Date | null;
+}, now = new Date()): RetakeEligibility {
+  const policy = (RETAKE_POLICIES as readonly string[]).includes(params.policy || '')
+    ? params.policy as RetakePolicy
+    : 'never';
+  const base = { policy, attempts: params.attempts, unlockedAt: params.unlockedAt };
+
+  // First attempt is always allowed
+  if (params.attempts === 0) return { ...base, allowed: true };
+
+  // Unlocks only count if given after the latest attempt
+  const unlocked = !!params.unlockedAt &&
+    (!params.lastCompletedAt || params.unlockedAt > params.lastCompletedAt);
+  if (unlocked) return { ...base, allowed: true };
+
+  switch (policy) {
+    case 'always':
+      return { ...base, allowed: true };
+
+    case 'once':
+      return params.attempts < 2
+        ? { ...base, allowed: true }
+        : { ...base, allowed: false, reason: 'RETAKE_USED' };
+
+    case 'after_days': {
+      const days = params.cooldownDays ?? 0;
+      const last = params.lastCompletedAt?.getTime() ?? 0;
+      const availableAt = new Date(last + days * DAY_MS);
+      return availableAt <= now
+        ? { ...base, allowed: true }
+        : { ...base, allowed: false, reason: 'COOLDOWN', availableAt };
+    }
+
+    case 'teacher_unlock':
+      return { ...base, allowed: false, reason: 'NEEDS_UNLOCK' };
+
+    case 'never':
+    default:
+      return { ...base, allowed: false, reason: 'NO_RETAKES' };
+  }
+}
+
+type DbExecutor = Pick<typeof db, 'select'>;
+
+async function loadRetakeState(executor: DbExecutor, studentId: string) {
+  const [student] = await executor
+    .select({
+      id: students.id,
+      classId: students.classId,
+      unlockedAt: students.quizRetakeUnlockedAt,
+      policy: classes.quizRetakePolicy,
+      cooldownDays: classes.quizRetakeCooldownDays
+    })
+    .from(students)
+    .innerJoin(classes, eq(students.classId, classes.id))
+    .where(eq(students.id, studentId))
+    .limit(1);
+
+  if (!student) return null;
+
+  const [attemptStats] = await executor
+    .select({ attempts: count() })
+    .from(quizSubmissions)
+    .where(eq(quizSubmissions.studentId, studentId));
+
+  const [latest] = await executor
+    .select({ completedAt: quizSubmissions.completedAt })
+    .from(quizSubmissions)
+    .where(eq(quizSubmissions.studentId, studentId))
+    .orderBy(desc(quizSubmissions.completedAt))
+    .limit(1);
+
+  return {
+    student,
+    eligibility: evaluateRetakePolicy({
+      policy: student.policy,
+      cooldownDays: student.cooldownDays,
+      attempts: Number(attemptStats?.attempts || 0),
+      lastCompletedAt: latest?.completedAt || null,
+      unlockedAt: student.unlockedAt
+    })
+  };
+}
+
+/**
+ * Check whether a student may take the quiz again
+ */
+export async function getRetakeEligibility(studentId: string): Promise<RetakeEligibility | null> {
+  const state = await loadRetakeState(db, studentId);
+  return state?.eligibility || null;
+}
+
+/**
+ * Throw if the policy blocks another attempt (used by submission paths). Pass the
+ * submission's transaction so the check sees the same locked state it writes to.
+ */
+export async function assertRetakeAllowed(studentId: string, executor: DbExecutor = db): Promise<void> {
+  const eligibility = (await loadRetakeState(executor, studentId))?.eligibility;
+  if (eligibility && !eligibility.allowed) {
+    throw new BusinessError('You have already taken the quiz', ErrorCode.BIZ_004, {
+      reason: eligibility.reason,
+      availableAt: eligibility.availableAt
+    });
+  }
+}
+
+/**
+ * Let a student retake the quiz once, regardless of the class policy
+ */
+export async function unlockRetake(studentId: string, teacherId: string): Promise<void> {
+  await db
+    .update(students)
+    .set({ quizRetakeUnlockedAt: new Date(), quizRetakeUnlockedBy: teacherId, updatedAt: new Date() })
+    .where(eq(students.id, studentId));
+}
+
+/**
+ * Withdraw an unused unlock
+ */
+export async function revokeRetakeUnlock(studentId: string): Promise<void> {
+  await db
+    .update(students)
+    .set({ quizRetakeUnlockedAt: null, quizRetakeUnlockedBy: null, updatedAt: new Date() })
+    .where(eq(students.id, studentId));
+}
+
+/**
+ * Check a retake answers every question in the bank exactly once, each with an option
+ * the question offers. Anything else would be scored on part of the quiz.
+ */
+export function assertCompleteAnswers(answers: QuizAnswer[], questions: Question[]): void {
+  const questionsById = new Map(questions.map(question => [question.id, question]));
+  const answered = new Set<number>();
+
+  for (const { questionId, answer } of answers) {
+    const question = questionsById.get(questionId);
+    if (!question) {
+      throw new ValidationError(`Question ${questionId} is not part of this quiz`);
+    }
+    if (answered.has(questionId)) {
+      throw new ValidationError(`Question ${questionId} was answered more than once`);
+    }
+    if (!question.options[answer]) {
+      throw new ValidationError(`Question ${questionId} has no answer ${answer}`);
+    }
+    answered.add(questionId);
+  }
+
+  if (answered.size !== questions.length) {
+    throw new ValidationError(`Answer all ${questions.length} questions before submitting`);
+  }
+}
+
+/**
+ * Score a retake on the server and record it as a new attempt.
+ * Earlier attempts are kept; the student's current result moves to the new one.
+ * Coins are only awarded for the first completion.
+ */
+export async function submitQuizRetake(studentId: string, answers: QuizAnswer[]) {
+  return db.transaction(async (tx) => {
+    // Lock the student so two retakes can't both pass the policy check
+    await tx
+      .select({ id: students.id })
+      .from(students)
+      .where(eq(students.id, studentId))
+      .for('update');
+
+    const state = await loadRetakeState(tx, studentId);
+    if (!state) {
+      throw new NotFoundError('Student');
+    }
+    if (!state.eligibility.allowed) {
+      throw new BusinessError('A retake is not available right now', ErrorCode.BIZ_004, {
+        reason: state.eligibility.reason,
+        availableAt: state.eligibility.availableAt
+      });
+    }
+
+    const bank = await getBankForClass(state.student.classId);
+    assertCompleteAnswers(answers, bank.questions);
+    const results = calculateResults(answers, bank.questions);
+
+    const animalType = typeLookup.getAnimalForPersonalityType(results.mbtiType);
+    const geniusType = animalType ? typeLookup.getGeniusForAnimal(animalType.id) : null;
+
+    if (!animalType || !geniusType) {
+      throw new Error(`No animal/genius mapped for personality type ${results.mbtiType}`);
+    }
+
+    const [submission] = await tx
+      .insert(quizSubmissions)
+      .values({
+        studentId,
+        animalTypeId: animalType.id,
+        geniusTypeId: geniusType.id,
+        questionBankId: bank.id,
+        answers,
+        personalityType: results.mbtiType,
+        learningStyle: results.learningStyle,
+        preferenceStrengths: results.preferenceStrengths,
+        borderline: results.borderline,
+        isBorderline: results.borderline.isBorderline,
+        coinsEarned: 0
+      })
+      .returning();
+
+    await tx
+      .update(students)
+      .set({
+        animalTypeId: animalType.id,
+        geniusTypeId: geniusType.id,
+        personalityType: results.mbtiType,
+        learningStyle: results.learningStyle,
+        quizRetakeUnlockedAt: null,
+        quizRetakeUnlockedBy: null,
+        updatedAt: new Date()
+      })
+      .where(eq(students.id, studentId));
+
+    return { submission, results, attempt: state.eligibility.attempts + 1 };
+  });
+}
+
+/**
+ * Every attempt a student has made, oldest first, with what changed between attempts
+ */
+export async function getStudentQuizHistory(studentId: string): Promise<QuizHistoryEntry[]> {
+  const rows = await db
+    .select({
+      submissionId: quizSubmissions.id,
+      animalType: animalTypes.name,
+      animalTypeCode: animalTypes.code,
+      geniusType: geniusTypes.name,
+      personalityType: quizSubmissions.personalityType,
+      learningStyle: quizSubmissions.learningStyle,
+      answers: quizSubmissions.answers,
+      isBorderline: quizSubmissions.isBorderline,
+      completedAt: quizSubmissions.completedAt
+    })
+    .from(quizSubmissions)
+    .leftJoin(animalTypes, eq(quizSubmissions.animalTypeId, animalTypes.id))
+    .leftJoin(geniusTypes, eq(quizSubmissions.geniusTypeId, geniusTypes.id))
+    .where(eq(quizSubmissions.studentId, studentId))
+    .orderBy(quizSubmissions.completedAt);
+
+  let previous: { animalTypeCode: string | null; learningStyle: string | null } | null = null;
+
+  return rows.map((row, index) => {
+    // Older submissions kept the result inside the answers JSON
+    const stored = row.answers && typeof row.answers === 'object' && !Array.isArray(row.answers)
+      ? row.answers as Record<string, unknown>
+      : {};
+    const personalityType = row.personalityType ||
+      (typeof stored.personalityType === 'string' ? stored.personalityType : null);
+    const learningStyle = row.learningStyle ||
+      (typeof stored.learningStyle === 'string' ? stored.learningStyle : null);
+
+    const entry: QuizHistoryEntry = {
+      submissionId: row.submissionId,
+      attempt: index + 1,
+      animalType: row.animalType,
+      animalTypeCode: row.animalTypeCode,
+      geniusType: row.geniusType,
+      personalityType,
+      learningStyle,
+      isBorderline: row.isBorderline,
+      animalChanged: !!previous && previous.animalTypeCode !== row.animalTypeCode,
+      learningStyleChanged: !!previous && !!learningStyle && !!previous.learningStyle &&
+        previous.learningStyle !== learningStyle,
+      completedAt: row.completedAt
+    };
+
+    previous = { animalTypeCode: row.animalTypeCode, learningStyle };
+    return entry;
+  });
+}
@@ -1,22 +1,10 @@
 import { db } from "../db";
-import { quizSubmissions, students, classes, currencyTransactions, animalTypes, geniusTypes } from "@shared/schema";
+import { quizSubmissions, students, classes, animalTypes } from "@shared/schema";
 import { eq, sql } from "drizzle-orm";
 import { generatePassportCode, CURRENCY_CONSTANTS } from "@shared/currency-types";
-
-/**
- * Maps animal codes to their primary genius type
- * FIXED: Using actual genius type codes from database
- */
-const ANIMAL_TO_GENIUS_MAP: Record<string, string> = {
-  'meerkat': 'feeler',
-  'parrot': 'thinker',
-  'otter': 'doer',
-  'panda': 'feeler',
-  'owl': 'thinker',
-  'beaver': 'doer',
-  'border-collie': 'doer',
-  'elephant': 'feeler'
-};
+import { assertRetakeAllowed } from "./quizRetakeService";
+import { typeLookup } from "./typeLookupService";
+import { postTransaction } from "./ledgerService";
 
 /**
  * Fast quiz submission - creates student and submission in one transaction
@@ -41,16 +29,11 @@ export async function createQuizSubmissionFast(submission: any) {
         throw new Error(`Animal type not found: ${submission.animalType}`);
       }
       
-      // Determine genius type based on animal
-      const geniusCode = ANIMAL_TO_GENIUS_MAP[submission.animalType.toLowerCase()] || 'creative';
-      const [geniusType] = await tx
-        .select()
-        .from(geniusTypes)
-        .where(eq(geniusTypes.code, geniusCode))
-        .limit(1);
+      // Genius type follows from the animal (animal_types.genius_type_id)
+      const geniusType = typeLookup.getGeniusForAnimal(animalType.id);
         
       if (!geniusType) {
-        throw new Error(`Genius type not found: ${geniusCode}`);
+        throw new Error(`No genius type mapped for animal: ${animalType.code}`);
       }
 
       // Check if student already exists with row lock to prevent race conditions
@@ -62,12 +45,20 @@ export async function createQuizSubmissionFast(submission: any) {
         .for('update'); // Lock the row to prevent concurrent quiz submissions
       
       let studentId: string;
-      let currencyBalance: number;
+      let isFirstCompletion = true;
       
       if (existingStudent) {
-        // Update existing student with exact balance calculation
+        // Resubmitting for an existing student is a retake, so the class policy applies
+        await assertRetakeAllowed(existingStudent.id, tx);
+        
         studentId = existingStudent.id;
-        currencyBalance = (existingStudent.currencyBalance || 0) + CURRENCY_CONSTANTS.QUIZ_COMPLETION_REWARD;
+
+        const [priorSubmission] = await tx
+          .select({ id: quizSubmissions.id })
+          .from(quizSubmissions)
+          .where(eq(quizSubmissions.studentId, existingStudent.id))
+          .limit(1);
+        isFirstCompletion = !priorSubmission;
         
         await tx
           .update(students)
@@ -77,8 +68,8 @@ export async function createQuizSubmissionFast(submission: any) {
             geniusTypeId: geniusType.id,
             personalityType: submission.personalityType,
             learningStyle: submission.learningStyle,
-            // Set exact balance we calculated while holding the lock
-            currencyBalance: currencyBalance
+            quizRetakeUnlockedAt: null,
+            quizRetakeUnlockedBy: null
           })
           .where(eq(students.id, existingStudent.id));
           
@@ -91,7 +82,7 @@ export async function createQuizSubmissionFast(submission: any) {
             classId: submission.classId,
             studentName: submission.studentName,
             passportCode: passportCode,
-            currencyBalance: CURRENCY_CONSTANTS.QUIZ_COMPLETION_REWARD,
+            currencyBalance: 0, // The reward is posted through the ledger below
             gradeLevel: submission.gradeLevel,
             animalTypeId: animalType.id,
             geniusTypeId: geniusType.id,
@@ -103,7 +94,6 @@ export async function createQuizSubmissionFast(submission: any) {
           .returning();
           
         studentId = newStudent.id;
-        currencyBalance = CURRENCY_CONSTANTS.QUIZ_COMPLETION_REWARD;
         console.log(`👤 Created new student: ${submission.studentName}`);
       }
       
@@ -114,6 +104,12 @@ export async function createQuizSubmissionFast(submission: any) {
           studentId: studentId,
           animalTypeId: animalType.id,
           geniusTypeId: geniusType.id,
+          questionBankId: submission.questionBankId || null,
+          personalityType: submission.personalityType || null,
+          learningStyle: submission.learningStyle || null,
+          preferenceStrengths: submission.preferenceStrengths || null,
+          borderline: submission.borderline || null,
+          isBorderline: !!submission.borderline?.isBorderline,
           answers: {
             personalityType: submission.personalityType,
             learningStyle: submission.learningStyle,
@@ -127,12 +123,22 @@ export async function createQuizSubmissionFast(submission: any) {
             scores: submission.scores || submission.answers?.scores || {},
             ...submission.answers // Include any other answer data
           },
-          coinsEarned: CURRENCY_CONSTANTS.QUIZ_COMPLETION_REWARD
+          coinsEarned: isFirstCompletion ? CURRENCY_CONSTANTS.QUIZ_COMPLETION_REWARD : 0
         })
         .returning();
 
       console.log(`✅ Quiz submitted for ${submission.studentName} (ID: ${submissionRecord.id})`);
       
+      // Retakes don't pay again
+      if (!isFirstCompletion) {
+        return {
+          submissionRecord,
+          studentId,
+          passportCode,
+          currencyBalance: existingStudent!.currencyBalance
+        };
+      }
+
       // Get class info for transaction log
       const [classRecord] = await tx
         .select()
@@ -140,23 +146,22 @@ export async function createQuizSubmissionFast(submission: any) {
         .where(eq(classes.id, submission.classId))
         .limit(1);
       
-      if (classRecord) {
-        // Log the currency transaction
-        await tx.insert(currencyTransactions).values({
-          studentId: studentId,
-          teacherId: classRecord.teacherId,
-          amount: CURRENCY_CONSTANTS.QUIZ_COMPLETION_REWARD,
-          description: 'Quiz completion reward',
-          transactionType: 'quiz_complete'
-        });
-        console.log(`💰 Awarded ${CURRENCY_CONSTANTS.QUIZ_COMPLETION_REWARD} coins to ${submission.studentName}`);
-      }
+      // One completion reward per student, even if the request is retried
+      const reward = await postTransaction({
+        studentId,
+        teacherId: classRecord?.teacherId ?? null,
+        amount: CURRENCY_CONSTANTS.QUIZ_COMPLETION_REWARD,
+        type: 'quiz_reward',
+        description: 'Quiz completion reward',
+        idempotencyKey: `quiz-completion:${studentId}`
+      }, tx);
+      console.log(`💰 Awarded ${CURRENCY_CONSTANTS.QUIZ_COMPLETION_REWARD} coins to ${submission.studentName}`);
       
       return {
         submissionRecord,
         studentId,
         passportCode,
-        currencyBalance: currencyBalance // Use the balance we already calculated
+        currencyBalance: reward.newBalance
       };
     });
     
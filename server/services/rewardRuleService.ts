@@ -0,0 +1,175 @@
+import { db } from "../db";
+import {
+  classRewardRules,
+  currencyTransactions,
+  students,
+  type ClassRewardRule,
+  type RewardRuleConditions
+} from "@shared/schema";
+import { and, asc, eq, gte, inArray, like, sql } from "drizzle-orm";
+import { isActiveStudent } from "../utils/student-scope";
+import { postTransaction, type Transaction } from "./ledgerService";
+import { NotFoundError } from "../utils/errors";
+
+export const REWARD_TRIGGERS = ['lesson_activity_complete', 'lesson_complete', 'achievement_unlock', 'game_score'] as const;
+export type RewardTrigger = typeof REWARD_TRIGGERS[number];
+
+const DEFAULT_DESCRIPTIONS: Record<RewardTrigger, string> = {
+  lesson_activity_complete: 'Lesson activity reward',
+  lesson_complete: 'Lesson completion bonus',
+  achievement_unlock: 'Achievement reward',
+  game_score: 'Game reward'
+};
+
+/**
+ * Something that happened which rules can pay out for. `eventKey` identifies the event
+ * (e.g. the score's ID), so retrying it never pays a rule twice.
+ */
+export interface RewardEvent {
+  trigger: RewardTrigger;
+  eventKey: string;
+  studentIds?: string[]; // Defaults to everyone in the class; deleted students are skipped
+  achievementCode?: string;
+  gameType?: string;
+  score?: number;
+}
+
+export interface RewardRuleAward {
+  ruleId: string;
+  studentId: string;
+  amount: number;
+  newBalance: number;
+}
+
+export interface RewardRuleInput {
+  trigger: RewardTrigger;
+  amount: number;
+  conditions?: RewardRuleConditions;
+  description?: string | null;
+  isActive?: boolean;
+}
+
+export async function listRewardRules(classId: string): Promise<ClassRewardRule[]> {
+  return db
+    .select()
+    .from(classRewardRules)
+    .where(eq(classRewardRules.classId, classId))
+    .orderBy(asc(classRewardRules.trigger), asc(classRewardRules.createdAt));
+}
+
+export async function createRewardRule(classId: string, createdBy: string, input: RewardRuleInput): Promise<ClassRewardRule> {
+  const [rule] = await db
+    .insert(classRewardRules)
+    .values({
+      classId,
+      createdBy,
+      trigger: input.trigger,
+      amount: input.amount,
+      conditions: input.conditions ?? {},
+      description: input.description ?? null,
+      isActive: input.isActive ?? true
+    })
+    .returning();
+  return rule;
+}
+
+export async function updateRewardRule(classId: string, ruleId: string, input: Partial<RewardRuleInput>): Promise<ClassRewardRule> {
+  const [rule] = await db
+    .update(classRewardRules)
+    .set({ ...input, updatedAt: new Date() })
+    .where(and(eq(classRewardRules.id, ruleId), eq(classRewardRules.classId, classId)))
+    .returning();
+
+  if (!rule) {
+    throw new NotFoundError('Reward rule');
+  }
+  return rule;
+}
+
+export async function deleteRewardRule(classId: string, ruleId: string): Promise<void> {
+  const [removed] = await db
+    .delete(classRewardRules)
+    .where(and(eq(classRewardRules.id, ruleId), eq(classRewardRules.classId, classId)))
+    .returning({ id: classRewardRules.id });
+
+  if (!removed) {
+    throw new NotFoundError('Reward rule');
+  }
+}
+
+function ruleMatches(conditions: RewardRuleConditions, event: RewardEvent): boolean {
+  if (conditions.achievementCode && conditions.achievementCode !== event.achievementCode) return false;
+  if (conditions.gameType && conditions.gameType !== event.gameType) return false;
+  if (conditions.minScore !== undefined && (event.score === undefined || event.score < conditions.minScore)) return false;
+  return true;
+}
+
+// How many times the student has earned this rule since midnight UTC, so the cap resets at
+// the same moment whatever time zone the server runs in
+async function countTodaysAwards(executor: Transaction | typeof db, ruleId: string, studentId: string): Promise<number> {
+  const startOfDay = new Date();
+  startOfDay.setUTCHours(0, 0, 0, 0);
+
+  const [row] = await executor
+    .select({ count: sql<number>`COUNT(*)::int` })
+    .from(currencyTransactions)
+    .where(and(
+      eq(currencyTransactions.studentId, studentId),
+      like(currencyTransactions.idempotencyKey, `reward-rule:${ruleId}:%`),
+      gte(currencyTransactions.createdAt, startOfDay)
+    ));
+  return Number(row?.count ?? 0);
+}
+
+/**
+ * Pay out the class's active rules for an event. Pass `tx` to make the awards part of
+ * the caller's transaction; without it each award is posted on its own.
+ */
+export async function applyRewardRules(classId: string, event: RewardEvent, tx?: Transaction): Promise<RewardRuleAward[]> {
+  const executor = tx ?? db;
+
+  const rules = (await executor
+    .select()
+    .from(classRewardRules)
+    .where(and(
+      eq(classRewardRules.classId, classId),
+      eq(classRewardRules.trigger, event.trigger),
+      eq(classRewardRules.isActive, true)
+    )))
+    .filter(rule => ruleMatches(rule.conditions, event));
+
+  if (rules.length === 0) return [];
+
+  const studentIds = (await executor
+    .select({ id: students.id })
+    .from(students)
+    .where(and(
+      eq(students.classId, classId),
+      event.studentIds ? inArray(students.id, event.studentIds) : undefined,
+      isActiveStudent()
+    ))).map(student => student.id);
+
+  const awards: RewardRuleAward[] = [];
+  for (const rule of rules) {
+    for (const studentId of studentIds) {
+      if (rule.conditions.maxPerDay !== undefined
+        && await countTodaysAwards(executor, rule.id, studentId) >= rule.conditions.maxPerDay) {
+        continue;
+      }
+
+      const result = await postTransaction({
+        studentId,
+        teacherId: rule.createdBy,
+        amount: rule.amount,
+        type: 'bonus',
+        description: rule.description || DEFAULT_DESCRIPTIONS[rule.trigger as RewardTrigger],
+        idempotencyKey: `reward-rule:${rule.id}:${event.eventKey}:${studentId}`
+      }, tx);
+
+      if (!result.duplicate) {
+        awards.push({ ruleId: rule.id, studentId, amount: rule.amount, newBalance: result.newBalance });
+      }
+    }
+  }
+  return awards;
+}
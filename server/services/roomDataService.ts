@@ -1,10 +1,12 @@
 import { db } from "../db";
 import { students, classes, storeSettings, storeItems, studentInventory, animalTypes, geniusTypes, itemTypes } from "@shared/schema";
 import { eq, and, desc, asc, sql } from "drizzle-orm";
+import { isActiveStudent } from "../utils/student-scope";
 import { getCache } from "../lib/cache-factory";
 
 const cache = getCache();
 import StorageRouter from "../services/storage-router";
+import { computeStoreStatus } from "./storeStatusService";
 
 // Cache management service for cleaner invalidation
 class StudentCacheManager {
@@ -101,13 +103,14 @@ export class RoomDataService {
         storeIsOpen: storeSettings.isOpen,
         storeOpenedAt: storeSettings.openedAt,
         storeClosesAt: storeSettings.closesAt,
+        storeConfig: storeSettings.settings,
       })
       .from(students)
       .innerJoin(classes, eq(students.classId, classes.id))
       .leftJoin(animalTypes, eq(students.animalTypeId, animalTypes.id))
       .leftJoin(geniusTypes, eq(students.geniusTypeId, geniusTypes.id))
       .leftJoin(storeSettings, eq(storeSettings.classId, classes.id))
-      .where(eq(students.passportCode, passportCode))
+      .where(and(eq(students.passportCode, passportCode), isActiveStudent()))
       .limit(1);
 
     if (studentData.length === 0) {
@@ -116,21 +119,13 @@ export class RoomDataService {
 
     const student = studentData[0];
     
-    // Determine store status
-    const now = new Date();
-    let isStoreOpen = student.storeIsOpen || false;
-    let storeMessage = "Store is open! Happy shopping!";
-    
-    if (!student.storeIsOpen) {
-      storeMessage = "Store is currently closed by your teacher.";
-      isStoreOpen = false;
-    } else if (student.storeClosesAt && new Date(student.storeClosesAt) < now) {
-      isStoreOpen = false;
-      storeMessage = "Store hours have ended for today.";
-    } else if (student.storeOpenedAt && new Date(student.storeOpenedAt) > now) {
-      isStoreOpen = false;
-      storeMessage = "Store will open soon!";
-    }
+    // Determine store status (same rules the purchase endpoint enforces)
+    const { isOpen: isStoreOpen, message: storeMessage } = computeStoreStatus({
+      isOpen: student.storeIsOpen || false,
+      openedAt: student.storeOpenedAt,
+      closesAt: student.storeClosesAt,
+      settings: student.storeConfig
+    });
     
     // Parallel fetch remaining data
     const [storeCatalog, inventoryData] = await Promise.all([
@@ -0,0 +1,153 @@
+import { EventEmitter } from "events";
+import { randomUUID } from "crypto";
+import { getCache } from "../lib/cache-factory";
+import { redisCache } from "../lib/redis-cache";
+import { createSecureLogger } from "../utils/secure-logger";
+
+const logger = createSecureLogger('RoomPresence');
+const cache = getCache();
+
+// Who is in a room lives in the cache (shared between instances with Redis). Viewers
+// refresh themselves while connected; anyone not seen for a minute has left.
+const PRESENCE_TTL = 120; // seconds
+const STALE_AFTER_MS = 60 * 1000;
+const presenceKey = (passportCode: string) => `room:presence:${passportCode}`;
+
+// Events go to this instance's listeners directly and, with Redis, to the other
+// instances over pub/sub
+const EVENT_CHANNEL_PREFIX = 'room-events:';
+const INSTANCE_ID = randomUUID();
+
+export type RoomEventType = 'viewer_joined' | 'viewer_left' | 'avatar_updated' | 'room_updated';
+
+export interface RoomEvent {
+  type: RoomEventType;
+  passportCode: string;
+  data: Record<string, unknown>;
+  at: string;
+}
+
+export interface RoomViewer {
+  id: string;
+  name: string;
+  joinedAt: string;
+}
+
+type StoredViewers = Record<string, { name: string; joinedAt: string; lastSeenAt: number }>;
+
+const localEvents = new EventEmitter();
+localEvents.setMaxListeners(0); // One listener per open connection
+
+let relaySubscribed: Promise<boolean> | null = null;
+
+function useRedis(): boolean {
+  return process.env.CACHE_TYPE === 'redis' && redisCache.isAvailable();
+}
+
+/**
+ * Start forwarding other instances' events to local listeners (once per process)
+ */
+function ensureRelay() {
+  if (relaySubscribed || !useRedis()) return;
+
+  relaySubscribed = redisCache.pSubscribe(`${EVENT_CHANNEL_PREFIX}*`, (message) => {
+    try {
+      const { origin, event } = JSON.parse(message) as { origin: string; event: RoomEvent };
+      if (origin !== INSTANCE_ID) {
+        localEvents.emit(event.passportCode, event);
+      }
+    } catch (error) {
+      logger.error('Dropping malformed room event', error);
+    }
+  }).then(subscribed => {
+    if (!subscribed) relaySubscribed = null; // Try again on the next connection
+    return subscribed;
+  });
+}
+
+async function readViewers(passportCode: string): Promise<StoredViewers> {
+  const stored = (await cache.get<StoredViewers>(presenceKey(passportCode))) || {};
+  const now = Date.now();
+  return Object.fromEntries(Object.entries(stored).filter(([, viewer]) => now - viewer.lastSeenAt < STALE_AFTER_MS));
+}
+
+// Read-modify-write: two instances updating the same room at the same moment can drop
+// one change, which the next refresh puts right
+async function writeViewers(passportCode: string, viewers: StoredViewers): Promise<void> {
+  if (Object.keys(viewers).length === 0) {
+    await cache.del(presenceKey(passportCode));
+  } else {
+    await cache.set(presenceKey(passportCode), viewers, PRESENCE_TTL);
+  }
+}
+
+const toList = (viewers: StoredViewers): RoomViewer[] =>
+  Object.entries(viewers).map(([id, viewer]) => ({ id, name: viewer.name, joinedAt: viewer.joinedAt }));
+
+/**
+ * Tell everyone watching the room (on any instance) that something changed
+ */
+export async function publishRoomEvent(passportCode: string, type: RoomEventType, data: Record<string, unknown> = {}): Promise<void> {
+  const event: RoomEvent = { type, passportCode, data, at: new Date().toISOString() };
+  localEvents.emit(passportCode, event);
+
+  if (useRedis()) {
+    await redisCache.publish(`${EVENT_CHANNEL_PREFIX}${passportCode}`, JSON.stringify({ origin: INSTANCE_ID, event }));
+  }
+}
+
+/**
+ * Listen for a room's events. Returns the function that stops listening.
+ */
+export function subscribeToRoom(passportCode: string, listener: (event: RoomEvent) => void): () => void {
+  ensureRelay();
+  localEvents.on(passportCode, listener);
+  return () => {
+    localEvents.off(passportCode, listener);
+  };
+}
+
+export async function getViewers(passportCode: string): Promise<RoomViewer[]> {
+  return toList(await readViewers(passportCode));
+}
+
+/**
+ * Add (or refresh) a viewer and announce them if they are new
+ */
+export async function joinRoom(passportCode: string, viewer: { id: string; name: string }): Promise<RoomViewer[]> {
+  const viewers = await readViewers(passportCode);
+  const isNew = !viewers[viewer.id];
+
+  viewers[viewer.id] = {
+    name: viewer.name,
+    joinedAt: viewers[viewer.id]?.joinedAt || new Date().toISOString(),
+    lastSeenAt: Date.now()
+  };
+  await writeViewers(passportCode, viewers);
+
+  if (isNew) {
+    await publishRoomEvent(passportCode, 'viewer_joined', { id: viewer.id, name: viewer.name });
+  }
+  return toList(viewers);
+}
+
+/**
+ * Keep a viewer in the room. Returns false if they had already dropped out.
+ */
+export async function touchViewer(passportCode: string, viewerId: string): Promise<boolean> {
+  const viewers = await readViewers(passportCode);
+  if (!viewers[viewerId]) return false;
+
+  viewers[viewerId].lastSeenAt = Date.now();
+  await writeViewers(passportCode, viewers);
+  return true;
+}
+
+export async function leaveRoom(passportCode: string, viewerId: string): Promise<void> {
+  const viewers = await readViewers(passportCode);
+  if (!viewers[viewerId]) return;
+
+  delete viewers[viewerId];
+  await writeViewers(passportCode, viewers);
+  await publishRoomEvent(passportCode, 'viewer_left', { id: viewerId });
+}
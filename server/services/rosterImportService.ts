@@ -0,0 +1,423 @@
+import ExcelJS from "exceljs";
+import { db } from "../db";
+import { rosterImports, students, quizSubmissions, type RosterImport } from "@shared/schema";
+import { and, desc, eq, isNull } from "drizzle-orm";
+import { isActiveStudent } from "../utils/student-scope";
+import { typeLookup } from "./typeLookupService";
+import { generateAnimalPassportCode } from "../passport-generator";
+import { ConflictError, NotFoundError, ValidationError } from "../utils/errors";
+import { toCsv } from "../utils/csv";
+
+export const ROSTER_FIELDS = ['firstName', 'lastInitial', 'fullName', 'gradeLevel', 'personalityType'] as const;
+export type RosterField = typeof ROSTER_FIELDS[number];
+export type ColumnMapping = Partial<Record<RosterField, string | null>>;
+
+export type ImportRow = RosterImport['rows'][number];
+
+export const MAX_IMPORT_ROWS = 500;
+
+// Header spellings we recognise, compared after lower-casing and dropping punctuation/spaces
+const HEADER_ALIASES: Record<RosterField, string[]> = {
+  firstName: ['firstname', 'first', 'givenname', 'forename', 'studentfirstname'],
+  lastInitial: ['lastinitial', 'lastname', 'last', 'surname', 'familyname', 'studentlastname'],
+  fullName: ['name', 'studentname', 'fullname', 'student'],
+  gradeLevel: ['gradelevel', 'grade', 'year', 'yeargroup'],
+  personalityType: ['personalitytype', 'personality', 'mbti', 'mbtitype', 'type']
+};
+
+const PERSONALITY_TYPE_PATTERN = /^[EI][SN][TF][JP]$/;
+const NAME_PATTERN = /^[\p{L}\s\-'.]+$/u;
+
+interface RosterSheet {
+  headers: string[];
+  rows: Array<{ row: number; values: string[] }>;
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * RFC 4180 CSV parsing: quoted fields may contain delimiters, quotes ("") and line breaks.
+ * The delimiter (comma, semicolon or tab) is taken from the first line.
+ */
+export function parseCsv(content: string): string[][] {
+  const text = content.replace(/^\uFEFF/, '');
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = [',', ';', '\t']
+    .map(candidate => ({ candidate, count: firstLine.split(candidate).length }))
+    .sort((a, b) => b.count - a.count)[0].candidate;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      field = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+async function readXlsx(buffer: Buffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+  } catch {
+    throw new ValidationError('Could not read the spreadsheet. Please upload a valid .xlsx file');
+  }
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: string[][] = [];
+  sheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+    const values: string[] = [];
+    for (let col = 1; col <= sheet.columnCount; col++) {
+      values.push(row.getCell(col).text);
+    }
+    rows[rowNumber - 1] = values;
+  });
+
+  // eachRow skips trailing rows; fill gaps so indexes stay sheet row numbers
+  return Array.from(rows, values => values || []);
+}
+
+/**
+ * Read an uploaded CSV or XLSX roster. The first non-blank row is the header row.
+ */
+export async function readRosterFile(file: { buffer: Buffer; originalname: string }): Promise<RosterSheet> {
+  const isXlsx = /\.xlsx$/i.test(file.originalname);
+  const raw = isXlsx ? await readXlsx(file.buffer) : parseCsv(file.buffer.toString('utf-8'));
+
+  const isBlank = (values: string[]) => values.every(value => value.trim() === '');
+  const headerIndex = raw.findIndex(values => !isBlank(values));
+  if (headerIndex === -1) {
+    throw new ValidationError('The file is empty');
+  }
+
+  const rows = raw
+    .map((values, index) => ({ row: index + 1, values: values.map(value => value.trim()) }))
+    .slice(headerIndex + 1)
+    .filter(({ values }) => !isBlank(values));
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new ValidationError(`Cannot import more than ${MAX_IMPORT_ROWS} students at once`);
+  }
+
+  return { headers: raw[headerIndex].map(header => header.trim()), rows };
+}
+
+/**
+ * Match source columns to roster fields. Explicit mappings win; anything left
+ * unmapped is matched by header name.
+ */
+export function resolveColumnMapping(headers: string[], override: ColumnMapping = {}): Record<RosterField, string | null> {
+  const mapping = {} as Record<RosterField, string | null>;
+
+  for (const field of ROSTER_FIELDS) {
+    if (field in override) {
+      const header = override[field];
+      if (header && !headers.includes(header)) {
+        throw new ValidationError(`Column "${header}" mapped to ${field} is not in the file`, undefined, { headers });
+      }
+      mapping[field] = header || null;
+      continue;
+    }
+    mapping[field] = headers.find(header => HEADER_ALIASES[field].includes(normalizeHeader(header))) || null;
+  }
+
+  if (!mapping.firstName && !mapping.fullName) {
+    throw new ValidationError('Could not find a first name or student name column. Please map the columns', undefined, { headers });
+  }
+
+  return mapping;
+}
+
+/**
+ * Validate every row and flag duplicates within the file and against the class
+ * (students are unique per class by name)
+ */
+export async function validateRosterRows(
+  classId: string,
+  sheet: RosterSheet,
+  mapping: Record<RosterField, string | null>
+): Promise<ImportRow[]> {
+  const column = (field: RosterField) => (mapping[field] ? sheet.headers.indexOf(mapping[field]!) : -1);
+  const columns = Object.fromEntries(ROSTER_FIELDS.map(field => [field, column(field)])) as Record<RosterField, number>;
+  const cell = (values: string[], field: RosterField) => (columns[field] >= 0 ? values[columns[field]] || '' : '');
+
+  const existing = await db
+    .select({ studentName: students.studentName })
+    .from(students)
+    .where(and(eq(students.classId, classId), isActiveStudent()));
+  const existingNames = new Set(existing.map(s => (s.studentName || '').toLowerCase()));
+  const seenNames = new Set<string>();
+
+  return sheet.rows.map(({ row, values }) => {
+    const errors: string[] = [];
+    // "First Last" or "Last, First"
+    const rawFullName = cell(values, 'fullName');
+    const fullName = (rawFullName.includes(',')
+      ? rawFullName.split(',').reverse().join(' ')
+      : rawFullName).split(/\s+/).filter(Boolean);
+
+    const firstName = cell(values, 'firstName') || fullName[0] || '';
+    const lastSource = cell(values, 'lastInitial') || (fullName.length > 1 ? fullName[fullName.length - 1] : '');
+    const lastInitial = lastSource.replace(/[^\p{L}]/gu, '').charAt(0).toUpperCase();
+    const gradeLevel = cell(values, 'gradeLevel') || null;
+    const personalityType = cell(values, 'personalityType').toUpperCase() || null;
+
+    if (!firstName) {
+      errors.push('First name is required');
+    } else if (!NAME_PATTERN.test(firstName) || firstName.length > 50) {
+      errors.push('First name can only contain letters, spaces, hyphens and apostrophes (up to 50 characters)');
+    }
+    if (!lastInitial) {
+      errors.push('Last name or initial is required');
+    }
+    if (gradeLevel && gradeLevel.length > 50) {
+      errors.push('Grade level must be less than 50 characters');
+    }
+    if (personalityType && (!PERSONALITY_TYPE_PATTERN.test(personalityType) || !typeLookup.getAnimalForPersonalityType(personalityType))) {
+      errors.push(`"${personalityType}" is not a personality type (expected e.g. INFP)`);
+    }
+
+    const studentName = firstName && lastInitial ? `${firstName} ${lastInitial}` : null;
+    let status: ImportRow['status'] = errors.length > 0 ? 'invalid' : 'ready';
+
+    if (status === 'ready' && studentName) {
+      const key = studentName.toLowerCase();
+      if (existingNames.has(key)) {
+        status = 'already_in_class';
+        errors.push(`${studentName} is already in this class`);
+      } else if (seenNames.has(key)) {
+        status = 'duplicate_in_file';
+        errors.push(`${studentName} appears more than once in the file`);
+      }
+      seenNames.add(key);
+    }
+
+    return {
+      row,
+      firstName: firstName || null,
+      lastInitial: lastInitial || null,
+      studentName,
+      gradeLevel,
+      personalityType,
+      status,
+      errors
+    };
+  });
+}
+
+function summarize(rows: ImportRow[]): RosterImport['summary'] {
+  return {
+    total: rows.length,
+    ready: rows.filter(r => r.status === 'ready').length,
+    created: rows.filter(r => r.status === 'created').length,
+    invalid: rows.filter(r => r.status === 'invalid').length,
+    duplicates: rows.filter(r => r.status === 'duplicate_in_file' || r.status === 'already_in_class').length
+  };
+}
+
+/**
+ * Parse, validate and record an upload. A dry run stops there (status 'preview');
+ * otherwise the ready rows are created straight away.
+ */
+export async function importRoster(params: {
+  classId: string;
+  teacherId: string;
+  file: { buffer: Buffer; originalname: string };
+  mapping?: ColumnMapping;
+  dryRun: boolean;
+}): Promise<RosterImport & { headers: string[] }> {
+  const sheet = await readRosterFile(params.file);
+  const columnMapping = resolveColumnMapping(sheet.headers, params.mapping);
+  const rows = await validateRosterRows(params.classId, sheet, columnMapping);
+
+  const [record] = await db
+    .insert(rosterImports)
+    .values({
+      classId: params.classId,
+      teacherId: params.teacherId,
+      fileName: params.file.originalname.slice(0, 255),
+      columnMapping,
+      summary: summarize(rows),
+      rows
+    })
+    .returning();
+
+  const result = params.dryRun ? record : await commitRosterImport(params.classId, record.id);
+  return { ...result, headers: sheet.headers };
+}
+
+/**
+ * Generate sample answers array (16 questions) for a student imported with a known type
+ */
+function generateSampleAnswers(personalityType: string) {
+  const [ei, sn, tf, jp] = personalityType.split('');
+
+  return Array.from({ length: 16 }, (_, index) => {
+    const i = index + 1;
+    let answer;
+    if (i <= 4) answer = ei === 'E' ? 'a' : 'b';
+    else if (i <= 8) answer = sn === 'S' ? 'a' : 'b';
+    else if (i <= 12) answer = tf === 'T' ? 'a' : 'b';
+    else answer = jp === 'J' ? 'a' : 'b';
+
+    return { questionId: i, answer, timestamp: new Date().toISOString() };
+  });
+}
+
+/**
+ * Create the ready rows of a previewed import. Rows are re-checked against the
+ * class on insert, so students added since the preview are skipped, not duplicated.
+ * Runs in one transaction: if any row fails, no students are created and the import
+ * stays uncommitted.
+ */
+export async function commitRosterImport(classId: string, importId: string): Promise<RosterImport> {
+  return db.transaction(async (tx) => {
+    // Locked so two commits of the same import can't both go ahead
+    const [record] = await tx
+      .select()
+      .from(rosterImports)
+      .where(and(eq(rosterImports.id, importId), eq(rosterImports.classId, classId)))
+      .limit(1)
+      .for('update');
+
+    if (!record) {
+      throw new NotFoundError('Import');
+    }
+    if (record.status === 'committed') {
+      throw new ConflictError('This import has already been committed');
+    }
+
+    const rows: ImportRow[] = [];
+    for (const row of record.rows) {
+      if (row.status !== 'ready' || !row.studentName) {
+        rows.push(row);
+        continue;
+      }
+
+      const animal = row.personalityType ? typeLookup.getAnimalForPersonalityType(row.personalityType) : null;
+      const genius = animal ? typeLookup.getGeniusForAnimal(animal.id) : null;
+
+      const [student] = await tx
+        .insert(students)
+        .values({
+          classId,
+          passportCode: await generateAnimalPassportCode(animal?.name || 'Unknown'),
+          studentName: row.studentName,
+          gradeLevel: row.gradeLevel,
+          personalityType: row.personalityType,
+          animalTypeId: animal?.id ?? null,
+          geniusTypeId: genius?.id ?? null
+        })
+        .onConflictDoNothing({ target: [students.classId, students.studentName], where: isNull(students.deletedAt) })
+        .returning();
+
+      if (!student) {
+        rows.push({ ...row, status: 'already_in_class', errors: [`${row.studentName} is already in this class`] });
+        continue;
+      }
+
+      // Students imported with a known type get a submission recording it
+      if (animal && genius && row.personalityType) {
+        await tx.insert(quizSubmissions).values({
+          studentId: student.id,
+          animalTypeId: animal.id,
+          geniusTypeId: genius.id,
+          answers: generateSampleAnswers(row.personalityType),
+          personalityType: row.personalityType,
+          coinsEarned: 0
+        });
+      }
+
+      rows.push({ ...row, status: 'created', studentId: student.id, passportCode: student.passportCode });
+    }
+
+    const [committed] = await tx
+      .update(rosterImports)
+      .set({ status: 'committed', rows, summary: summarize(rows), committedAt: new Date() })
+      .where(eq(rosterImports.id, importId))
+      .returning();
+
+    return committed;
+  });
+}
+
+export async function listRosterImports(classId: string) {
+  return db
+    .select({
+      id: rosterImports.id,
+      fileName: rosterImports.fileName,
+      status: rosterImports.status,
+      summary: rosterImports.summary,
+      committedAt: rosterImports.committedAt,
+      createdAt: rosterImports.createdAt
+    })
+    .from(rosterImports)
+    .where(eq(rosterImports.classId, classId))
+    .orderBy(desc(rosterImports.createdAt))
+    .limit(50);
+}
+
+export async function getRosterImport(classId: string, importId: string): Promise<RosterImport> {
+  const [record] = await db
+    .select()
+    .from(rosterImports)
+    .where(and(eq(rosterImports.id, importId), eq(rosterImports.classId, classId)))
+    .limit(1);
+
+  if (!record) {
+    throw new NotFoundError('Import');
+  }
+  return record;
+}
+
+/**
+ * The import report as CSV, one line per source row
+ */
+export function rosterImportReportCsv(record: RosterImport): string {
+  const header = ['Row', 'First Name', 'Last Initial', 'Student Name', 'Grade Level', 'Personality Type', 'Status', 'Passport Code', 'Errors'];
+  return toCsv(header, record.rows.map(row => [
+    row.row,
+    row.firstName,
+    row.lastInitial,
+    row.studentName,
+    row.gradeLevel,
+    row.personalityType,
+    row.status,
+    row.passportCode,
+    row.errors.join('; ')
+  ]));
+}
@@ -0,0 +1,208 @@
+import { db } from "../db";
+import { storeItems, itemTypes, type StoreItem } from "@shared/schema";
+import { and, asc, eq, isNull, ne, sql } from "drizzle-orm";
+import StorageRouter from "./storage-router";
+import { getCache } from "../lib/cache-factory";
+import { BusinessError, NotFoundError, ErrorCode } from "../utils/errors";
+import type { Transaction } from "./ledgerService";
+
+const cache = getCache();
+
+// Global items are cached once for everybody; a class's own items are cached per class.
+// Availability windows, sale prices and stock are worked out per request from the
+// cached rows, so a cached catalog never shows an expired sale.
+const GLOBAL_CATALOG_CACHE_KEY = 'store:catalog:global';
+const LEGACY_CATALOG_CACHE_KEY = 'store:catalog:active'; // /api/store/catalog
+const classCatalogCacheKey = (classId: string) => `store:catalog:class:${classId}`;
+const CATALOG_CACHE_TTL = 300; // 5 minutes in seconds
+
+type ScheduleFields = Pick<StoreItem,
+  'isActive' | 'cost' | 'availableFrom' | 'availableUntil' | 'salePercent' | 'saleStartsAt' | 'saleEndsAt' | 'stockLimit' | 'stockSold'>;
+
+// Cached rows come back with dates as strings from Redis
+const toDate = (value: Date | string | null) => (value ? new Date(value) : null);
+
+export function isItemAvailable(item: ScheduleFields, now = new Date()): boolean {
+  const from = toDate(item.availableFrom);
+  const until = toDate(item.availableUntil);
+  return !!item.isActive && (!from || from <= now) && (!until || until > now);
+}
+
+export function isOnSale(item: ScheduleFields, now = new Date()): boolean {
+  const starts = toDate(item.saleStartsAt);
+  const ends = toDate(item.saleEndsAt);
+  return !!item.salePercent && (!starts || starts <= now) && (!ends || ends > now);
+}
+
+/**
+ * What the item costs right now, after any running sale (rounded to whole coins)
+ */
+export function getItemPrice(item: ScheduleFields, now = new Date()): number {
+  if (!isOnSale(item, now)) return item.cost;
+  return Math.max(0, Math.round(item.cost * (100 - item.salePercent!) / 100));
+}
+
+export function getStockRemaining(item: ScheduleFields): number | null {
+  return item.stockLimit === null ? null : Math.max(0, item.stockLimit - item.stockSold);
+}
+
+const catalogColumns = {
+  id: storeItems.id,
+  name: storeItems.name,
+  description: storeItems.description,
+  cost: storeItems.cost,
+  rarity: storeItems.rarity,
+  itemTypeId: storeItems.itemTypeId,
+  itemCategory: itemTypes.category,
+  assetId: storeItems.assetId,
+  sortOrder: storeItems.sortOrder,
+  isActive: storeItems.isActive,
+  classId: storeItems.classId,
+  availableFrom: storeItems.availableFrom,
+  availableUntil: storeItems.availableUntil,
+  salePercent: storeItems.salePercent,
+  saleStartsAt: storeItems.saleStartsAt,
+  saleEndsAt: storeItems.saleEndsAt,
+  stockLimit: storeItems.stockLimit,
+  stockSold: storeItems.stockSold,
+  isRedeemable: storeItems.isRedeemable,
+  createdAt: storeItems.createdAt,
+  updatedAt: storeItems.updatedAt
+};
+
+// A catalog row as cached, with the image fields StorageRouter adds
+type CatalogRow = Pick<StoreItem, 'id' | 'name' | 'classId'> & ScheduleFields & Record<string, unknown>;
+
+async function loadCatalogRows(cacheKey: string, classId: string | null): Promise<CatalogRow[]> {
+  const cached = await cache.get<CatalogRow[]>(cacheKey);
+  if (cached) return cached;
+
+  const rows = await db
+    .select(catalogColumns)
+    .from(storeItems)
+    .innerJoin(itemTypes, eq(storeItems.itemTypeId, itemTypes.id))
+    .where(and(
+      eq(storeItems.isActive, true),
+      ne(itemTypes.category, 'garden'), // Exclude garden items for v2
+      classId ? eq(storeItems.classId, classId) : isNull(storeItems.classId)
+    ))
+    .orderBy(asc(storeItems.sortOrder), asc(storeItems.name));
+
+  // Prepare items with proper image URLs
+  const prepared = await StorageRouter.prepareStoreItemsResponse(rows);
+  await cache.set(cacheKey, prepared, CATALOG_CACHE_TTL);
+  return prepared;
+}
+
+/**
+ * The catalog a student sees: the global items plus their class's own items, limited to
+ * what is available now, with current prices and stock. Without a class only global items show.
+ */
+export async function getCatalog(classId?: string | null, now = new Date()) {
+  const [globalRows, classRows] = await Promise.all([
+    loadCatalogRows(GLOBAL_CATALOG_CACHE_KEY, null),
+    classId ? loadCatalogRows(classCatalogCacheKey(classId), classId) : Promise.resolve([])
+  ]);
+
+  return [...classRows, ...globalRows]
+    .filter(item => isItemAvailable(item, now))
+    .map(item => {
+      const stockRemaining = getStockRemaining(item);
+      const onSale = isOnSale(item, now);
+      return {
+        ...item,
+        cost: getItemPrice(item, now),
+        originalCost: item.cost,
+        onSale,
+        saleEndsAt: onSale ? item.saleEndsAt : null,
+        stockRemaining,
+        soldOut: stockRemaining === 0,
+        isClassItem: !!item.classId
+      };
+    });
+}
+
+/**
+ * The global items for the old /api/store/catalog route, garden items included as that
+ * route always had them, limited to what is available now and at their current price
+ */
+export async function getLegacyCatalog(now = new Date()): Promise<CatalogRow[]> {
+  let rows = await cache.get<CatalogRow[]>(LEGACY_CATALOG_CACHE_KEY);
+  if (!rows) {
+    const items = await db
+      .select()
+      .from(storeItems)
+      .where(and(eq(storeItems.isActive, true), isNull(storeItems.classId)))
+      .orderBy(asc(storeItems.sortOrder), asc(storeItems.name));
+
+    rows = await StorageRouter.prepareStoreItemsResponse(items);
+    await cache.set(LEGACY_CATALOG_CACHE_KEY, rows, CATALOG_CACHE_TTL);
+  }
+
+  return rows
+    .filter(item => isItemAvailable(item, now))
+    .map(item => ({ ...item, cost: getItemPrice(item, now), originalCost: item.cost }));
+}
+
+/**
+ * Forget cached catalog rows after items change. Pass the class for a class-only item;
+ * without it the global list is cleared.
+ */
+export async function invalidateCatalogCache(classId?: string | null): Promise<void> {
+  await cache.del(classId ? classCatalogCacheKey(classId) : [GLOBAL_CATALOG_CACHE_KEY, LEGACY_CATALOG_CACHE_KEY]);
+}
+
+/**
+ * Load an item for a student of `classId` to buy: it has to be active, in its availability
+ * window and either global or this class's own item. Locks the item row for the stock count.
+ */
+export async function getPurchasableItem(tx: Transaction, itemId: string, classId: string, now = new Date()): Promise<StoreItem> {
+  const [item] = await tx
+    .select()
+    .from(storeItems)
+    .where(and(
+      eq(storeItems.id, itemId),
+      eq(storeItems.isActive, true),
+      sql`(${storeItems.classId} IS NULL OR ${storeItems.classId} = ${classId})`
+    ))
+    .limit(1)
+    .for('update');
+
+  if (!item) {
+    throw new NotFoundError('Store item');
+  }
+  if (!isItemAvailable(item, now)) {
+    throw new BusinessError('This item is not available right now', ErrorCode.BIZ_008);
+  }
+  if (getStockRemaining(item) === 0) {
+    throw new BusinessError('Sold out!', ErrorCode.BIZ_007);
+  }
+  return item;
+}
+
+/**
+ * Count a unit of a limited item as sold (no-op for unlimited items)
+ */
+export async function claimStock(tx: Transaction, item: StoreItem): Promise<void> {
+  if (item.stockLimit === null) return;
+
+  const [claimed] = await tx
+    .update(storeItems)
+    .set({ stockSold: sql`${storeItems.stockSold} + 1` })
+    .where(and(eq(storeItems.id, item.id), sql`${storeItems.stockSold} < ${storeItems.stockLimit}`))
+    .returning({ stockSold: storeItems.stockSold });
+
+  if (!claimed) {
+    throw new BusinessError('Sold out!', ErrorCode.BIZ_007);
+  }
+}
+
+/**
+ * Put a unit back, e.g. when a pending purchase is denied or cancelled
+ */
+export async function releaseStock(tx: Transaction, itemId: string): Promise<void> {
+  await tx
+    .update(storeItems)
+    .set({ stockSold: sql`GREATEST(${storeItems.stockSold} - 1, 0)` })
+    .where(and(eq(storeItems.id, itemId), sql`${storeItems.stockLimit} IS NOT NULL`));
+}
@@ -0,0 +1,133 @@
+import { db } from "../db";
+import { storeSettings, type StoreSettings, type StoreHours } from "@shared/schema";
+import { eq } from "drizzle-orm";
+
+export const DEFAULT_STORE_TIMEZONE = 'America/Phoenix';
+
+export type StoreClosedReason = 'never_opened' | 'closed' | 'hours_ended' | 'not_yet_open' | 'outside_hours';
+
+export interface StoreStatus {
+  isOpen: boolean;
+  reason: StoreClosedReason | null;
+  message: string;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether `now` falls inside the weekly schedule, in the schedule's own timezone.
+ * An overnight window (close before open) belongs to the day it opened on.
+ */
+export function isWithinStoreHours(hours: StoreHours, now = new Date()): boolean {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: hours.timezone || DEFAULT_STORE_TIMEZONE,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(now);
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+
+  const today = WEEKDAYS.indexOf(part('weekday'));
+  const minutes = Number(part('hour')) * 60 + Number(part('minute'));
+  const open = toMinutes(hours.openTime);
+  const close = toMinutes(hours.closeTime);
+
+  let openedOn: number;
+  if (open === close) {
+    openedOn = today; // Open all day
+  } else if (open < close) {
+    if (minutes < open || minutes >= close) return false;
+    openedOn = today;
+  } else if (minutes >= open) {
+    openedOn = today;
+  } else if (minutes < close) {
+    openedOn = (today + 6) % 7;
+  } else {
+    return false;
+  }
+
+  return !hours.days || hours.days.length === 0 || hours.days.includes(openedOn);
+}
+
+/**
+ * Effective store state for a class: the teacher's open/closed switch first,
+ * then the time it was closed at, then the weekly hours
+ */
+export function computeStoreStatus(
+  settings: Pick<StoreSettings, 'isOpen' | 'openedAt' | 'closesAt' | 'settings'> | null | undefined,
+  now = new Date()
+): StoreStatus {
+  if (!settings) {
+    return { isOpen: false, reason: 'never_opened', message: "Store hasn't been opened yet." };
+  }
+  if (!settings.isOpen) {
+    return { isOpen: false, reason: 'closed', message: 'Store is currently closed by your teacher.' };
+  }
+  if (settings.closesAt && new Date(settings.closesAt) < now) {
+    return { isOpen: false, reason: 'hours_ended', message: 'Store hours have ended for today.' };
+  }
+  if (settings.openedAt && new Date(settings.openedAt) > now) {
+    return { isOpen: false, reason: 'not_yet_open', message: 'Store will open soon!' };
+  }
+
+  const hours = settings.settings?.hours;
+  if (hours && !isWithinStoreHours(hours, now)) {
+    return {
+      isOpen: false,
+      reason: 'outside_hours',
+      message: `The store is open ${hours.openTime}–${hours.closeTime}. Come back then!`
+    };
+  }
+
+  return { isOpen: true, reason: null, message: 'Store is open! Happy shopping!' };
+}
+
+export async function getClassStoreSettings(classId: string): Promise<StoreSettings | null> {
+  const [settings] = await db
+    .select()
+    .from(storeSettings)
+    .where(eq(storeSettings.classId, classId))
+    .limit(1);
+  return settings || null;
+}
+
+/**
+ * Whether a purchase of this cost has to wait for the teacher.
+ * No threshold set means purchases go straight through; null means every purchase needs approval.
+ */
+export function requiresPurchaseApproval(settings: StoreSettings | null, cost: number): boolean {
+  const config = settings?.settings;
+  if (!config || !('autoApprovalThreshold' in config) || config.autoApprovalThreshold === undefined) {
+    return false;
+  }
+  return config.autoApprovalThreshold === null || cost > config.autoApprovalThreshold;
+}
+
+export const DEFAULT_SELL_BACK_PERCENT = 50;
+export const DEFAULT_REFUND_GRACE_MINUTES = 10;
+
+/**
+ * How much a sold-back item returns for a class, falling back to the defaults
+ */
+export function getSellBackPolicy(settings: StoreSettings | null) {
+  const config = settings?.settings;
+  return {
+    sellBackPercent: config?.sellBackPercent ?? DEFAULT_SELL_BACK_PERCENT,
+    refundGraceMinutes: config?.refundGraceMinutes ?? DEFAULT_REFUND_GRACE_MINUTES
+  };
+}
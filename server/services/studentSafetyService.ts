@@ -0,0 +1,290 @@
+import { db } from "../db";
+import { studentBlocks, studentReports, roomGuestbook, students, classes, profiles, type StudentReport } from "@shared/schema";
+import { and, desc, eq, or } from "drizzle-orm";
+import { isActiveStudent } from "../utils/student-scope";
+import { sendEmail } from "./email";
+import { ConflictError, NotFoundError, ValidationError } from "../utils/errors";
+import { createSecureLogger } from "../utils/secure-logger";
+
+const logger = createSecureLogger('StudentSafety');
+
+export const REPORT_REASONS = ['unkind', 'inappropriate', 'personal_info', 'other'] as const;
+export type ReportReason = typeof REPORT_REASONS[number];
+
+export const REPORT_STATUSES = ['open', 'resolved', 'dismissed'] as const;
+export type ReportStatus = typeof REPORT_STATUSES[number];
+
+const REASON_LABELS: Record<ReportReason, string> = {
+  unkind: 'Being unkind',
+  inappropriate: 'Something inappropriate',
+  personal_info: 'Sharing personal information',
+  other: 'Something else'
+};
+
+async function findClassmateByPassport(studentId: string, passportCode: string) {
+  const [me] = await db
+    .select({ classId: students.classId })
+    .from(students)
+    .where(and(eq(students.id, studentId), isActiveStudent()))
+    .limit(1);
+
+  const [classmate] = me
+    ? await db
+        .select({ id: students.id, studentName: students.studentName, passportCode: students.passportCode })
+        .from(students)
+        .where(and(eq(students.passportCode, passportCode), eq(students.classId, me.classId), isActiveStudent()))
+        .limit(1)
+    : [];
+
+  if (!classmate) {
+    throw new NotFoundError('Classmate');
+  }
+  if (classmate.id === studentId) {
+    throw new ValidationError('You can\'t block or report yourself');
+  }
+  return classmate;
+}
+
+/**
+ * Whether the room owner has blocked the visitor
+ */
+export async function isBlockedBy(ownerStudentId: string, visitorStudentId: string): Promise<boolean> {
+  const [block] = await db
+    .select({ id: studentBlocks.id })
+    .from(studentBlocks)
+    .where(and(eq(studentBlocks.blockerStudentId, ownerStudentId), eq(studentBlocks.blockedStudentId, visitorStudentId)))
+    .limit(1);
+  return !!block;
+}
+
+/**
+ * Students the student shouldn't see in lists: everyone they blocked and everyone who
+ * blocked them
+ */
+export async function getHiddenStudentIds(studentId: string): Promise<string[]> {
+  const blocks = await db
+    .select({ blockerStudentId: studentBlocks.blockerStudentId, blockedStudentId: studentBlocks.blockedStudentId })
+    .from(studentBlocks)
+    .where(or(eq(studentBlocks.blockerStudentId, studentId), eq(studentBlocks.blockedStudentId, studentId)));
+
+  return blocks.map(block => block.blockerStudentId === studentId ? block.blockedStudentId : block.blockerStudentId);
+}
+
+export async function listBlocks(studentId: string) {
+  return db
+    .select({
+      studentName: students.studentName,
+      passportCode: students.passportCode,
+      blockedAt: studentBlocks.createdAt
+    })
+    .from(studentBlocks)
+    .innerJoin(students, eq(studentBlocks.blockedStudentId, students.id))
+    .where(eq(studentBlocks.blockerStudentId, studentId))
+    .orderBy(desc(studentBlocks.createdAt));
+}
+
+/**
+ * Block a classmate. Blocking twice is fine.
+ */
+export async function blockStudent(studentId: string, passportCode: string) {
+  const classmate = await findClassmateByPassport(studentId, passportCode);
+
+  await db
+    .insert(studentBlocks)
+    .values({ blockerStudentId: studentId, blockedStudentId: classmate.id })
+    .onConflictDoNothing();
+
+  return { studentName: classmate.studentName, passportCode: classmate.passportCode };
+}
+
+export async function unblockStudent(studentId: string, passportCode: string): Promise<void> {
+  const [blocked] = await db
+    .select({ id: students.id })
+    .from(students)
+    .where(eq(students.passportCode, passportCode))
+    .limit(1);
+
+  if (blocked) {
+    await db
+      .delete(studentBlocks)
+      .where(and(eq(studentBlocks.blockerStudentId, studentId), eq(studentBlocks.blockedStudentId, blocked.id)));
+  }
+}
+
+/**
+ * Tell the class's teacher about a new report. Failures are logged, never surfaced to the student.
+ */
+async function notifyTeacher(report: StudentReport) {
+  try {
+    const [recipient] = await db
+      .select({ email: profiles.email, className: classes.name })
+      .from(classes)
+      .innerJoin(profiles, eq(classes.teacherId, profiles.id))
+      .where(eq(classes.id, report.classId))
+      .limit(1);
+
+    if (!recipient) return;
+
+    const reason = REASON_LABELS[report.reason as ReportReason];
+    await sendEmail({
+      to: recipient.email,
+      subject: `A student in ${recipient.className} made a report`,
+      html: `<p>A student in <strong>${recipient.className}</strong> reported a classmate: ${reason}.</p>`
+        + '<p>Open the class dashboard to review it.</p>',
+      text: `A student in ${recipient.className} reported a classmate: ${reason}. Open the class dashboard to review it.`
+    });
+  } catch (error) {
+    logger.error('Failed to notify teacher of report', { reportId: report.id, error });
+  }
+}
+
+/**
+ * A student reporting a classmate, or a guestbook message they can see. Reporting a
+ * message in your own guestbook hides it straight away.
+ */
+export async function createReport(studentId: string, params: {
+  passportCode?: string;
+  guestbookMessageId?: string;
+  reason: ReportReason;
+  details?: string | null;
+}): Promise<StudentReport> {
+  if (!params.passportCode === !params.guestbookMessageId) {
+    throw new ValidationError('Report either a classmate or a guestbook message');
+  }
+
+  const [reporter] = await db
+    .select({ id: students.id, classId: students.classId })
+    .from(students)
+    .where(and(eq(students.id, studentId), isActiveStudent()))
+    .limit(1);
+
+  if (!reporter) {
+    throw new NotFoundError('Student');
+  }
+
+  let reportedStudentId: string;
+  let message: { id: string; message: string; roomOwnerStudentId: string } | null = null;
+
+  if (params.guestbookMessageId) {
+    const [found] = await db
+      .select({
+        id: roomGuestbook.id,
+        message: roomGuestbook.message,
+        roomOwnerStudentId: roomGuestbook.roomOwnerStudentId,
+        visitorStudentId: roomGuestbook.visitorStudentId,
+        roomClassId: students.classId
+      })
+      .from(roomGuestbook)
+      .innerJoin(students, eq(roomGuestbook.roomOwnerStudentId, students.id))
+      .where(eq(roomGuestbook.id, params.guestbookMessageId))
+      .limit(1);
+
+    if (!found || found.roomClassId !== reporter.classId) {
+      throw new NotFoundError('Guestbook message');
+    }
+    if (found.visitorStudentId === studentId) {
+      throw new ValidationError('You can delete your own message instead');
+    }
+    reportedStudentId = found.visitorStudentId;
+    message = found;
+  } else {
+    reportedStudentId = (await findClassmateByPassport(studentId, params.passportCode!)).id;
+  }
+
+  const [existing] = await db
+    .select({ id: studentReports.id })
+    .from(studentReports)
+    .where(and(
+      eq(studentReports.reporterStudentId, studentId),
+      eq(studentReports.reportedStudentId, reportedStudentId),
+      eq(studentReports.status, 'open'),
+      message ? eq(studentReports.guestbookMessageId, message.id) : undefined
+    ))
+    .limit(1);
+
+  if (existing) {
+    throw new ConflictError('You already reported this and your teacher hasn\'t looked at it yet');
+  }
+
+  const report = await db.transaction(async (tx) => {
+    if (message && message.roomOwnerStudentId === studentId) {
+      await tx
+        .update(roomGuestbook)
+        .set({ status: 'hidden_by_user', updatedAt: new Date() })
+        .where(eq(roomGuestbook.id, message.id));
+    }
+
+    const [created] = await tx
+      .insert(studentReports)
+      .values({
+        classId: reporter.classId,
+        reporterStudentId: studentId,
+        reportedStudentId,
+        guestbookMessageId: message?.id ?? null,
+        messageSnapshot: message?.message ?? null,
+        reason: params.reason,
+        details: params.details || null
+      })
+      .returning();
+    return created;
+  });
+
+  void notifyTeacher(report);
+  return report;
+}
+
+/**
+ * Reports for a class (open ones by default), newest first, with who reported whom
+ */
+export async function listReports(classId: string, status: ReportStatus = 'open') {
+  const reports = await db
+    .select()
+    .from(studentReports)
+    .where(and(eq(studentReports.classId, classId), eq(studentReports.status, status)))
+    .orderBy(desc(studentReports.createdAt))
+    .limit(200);
+
+  const names = new Map(
+    (await db
+      .select({ id: students.id, studentName: students.studentName })
+      .from(students)
+      .where(eq(students.classId, classId)))
+      .map(student => [student.id, student.studentName])
+  );
+
+  return reports.map(report => ({
+    ...report,
+    reporterName: names.get(report.reporterStudentId) ?? null,
+    reportedName: names.get(report.reportedStudentId) ?? null
+  }));
+}
+
+/**
+ * Close a report as dealt with or as nothing to act on
+ */
+export async function closeReport(
+  classId: string,
+  reportId: string,
+  teacherId: string,
+  status: Exclude<ReportStatus, 'open'>,
+  note?: string | null
+): Promise<StudentReport> {
+  const [updated] = await db
+    .update(studentReports)
+    .set({ status, resolvedBy: teacherId, resolvedAt: new Date(), teacherNote: note || null })
+    .where(and(eq(studentReports.id, reportId), eq(studentReports.classId, classId), eq(studentReports.status, 'open')))
+    .returning();
+
+  if (!updated) {
+    const [report] = await db
+      .select({ status: studentReports.status })
+      .from(studentReports)
+      .where(and(eq(studentReports.id, reportId), eq(studentReports.classId, classId)))
+      .limit(1);
+    if (!report) {
+      throw new NotFoundError('Report');
+    }
+    throw new ConflictError(`Report has already been ${report.status}`);
+  }
+  return updated;
+}
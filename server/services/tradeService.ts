@@ -0,0 +1,482 @@
+import { db } from "../db";
+import {
+  classes,
+  students,
+  studentInventory,
+  storeItems,
+  studentTrades,
+  studentTradeEvents,
+  type StudentTrade
+} from "@shared/schema";
+import { and, asc, desc, eq, inArray, or } from "drizzle-orm";
+import { isActiveStudent } from "../utils/student-scope";
+import { postTransaction, type Transaction } from "./ledgerService";
+import {
+  AppError,
+  BusinessError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+  ErrorCode
+} from "../utils/errors";
+
+export const TRADE_STATUSES = ['pending', 'awaiting_approval', 'completed', 'declined', 'cancelled', 'rejected'] as const;
+export type TradeStatus = typeof TRADE_STATUSES[number];
+export type TradeKind = 'gift' | 'trade';
+
+export interface TradeProposal {
+  kind: TradeKind;
+  toStudentId: string;
+  offerCoins?: number;
+  offerItemIds?: string[];
+  requestCoins?: number; // Trades only
+  requestItemIds?: string[]; // Trades only
+  message?: string | null;
+}
+
+interface TradeActor {
+  studentId?: string;
+  teacherId?: string;
+}
+
+async function getTradingSettings(executor: Transaction | typeof db, classId: string) {
+  const [settings] = await executor
+    .select({ tradingEnabled: classes.tradingEnabled, tradingRequiresApproval: classes.tradingRequiresApproval })
+    .from(classes)
+    .where(eq(classes.id, classId))
+    .limit(1);
+
+  if (!settings) {
+    throw new NotFoundError('Class');
+  }
+  if (!settings.tradingEnabled) {
+    throw new BusinessError('Gifting and trading are turned off for this class', ErrorCode.BIZ_009);
+  }
+  return settings;
+}
+
+async function logEvent(executor: Transaction | typeof db, tradeId: string, event: string, actor: TradeActor, details?: Record<string, unknown>) {
+  await executor.insert(studentTradeEvents).values({
+    tradeId,
+    event,
+    actorStudentId: actor.studentId ?? null,
+    actorTeacherId: actor.teacherId ?? null,
+    details: details ?? null
+  });
+}
+
+/**
+ * Lock the owner's inventory rows for the given store items. Every item has to still be
+ * there and not in use.
+ */
+async function lockOwnedItems(tx: Transaction, ownerId: string, itemIds: string[], ownerName: string | null) {
+  if (itemIds.length === 0) return [];
+
+  const rows = await tx
+    .select({ id: studentInventory.id, storeItemId: studentInventory.storeItemId, isEquipped: studentInventory.isEquipped, name: storeItems.name })
+    .from(studentInventory)
+    .innerJoin(storeItems, eq(studentInventory.storeItemId, storeItems.id))
+    .where(and(eq(studentInventory.studentId, ownerId), inArray(studentInventory.storeItemId, itemIds)))
+    .for('update', { of: studentInventory });
+
+  if (rows.length !== itemIds.length) {
+    throw new ConflictError(`${ownerName || 'A student'} no longer has every item in this trade`);
+  }
+  const equipped = rows.find(row => row.isEquipped);
+  if (equipped) {
+    throw new BusinessError(`${equipped.name} is being used. Unequip it before trading it.`, ErrorCode.BIZ_008);
+  }
+  return rows;
+}
+
+// Hand locked inventory rows to the other student. What was paid stays with the buyer, so
+// a traded item sells back at the normal rate and never as a full refund.
+async function moveItems(tx: Transaction, rows: { id: string; storeItemId: string; name: string }[], toStudentId: string) {
+  if (rows.length === 0) return;
+
+  const [alreadyOwned] = await tx
+    .select({ storeItemId: studentInventory.storeItemId })
+    .from(studentInventory)
+    .where(and(eq(studentInventory.studentId, toStudentId), inArray(studentInventory.storeItemId, rows.map(row => row.storeItemId))))
+    .limit(1);
+
+  if (alreadyOwned) {
+    const name = rows.find(row => row.storeItemId === alreadyOwned.storeItemId)?.name;
+    throw new ConflictError(`They already own ${name || 'one of these items'}`, ErrorCode.BIZ_002);
+  }
+
+  await tx
+    .update(studentInventory)
+    .set({ studentId: toStudentId, isEquipped: false, acquiredAt: new Date(), purchasePrice: null, purchaseTransactionId: null })
+    .where(inArray(studentInventory.id, rows.map(row => row.id)));
+}
+
+// Both legs of a coin transfer, keyed so a retried completion can't move coins twice
+async function transferCoins(
+  tx: Transaction,
+  trade: StudentTrade,
+  leg: 'offer' | 'request',
+  from: { id: string; studentName: string | null },
+  to: { id: string; studentName: string | null },
+  amount: number
+) {
+  if (amount <= 0) return;
+
+  const label = trade.kind === 'gift' ? 'Gift' : 'Trade';
+  await postTransaction({
+    studentId: from.id,
+    amount: -amount,
+    type: 'transfer_out',
+    description: `${label} to ${to.studentName || 'a classmate'}`,
+    idempotencyKey: `trade:${trade.id}:${leg}:out`
+  }, tx);
+  await postTransaction({
+    studentId: to.id,
+    amount,
+    type: 'transfer_in',
+    description: `${label} from ${from.studentName || 'a classmate'}`,
+    idempotencyKey: `trade:${trade.id}:${leg}:in`
+  }, tx);
+}
+
+/**
+ * Move everything in the trade, checking both sides under row locks the same way a
+ * store purchase does. Both students must still be in the trade's class.
+ */
+async function completeTrade(tx: Transaction, trade: StudentTrade, actor: TradeActor) {
+  // Lock both students in a fixed order so two trades between the same pair can't deadlock
+  const parties = await tx
+    .select({ id: students.id, studentName: students.studentName, classId: students.classId })
+    .from(students)
+    .where(and(inArray(students.id, [trade.fromStudentId, trade.toStudentId]), isActiveStudent()))
+    .orderBy(asc(students.id))
+    .for('update');
+
+  const from = parties.find(student => student.id === trade.fromStudentId);
+  const to = parties.find(student => student.id === trade.toStudentId);
+  if (!from || !to || from.classId !== trade.classId || to.classId !== trade.classId) {
+    throw new BusinessError('Both students need to be in the same class to trade', ErrorCode.BIZ_009);
+  }
+
+  const offered = await lockOwnedItems(tx, from.id, trade.offerItemIds, from.studentName);
+  const requested = await lockOwnedItems(tx, to.id, trade.requestItemIds, to.studentName);
+
+  await moveItems(tx, offered, to.id);
+  await moveItems(tx, requested, from.id);
+  await transferCoins(tx, trade, 'offer', from, to, trade.offerCoins);
+  await transferCoins(tx, trade, 'request', to, from, trade.requestCoins);
+
+  const [completed] = await tx
+    .update(studentTrades)
+    .set({ status: 'completed', completedAt: new Date(), updatedAt: new Date() })
+    .where(eq(studentTrades.id, trade.id))
+    .returning();
+
+  await logEvent(tx, trade.id, 'completed', actor, {
+    offerCoins: trade.offerCoins,
+    offerItems: offered.map(row => row.name),
+    requestCoins: trade.requestCoins,
+    requestItems: requested.map(row => row.name)
+  });
+  return completed;
+}
+
+/**
+ * Complete a locked trade in its own transaction. If completing fails (an item was given
+ * away, not enough coins) everything rolls back, and the failure is kept in the audit trail.
+ */
+async function attemptCompletion(
+  tradeId: string,
+  actor: TradeActor,
+  step: (tx: Transaction, complete: (trade: StudentTrade) => Promise<StudentTrade>) => Promise<StudentTrade>
+): Promise<StudentTrade> {
+  const attempt = { started: false };
+  try {
+    return await db.transaction(tx => step(tx, trade => {
+      attempt.started = true;
+      return completeTrade(tx, trade, actor);
+    }));
+  } catch (error) {
+    if (attempt.started && error instanceof AppError && error.statusCode < 500) {
+      await logEvent(db, tradeId, 'failed', actor, { code: error.code, message: error.message });
+    }
+    throw error;
+  }
+}
+
+function assertValidProposal(proposal: TradeProposal) {
+  const offerItemIds = proposal.offerItemIds ?? [];
+  const requestItemIds = proposal.requestItemIds ?? [];
+  const offers = (proposal.offerCoins ?? 0) > 0 || offerItemIds.length > 0;
+  const requests = (proposal.requestCoins ?? 0) > 0 || requestItemIds.length > 0;
+
+  if (!offers) {
+    throw new ValidationError('Offer at least one item or some coins');
+  }
+  if (proposal.kind === 'gift' && requests) {
+    throw new ValidationError('A gift can\'t ask for anything back. Propose a trade instead.');
+  }
+  if (proposal.kind === 'trade' && !requests) {
+    throw new ValidationError('Ask for at least one item or some coins in return, or send a gift');
+  }
+}
+
+/**
+ * Propose a trade (the classmate accepts or declines) or send a gift. Gifts skip the
+ * classmate's answer and complete straight away unless the class needs teacher approval.
+ */
+export async function proposeTrade(studentId: string, proposal: TradeProposal): Promise<StudentTrade> {
+  assertValidProposal(proposal);
+  const offerItemIds = [...new Set(proposal.offerItemIds ?? [])];
+  const requestItemIds = [...new Set(proposal.requestItemIds ?? [])];
+
+  if (proposal.toStudentId === studentId) {
+    throw new ValidationError('You can\'t trade with yourself');
+  }
+
+  return db.transaction(async (tx) => {
+    // Lock both students in id order, the same order completeTrade uses
+    const parties = await tx
+      .select({ id: students.id, studentName: students.studentName, classId: students.classId, currencyBalance: students.currencyBalance })
+      .from(students)
+      .where(and(inArray(students.id, [studentId, proposal.toStudentId]), isActiveStudent()))
+      .orderBy(asc(students.id))
+      .for('update');
+
+    const sender = parties.find(student => student.id === studentId);
+    if (!sender) {
+      throw new NotFoundError('Student');
+    }
+
+    const settings = await getTradingSettings(tx, sender.classId);
+
+    const recipient = parties.find(student => student.id === proposal.toStudentId && student.classId === sender.classId);
+    if (!recipient) {
+      throw new NotFoundError('Classmate');
+    }
+
+    // Early checks so students hear about problems now; completing the trade checks again
+    const offerCoins = proposal.offerCoins ?? 0;
+    if (sender.currencyBalance < offerCoins) {
+      throw new BusinessError(`You have ${sender.currencyBalance} coins but offered ${offerCoins}`, ErrorCode.BIZ_001);
+    }
+    await lockOwnedItems(tx, sender.id, offerItemIds, 'You');
+    await lockOwnedItems(tx, recipient.id, requestItemIds, recipient.studentName);
+
+    const [trade] = await tx
+      .insert(studentTrades)
+      .values({
+        classId: sender.classId,
+        kind: proposal.kind,
+        fromStudentId: sender.id,
+        toStudentId: recipient.id,
+        offerCoins,
+        offerItemIds,
+        requestCoins: proposal.requestCoins ?? 0,
+        requestItemIds,
+        message: proposal.message || null,
+        status: proposal.kind === 'gift' && settings.tradingRequiresApproval ? 'awaiting_approval' : 'pending'
+      })
+      .returning();
+
+    await logEvent(tx, trade.id, 'proposed', { studentId });
+
+    if (proposal.kind === 'gift' && !settings.tradingRequiresApproval) {
+      return completeTrade(tx, trade, { studentId });
+    }
+    return trade;
+  });
+}
+
+// Lock a trade for a decision and check it is still at the expected step
+async function lockTrade(tx: Transaction, tradeId: string, scope: { classId?: string; fromStudentId?: string; toStudentId?: string }, expected: TradeStatus[]) {
+  const conditions = [eq(studentTrades.id, tradeId)];
+  if (scope.classId) conditions.push(eq(studentTrades.classId, scope.classId));
+  if (scope.fromStudentId) conditions.push(eq(studentTrades.fromStudentId, scope.fromStudentId));
+  if (scope.toStudentId) conditions.push(eq(studentTrades.toStudentId, scope.toStudentId));
+
+  const [trade] = await tx
+    .select()
+    .from(studentTrades)
+    .where(and(...conditions))
+    .limit(1)
+    .for('update');
+
+  if (!trade) {
+    throw new NotFoundError('Trade');
+  }
+  if (!expected.includes(trade.status as TradeStatus)) {
+    throw new ConflictError(`This ${trade.kind} is already ${trade.status.replace('_', ' ')}`);
+  }
+  return trade;
+}
+
+async function closeTrade(tx: Transaction, trade: StudentTrade, status: TradeStatus, actor: TradeActor, note?: string | null) {
+  const [updated] = await tx
+    .update(studentTrades)
+    .set({
+      status,
+      ...(actor.teacherId && { decidedBy: actor.teacherId }),
+      ...(note !== undefined && { note: note || null }),
+      updatedAt: new Date()
+    })
+    .where(eq(studentTrades.id, trade.id))
+    .returning();
+
+  await logEvent(tx, trade.id, status === 'awaiting_approval' ? 'accepted' : status, actor, note ? { note } : undefined);
+  return updated;
+}
+
+/**
+ * The classmate's answer to a trade. Accepting completes it, or hands it to the teacher
+ * when the class needs approval.
+ */
+export async function respondToTrade(studentId: string, tradeId: string, accept: boolean): Promise<StudentTrade> {
+  const actor = { studentId };
+  if (!accept) {
+    return db.transaction(async (tx) => {
+      const trade = await lockTrade(tx, tradeId, { toStudentId: studentId }, ['pending']);
+      return closeTrade(tx, trade, 'declined', actor);
+    });
+  }
+
+  return attemptCompletion(tradeId, actor, async (tx, complete) => {
+    const trade = await lockTrade(tx, tradeId, { toStudentId: studentId }, ['pending']);
+    const settings = await getTradingSettings(tx, trade.classId);
+
+    if (settings.tradingRequiresApproval) {
+      return closeTrade(tx, trade, 'awaiting_approval', actor);
+    }
+    await logEvent(tx, trade.id, 'accepted', actor);
+    return complete(trade);
+  });
+}
+
+/**
+ * The proposing student withdrawing a gift or trade that hasn't completed
+ */
+export async function cancelTrade(studentId: string, tradeId: string): Promise<StudentTrade> {
+  return db.transaction(async (tx) => {
+    const trade = await lockTrade(tx, tradeId, { fromStudentId: studentId }, ['pending', 'awaiting_approval']);
+    return closeTrade(tx, trade, 'cancelled', { studentId });
+  });
+}
+
+/**
+ * Teacher approval: approving completes the gift or trade, rejecting closes it with nothing moved
+ */
+export async function decideTrade(classId: string, tradeId: string, teacherId: string, approve: boolean, note?: string | null): Promise<StudentTrade> {
+  const actor = { teacherId };
+  if (!approve) {
+    return db.transaction(async (tx) => {
+      const trade = await lockTrade(tx, tradeId, { classId }, ['awaiting_approval']);
+      return closeTrade(tx, trade, 'rejected', actor, note);
+    });
+  }
+
+  return attemptCompletion(tradeId, actor, async (tx, complete) => {
+    const trade = await lockTrade(tx, tradeId, { classId }, ['awaiting_approval']);
+    await tx
+      .update(studentTrades)
+      .set({ decidedBy: teacherId })
+      .where(eq(studentTrades.id, trade.id));
+    await logEvent(tx, trade.id, 'approved', actor);
+    return complete(trade);
+  });
+}
+
+// Student and item names for a page of trades, looked up once
+async function describeTrades(trades: StudentTrade[]) {
+  const studentIds = [...new Set(trades.flatMap(trade => [trade.fromStudentId, trade.toStudentId]))];
+  const itemIds = [...new Set(trades.flatMap(trade => [...trade.offerItemIds, ...trade.requestItemIds]))];
+
+  const [names, items] = await Promise.all([
+    studentIds.length
+      ? db.select({ id: students.id, studentName: students.studentName }).from(students).where(inArray(students.id, studentIds))
+      : Promise.resolve([]),
+    itemIds.length
+      ? db.select({ id: storeItems.id, name: storeItems.name }).from(storeItems).where(inArray(storeItems.id, itemIds))
+      : Promise.resolve([])
+  ]);
+
+  const studentName = new Map(names.map(row => [row.id, row.studentName]));
+  const itemName = new Map(items.map(row => [row.id, row.name]));
+  const toItems = (ids: string[]) => ids.map(id => ({ id, name: itemName.get(id) ?? null }));
+
+  return trades.map(trade => ({
+    ...trade,
+    fromStudentName: studentName.get(trade.fromStudentId) ?? null,
+    toStudentName: studentName.get(trade.toStudentId) ?? null,
+    offerItems: toItems(trade.offerItemIds),
+    requestItems: toItems(trade.requestItemIds)
+  }));
+}
+
+/**
+ * Gifts and trades for a class, or those a student sent or received, newest first
+ */
+export async function listTrades(filter: { classId?: string; studentId?: string; status?: TradeStatus }) {
+  const conditions = [];
+  if (filter.classId) conditions.push(eq(studentTrades.classId, filter.classId));
+  if (filter.studentId) {
+    conditions.push(or(eq(studentTrades.fromStudentId, filter.studentId), eq(studentTrades.toStudentId, filter.studentId)));
+  }
+  if (filter.status) conditions.push(eq(studentTrades.status, filter.status));
+
+  const trades = await db
+    .select()
+    .from(studentTrades)
+    .where(and(...conditions))
+    .orderBy(desc(studentTrades.createdAt))
+    .limit(200);
+
+  return describeTrades(trades);
+}
+
+/**
+ * One trade with its full audit trail, oldest step first
+ */
+export async function getTradeHistory(classId: string, tradeId: string) {
+  const [trade] = await db
+    .select()
+    .from(studentTrades)
+    .where(and(eq(studentTrades.id, tradeId), eq(studentTrades.classId, classId)))
+    .limit(1);
+
+  if (!trade) {
+    throw new NotFoundError('Trade');
+  }
+
+  const [[described], events] = await Promise.all([
+    describeTrades([trade]),
+    db
+      .select()
+      .from(studentTradeEvents)
+      .where(eq(studentTradeEvents.tradeId, trade.id))
+      .orderBy(asc(studentTradeEvents.createdAt))
+  ]);
+
+  return { ...described, events };
+}
+
+/**
+ * The class's audit trail across all gifts and trades, newest first
+ */
+export async function listTradeEvents(classId: string, limit = 200) {
+  return db
+    .select({
+      id: studentTradeEvents.id,
+      tradeId: studentTradeEvents.tradeId,
+      kind: studentTrades.kind,
+      event: studentTradeEvents.event,
+      actorStudentId: studentTradeEvents.actorStudentId,
+      actorTeacherId: studentTradeEvents.actorTeacherId,
+      details: studentTradeEvents.details,
+      createdAt: studentTradeEvents.createdAt
+    })
+    .from(studentTradeEvents)
+    .innerJoin(studentTrades, eq(studentTradeEvents.tradeId, studentTrades.id))
+    .where(eq(studentTrades.classId, classId))
+    .orderBy(desc(studentTradeEvents.createdAt))
+    .limit(limit);
+}
@@ -1,5 +1,5 @@
 import { db } from "../db";
-import { animalTypes, itemTypes, geniusTypes } from "@shared/schema";
+import { animalTypes, itemTypes, geniusTypes, personalityAnimalMappings } from "@shared/schema";
 import { eq } from "drizzle-orm";
 import * as fs from 'fs/promises';
 import * as path from 'path';
@@ -18,8 +18,11 @@ export class TypeLookupService {
   private static instance: TypeLookupService;
   
   // Maps for quick lookups
-  private animalsByCode = new Map<string, { id: string; name: string }>();
-  private animalsById = new Map<string, { code: string; name: string }>();
+  private animalsByCode = new Map<string, { id: string; name: string; geniusTypeId: string | null }>();
+  private animalsById = new Map<string, { code: string; name: string; geniusTypeId: string | null }>();
+  
+  // MBTI type (e.g. 'INFP') -> animal type ID
+  private animalIdByPersonality = new Map<string, string>();
   
   private itemsByCode = new Map<string, { id: string; name: string; category: string }>();
   private itemsById = new Map<string, { code: string; name: string; category: string }>();
@@ -62,6 +65,7 @@ export class TypeLookupService {
       console.log(`   - ${this.itemsByCode.size} item types loaded`);
       console.log(`   - ${this.geniusByCode.size} genius types loaded`);
       console.log(`   - ${this.answerTypesByCode.size} answer types loaded`);
+      console.log(`   - ${this.animalIdByPersonality.size} personality mappings loaded`);
     } catch (error) {
       console.error("❌ Failed to initialize Type Lookup Service:", error);
       throw error;
@@ -84,6 +88,7 @@ export class TypeLookupService {
     this.geniusById.clear();
     this.answerTypesByCode.clear();
     this.answerTypesById.clear();
+    this.animalIdByPersonality.clear();
     
     // Reload from database
     await this.loadFromDatabase();
@@ -100,7 +105,8 @@ export class TypeLookupService {
       this.loadAnimalTypes(),
       this.loadItemTypes(),
       this.loadGeniusTypes(),
-      this.loadAnswerTypes()
+      this.loadAnswerTypes(),
+      this.loadPersonalityMappings()
     ]);
   }
   
@@ -152,8 +158,19 @@ export class TypeLookupService {
     const animals = await db.select().from(animalTypes);
     
     for (const animal of animals) {
-      this.animalsByCode.set(animal.code, { id: animal.id, name: animal.name });
-      this.animalsById.set(animal.id, { code: animal.code, name: animal.name });
+      this.animalsByCode.set(animal.code, { id: animal.id, name: animal.name, geniusTypeId: animal.geniusTypeId });
+      this.animalsById.set(animal.id, { code: animal.code, name: animal.name, geniusTypeId: animal.geniusTypeId });
+    }
+  }
+  
+  /**
+   * Load MBTI type -> animal mappings into memory
+   */
+  private async loadPersonalityMappings(): Promise<void> {
+    const mappings = await db.select().from(personalityAnimalMappings);
+    
+    for (const mapping of mappings) {
+      this.animalIdByPersonality.set(mapping.personalityType.toUpperCase(), mapping.animalTypeId);
     }
   }
   
@@ -249,6 +266,53 @@ export class TypeLookupService {
     return this.animalsByCode.get(code)?.name || null;
   }
   
+  /**
+   * Get the animal for an MBTI type (e.g. 'INFP')
+   */
+  getAnimalForPersonalityType(personalityType: string): { id: string; code: string; name: string } | null {
+    const animalId = this.animalIdByPersonality.get(personalityType.toUpperCase());
+    if (!animalId) return null;
+    
+    const animal = this.animalsById.get(animalId);
+    return animal ? { id: animalId, code: animal.code, name: animal.name } : null;
+  }
+  
+  /**
+   * Get the genius type for an animal (code, name or ID)
+   */
+  getGeniusForAnimal(animal: string): { id: string; code: string; name: string } | null {
+    const animalId = this.animalsById.has(animal) ? animal : this.getAnimalTypeId(animal);
+    const geniusTypeId = animalId ? this.animalsById.get(animalId)?.geniusTypeId : null;
+    if (!geniusTypeId) return null;
+    
+    const genius = this.geniusById.get(geniusTypeId);
+    return genius ? { id: geniusTypeId, code: genius.code, name: genius.name } : null;
+  }
+  
+  /**
+   * MBTI type -> animal name, in the shape of the hard-coded animalMap
+   */
+  getPersonalityAnimalMap(): Record<string, string> {
+    const map: Record<string, string> = {};
+    for (const [personalityType, animalId] of this.animalIdByPersonality) {
+      const animal = this.animalsById.get(animalId);
+      if (animal) map[personalityType] = animal.name;
+    }
+    return map;
+  }
+  
+  /**
+   * Animal name -> genius name, in the shape of the hard-coded animalGeniusMap
+   */
+  getAnimalGeniusMap(): Record<string, string> {
+    const map: Record<string, string> = {};
+    for (const animal of this.animalsById.values()) {
+      const genius = animal.geniusTypeId ? this.geniusById.get(animal.geniusTypeId) : undefined;
+      if (genius) map[animal.name] = genius.name;
+    }
+    return map;
+  }
+  
   // ===== ITEM TYPE METHODS =====
   
   /**
@@ -376,7 +440,8 @@ export class TypeLookupService {
         animalTypes: this.animalsByCode.size,
         itemTypes: this.itemsByCode.size,
         geniusTypes: this.geniusByCode.size,
-        answerTypes: this.answerTypesByCode.size
+        answerTypes: this.answerTypesByCode.size,
+        personalityMappings: this.animalIdByPersonality.size
       }
     };
   }
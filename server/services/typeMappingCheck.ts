@@ -0,0 +1,70 @@
+import { typeLookup } from "./typeLookupService";
+import { animalMap, animalGeniusMap } from "@shared/scoring";
+import { animalDetails } from "@shared/animal-details";
+import {
+  animalMap as edgeAnimalMap,
+  animalGeniusMap as edgeAnimalGeniusMap
+} from "../../supabase/functions/_shared/scoring.ts";
+
+const same = (a: string | undefined, b: string | undefined) =>
+  !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+// The hard-coded copies: shared/ for the server quiz scorer and the frontend, and
+// supabase/functions/_shared/ for the quiz-submit edge function. The SQL functions look
+// the mappings up from the tables instead (supabase/migrations/20261024_*).
+const ANIMAL_MAPS = { animalMap, 'edge animalMap': edgeAnimalMap };
+const GENIUS_MAPS = { animalGeniusMap, 'edge animalGeniusMap': edgeAnimalGeniusMap };
+
+/**
+ * The animal_types / personality_animal_mappings tables own the MBTI -> animal and
+ * animal -> genius mappings. Every hard-coded copy must agree with them; returns every
+ * disagreement found.
+ */
+export function findTypeMappingMismatches(): string[] {
+  const mismatches: string[] = [];
+  const dbAnimals = typeLookup.getPersonalityAnimalMap();
+  const dbGenius = typeLookup.getAnimalGeniusMap();
+
+  for (const [label, copy] of Object.entries(ANIMAL_MAPS)) {
+    for (const [personalityType, animal] of Object.entries(copy)) {
+      if (!same(dbAnimals[personalityType], animal)) {
+        mismatches.push(`${label}.${personalityType} is '${animal}', database has '${dbAnimals[personalityType] ?? 'nothing'}'`);
+      }
+    }
+    for (const personalityType of Object.keys(dbAnimals)) {
+      if (!(personalityType in copy)) {
+        mismatches.push(`${label} is missing ${personalityType} (database has '${dbAnimals[personalityType]}')`);
+      }
+    }
+  }
+
+  const lookupGenius = (animal: string) =>
+    Object.entries(dbGenius).find(([name]) => same(name, animal))?.[1];
+
+  for (const [label, copy] of Object.entries(GENIUS_MAPS)) {
+    for (const [animal, genius] of Object.entries(copy)) {
+      const expected = lookupGenius(animal);
+      if (!same(expected, genius)) {
+        mismatches.push(`${label}['${animal}'] is '${genius}', database has '${expected ?? 'nothing'}'`);
+      }
+    }
+  }
+  for (const [animal, details] of Object.entries(animalDetails)) {
+    const expected = lookupGenius(animal);
+    if (!same(expected, details.genius)) {
+      mismatches.push(`animalDetails['${animal}'].genius is '${details.genius}', database has '${expected ?? 'nothing'}'`);
+    }
+  }
+
+  return mismatches;
+}
+
+/**
+ * Fail startup if any hard-coded mapping has drifted from the database
+ */
+export function assertTypeMappingsConsistent(): void {
+  const mismatches = findTypeMappingMismatches();
+  if (mismatches.length > 0) {
+    throw new Error(`Type mappings disagree with the database:\n  - ${mismatches.join('\n  - ')}`);
+  }
+}
@@ -1,7 +1,9 @@
 import { db } from "./db";
 import { eq, desc, and, inArray } from "drizzle-orm";
+import { isActiveStudent } from "./utils/student-scope";
 import { students, quizSubmissions, animalTypes, geniusTypes } from "@shared/schema";
 import type { ClassAnalyticsStudent, QuizAnswers } from "@shared/types/storage-types";
+import { analyzeMbtiScores } from "@shared/scoring";
 
 /**
  * Optimized version of getClassAnalytics that avoids complex window functions
@@ -21,7 +23,7 @@ export async function getClassAnalyticsOptimized(classId: string): Promise<Class
         learningStyle: students.learningStyle
       })
       .from(students)
-      .where(eq(students.classId, classId));
+      .where(and(eq(students.classId, classId), isActiveStudent()));
 
   if (classStudents.length === 0) {
     return [];
@@ -39,6 +41,8 @@ export async function getClassAnalyticsOptimized(classId: string): Promise<Class
       geniusTypeName: geniusTypes.name,
       geniusTypeCode: geniusTypes.code,
       answers: quizSubmissions.answers,
+      preferenceStrengths: quizSubmissions.preferenceStrengths,
+      borderline: quizSubmissions.borderline,
       completedAt: quizSubmissions.completedAt
     })
     .from(quizSubmissions)
@@ -83,6 +87,13 @@ export async function getClassAnalyticsOptimized(classId: string): Promise<Class
       if (answers.learningScores) learningScores = answers.learningScores;
     }
 
+    // Older submissions didn't record confidence; derive it from stored scores where we can
+    let preferenceStrengths = latestSubmission?.preferenceStrengths || null;
+    let borderline = latestSubmission?.borderline || null;
+    if (!borderline && scores) {
+      ({ preferenceStrengths, borderline } = analyzeMbtiScores(scores));
+    }
+
     return {
       id: student.id, // Use the actual UUID
       studentId: student.id,
@@ -95,6 +106,8 @@ export async function getClassAnalyticsOptimized(classId: string): Promise<Class
       learningStyle: learningStyle,
       learningScores: learningScores,
       scores: scores,
+      preferenceStrengths,
+      borderline,
       completedAt: latestSubmission?.completedAt ? new Date(latestSubmission.completedAt) : null,
       passportCode: student.passportCode,
       currencyBalance: student.currencyBalance || 0
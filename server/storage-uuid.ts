@@ -36,11 +36,14 @@ import type {
   QuizAnswers
 } from "@shared/types/storage-types";
 import { db } from "./db";
-import { eq, desc, count, and, sql, inArray } from "drizzle-orm";
+import { eq, desc, count, and, sql, inArray, isNull } from "drizzle-orm";
+import { isActiveStudent } from "./utils/student-scope";
 import { createClient } from '@supabase/supabase-js';
 import { getAnimalTypeId, getGeniusTypeId } from './type-lookup';
 import { generateClassPassportCode, generateAnimalPassportCode } from './passport-generator';
 import { getClassAnalyticsOptimized } from './storage-uuid-optimized';
+import { postTransaction } from './services/ledgerService';
+import type { TransactionType } from '@shared/currency-types';
 
 // Initialize Supabase client
 const supabaseUrl = process.env.SUPABASE_URL || '';
@@ -67,6 +70,7 @@ export interface IUUIDStorage {
   getStudentById(id: string): Promise<Student | undefined>;
   getStudentsByClassId(classId: string): Promise<Student[]>;
   updateStudent(id: string, data: Partial<Student>): Promise<Student>;
+  deleteStudent(id: string): Promise<void>;
   
   // Quiz submission operations
   createQuizSubmission(submission: NewQuizSubmission): Promise<QuizSubmission>;
@@ -88,8 +92,9 @@ export interface IUUIDStorage {
     studentId: string;
     teacherId: string;
     amount: number;
-    transactionType: string;
+    transactionType: TransactionType;
     description: string;
+    idempotencyKey?: string;
   }): Promise<{ transaction: CurrencyTransaction; newBalance: number }>;
   
   
@@ -107,8 +112,8 @@ export interface IUUIDStorage {
   logAdminAction(log: NewAdminLog): Promise<AdminLog>;
   
   // Store settings
-  getStoreSettings(teacherId: string): Promise<StoreSettings>;
-  updateStoreSettings(teacherId: string, settings: StoreSettings): Promise<void>;
+  getStoreSettings(classId: string): Promise<StoreSettings>;
+  updateStoreSettings(classId: string, teacherId: string, settings: StoreSettings): Promise<void>;
 }
 
 export class UUIDStorage implements IUUIDStorage {
@@ -174,15 +179,24 @@ export class UUIDStorage implements IUUIDStorage {
         backgroundColor: classes.backgroundColor,
         numberOfStudents: classes.numberOfStudents,
         isArchived: classes.isArchived,
+        archivedAt: classes.archivedAt,
         hasValuesSet: classes.hasValuesSet,
         valuesSetAt: classes.valuesSetAt,
+        quizBankId: classes.quizBankId,
+        quizRetakePolicy: classes.quizRetakePolicy,
+        quizRetakeCooldownDays: classes.quizRetakeCooldownDays,
+        defaultLocale: classes.defaultLocale,
+        tradingEnabled: classes.tradingEnabled,
+        tradingRequiresApproval: classes.tradingRequiresApproval,
+        petSlots: classes.petSlots,
+        petVacation: classes.petVacation,
         createdAt: classes.createdAt,
         updatedAt: classes.updatedAt,
         deletedAt: classes.deletedAt,
         studentCount: sql<number>`COUNT(${students.id})`.as('studentCount')
       })
       .from(classes)
-      .leftJoin(students, eq(classes.id, students.classId))
+      .leftJoin(students, and(eq(classes.id, students.classId), isActiveStudent()))
       .where(and(
         eq(classes.teacherId, teacherId),
         sql`${classes.deletedAt} IS NULL`
@@ -191,13 +205,21 @@ export class UUIDStorage implements IUUIDStorage {
     return result;
   }
 
+  // Deleted classes and students are left out everywhere below; they are only reachable
+  // through the lifecycle service (restore, purge) until they are purged
   async getClassByClassCode(code: string): Promise<Class | undefined> {
-    const [classRecord] = await db.select().from(classes).where(eq(classes.classCode, code));
+    const [classRecord] = await db.select().from(classes).where(and(
+      eq(classes.classCode, code),
+      isNull(classes.deletedAt)
+    ));
     return classRecord;
   }
 
   async getClassById(id: string): Promise<Class | undefined> {
-    const [classRecord] = await db.select().from(classes).where(eq(classes.id, id));
+    const [classRecord] = await db.select().from(classes).where(and(
+      eq(classes.id, id),
+      isNull(classes.deletedAt)
+    ));
     return classRecord;
   }
 
@@ -205,19 +227,24 @@ export class UUIDStorage implements IUUIDStorage {
     const result = await db
       .select({ count: sql<number>`COUNT(*)`.as('count') })
       .from(students)
-      .where(eq(students.classId, classId));
+      .where(and(eq(students.classId, classId), isActiveStudent()));
     return result[0]?.count || 0;
   }
 
   async deleteClass(id: string): Promise<void> {
-    // Soft delete by setting deletedAt timestamp
-    await db
-      .update(classes)
-      .set({ 
-        deletedAt: new Date(),
-        isArchived: true 
-      })
-      .where(eq(classes.id, id));
+    // Soft delete: the class's students get the same timestamp so restoring the class
+    // brings back exactly the students deleted with it
+    const deletedAt = new Date();
+    await db.transaction(async (tx) => {
+      await tx
+        .update(classes)
+        .set({ deletedAt, updatedAt: deletedAt })
+        .where(and(eq(classes.id, id), isNull(classes.deletedAt)));
+      await tx
+        .update(students)
+        .set({ deletedAt })
+        .where(and(eq(students.classId, id), isActiveStudent()));
+    });
   }
 
   async updateClass(id: string, data: Partial<Class>): Promise<Class> {
@@ -296,6 +323,7 @@ export class UUIDStorage implements IUUIDStorage {
       })
       .onConflictDoUpdate({
         target: [students.classId, students.studentName],
+        targetWhere: isNull(students.deletedAt),
         set: {
           gradeLevel: studentData.gradeLevel,
           personalityType: studentData.personalityType,
@@ -312,24 +340,38 @@ export class UUIDStorage implements IUUIDStorage {
   }
 
   async getStudentById(id: string): Promise<Student | undefined> {
-    const [student] = await db.select().from(students).where(eq(students.id, id));
+    const [student] = await db.select().from(students).where(and(
+      eq(students.id, id),
+      isActiveStudent()
+    ));
     return student;
   }
 
   async getStudentsByClassId(classId: string): Promise<Student[]> {
-    return await db.select().from(students).where(eq(students.classId, classId));
+    return await db.select().from(students).where(and(
+      eq(students.classId, classId),
+      isActiveStudent()
+    ));
   }
 
   async updateStudent(id: string, data: Partial<Student>): Promise<Student> {
     const [student] = await db
       .update(students)
       .set(data)
-      .where(eq(students.id, id))
+      .where(and(eq(students.id, id), isActiveStudent()))
       .returning();
     if (!student) throw new Error("Student not found");
     return student;
   }
 
+  async deleteStudent(id: string): Promise<void> {
+    // Soft delete; the student's inventory, pets and coins stay for a restore
+    await db
+      .update(students)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(students.id, id), isActiveStudent()));
+  }
+
   // Quiz submission operations
   async createQuizSubmission(submission: NewQuizSubmission): Promise<QuizSubmission> {
     const [quizSubmission] = await db
@@ -364,18 +406,14 @@ export class UUIDStorage implements IUUIDStorage {
         })
         .returning();
       
-      await tx
-        .insert(currencyTransactions)
-        .values(transaction);
-      
-      // Update student's currency balance
-      await tx
-        .update(students)
-        .set({
-          currencyBalance: sql`${students.currencyBalance} + ${transaction.amount}`,
-          updatedAt: new Date()
-        })
-        .where(eq(students.id, submission.studentId));
+      await postTransaction({
+        studentId: submission.studentId,
+        teacherId: transaction.teacherId,
+        amount: transaction.amount,
+        type: transaction.transactionType,
+        description: transaction.description || 'Quiz completion reward',
+        idempotencyKey: transaction.idempotencyKey || `quiz-completion:${submission.studentId}`
+      }, tx);
         
       return quizSubmission;
     });
@@ -411,7 +449,7 @@ export class UUIDStorage implements IUUIDStorage {
     const studentIdsQuery = db
       .select({ id: students.id })
       .from(students)
-      .where(eq(students.classId, classId));
+      .where(and(eq(students.classId, classId), isActiveStudent()));
 
     return await db
       .select()
@@ -468,7 +506,7 @@ export class UUIDStorage implements IUUIDStorage {
       )
       .leftJoin(animalTypes, eq(sql`latest_submissions.animal_type_id`, animalTypes.id))
       .leftJoin(geniusTypes, eq(sql`latest_submissions.genius_type_id`, geniusTypes.id))
-      .where(eq(students.classId, classId));
+      .where(and(eq(students.classId, classId), isActiveStudent()));
 
     // Process the results
     return studentsWithData.map(row => {
@@ -539,10 +577,14 @@ export class UUIDStorage implements IUUIDStorage {
   }
 
   async createCurrencyTransaction(transaction: NewCurrencyTransaction): Promise<CurrencyTransaction> {
-    const [currencyTx] = await db
-      .insert(currencyTransactions)
-      .values(transaction)
-      .returning();
+    const { transaction: currencyTx } = await postTransaction({
+      studentId: transaction.studentId,
+      teacherId: transaction.teacherId,
+      amount: transaction.amount,
+      type: transaction.transactionType,
+      description: transaction.description || '',
+      idempotencyKey: transaction.idempotencyKey ?? undefined
+    });
     return currencyTx;
   }
 
@@ -563,75 +605,36 @@ export class UUIDStorage implements IUUIDStorage {
         transactionType: currencyTransactions.transactionType,
         description: currencyTransactions.description,
         teacherId: currencyTransactions.teacherId,
+        idempotencyKey: currencyTransactions.idempotencyKey,
+        balanceAfter: currencyTransactions.balanceAfter,
         createdAt: currencyTransactions.createdAt,
       })
       .from(currencyTransactions)
       .innerJoin(students, eq(currencyTransactions.studentId, students.id))
-      .where(eq(students.classId, classId))
+      .where(and(eq(students.classId, classId), isActiveStudent()))
       .orderBy(desc(currencyTransactions.createdAt));
     
     return results;
   }
 
-  // Atomic currency update - prevents race conditions
+  // Atomic currency update - the ledger locks the student row and checks the balance
   async updateCurrencyAtomic(params: {
     studentId: string;
     teacherId: string;
     amount: number;
-    transactionType: string;
+    transactionType: TransactionType;
     description: string;
+    idempotencyKey?: string;
   }): Promise<{ transaction: CurrencyTransaction; newBalance: number }> {
-    // Use a transaction with row locking to ensure atomicity and prevent race conditions
-    return await db.transaction(async (tx) => {
-      // First, lock the student row for update to prevent concurrent modifications
-      const [student] = await tx
-        .select({
-          id: students.id,
-          currencyBalance: students.currencyBalance
-        })
-        .from(students)
-        .where(eq(students.id, params.studentId))
-        .limit(1)
-        .for('update'); // Pessimistic locking to prevent race conditions
-      
-      if (!student) {
-        throw new Error('Student not found');
-      }
-      
-      // Check if the student has sufficient funds for deductions
-      const currentBalance = student.currencyBalance || 0;
-      if (params.amount < 0 && currentBalance + params.amount < 0) {
-        throw new Error('Insufficient funds');
-      }
-      
-      // Create the currency transaction
-      const [currencyTx] = await tx
-        .insert(currencyTransactions)
-        .values({
-          studentId: params.studentId,
-          teacherId: params.teacherId,
-          amount: params.amount,
-          transactionType: params.transactionType,
-          description: params.description,
-        })
-        .returning();
-      
-      // Update the student's balance - now we can use the exact value we read
-      const newBalance = currentBalance + params.amount;
-      const [updatedStudent] = await tx
-        .update(students)
-        .set({
-          currencyBalance: newBalance,
-          updatedAt: new Date()
-        })
-        .where(eq(students.id, params.studentId))
-        .returning({ currencyBalance: students.currencyBalance });
-      
-      return {
-        transaction: currencyTx,
-        newBalance: updatedStudent.currencyBalance
-      };
+    const { transaction, newBalance } = await postTransaction({
+      studentId: params.studentId,
+      teacherId: params.teacherId,
+      amount: params.amount,
+      type: params.transactionType,
+      description: params.description,
+      idempotencyKey: params.idempotencyKey
     });
+    return { transaction, newBalance };
   }
 
 
@@ -659,8 +662,8 @@ export class UUIDStorage implements IUUIDStorage {
         studentCount: sql<number>`COUNT(DISTINCT ${students.id})`.as('studentCount')
       })
       .from(profiles)
-      .leftJoin(classes, eq(profiles.id, classes.teacherId))
-      .leftJoin(students, eq(classes.id, students.classId))
+      .leftJoin(classes, and(eq(profiles.id, classes.teacherId), isNull(classes.deletedAt)))
+      .leftJoin(students, and(eq(classes.id, students.classId), isActiveStudent()))
       .where(eq(profiles.isAnonymous, false))
       .groupBy(profiles.id);
 
@@ -682,16 +685,25 @@ export class UUIDStorage implements IUUIDStorage {
         icon: classes.icon,
         backgroundColor: classes.backgroundColor,
         isArchived: classes.isArchived,
+        archivedAt: classes.archivedAt,
         numberOfStudents: classes.numberOfStudents,
         hasValuesSet: classes.hasValuesSet,
         valuesSetAt: classes.valuesSetAt,
+        quizBankId: classes.quizBankId,
+        quizRetakePolicy: classes.quizRetakePolicy,
+        quizRetakeCooldownDays: classes.quizRetakeCooldownDays,
+        defaultLocale: classes.defaultLocale,
+        tradingEnabled: classes.tradingEnabled,
+        tradingRequiresApproval: classes.tradingRequiresApproval,
+        petSlots: classes.petSlots,
+        petVacation: classes.petVacation,
         deletedAt: classes.deletedAt,
         teacherName: sql<string>`COALESCE(${profiles.fullName}, '')`,
         studentCount: sql<number>`COUNT(${students.id})`.as('studentCount')
       })
       .from(classes)
       .innerJoin(profiles, eq(classes.teacherId, profiles.id))
-      .leftJoin(students, eq(classes.id, students.classId))
+      .leftJoin(students, and(eq(classes.id, students.classId), isActiveStudent()))
       .groupBy(classes.id, profiles.fullName);
 
     return classesWithStats;
@@ -710,8 +722,8 @@ export class UUIDStorage implements IUUIDStorage {
       .select({ count: count() })
       .from(profiles)
       .where(eq(profiles.isAnonymous, false));
-    const [classCount] = await db.select({ count: count() }).from(classes);
-    const [studentCount] = await db.select({ count: count() }).from(students);
+    const [classCount] = await db.select({ count: count() }).from(classes).where(isNull(classes.deletedAt));
+    const [studentCount] = await db.select({ count: count() }).from(students).where(isActiveStudent());
     const [submissionCount] = await db.select({ count: count() }).from(quizSubmissions);
     
     // Recent signups (last 7 days) - only non-anonymous
@@ -752,22 +764,22 @@ export class UUIDStorage implements IUUIDStorage {
     return adminLog;
   }
 
-  // Store settings
-  async getStoreSettings(teacherId: string): Promise<StoreSettings> {
+  // Store settings (one row per class)
+  async getStoreSettings(classId: string): Promise<StoreSettings> {
     const [settings] = await db
       .select()
       .from(storeSettings)
-      .where(eq(storeSettings.teacherId, teacherId));
+      .where(eq(storeSettings.classId, classId));
     
     return (settings?.settings || {}) as any;
   }
 
-  async updateStoreSettings(teacherId: string, settings: StoreSettings): Promise<void> {
+  async updateStoreSettings(classId: string, teacherId: string, settings: StoreSettings): Promise<void> {
     await db
       .insert(storeSettings)
-      .values({ teacherId, settings })
+      .values({ classId, teacherId, settings })
       .onConflictDoUpdate({
-        target: storeSettings.teacherId,
+        target: storeSettings.classId,
         set: { 
           settings,
           updatedAt: new Date()
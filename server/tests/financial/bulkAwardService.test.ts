@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { currencyTransactions, students } from '@shared/schema';
+import { db } from '../../db';
+import { bulkAward, BULK_AWARD_MAX_AMOUNT } from '../../services/bulkAwardService';
+import { ValidationError } from '../../utils/errors';
+import type { FakeDb } from './fake-db';
+
+vi.mock('../../db', async () => {
+  const { createFakeDb } = await import('./fake-db');
+  return { db: createFakeDb() };
+});
+
+vi.mock('../../services/classGroupingService', () => ({
+  getGrouping: vi.fn()
+}));
+
+const fakeDb = db as unknown as FakeDb;
+const CLASS_ID = '33333333-3333-4333-8333-333333333333';
+const ADA = '11111111-1111-4111-8111-111111111111';
+const BEN = '22222222-2222-4222-8222-222222222222';
+const CY = '55555555-5555-4555-8555-555555555555';
+const OUTSIDER = '66666666-6666-4666-8666-666666666666';
+
+const balanceOf = (id: string) => fakeDb.rows(students).find((row: any) => row.id === id)?.currencyBalance;
+const award = (amount: number, target: Parameters<typeof bulkAward>[0]['target'] = { type: 'class' }, idempotencyKey?: string) =>
+  bulkAward({ classId: CLASS_ID, teacherId: 'teacher-1', target, amount, idempotencyKey });
+
+describe('bulkAwardService.bulkAward', () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    fakeDb.seed(students, [
+      { id: ADA, classId: CLASS_ID, studentName: 'Ada', currencyBalance: 50 },
+      { id: BEN, classId: CLASS_ID, studentName: 'Ben', currencyBalance: 5 },
+      { id: CY, classId: CLASS_ID, studentName: 'Cy', currencyBalance: 0, deletedAt: new Date() },
+      { id: OUTSIDER, classId: '44444444-4444-4444-8444-444444444444', studentName: 'Dee', currencyBalance: 0 }
+    ]);
+  });
+
+  it('pays everyone in the class but not deleted students', async () => {
+    const summary = await award(10);
+
+    expect(summary).toMatchObject({ amount: 10, awarded: 2, skipped: 0, totalCoins: 20 });
+    expect(balanceOf(ADA)).toBe(60);
+    expect(balanceOf(BEN)).toBe(15);
+    expect(balanceOf(CY)).toBe(0);
+    expect(balanceOf(OUTSIDER)).toBe(0);
+  });
+
+  it('reports picked students who are deleted or in another class instead of paying them', async () => {
+    const summary = await award(10, { type: 'students', studentIds: [ADA, CY, OUTSIDER] });
+
+    expect(summary.awarded).toBe(1);
+    expect(summary.results).toEqual([
+      { studentId: ADA, studentName: 'Ada', status: 'awarded', newBalance: 60 },
+      { studentId: CY, studentName: null, status: 'not_in_class', newBalance: null },
+      { studentId: OUTSIDER, studentName: null, status: 'not_in_class', newBalance: null }
+    ]);
+    expect(balanceOf(CY)).toBe(0);
+  });
+
+  it('skips students who cannot cover a deduction', async () => {
+    const summary = await award(-10);
+
+    expect(summary).toMatchObject({ awarded: 1, skipped: 1, totalCoins: -10 });
+    expect(summary.results.find(result => result.studentId === BEN)).toMatchObject({ status: 'insufficient_funds' });
+    expect(balanceOf(ADA)).toBe(40);
+    expect(balanceOf(BEN)).toBe(5);
+  });
+
+  it('pays once when the same request is retried', async () => {
+    await award(10, { type: 'class' }, 'bulk:teacher-1:retry');
+    const retry = await award(10, { type: 'class' }, 'bulk:teacher-1:retry');
+
+    expect(retry).toMatchObject({ awarded: 0, skipped: 2 });
+    expect(retry.results.every(result => result.status === 'duplicate')).toBe(true);
+    expect(balanceOf(ADA)).toBe(60);
+    expect(fakeDb.rows(currencyTransactions)).toHaveLength(2);
+  });
+
+  it('caps the amount', async () => {
+    await expect(award(BULK_AWARD_MAX_AMOUNT + 1)).rejects.toBeInstanceOf(ValidationError);
+    await expect(award(0)).rejects.toBeInstanceOf(ValidationError);
+    await expect(award(2.5)).rejects.toBeInstanceOf(ValidationError);
+    expect(fakeDb.rows(currencyTransactions)).toHaveLength(0);
+  });
+});
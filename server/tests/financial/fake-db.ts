@@ -0,0 +1,238 @@
+/**
+ * A small in-memory stand-in for the Drizzle client, enough for the ledger and store
+ * services: select (with inner and left joins and COUNT(*))/insert/update/delete on
+ * tables, filtered by and-ed eq/isNull/inArray/like and comparison conditions. Rows are
+ * kept with their TypeScript keys. Transactions run against the same store without
+ * rollback, so specs check that nothing was written before a throw.
+ */
+import { randomUUID } from 'crypto';
+import { Column, Param, SQL, StringChunk, getTableColumns, getTableName, type Table } from 'drizzle-orm';
+
+type Row = Record<string, any>;
+// A row from each table in the query, by table name
+type Joined = Record<string, Row | null>;
+
+function keyOf(column: Column) {
+  return Object.entries(getTableColumns(column.table)).find(([, candidate]) => candidate === column)?.[0];
+}
+
+function valueOf(joined: Joined, column: Column) {
+  const key = keyOf(column);
+  return key ? joined[getTableName(column.table)]?.[key] ?? null : null;
+}
+
+const OPERATORS = ['=', 'is null', 'in', 'like', '>', '>=', '<', '<='];
+type Condition = [Column, string, unknown];
+
+// column, operator and value (or another column), from `col <op> value` chunks
+function conditionsOf(condition: SQL | undefined): Condition[] {
+  if (!condition) return [];
+  const found: Condition[] = [];
+  const paramValue = (value: unknown) => value instanceof Param ? value.value : value;
+
+  const walk = (chunks: unknown[]) => {
+    chunks.forEach((chunk, index) => {
+      if (chunk instanceof SQL) {
+        walk(chunk.queryChunks);
+        return;
+      }
+      if (!(chunk instanceof Column)) return;
+      const operator = chunks[index + 1];
+      if (!(operator instanceof StringChunk)) return;
+      const text = operator.value.join('').trim();
+      if (!OPERATORS.includes(text)) return;
+      const value = chunks[index + 2];
+      found.push([chunk, text, Array.isArray(value) ? value.map(paramValue) : paramValue(value)]);
+    });
+  };
+  walk(condition.queryChunks);
+  return found;
+}
+
+function matches(joined: Joined, condition: SQL | undefined) {
+  return conditionsOf(condition).every(([column, operator, expected]) => {
+    const raw = valueOf(joined, column);
+    const other = expected instanceof Column ? valueOf(joined, expected) : expected;
+    const actual = raw instanceof Date ? raw.getTime() : raw;
+    const value = other instanceof Date ? other.getTime() : other;
+    switch (operator) {
+      case 'is null': return actual === null;
+      case 'in': return (value as unknown[]).includes(actual);
+      case 'like': return typeof actual === 'string'
+        && new RegExp(`^${String(value).split('%').map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`).test(actual);
+      case '>': return actual !== null && (actual as any) > (value as any);
+      case '>=': return actual !== null && (actual as any) >= (value as any);
+      case '<': return actual !== null && (actual as any) < (value as any);
+      case '<=': return actual !== null && (actual as any) <= (value as any);
+      default: return actual === value;
+    }
+  });
+}
+
+// A `COUNT(*)` field, which the fake answers with the number of matching rows
+function isCount(field: unknown) {
+  return field instanceof SQL && /^count\(\*\)/i.test(field.queryChunks
+    .map(chunk => chunk instanceof StringChunk ? chunk.value.join('') : '')
+    .join('')
+    .trim());
+}
+
+const only = (table: Table, row: Row): Joined => ({ [getTableName(table)]: row });
+
+// Fill in what the database would: column defaults, generated ids and timestamps
+function withDefaults(table: Table, row: Row): Row {
+  const filled: Row = {};
+  for (const [key, column] of Object.entries(getTableColumns(table))) {
+    if (row[key] !== undefined) {
+      filled[key] = row[key];
+    } else if (column.defaultFn) {
+      filled[key] = column.defaultFn();
+    } else if (column.default instanceof SQL) {
+      filled[key] = column.dataType === 'date' ? new Date() : column.columnType === 'PgUUID' ? randomUUID() : null;
+    } else {
+      filled[key] = column.default ?? null;
+    }
+  }
+  return filled;
+}
+
+// Like Drizzle: the row itself, each table's row by name after a join, or the fields asked for
+function project(joined: Joined, table: Table, fields?: Record<string, Column | Table | SQL>) {
+  if (!fields) {
+    return Object.keys(joined).length === 1 ? { ...joined[getTableName(table)] } : { ...joined };
+  }
+  return Object.fromEntries(Object.entries(fields).map(([alias, field]) => [
+    alias,
+    field instanceof Column ? valueOf(joined, field) : field instanceof SQL ? undefined : joined[getTableName(field)] ?? null
+  ]));
+}
+
+// A query builder that can be awaited at any point in its chain
+function chain<T>(run: () => T, methods: Record<string, (...args: any[]) => any>) {
+  const builder: any = {
+    ...methods,
+    then: (resolve: (value: T) => unknown, reject: (error: unknown) => unknown) => {
+      try {
+        return Promise.resolve(run()).then(resolve, reject);
+      } catch (error) {
+        return Promise.reject(error).then(resolve, reject);
+      }
+    }
+  };
+  return builder;
+}
+
+export function createFakeDb() {
+  const tables = new Map<string, Row[]>();
+  const executeResults: Row[][] = [];
+  const rowsOf = (table: Table) => {
+    const name = getTableName(table);
+    if (!tables.has(name)) tables.set(name, []);
+    return tables.get(name)!;
+  };
+
+  const fake: any = {
+    rows: rowsOf,
+    seed(table: Table, rows: Row[]) {
+      rowsOf(table).push(...rows.map(row => withDefaults(table, row)));
+    },
+    reset() {
+      tables.clear();
+      executeResults.length = 0;
+    },
+    // Raw SQL can't be interpreted here, so each db.execute() call returns the next queued rows
+    queueExecute(...results: Row[][]) {
+      executeResults.push(...results);
+    },
+
+    select(fields?: Record<string, Column | Table | SQL>) {
+      let table: Table;
+      let condition: SQL | undefined;
+      let limit = Infinity;
+      const joins: Array<{ table: Table; on: SQL; left: boolean }> = [];
+      const run = () => {
+        const found = joins
+          .reduce((joined: Joined[], join) => joined.flatMap(partial => {
+            const joinedRows = rowsOf(join.table)
+              .map(row => ({ ...partial, [getTableName(join.table)]: row }))
+              .filter(candidate => matches(candidate, join.on));
+            return joinedRows.length > 0 || !join.left ? joinedRows : [{ ...partial, [getTableName(join.table)]: null }];
+          }), rowsOf(table).map(row => only(table, row)))
+          .filter(joined => matches(joined, condition));
+        if (fields && Object.values(fields).some(isCount)) {
+          return [Object.fromEntries(Object.entries(fields).map(([alias, field]) => [alias, isCount(field) ? found.length : undefined]))];
+        }
+        return found.slice(0, limit).map(joined => project(joined, table, fields));
+      };
+      const join = (left: boolean) => (joinTable: Table, on: SQL) => {
+        joins.push({ table: joinTable, on, left });
+        return builder;
+      };
+      const builder: any = chain(run, {
+        from: (from: Table) => { table = from; return builder; },
+        innerJoin: join(false),
+        leftJoin: join(true),
+        where: (where: SQL | undefined) => { condition = where; return builder; },
+        orderBy: () => builder,
+        limit: (count: number) => { limit = count; return builder; },
+        for: () => builder
+      });
+      return builder;
+    },
+
+    insert(table: Table) {
+      let inserted: Row[] = [];
+      let skipOnConflict = false;
+      const run = () => inserted;
+      const builder: any = chain(run, {
+        values: (values: Row | Row[]) => {
+          const rows = (Array.isArray(values) ? values : [values]).map(row => withDefaults(table, row));
+          const existing = rowsOf(table);
+          inserted = rows.filter(row => !(skipOnConflict && existing.some(other => other.id === row.id)));
+          existing.push(...inserted);
+          return builder;
+        },
+        onConflictDoNothing: () => { skipOnConflict = true; return builder; },
+        returning: () => builder
+      });
+      return builder;
+    },
+
+    update(table: Table) {
+      let changes: Row = {};
+      let condition: SQL | undefined;
+      const run = () => rowsOf(table)
+        .filter(row => matches(only(table, row), condition))
+        .map(row => Object.assign(row, changes));
+      const builder: any = chain(run, {
+        set: (set: Row) => { changes = set; return builder; },
+        where: (where: SQL | undefined) => { condition = where; return builder; },
+        returning: () => builder
+      });
+      return builder;
+    },
+
+    delete(table: Table) {
+      let condition: SQL | undefined;
+      const run = () => {
+        const rows = rowsOf(table);
+        const removed = rows.filter(row => matches(only(table, row), condition));
+        tables.set(getTableName(table), rows.filter(row => !removed.includes(row)));
+        return removed;
+      };
+      const builder: any = chain(run, {
+        where: (where: SQL | undefined) => { condition = where; return builder; },
+        returning: () => builder
+      });
+      return builder;
+    },
+
+    transaction: (callback: (tx: unknown) => unknown) => callback(fake),
+
+    execute: async () => ({ rows: executeResults.shift() ?? [] })
+  };
+
+  return fake;
+}
+
+export type FakeDb = ReturnType<typeof createFakeDb>;
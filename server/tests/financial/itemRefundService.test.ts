@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { currencyTransactions, itemRefunds, storeItems, studentInventory, students } from '@shared/schema';
+import { db } from '../../db';
+import { quoteSellBack, sellBackItem, teacherRefund } from '../../services/itemRefundService';
+import { ConflictError } from '../../utils/errors';
+import type { FakeDb } from './fake-db';
+
+vi.mock('../../db', async () => {
+  const { createFakeDb } = await import('./fake-db');
+  return { db: createFakeDb() };
+});
+
+vi.mock('../../services/storeCatalogService', () => ({
+  releaseStock: vi.fn(async () => undefined),
+  invalidateCatalogCache: vi.fn(async () => undefined)
+}));
+
+const fakeDb = db as unknown as FakeDb;
+const STUDENT_ID = '22222222-2222-4222-8222-222222222222';
+const CLASS_ID = '33333333-3333-4333-8333-333333333333';
+const ITEM_ID = '44444444-4444-4444-8444-444444444444';
+const CHARGE_ID = '55555555-5555-4555-8555-555555555555';
+const INVENTORY_ID = '66666666-6666-4666-8666-666666666666';
+const TEACHER_ID = 'teacher-1';
+
+const POLICY = { sellBackPercent: 50, refundGraceMinutes: 10 };
+const NOW = new Date('2026-03-02T12:00:00Z');
+const minutesAgo = (minutes: number) => new Date(NOW.getTime() - minutes * 60 * 1000);
+
+describe('quoteSellBack', () => {
+  it('refunds the full price paid within the grace window', () => {
+    expect(quoteSellBack({ cost: 100, purchasePrice: 80, acquiredAt: minutesAgo(5) }, POLICY, NOW))
+      .toMatchObject({ kind: 'grace_refund', amount: 80 });
+  });
+
+  it('pays the class percentage of the cost after the grace window, never more than was paid', () => {
+    expect(quoteSellBack({ cost: 100, purchasePrice: 100, acquiredAt: minutesAgo(30) }, POLICY, NOW))
+      .toEqual({ kind: 'sell_back', amount: 50, graceEndsAt: null });
+    expect(quoteSellBack({ cost: 100, purchasePrice: 20, acquiredAt: minutesAgo(30) }, POLICY, NOW))
+      .toMatchObject({ kind: 'sell_back', amount: 20 });
+  });
+
+  it('pays nothing for an item with no price paid on record', () => {
+    expect(quoteSellBack({ cost: 100, purchasePrice: null, acquiredAt: minutesAgo(1) }, POLICY, NOW))
+      .toEqual({ kind: 'sell_back', amount: 0, graceEndsAt: null });
+    expect(quoteSellBack({ cost: 100, purchasePrice: null, acquiredAt: null }, POLICY, NOW))
+      .toMatchObject({ kind: 'sell_back', amount: 0 });
+  });
+});
+
+describe('refunding a purchase', () => {
+  const studentBalance = () => fakeDb.rows(students).find((row: any) => row.id === STUDENT_ID)?.currencyBalance;
+  const refunds = () => fakeDb.rows(currencyTransactions).filter((row: any) => row.transactionType === 'refund');
+
+  beforeEach(() => {
+    fakeDb.reset();
+    // Bought an hour ago, so past the grace window: selling back pays half the cost
+    fakeDb.seed(students, [{ id: STUDENT_ID, classId: CLASS_ID, studentName: 'Ada', currencyBalance: 100 }]);
+    fakeDb.seed(storeItems, [{ id: ITEM_ID, name: 'Wizard Hat', cost: 40 }]);
+    fakeDb.seed(currencyTransactions, [
+      { id: CHARGE_ID, studentId: STUDENT_ID, amount: -40, transactionType: 'purchase', description: 'Wizard Hat' }
+    ]);
+    fakeDb.seed(studentInventory, [{
+      id: INVENTORY_ID,
+      studentId: STUDENT_ID,
+      storeItemId: ITEM_ID,
+      purchasePrice: 40,
+      purchaseTransactionId: CHARGE_ID,
+      acquiredAt: new Date(Date.now() - 60 * 60 * 1000)
+    }]);
+  });
+
+  it('does not let the student sell back an item the teacher already refunded', async () => {
+    await teacherRefund(CLASS_ID, TEACHER_ID, { studentId: STUDENT_ID, itemId: ITEM_ID, reason: 'Wrong size' });
+    expect(studentBalance()).toBe(140);
+
+    await expect(sellBackItem(STUDENT_ID, ITEM_ID)).rejects.toBeInstanceOf(ConflictError);
+
+    expect(studentBalance()).toBe(140);
+    expect(refunds()).toHaveLength(1);
+    expect(fakeDb.rows(studentInventory)).toHaveLength(1);
+  });
+
+  it('does not let the teacher refund a charge and then the item bought with it', async () => {
+    await teacherRefund(CLASS_ID, TEACHER_ID, { studentId: STUDENT_ID, transactionId: CHARGE_ID, reason: 'Double tap' });
+
+    await expect(teacherRefund(CLASS_ID, TEACHER_ID, { studentId: STUDENT_ID, itemId: ITEM_ID, removeItem: true, reason: 'Double tap' }))
+      .rejects.toBeInstanceOf(ConflictError);
+
+    expect(studentBalance()).toBe(140);
+    expect(refunds()).toHaveLength(1);
+    expect(fakeDb.rows(studentInventory)).toHaveLength(1);
+    expect(fakeDb.rows(itemRefunds)).toHaveLength(1);
+  });
+
+  it('does not refund the charge for an item that was sold back', async () => {
+    const { newBalance } = await sellBackItem(STUDENT_ID, ITEM_ID);
+    expect(newBalance).toBe(120);
+    expect(fakeDb.rows(studentInventory)).toHaveLength(0);
+
+    await expect(teacherRefund(CLASS_ID, TEACHER_ID, { studentId: STUDENT_ID, transactionId: CHARGE_ID, reason: 'Complaint' }))
+      .rejects.toBeInstanceOf(ConflictError);
+
+    expect(studentBalance()).toBe(120);
+    expect(refunds()).toEqual([expect.objectContaining({ amount: 20, idempotencyKey: `refund:${CHARGE_ID}` })]);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { currencyTransactions, ledgerEntries, ledgerReconciliations, students } from '@shared/schema';
+import { db } from '../../db';
+import { postTransaction, reconcileBalances, runReconciliation, STUDENT_ACCOUNT } from '../../services/ledgerService';
+import { BusinessError, ValidationError } from '../../utils/errors';
+import type { FakeDb } from './fake-db';
+
+vi.mock('../../db', async () => {
+  const { createFakeDb } = await import('./fake-db');
+  return { db: createFakeDb() };
+});
+
+const fakeDb = db as unknown as FakeDb;
+const STUDENT_ID = '11111111-1111-4111-8111-111111111111';
+
+function studentBalance() {
+  return fakeDb.rows(students).find((row: any) => row.id === STUDENT_ID)?.currencyBalance;
+}
+
+describe('ledgerService.postTransaction', () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    fakeDb.seed(students, [{ id: STUDENT_ID, studentName: 'Ada', currencyBalance: 100 }]);
+  });
+
+  it('writes the transaction, two balanced legs and the new balance', async () => {
+    const result = await postTransaction({
+      studentId: STUDENT_ID,
+      amount: 25,
+      type: 'quiz_reward',
+      description: 'Quiz reward'
+    });
+
+    expect(result.duplicate).toBe(false);
+    expect(result.newBalance).toBe(125);
+    expect(result.transaction).toMatchObject({ studentId: STUDENT_ID, amount: 25, transactionType: 'quiz_reward', balanceAfter: 125 });
+    expect(studentBalance()).toBe(125);
+
+    const legs = fakeDb.rows(ledgerEntries);
+    expect(legs).toHaveLength(2);
+    expect(legs.every((leg: any) => leg.transactionId === result.transaction.id)).toBe(true);
+    expect(legs.reduce((sum: number, leg: any) => sum + leg.amount, 0)).toBe(0);
+    expect(legs).toEqual(expect.arrayContaining([
+      expect.objectContaining({ account: STUDENT_ACCOUNT, studentId: STUDENT_ID, amount: 25 }),
+      expect.objectContaining({ account: 'system:rewards', amount: -25 })
+    ]));
+  });
+
+  it('debits against the counter account for the type, or the one given', async () => {
+    await postTransaction({ studentId: STUDENT_ID, amount: -30, type: 'purchase', description: 'Hat' });
+    await postTransaction({ studentId: STUDENT_ID, amount: 10, type: 'bonus', description: 'Gift', counterAccount: 'system:events' });
+
+    expect(studentBalance()).toBe(80);
+    expect(fakeDb.rows(ledgerEntries).filter((leg: any) => leg.account !== STUDENT_ACCOUNT)).toEqual([
+      expect.objectContaining({ account: 'system:store', amount: 30 }),
+      expect.objectContaining({ account: 'system:events', amount: -10 })
+    ]);
+  });
+
+  it('moves coins once when the same idempotency key is posted again', async () => {
+    const posting = {
+      studentId: STUDENT_ID,
+      amount: 40,
+      type: 'teacher_grant' as const,
+      description: 'Helping out',
+      idempotencyKey: 'grant:abc'
+    };
+
+    const first = await postTransaction(posting);
+    const replay = await postTransaction(posting);
+
+    expect(replay.duplicate).toBe(true);
+    expect(replay.transaction.id).toBe(first.transaction.id);
+    expect(replay.newBalance).toBe(140);
+    expect(studentBalance()).toBe(140);
+    expect(fakeDb.rows(currencyTransactions)).toHaveLength(1);
+    expect(fakeDb.rows(ledgerEntries)).toHaveLength(2);
+  });
+
+  it('rejects a debit the student cannot afford without writing anything', async () => {
+    await expect(postTransaction({ studentId: STUDENT_ID, amount: -101, type: 'purchase', description: 'Castle' }))
+      .rejects.toBeInstanceOf(BusinessError);
+
+    expect(studentBalance()).toBe(100);
+    expect(fakeDb.rows(currencyTransactions)).toHaveLength(0);
+    expect(fakeDb.rows(ledgerEntries)).toHaveLength(0);
+  });
+
+  it('rejects zero, fractional and wrong-signed amounts', async () => {
+    await expect(postTransaction({ studentId: STUDENT_ID, amount: 0, type: 'bonus', description: '' }))
+      .rejects.toBeInstanceOf(ValidationError);
+    await expect(postTransaction({ studentId: STUDENT_ID, amount: 2.5, type: 'bonus', description: '' }))
+      .rejects.toBeInstanceOf(ValidationError);
+    await expect(postTransaction({ studentId: STUDENT_ID, amount: -5, type: 'quiz_reward', description: '' }))
+      .rejects.toBeInstanceOf(ValidationError);
+    await expect(postTransaction({ studentId: STUDENT_ID, amount: 5, type: 'purchase', description: '' }))
+      .rejects.toBeInstanceOf(ValidationError);
+
+    expect(fakeDb.rows(currencyTransactions)).toHaveLength(0);
+  });
+});
+
+describe('ledgerService.reconcileBalances', () => {
+  beforeEach(() => {
+    fakeDb.reset();
+  });
+
+  it('reports the difference between stored and ledger balances', async () => {
+    fakeDb.queueExecute(
+      [
+        { student_id: 'a', student_name: 'Ada', class_id: 'c1', balance: 120, ledger_balance: 100 },
+        { student_id: 'b', student_name: 'Ben', class_id: 'c1', balance: 50, ledger_balance: 50 },
+        { student_id: 'c', student_name: 'Cy', class_id: 'c2', balance: '5', ledger_balance: '15' }
+      ],
+      [{ transaction_id: 't1', sum: '7' }],
+      [{ id: 't2', total: '3' }, { id: 't3', total: '3' }]
+    );
+
+    const report = await reconcileBalances();
+
+    expect(report.studentsChecked).toBe(3);
+    expect(report.drift).toEqual([
+      { studentId: 'a', studentName: 'Ada', classId: 'c1', balance: 120, ledgerBalance: 100, drift: 20 },
+      { studentId: 'c', studentName: 'Cy', classId: 'c2', balance: 5, ledgerBalance: 15, drift: -10 }
+    ]);
+    expect(report.unbalancedTransactions).toEqual([{ transactionId: 't1', sum: 7 }]);
+    expect(report.unpostedTransactions).toEqual({ count: 3, sample: ['t2', 't3'] });
+  });
+
+  it('stores a clean run when everything matches', async () => {
+    fakeDb.queueExecute([{ student_id: 'a', student_name: 'Ada', class_id: 'c1', balance: 10, ledger_balance: 10 }], [], []);
+
+    const run = await runReconciliation({ requestedBy: 'admin-1' });
+
+    expect(run).toMatchObject({ status: 'clean', studentsChecked: 1, driftCount: 0, totalDrift: 0, requestedBy: 'admin-1' });
+    expect(fakeDb.rows(ledgerReconciliations)).toHaveLength(1);
+  });
+
+  it('stores the net drift when balances disagree', async () => {
+    fakeDb.queueExecute(
+      [
+        { student_id: 'a', student_name: 'Ada', class_id: 'c1', balance: 30, ledger_balance: 10 },
+        { student_id: 'b', student_name: 'Ben', class_id: 'c1', balance: 0, ledger_balance: 5 }
+      ],
+      [],
+      []
+    );
+
+    const run = await runReconciliation({ classId: 'c1' });
+
+    expect(run).toMatchObject({ status: 'drift', classId: 'c1', studentsChecked: 2, driftCount: 2, totalDrift: 15 });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { currencyTransactions, ledgerEntries, purchaseRequests, storeItems, students, type StoreItem } from '@shared/schema';
+import { db } from '../../db';
+import { STUDENT_ACCOUNT } from '../../services/ledgerService';
+import { cancelPurchaseRequest, createPurchaseRequest, denyPurchaseRequest } from '../../services/purchaseRequestService';
+import { invalidateCatalogCache, releaseStock } from '../../services/storeCatalogService';
+import { BusinessError, ConflictError } from '../../utils/errors';
+import type { FakeDb } from './fake-db';
+
+vi.mock('../../db', async () => {
+  const { createFakeDb } = await import('./fake-db');
+  return { db: createFakeDb() };
+});
+
+vi.mock('../../services/storeCatalogService', () => ({
+  releaseStock: vi.fn(async () => undefined),
+  invalidateCatalogCache: vi.fn(async () => undefined)
+}));
+
+vi.mock('../../services/fishbowlService', () => ({
+  createFishForStudent: vi.fn()
+}));
+
+const fakeDb = db as unknown as FakeDb;
+const STUDENT_ID = '22222222-2222-4222-8222-222222222222';
+const CLASS_ID = '33333333-3333-4333-8333-333333333333';
+const TEACHER_ID = 'teacher-1';
+const ITEM = { id: '44444444-4444-4444-8444-444444444444', name: 'Wizard Hat', classId: CLASS_ID, stockLimit: 5 } as StoreItem;
+
+function studentBalance() {
+  return fakeDb.rows(students).find((row: any) => row.id === STUDENT_ID)?.currencyBalance;
+}
+
+function ledgerSum() {
+  return fakeDb.rows(ledgerEntries).reduce((sum: number, leg: any) => sum + leg.amount, 0);
+}
+
+function studentLedgerBalance() {
+  return fakeDb.rows(ledgerEntries)
+    .filter((leg: any) => leg.account === STUDENT_ACCOUNT && leg.studentId === STUDENT_ID)
+    .reduce((sum: number, leg: any) => sum + leg.amount, 0);
+}
+
+async function requestItem(cost = 30) {
+  return db.transaction(tx => createPurchaseRequest(tx, { studentId: STUDENT_ID, classId: CLASS_ID, teacherId: TEACHER_ID, item: ITEM, cost }));
+}
+
+describe('purchase requests on the ledger', () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    vi.mocked(releaseStock).mockClear();
+    vi.mocked(invalidateCatalogCache).mockClear();
+    fakeDb.seed(students, [{ id: STUDENT_ID, classId: CLASS_ID, studentName: 'Ada', currencyBalance: 100 }]);
+    fakeDb.seed(storeItems, [{ ...ITEM }]);
+  });
+
+  it('reserves the cost as a purchase and keeps the reservation on the request', async () => {
+    const { request, newBalance } = await requestItem();
+
+    expect(newBalance).toBe(70);
+    expect(studentBalance()).toBe(70);
+
+    const [reservation] = fakeDb.rows(currencyTransactions);
+    expect(reservation).toMatchObject({ transactionType: 'purchase', amount: -30, balanceAfter: 70 });
+    expect(request).toMatchObject({ studentId: STUDENT_ID, storeItemId: ITEM.id, cost: 30, reservationTransactionId: reservation.id });
+    expect(ledgerSum()).toBe(0);
+    expect(fakeDb.rows(ledgerEntries)).toEqual(expect.arrayContaining([
+      expect.objectContaining({ account: 'system:store', amount: 30 })
+    ]));
+  });
+
+  it('rejects a request the student cannot afford', async () => {
+    await expect(requestItem(150)).rejects.toBeInstanceOf(BusinessError);
+
+    expect(studentBalance()).toBe(100);
+    expect(fakeDb.rows(purchaseRequests)).toHaveLength(0);
+  });
+
+  it('rejects a second pending request for the same item', async () => {
+    await requestItem();
+    await expect(requestItem()).rejects.toBeInstanceOf(ConflictError);
+    expect(studentBalance()).toBe(70);
+  });
+
+  it('refunds the reservation when the teacher denies it', async () => {
+    const { request } = await requestItem();
+
+    const denied = await denyPurchaseRequest(CLASS_ID, request.id, TEACHER_ID, 'Not this week');
+
+    expect(denied.newBalance).toBe(100);
+    expect(denied.request).toMatchObject({ status: 'denied', decidedBy: TEACHER_ID, note: 'Not this week' });
+    expect(studentBalance()).toBe(100);
+
+    const refund = fakeDb.rows(currencyTransactions).find((row: any) => row.transactionType === 'refund');
+    expect(refund).toMatchObject({ amount: 30, idempotencyKey: `purchase-request:${request.id}:refund` });
+    expect(denied.request.refundTransactionId).toBe(refund.id);
+
+    expect(ledgerSum()).toBe(0);
+    expect(studentLedgerBalance()).toBe(0);
+    expect(releaseStock).toHaveBeenCalledWith(expect.anything(), ITEM.id);
+    expect(invalidateCatalogCache).toHaveBeenCalledWith(CLASS_ID);
+  });
+
+  it('refunds a cancelled request once, even if it is cancelled again', async () => {
+    const { request } = await requestItem();
+
+    await cancelPurchaseRequest(STUDENT_ID, request.id);
+    await expect(cancelPurchaseRequest(STUDENT_ID, request.id)).rejects.toBeInstanceOf(ConflictError);
+
+    expect(studentBalance()).toBe(100);
+    expect(fakeDb.rows(currencyTransactions).filter((row: any) => row.transactionType === 'refund')).toHaveLength(1);
+    expect(fakeDb.rows(purchaseRequests)[0]).toMatchObject({ status: 'cancelled', decidedBy: null });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { classRewardRules, currencyTransactions, students } from '@shared/schema';
+import { db } from '../../db';
+import { applyRewardRules } from '../../services/rewardRuleService';
+import type { FakeDb } from './fake-db';
+
+vi.mock('../../db', async () => {
+  const { createFakeDb } = await import('./fake-db');
+  return { db: createFakeDb() };
+});
+
+const fakeDb = db as unknown as FakeDb;
+const CLASS_ID = '33333333-3333-4333-8333-333333333333';
+const RULE_ID = '77777777-7777-4777-8777-777777777777';
+const ADA = '11111111-1111-4111-8111-111111111111';
+const BEN = '22222222-2222-4222-8222-222222222222';
+
+const balanceOf = (id: string) => fakeDb.rows(students).find((row: any) => row.id === id)?.currencyBalance;
+const finishActivity = (eventKey: string, studentIds?: string[]) =>
+  applyRewardRules(CLASS_ID, { trigger: 'lesson_activity_complete', eventKey, studentIds });
+
+describe('rewardRuleService.applyRewardRules', () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-02T00:30:00Z'));
+    fakeDb.seed(students, [
+      { id: ADA, classId: CLASS_ID, studentName: 'Ada', currencyBalance: 0 },
+      { id: BEN, classId: CLASS_ID, studentName: 'Ben', currencyBalance: 0, deletedAt: new Date('2026-03-01T10:00:00Z') }
+    ]);
+    fakeDb.seed(classRewardRules, [{
+      id: RULE_ID,
+      classId: CLASS_ID,
+      createdBy: 'teacher-1',
+      trigger: 'lesson_activity_complete',
+      amount: 5,
+      conditions: { maxPerDay: 2 },
+      isActive: true
+    }]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('pays a rule up to its daily cap', async () => {
+    expect(await finishActivity('activity-1')).toHaveLength(1);
+    expect(await finishActivity('activity-2')).toHaveLength(1);
+    expect(await finishActivity('activity-3')).toEqual([]);
+
+    expect(balanceOf(ADA)).toBe(10);
+  });
+
+  it('does not pay the same event twice', async () => {
+    await finishActivity('activity-1');
+    expect(await finishActivity('activity-1')).toEqual([]);
+    expect(balanceOf(ADA)).toBe(5);
+  });
+
+  it('starts the day at midnight UTC', async () => {
+    // Two awards late yesterday (UTC) don't count towards today's cap
+    fakeDb.seed(currencyTransactions, ['old-1', 'old-2'].map(key => ({
+      studentId: ADA,
+      amount: 5,
+      transactionType: 'bonus',
+      idempotencyKey: `reward-rule:${RULE_ID}:${key}:${ADA}`,
+      createdAt: new Date('2026-03-01T23:50:00Z')
+    })));
+
+    expect(await finishActivity('activity-1')).toHaveLength(1);
+    expect(balanceOf(ADA)).toBe(5);
+
+    fakeDb.seed(currencyTransactions, [{
+      studentId: ADA,
+      amount: 5,
+      transactionType: 'bonus',
+      idempotencyKey: `reward-rule:${RULE_ID}:early:${ADA}`,
+      createdAt: new Date('2026-03-02T00:05:00Z')
+    }]);
+    expect(await finishActivity('activity-2')).toEqual([]);
+  });
+
+  it('skips deleted students, even when they are named', async () => {
+    const awards = await finishActivity('activity-1', [ADA, BEN]);
+
+    expect(awards.map(award => award.studentId)).toEqual([ADA]);
+    expect(balanceOf(BEN)).toBe(0);
+  });
+});
@@ -9,6 +9,7 @@ import * as path from 'path';
 
 // List of critical financial files that must have tests
 const CRITICAL_FINANCIAL_FILES = [
+  'server/services/ledgerService.ts', // postTransaction, reconcileBalances
   'server/storage-uuid.ts', // updateCurrencyAtomic
   'server/services/quiz-rewards.ts', // processQuizRewards
   'server/services/petService.ts', // purchasePet
@@ -19,6 +20,8 @@ const CRITICAL_FINANCIAL_FILES = [
 
 // Financial functions that must be tested
 const CRITICAL_FUNCTIONS = [
+  'postTransaction',
+  'reconcileBalances',
   'updateCurrencyAtomic',
   'processQuizRewards',
   'purchasePet',
@@ -79,6 +82,12 @@ export function generateFinancialCoverageReport() {
   console.log('\n=== Financial Operations Test Coverage Report ===\n');
   
   const coverage = {
+    'Ledger': {
+      'postTransaction': '✅ Tested',
+      'idempotencyKeys': '✅ Tested',
+      'balancedLegs': '✅ Tested',
+      'reconcileBalances': '✅ Tested',
+    },
     'Currency Operations': {
       'updateCurrencyAtomic': '✅ Tested',
       'getCurrencyBalance': '✅ Tested',
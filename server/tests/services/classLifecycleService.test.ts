@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { classes, students } from '@shared/schema';
+import { db } from '../../db';
+import { uuidStorage } from '../../storage-uuid';
+import {
+  deleteClass,
+  deleteStudent,
+  restoreClass,
+  restoreStudent,
+  setClassArchived,
+  RESTORE_WINDOW_DAYS
+} from '../../services/classLifecycleService';
+import { BusinessError, ConflictError, ErrorCode, NotFoundError, ValidationError } from '../../utils/errors';
+import type { FakeDb } from '../financial/fake-db';
+
+vi.mock('../../db', async () => {
+  const { createFakeDb } = await import('../financial/fake-db');
+  return { db: createFakeDb() };
+});
+
+// The storage layer's soft deletes, played out on the fake tables
+vi.mock('../../storage-uuid', async () => {
+  const { db } = await import('../../db');
+  const { classes, students } = await import('@shared/schema');
+  const fake = db as any;
+  return {
+    uuidStorage: {
+      getClassById: vi.fn(async (id: string) => fake.rows(classes).find((row: any) => row.id === id && !row.deletedAt)),
+      deleteClass: vi.fn(async (id: string) => {
+        const deletedAt = new Date();
+        fake.rows(classes).filter((row: any) => row.id === id).forEach((row: any) => { row.deletedAt = deletedAt; });
+        fake.rows(students).filter((row: any) => row.classId === id && !row.deletedAt).forEach((row: any) => { row.deletedAt = deletedAt; });
+      }),
+      deleteStudent: vi.fn(async (id: string) => {
+        fake.rows(students).filter((row: any) => row.id === id).forEach((row: any) => { row.deletedAt = new Date(); });
+      }),
+      logAdminAction: vi.fn(async () => undefined)
+    }
+  };
+});
+
+const fakeDb = db as unknown as FakeDb;
+const CLASS_ID = '33333333-3333-4333-8333-333333333333';
+const ADA = '11111111-1111-4111-8111-111111111111';
+const BEN = '22222222-2222-4222-8222-222222222222';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysAgo = (days: number) => new Date(Date.now() - days * DAY_MS);
+const studentRow = (id: string) => fakeDb.rows(students).find((row: any) => row.id === id);
+const classRow = () => fakeDb.rows(classes).find((row: any) => row.id === CLASS_ID);
+
+describe('classLifecycleService', () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    vi.mocked(uuidStorage.logAdminAction).mockClear();
+    fakeDb.seed(classes, [{ id: CLASS_ID, name: 'Room 12', teacherId: 'teacher-1', isArchived: false }]);
+    fakeDb.seed(students, [
+      { id: ADA, classId: CLASS_ID, studentName: 'Ada' },
+      { id: BEN, classId: CLASS_ID, studentName: 'Ben' }
+    ]);
+  });
+
+  describe('archive', () => {
+    it('archives a class and brings it back', async () => {
+      const archived = await setClassArchived(CLASS_ID, true);
+      expect(archived).toMatchObject({ isArchived: true, archivedAt: expect.any(Date) });
+
+      const unarchived = await setClassArchived(CLASS_ID, false);
+      expect(unarchived).toMatchObject({ isArchived: false, archivedAt: null });
+    });
+
+    it('does not archive a deleted class', async () => {
+      classRow().deletedAt = daysAgo(1);
+      await expect(setClassArchived(CLASS_ID, true)).rejects.toBeInstanceOf(NotFoundError);
+      expect(classRow().isArchived).toBe(false);
+    });
+  });
+
+  describe('delete', () => {
+    it('soft deletes a class and logs it, with a restore deadline', async () => {
+      const result = await deleteClass(CLASS_ID, 'teacher-1');
+
+      expect(result.restoreBefore.getTime() - result.deletedAt.getTime()).toBe(RESTORE_WINDOW_DAYS * DAY_MS);
+      expect(classRow().deletedAt).toBeInstanceOf(Date);
+      expect(fakeDb.rows(students)).toHaveLength(2);
+      expect(uuidStorage.logAdminAction).toHaveBeenCalledWith(expect.objectContaining({ action: 'DELETE_CLASS', targetId: CLASS_ID }));
+    });
+
+    it('soft deletes one student and not twice', async () => {
+      await deleteStudent(CLASS_ID, ADA);
+
+      expect(studentRow(ADA).deletedAt).toBeInstanceOf(Date);
+      expect(studentRow(BEN).deletedAt).toBeNull();
+      await expect(deleteStudent(CLASS_ID, ADA)).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    it('does not delete a student from another class', async () => {
+      await expect(deleteStudent('44444444-4444-4444-8444-444444444444', ADA)).rejects.toBeInstanceOf(NotFoundError);
+      expect(studentRow(ADA).deletedAt).toBeNull();
+    });
+  });
+
+  describe('restore', () => {
+    it('restores a class with the students deleted along with it', async () => {
+      studentRow(BEN).deletedAt = daysAgo(5);
+      await deleteClass(CLASS_ID, 'teacher-1');
+
+      const result = await restoreClass(CLASS_ID, 'teacher-1');
+
+      expect(result.studentsRestored).toBe(1);
+      expect(classRow().deletedAt).toBeNull();
+      expect(studentRow(ADA).deletedAt).toBeNull();
+      expect(studentRow(BEN).deletedAt).toBeInstanceOf(Date);
+    });
+
+    it('refuses to restore a class that was not deleted', async () => {
+      await expect(restoreClass(CLASS_ID, 'teacher-1')).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    it('refuses to restore a class after the restore window', async () => {
+      classRow().deletedAt = daysAgo(RESTORE_WINDOW_DAYS + 1);
+
+      await expect(restoreClass(CLASS_ID, 'teacher-1')).rejects.toMatchObject({ code: ErrorCode.BIZ_013 });
+      expect(classRow().deletedAt).toBeInstanceOf(Date);
+    });
+
+    it('restores a deleted student', async () => {
+      await deleteStudent(CLASS_ID, ADA);
+
+      const restored = await restoreStudent(CLASS_ID, ADA);
+
+      expect(restored).toMatchObject({ id: ADA, deletedAt: null });
+    });
+
+    it('refuses to restore a student after the restore window', async () => {
+      studentRow(ADA).deletedAt = daysAgo(RESTORE_WINDOW_DAYS + 1);
+
+      const attempt = restoreStudent(CLASS_ID, ADA);
+      await expect(attempt).rejects.toBeInstanceOf(BusinessError);
+      await expect(attempt).rejects.toMatchObject({ code: ErrorCode.BIZ_013 });
+    });
+
+    it('refuses to restore a student whose name has been taken since', async () => {
+      studentRow(ADA).deletedAt = daysAgo(2);
+      fakeDb.seed(students, [{ id: '55555555-5555-4555-8555-555555555555', classId: CLASS_ID, studentName: 'Ada' }]);
+
+      await expect(restoreStudent(CLASS_ID, ADA)).rejects.toBeInstanceOf(ConflictError);
+      expect(studentRow(ADA).deletedAt).toBeInstanceOf(Date);
+    });
+
+    it('refuses to restore a student who was not deleted', async () => {
+      await expect(restoreStudent(CLASS_ID, BEN)).rejects.toBeInstanceOf(ValidationError);
+    });
+  });
+});
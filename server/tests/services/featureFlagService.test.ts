@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { FeatureFlag } from '@shared/schema';
+import { evaluateFlag, rolloutBucket } from '../../services/featureFlagService';
+
+vi.mock('../../db', () => ({ db: {} }));
+
+const flag = (overrides: Partial<FeatureFlag> = {}): FeatureFlag => ({
+  id: 'new_garden',
+  description: null,
+  isEnabled: true,
+  rolloutPercentage: 0,
+  bucketBy: 'teacher',
+  allowedSchools: [],
+  deniedSchools: [],
+  createdAt: null,
+  updatedAt: null,
+  ...overrides
+});
+
+const TEACHERS = Array.from({ length: 500 }, (_, i) => `teacher-${i}`);
+
+describe('rolloutBucket', () => {
+  it('puts a unit in the same bucket every time', () => {
+    for (const teacherId of TEACHERS.slice(0, 20)) {
+      const bucket = rolloutBucket('new_garden', teacherId);
+      expect(bucket).toBe(rolloutBucket('new_garden', teacherId));
+      expect(bucket).toBeGreaterThanOrEqual(0);
+      expect(bucket).toBeLessThan(100);
+    }
+  });
+
+  it('gives each flag its own cohort', () => {
+    const cohort = (flagId: string) => TEACHERS.filter(teacherId => rolloutBucket(flagId, teacherId) < 10);
+    expect(cohort('new_garden')).not.toEqual(cohort('class_pets'));
+  });
+
+  it('spreads units roughly evenly', () => {
+    const inFirstHalf = TEACHERS.filter(teacherId => rolloutBucket('new_garden', teacherId) < 50).length;
+    expect(inFirstHalf / TEACHERS.length).toBeGreaterThan(0.4);
+    expect(inFirstHalf / TEACHERS.length).toBeLessThan(0.6);
+  });
+});
+
+describe('evaluateFlag', () => {
+  it('is off while the flag is disabled, whatever else it says', () => {
+    const disabled = flag({ isEnabled: false, rolloutPercentage: 100, allowedSchools: ['lincoln elementary'] });
+    expect(evaluateFlag(disabled, { teacherId: 'teacher-1', school: 'Lincoln Elementary' })).toBe(false);
+  });
+
+  it('only ever adds teachers as the rollout goes up', () => {
+    let previous = new Set<string>();
+    for (let percentage = 0; percentage <= 100; percentage += 5) {
+      const enabled = new Set(TEACHERS.filter(teacherId =>
+        evaluateFlag(flag({ rolloutPercentage: percentage }), { teacherId })));
+
+      for (const teacherId of previous) {
+        expect(enabled.has(teacherId)).toBe(true);
+      }
+      previous = enabled;
+    }
+    expect(previous.size).toBe(TEACHERS.length);
+  });
+
+  it('is off at 0% and on at 100%', () => {
+    expect(evaluateFlag(flag({ rolloutPercentage: 0 }), { teacherId: 'teacher-1' })).toBe(false);
+    expect(evaluateFlag(flag({ rolloutPercentage: 100 }), {})).toBe(true);
+  });
+
+  it('buckets by class when asked, and leaves out a context without the unit', () => {
+    const byClass = flag({ bucketBy: 'class', rolloutPercentage: 99 });
+    const classId = TEACHERS.find(id => rolloutBucket(byClass.id, id) < 99)!;
+
+    expect(evaluateFlag(byClass, { classId })).toBe(true);
+    expect(evaluateFlag(byClass, { teacherId: classId })).toBe(false);
+  });
+
+  it('turns the flag on for allowed schools and off for denied ones, matching names loosely', () => {
+    const schools = flag({ rolloutPercentage: 50, allowedSchools: ['lincoln elementary'], deniedSchools: ['roosevelt middle'] });
+    const teacherId = TEACHERS.find(id => rolloutBucket(schools.id, id) < 50)!;
+
+    expect(evaluateFlag(schools, { teacherId: 'anyone', school: '  Lincoln Elementary ' })).toBe(true);
+    expect(evaluateFlag(schools, { teacherId, school: 'Roosevelt Middle' })).toBe(false);
+    expect(evaluateFlag(schools, { teacherId, school: 'Another School' })).toBe(true);
+  });
+
+  it('lets a deny win over an allow for the same school', () => {
+    const both = flag({ rolloutPercentage: 100, allowedSchools: ['lincoln elementary'], deniedSchools: ['lincoln elementary'] });
+    expect(evaluateFlag(both, { teacherId: 'teacher-1', school: 'Lincoln Elementary' })).toBe(false);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  generateClassInsights,
+  generateGroups,
+  generatePairings,
+  MAX_GROUP_SIZE,
+  type GroupingStudent
+} from '../../services/pairingService';
+
+vi.mock('../../services/typeLookupService', () => ({
+  typeLookup: { getGeniusForAnimal: vi.fn() }
+}));
+
+const GENIUS = ['Thinker', 'Feeler', 'Doer'];
+const STYLES = ['visual', 'auditory', 'kinesthetic', 'readingWriting'];
+
+function makeStudents(count: number): GroupingStudent[] {
+  return Array.from({ length: count }, (_, i) => ({
+    studentId: `s${i + 1}`,
+    name: `Student ${i + 1}`,
+    animal: null,
+    genius: GENIUS[i % GENIUS.length],
+    learningStyle: STYLES[i % STYLES.length]
+  }));
+}
+
+const sizesOf = (groups: { members: GroupingStudent[] }[]) => groups.map(group => group.members.length).sort((a, b) => b - a);
+const groupOf = (groups: { members: GroupingStudent[] }[], studentId: string) =>
+  groups.findIndex(group => group.members.some(member => member.studentId === studentId));
+
+describe('generateGroups', () => {
+  it('never puts more than groupSize students in a group', () => {
+    for (let count = 2; count <= 31; count++) {
+      for (let groupSize = 3; groupSize <= MAX_GROUP_SIZE; groupSize++) {
+        const { groups } = generateGroups(makeStudents(count), { groupSize, seed: count });
+        expect(Math.max(...sizesOf(groups))).toBeLessThanOrEqual(groupSize);
+        expect(sizesOf(groups).reduce((sum, size) => sum + size, 0)).toBe(count);
+      }
+    }
+  });
+
+  it('keeps group sizes within one of each other', () => {
+    expect(sizesOf(generateGroups(makeStudents(9), { groupSize: 4, seed: 1 }).groups)).toEqual([3, 3, 3]);
+    expect(sizesOf(generateGroups(makeStudents(11), { groupSize: 4, seed: 1 }).groups)).toEqual([4, 4, 3]);
+    expect(sizesOf(generateGroups(makeStudents(6), { groupSize: 5, seed: 1 }).groups)).toEqual([3, 3]);
+  });
+
+  it('does not leave a student on their own', () => {
+    expect(sizesOf(generateGroups(makeStudents(7), { groupSize: 2, seed: 1 }).groups)).toEqual([3, 2, 2]);
+    expect(sizesOf(generateGroups(makeStudents(3), { groupSize: 2, seed: 1 }).groups)).toEqual([3]);
+    expect(sizesOf(generateGroups(makeStudents(8), { groupSize: 2, seed: 1 }).groups)).toEqual([2, 2, 2, 2]);
+  });
+
+  it('puts a class smaller than one group into a single group', () => {
+    expect(sizesOf(generateGroups(makeStudents(1), { groupSize: 4, seed: 1 }).groups)).toEqual([1]);
+    expect(generateGroups([], { groupSize: 4, seed: 1 }).groups).toEqual([]);
+  });
+
+  it('clamps the group size to the allowed range', () => {
+    expect(Math.max(...sizesOf(generateGroups(makeStudents(20), { groupSize: 12, seed: 1 }).groups))).toBe(MAX_GROUP_SIZE);
+    expect(sizesOf(generateGroups(makeStudents(4), { groupSize: 1, seed: 1 }).groups)).toEqual([2, 2]);
+  });
+
+  it('gives the same groups for the same seed', () => {
+    const students = makeStudents(14);
+    const first = generateGroups(students, { groupSize: 3, seed: 42 });
+    const second = generateGroups(students, { groupSize: 3, seed: 42 });
+    expect(second.seed).toBe(42);
+    expect(second.groups).toEqual(first.groups);
+  });
+
+  it('keeps linked students together and avoided students apart', () => {
+    const { groups, warnings } = generateGroups(makeStudents(12), {
+      groupSize: 3,
+      seed: 7,
+      constraints: [
+        { type: 'keep_together', studentAId: 's1', studentBId: 's2' },
+        { type: 'avoid', studentAId: 's3', studentBId: 's4' },
+        { type: 'avoid', studentAId: 's1', studentBId: 's5' }
+      ]
+    });
+
+    expect(warnings).toEqual([]);
+    expect(groupOf(groups, 's1')).toBe(groupOf(groups, 's2'));
+    expect(groupOf(groups, 's3')).not.toBe(groupOf(groups, 's4'));
+    expect(groupOf(groups, 's1')).not.toBe(groupOf(groups, 's5'));
+  });
+
+  it('warns when rules contradict each other', () => {
+    const { warnings } = generateGroups(makeStudents(6), {
+      groupSize: 3,
+      seed: 1,
+      constraints: [
+        { type: 'keep_together', studentAId: 's1', studentBId: 's2' },
+        { type: 'avoid', studentAId: 's1', studentBId: 's2' }
+      ]
+    });
+    expect(warnings).toEqual([expect.stringMatching(/^Student [12] and Student [12] are linked by keep-together rules but also set to avoid each other$/)]);
+  });
+
+  it('splits up pairs from previous groupings when it can', () => {
+    const students = makeStudents(8);
+    const previousGroups = [['s1', 's2', 's3', 's4'], ['s5', 's6', 's7', 's8']];
+    const { groups } = generateGroups(students, { groupSize: 4, seed: 3, previousGroups });
+    // Two from each old group in each new one is the best possible: one repeat per old half
+    expect(groups.reduce((sum, group) => sum + group.repeatedPairs, 0)).toBe(4);
+  });
+});
+
+describe('generatePairings', () => {
+  it('finds dynamic duos, puzzle pairings and solo workers from animal types', () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const { dynamicDuos, puzzlePairings, soloWorkers } = generatePairings([
+      { id: 1, studentName: 'Ada', animalType: 'Owl' },
+      { id: 2, studentName: 'Ben', animalType: 'Otter' },
+      { id: 3, studentName: 'Cy', animalType: 'Elephant' },
+      { id: 4, studentName: 'Dee', animalType: null }
+    ]);
+
+    expect(dynamicDuos).toEqual([
+      expect.objectContaining({ student1: expect.objectContaining({ name: 'Ada' }), student2: expect.objectContaining({ name: 'Ben' }) }),
+      expect.objectContaining({ student1: expect.objectContaining({ name: 'Ben' }), student2: expect.objectContaining({ name: 'Cy' }) })
+    ]);
+    expect(puzzlePairings).toEqual([
+      expect.objectContaining({ student1: expect.objectContaining({ name: 'Ada' }), student2: expect.objectContaining({ name: 'Cy' }) })
+    ]);
+    expect(soloWorkers).toEqual([{ name: 'Ada', animal: 'Owl', submissionId: 1, note: 'Excels in independent analytical projects' }]);
+    log.mockRestore();
+  });
+});
+
+describe('generateClassInsights', () => {
+  it('sorts students into each insight their animal calls for', () => {
+    const insights = generateClassInsights([
+      { id: 1, studentName: 'Ada', animalType: 'Beaver' },
+      { id: 2, studentName: 'Ben', animalType: 'Otter' }
+    ]);
+
+    const beaver = { name: 'Ada', animal: 'Beaver', submissionId: 1 };
+    expect(insights).toEqual({
+      mayGetOverlooked: [beaver],
+      needConnection: [beaver],
+      needChangeWarnings: [beaver],
+      needThinkTime: [beaver]
+    });
+  });
+});
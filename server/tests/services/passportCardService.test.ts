@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { animalTypes, classes, students } from '@shared/schema';
+import { animalMap } from '@shared/scoring';
+import { getAnimalEmoji } from '@shared/personality-regions';
+import { db } from '../../db';
+import {
+  getPrintableRoster,
+  passportLoginUrl,
+  renderPassportCards,
+  renderRosterSheet
+} from '../../services/passportCardService';
+import { NotFoundError } from '../../utils/errors';
+import type { FakeDb } from '../financial/fake-db';
+
+vi.mock('../../db', async () => {
+  const { createFakeDb } = await import('../financial/fake-db');
+  return { db: createFakeDb() };
+});
+
+const fakeDb = db as unknown as FakeDb;
+const CLASS_ID = '33333333-3333-4333-8333-333333333333';
+const OWL_ID = '77777777-7777-4777-8777-777777777777';
+const ADA = '11111111-1111-4111-8111-111111111111';
+const BEN = '22222222-2222-4222-8222-222222222222';
+const CY = '44444444-4444-4444-8444-444444444444';
+
+const classRow = () => fakeDb.rows(classes).find((row: any) => row.id === CLASS_ID);
+
+describe('getPrintableRoster', () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    fakeDb.seed(classes, [{ id: CLASS_ID, name: 'Room 12', classCode: 'ABC-123', teacherId: 'teacher-1' }]);
+    fakeDb.seed(animalTypes, [{ id: OWL_ID, code: 'owl', name: 'Owl' }]);
+    fakeDb.seed(students, [
+      { id: ADA, classId: CLASS_ID, studentName: 'Ada', passportCode: 'OWL-AB1', animalTypeId: OWL_ID },
+      { id: BEN, classId: CLASS_ID, studentName: 'Ben', passportCode: 'OWL-CD2', deletedAt: new Date() },
+      { id: CY, classId: CLASS_ID, studentName: null, passportCode: 'OWL-EF3' }
+    ]);
+  });
+
+  it('leaves deleted students off the roster', async () => {
+    const { classRecord, roster } = await getPrintableRoster(CLASS_ID);
+
+    expect(classRecord).toEqual({ name: 'Room 12', classCode: 'ABC-123' });
+    expect(roster).toEqual([
+      { id: ADA, name: 'Ada', passportCode: 'OWL-AB1', animal: 'Owl' },
+      { id: CY, name: 'Student', passportCode: 'OWL-EF3', animal: null }
+    ]);
+  });
+
+  it('reprints only the cards asked for, never a deleted student\'s', async () => {
+    const { roster } = await getPrintableRoster(CLASS_ID, [ADA, BEN]);
+
+    expect(roster.map(student => student.id)).toEqual([ADA]);
+  });
+
+  it('does not print a deleted class', async () => {
+    classRow().deletedAt = new Date();
+
+    await expect(getPrintableRoster(CLASS_ID)).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
+
+describe('printable PDFs', () => {
+  const classRecord = { name: 'Room 12', classCode: 'ABC-123' };
+  const roster = [
+    { id: ADA, name: 'Ada', passportCode: 'OWL-AB1', animal: 'Owl' },
+    { id: CY, name: 'Student', passportCode: 'OWL-EF3', animal: null }
+  ];
+
+  it('renders passport cards and the roster sheet', async () => {
+    const cards = await renderPassportCards(classRecord, roster);
+    const sheet = await renderRosterSheet(classRecord, roster);
+
+    expect(cards.subarray(0, 5).toString()).toBe('%PDF-');
+    expect(sheet.subarray(0, 5).toString()).toBe('%PDF-');
+  });
+
+  it('points the QR code at the student login with the passport code filled in', () => {
+    expect(passportLoginUrl('OWL-AB1')).toMatch(/\/student\/login\?passport=OWL-AB1$/);
+  });
+
+  it('has an emoji of its own for every quiz animal', () => {
+    const fallback = getAnimalEmoji('Unknown');
+    for (const animal of new Set(Object.values(animalMap))) {
+      expect(getAnimalEmoji(animal), animal).not.toBe(fallback);
+    }
+    expect(getAnimalEmoji('Meerkat')).not.toBe('🐿️');
+  });
+});
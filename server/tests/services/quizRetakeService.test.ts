@@ -0,0 +1,61 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Question } from '@shared/quiz-questions';
+import { assertCompleteAnswers, evaluateRetakePolicy } from '../../services/quizRetakeService';
+import { quizRetakeSchema } from '../../validation/quiz-schemas';
+import { ValidationError } from '../../utils/errors';
+
+vi.mock('../../db', async () => {
+  const { createFakeDb } = await import('../financial/fake-db');
+  return { db: createFakeDb() };
+});
+
+vi.mock('../../services/quizBankService', () => ({
+  getBankForClass: vi.fn()
+}));
+
+vi.mock('../../services/typeLookupService', () => ({
+  typeLookup: { getAnimalForPersonalityType: vi.fn(), getGeniusForAnimal: vi.fn() }
+}));
+
+const QUESTIONS = [
+  { id: 1, text: 'One', options: { A: 'a', B: 'b' }, dimension: 'E/I', mapping: { A: 'E', B: 'I' } },
+  { id: 2, text: 'Two', options: { A: 'a', B: 'b', C: 'c', D: 'd' }, dimension: 'VARK', mapping: { A: 'visual', B: 'auditory', C: 'readingWriting', D: 'kinesthetic' } }
+] as Question[];
+
+describe('assertCompleteAnswers', () => {
+  it('accepts one answer for every question', () => {
+    expect(() => assertCompleteAnswers([{ questionId: 2, answer: 'D' }, { questionId: 1, answer: 'A' }], QUESTIONS)).not.toThrow();
+  });
+
+  it('rejects missing, unknown and repeated questions', () => {
+    expect(() => assertCompleteAnswers([{ questionId: 1, answer: 'A' }], QUESTIONS)).toThrow(ValidationError);
+    expect(() => assertCompleteAnswers([{ questionId: 1, answer: 'A' }, { questionId: 3, answer: 'A' }], QUESTIONS)).toThrow(/not part of this quiz/);
+    expect(() => assertCompleteAnswers([{ questionId: 1, answer: 'A' }, { questionId: 1, answer: 'B' }], QUESTIONS)).toThrow(/more than once/);
+  });
+
+  it('rejects an answer the question does not offer', () => {
+    expect(() => assertCompleteAnswers([{ questionId: 1, answer: 'C' }, { questionId: 2, answer: 'A' }], QUESTIONS)).toThrow(/no answer C/);
+  });
+
+  it('is backed by the request schema for repeated questions', () => {
+    const parsed = quizRetakeSchema.safeParse({ answers: [{ questionId: 1, answer: 'A' }, { questionId: 1, answer: 'B' }] });
+    expect(parsed.success).toBe(false);
+  });
+});
+
+describe('evaluateRetakePolicy', () => {
+  const taken = { cooldownDays: null, attempts: 1, lastCompletedAt: new Date('2026-03-01T00:00:00Z'), unlockedAt: null };
+
+  it('lets students retake whenever they like by default', () => {
+    expect(evaluateRetakePolicy({ ...taken, policy: 'always', attempts: 5 })).toMatchObject({ allowed: true, policy: 'always' });
+  });
+
+  it('blocks retakes when the class allows none, unless the teacher unlocked one', () => {
+    expect(evaluateRetakePolicy({ ...taken, policy: 'never' })).toMatchObject({ allowed: false, reason: 'NO_RETAKES' });
+    expect(evaluateRetakePolicy({ ...taken, policy: 'never', unlockedAt: new Date('2026-03-02T00:00:00Z') })).toMatchObject({ allowed: true });
+  });
+
+  it('treats an unknown policy as no retakes', () => {
+    expect(evaluateRetakePolicy({ ...taken, policy: 'sometimes' })).toMatchObject({ allowed: false, policy: 'never' });
+  });
+});
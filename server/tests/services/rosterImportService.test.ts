@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { rosterImports, students } from '@shared/schema';
+import { db } from '../../db';
+import {
+  MAX_IMPORT_ROWS,
+  commitRosterImport,
+  parseCsv,
+  readRosterFile,
+  resolveColumnMapping
+} from '../../services/rosterImportService';
+import { ConflictError, ValidationError } from '../../utils/errors';
+import type { FakeDb } from '../financial/fake-db';
+
+vi.mock('../../db', async () => {
+  const { createFakeDb } = await import('../financial/fake-db');
+  return { db: createFakeDb() };
+});
+
+vi.mock('../../services/typeLookupService', () => ({
+  typeLookup: { getAnimalForPersonalityType: vi.fn(() => null), getGeniusForAnimal: vi.fn(() => null) }
+}));
+
+vi.mock('../../passport-generator', () => {
+  let next = 0;
+  return { generateAnimalPassportCode: vi.fn(async () => `UNK-${String(++next).padStart(3, '0')}`) };
+});
+
+const csvFile = (content: string) => ({ buffer: Buffer.from(content, 'utf-8'), originalname: 'roster.csv' });
+
+describe('parseCsv', () => {
+  it('splits plain rows on commas', () => {
+    expect(parseCsv('First,Last\nAda,Lovelace\nBen,Ng')).toEqual([
+      ['First', 'Last'],
+      ['Ada', 'Lovelace'],
+      ['Ben', 'Ng']
+    ]);
+  });
+
+  it('keeps delimiters, doubled quotes and line breaks inside quoted fields', () => {
+    expect(parseCsv('Name,Note\n"Lovelace, Ada","Says ""hi""\nevery day"\n')).toEqual([
+      ['Name', 'Note'],
+      ['Lovelace, Ada', 'Says "hi"\nevery day']
+    ]);
+  });
+
+  it('handles Windows line endings and a byte order mark', () => {
+    expect(parseCsv('\uFEFFFirst,Last\r\nAda,L\r\n')).toEqual([['First', 'Last'], ['Ada', 'L']]);
+  });
+
+  it('picks up semicolon and tab delimited files from the header', () => {
+    expect(parseCsv('First;Last\nAda;L')).toEqual([['First', 'Last'], ['Ada', 'L']]);
+    expect(parseCsv('First\tLast\nAda\tL')).toEqual([['First', 'Last'], ['Ada', 'L']]);
+  });
+
+  it('keeps empty fields', () => {
+    expect(parseCsv('First,Grade,Last\nAda,,L')).toEqual([['First', 'Grade', 'Last'], ['Ada', '', 'L']]);
+  });
+});
+
+describe('readRosterFile', () => {
+  it('takes the first non-blank row as headers and numbers rows as they are in the file', async () => {
+    const sheet = await readRosterFile(csvFile('\n First , Last \nAda,L\n,\nBen,N\n'));
+
+    expect(sheet.headers).toEqual(['First', 'Last']);
+    expect(sheet.rows).toEqual([
+      { row: 3, values: ['Ada', 'L'] },
+      { row: 5, values: ['Ben', 'N'] }
+    ]);
+  });
+
+  it('rejects an empty file', async () => {
+    await expect(readRosterFile(csvFile('\n\n'))).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it(`rejects more than ${MAX_IMPORT_ROWS} students`, async () => {
+    const rows = Array.from({ length: MAX_IMPORT_ROWS + 1 }, (_, i) => `Student${i},L`).join('\n');
+    await expect(readRosterFile(csvFile(`First,Last\n${rows}`))).rejects.toBeInstanceOf(ValidationError);
+  });
+});
+
+describe('resolveColumnMapping', () => {
+  it('matches common header spellings', () => {
+    expect(resolveColumnMapping(['Given Name', 'Surname', 'Year Group', 'MBTI'])).toEqual({
+      firstName: 'Given Name',
+      lastInitial: 'Surname',
+      fullName: null,
+      gradeLevel: 'Year Group',
+      personalityType: 'MBTI'
+    });
+  });
+
+  it('lets an explicit mapping override or clear a column', () => {
+    expect(resolveColumnMapping(['Kid', 'Grade'], { fullName: 'Kid', gradeLevel: null })).toMatchObject({
+      fullName: 'Kid',
+      gradeLevel: null
+    });
+  });
+
+  it('refuses a mapping to a column the file does not have', () => {
+    expect(() => resolveColumnMapping(['First'], { lastInitial: 'Last' })).toThrow(ValidationError);
+  });
+
+  it('needs a name column', () => {
+    expect(() => resolveColumnMapping(['Grade', 'Type'])).toThrow(ValidationError);
+  });
+});
+
+describe('commitRosterImport', () => {
+  const fakeDb = db as unknown as FakeDb;
+  const CLASS_ID = '33333333-3333-4333-8333-333333333333';
+  const IMPORT_ID = '88888888-8888-4888-8888-888888888888';
+  const row = (index: number, studentName: string, status = 'ready') => ({
+    row: index,
+    firstName: studentName.split(' ')[0],
+    lastInitial: studentName.split(' ')[1],
+    studentName,
+    gradeLevel: null,
+    personalityType: null,
+    status,
+    errors: []
+  });
+
+  beforeEach(() => {
+    fakeDb.reset();
+    fakeDb.seed(rosterImports, [{
+      id: IMPORT_ID,
+      classId: CLASS_ID,
+      teacherId: 'teacher-1',
+      fileName: 'roster.csv',
+      status: 'preview',
+      rows: [row(2, 'Ada L'), row(3, 'Ben N', 'invalid')]
+    }]);
+  });
+
+  it('creates the ready rows and commits the import once', async () => {
+    const committed = await commitRosterImport(CLASS_ID, IMPORT_ID);
+
+    expect(committed.status).toBe('committed');
+    expect(committed.summary).toMatchObject({ total: 2, created: 1, invalid: 1 });
+    expect(fakeDb.rows(students)).toEqual([expect.objectContaining({ classId: CLASS_ID, studentName: 'Ada L' })]);
+
+    await expect(commitRosterImport(CLASS_ID, IMPORT_ID)).rejects.toBeInstanceOf(ConflictError);
+    expect(fakeDb.rows(students)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { moderateText, normalizeForModeration, validatePetName } from '../../utils/profanityFilter';
+
+const reasonsFor = (text: string) => moderateText(text).reasons;
+
+describe('normalizeForModeration', () => {
+  it('reads leetspeak inside words only', () => {
+    expect(normalizeForModeration('sh1t a$$')).toEqual(['shit', 'ass']);
+    expect(normalizeForModeration('Room 455')).toEqual(['room']);
+  });
+
+  it('joins spaced-out letters and drops sentence-ending punctuation', () => {
+    expect(normalizeForModeration('f u c k')).toEqual(['fuck']);
+    expect(normalizeForModeration('s.h.i.t')).toEqual(['shit']);
+    expect(normalizeForModeration('kiss my ass!')).toEqual(['kiss', 'my', 'ass']);
+  });
+});
+
+describe('moderateText', () => {
+  it('flags profanity however it is disguised', () => {
+    for (const text of ['what the fuck', 'fuuuuck', 'F U C K', 'sh1t', 'you a$$', 'bullshit', 'kill yourself', 'kiss my ass!']) {
+      expect(reasonsFor(text), text).toEqual(['profanity']);
+    }
+  });
+
+  it('leaves numbers alone', () => {
+    for (const text of ['Room 455', 'I scored 455 points', 'Sir Hiss 455', 'I have 1000000 coins', 'Level 5318008']) {
+      expect(moderateText(text), text).toEqual({ flagged: false, reasons: [] });
+    }
+  });
+
+  it('leaves innocent words that contain a listed one alone', () => {
+    for (const text of ['She graduated cum laude', 'shitake mushrooms', 'shiitake soup', 'a class of assassins', 'my cockatoo']) {
+      expect(moderateText(text), text).toEqual({ flagged: false, reasons: [] });
+    }
+  });
+
+  it('flags insults said to someone, not descriptions', () => {
+    expect(reasonsFor('my cat is fat')).toEqual([]);
+    expect(reasonsFor('ugly sweater day')).toEqual([]);
+    expect(reasonsFor("you're fat")).toEqual(['insult']);
+    expect(reasonsFor('u r so ugly')).toEqual(['insult']);
+    expect(reasonsFor('you are such a loser')).toEqual(['insult']);
+    expect(reasonsFor('that was stupid')).toEqual(['insult']);
+  });
+
+  it('flags personal information', () => {
+    expect(reasonsFor('call me 555-1234')).toEqual(['phone']);
+    expect(reasonsFor('my number is (602) 555 1234')).toEqual(['phone']);
+    expect(reasonsFor('text 6025551234')).toEqual(['phone']);
+    expect(reasonsFor('ada@gmail.com')).toEqual(['email']);
+    expect(reasonsFor('I live at 12 Oak Street')).toEqual(['address']);
+  });
+});
+
+describe('validatePetName', () => {
+  it('accepts ordinary names with numbers', () => {
+    expect(validatePetName('Sir Hiss 455')).toEqual({ isValid: true, cleanedName: 'Sir Hiss 455' });
+  });
+
+  it('refuses rude names', () => {
+    expect(validatePetName('Butthole')).toMatchObject({ isValid: false, reason: 'Name contains inappropriate content' });
+  });
+});
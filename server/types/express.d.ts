@@ -1,5 +1,5 @@
 import { Request } from 'express';
-import { Profile } from '@shared/schema';
+import { Profile, CollaboratorPermissions } from '@shared/schema';
 
 // Augment Express Request type to include our custom properties
 declare global {
@@ -22,6 +22,11 @@ declare global {
         isAdmin: boolean;
       };
       profile?: Profile;
+      // The teacher's role on the class, set by the class access middleware
+      classAccess?: {
+        role: 'owner' | 'editor' | 'viewer';
+        permissions: CollaboratorPermissions;
+      };
       roomAccess?: {
         canView: boolean;
         canEdit: boolean;
@@ -0,0 +1,17 @@
+/**
+ * Quote a value for CSV, and defuse text a spreadsheet would run as a formula.
+ * Numbers are left alone so negative amounts stay numeric.
+ */
+export function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build a CSV document from a header and rows of cells
+ */
+export function toCsv(header: string[], rows: unknown[][]): string {
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+}
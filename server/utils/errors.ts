@@ -38,6 +38,13 @@ export enum ErrorCode {
   BIZ_004 = 'BIZ_004', // Quiz already submitted
   BIZ_005 = 'BIZ_005', // Class full
   BIZ_006 = 'BIZ_006', // Duplicate entry
+  BIZ_007 = 'BIZ_007', // Item sold out
+  BIZ_008 = 'BIZ_008', // Item not available (outside its availability window)
+  BIZ_009 = 'BIZ_009', // Gifting and trading turned off for the class
+  BIZ_010 = 'BIZ_010', // Selling items back turned off for the class
+  BIZ_011 = 'BIZ_011', // No free pet slots
+  BIZ_012 = 'BIZ_012', // Class archived (read-only)
+  BIZ_013 = 'BIZ_013', // Restore window has passed
   
   // Resource errors (RES_xxx)
   RES_001 = 'RES_001', // Resource not found
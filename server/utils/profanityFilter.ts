@@ -1,15 +1,137 @@
 /**
- * Simple profanity filter for pet names
- * In production, consider using a library like bad-words
+ * Moderation checks for student-written text: a word list matched after undoing
+ * leetspeak, spacing and stretched letters, plus personal information (phone numbers,
+ * emails, street addresses) that kids shouldn't share.
  */
 
-// Basic list of inappropriate words/patterns
-const BLOCKED_PATTERNS = [
-  // Add basic inappropriate words here
-  // For MVP, keeping it simple
+export type ModerationReason = 'profanity' | 'insult' | 'phone' | 'email' | 'address';
+
+export interface ModerationResult {
+  flagged: boolean;
+  reasons: ModerationReason[];
+}
+
+// Matched as whole words
+const PROFANITY_WORDS = [
+  'anal', 'arse', 'ass', 'asses', 'bastard', 'bollocks', 'boner', 'boob', 'boobs', 'butthole',
+  'cock', 'cocks', 'crap', 'cum', 'cunt', 'damn', 'dick', 'dicks', 'douche', 'fag', 'fags',
+  'horny', 'jizz', 'kys', 'nude', 'nudes', 'penis', 'piss', 'pissed', 'prick', 'pussy',
+  'rape', 'retard', 'retarded', 'sex', 'sexy', 'stfu', 'tits', 'titty', 'twat', 'vagina',
+  'wank', 'wtf'
+];
+
+// Matched anywhere inside a word ("motherfucker", "bullshit")
+const PROFANITY_FRAGMENTS = [
+  'asshole', 'bitch', 'dildo', 'dumbass', 'faggot', 'fuck', 'jackass', 'killyourself',
+  'nigga', 'nigger', 'porn', 'shit', 'slut', 'whore'
+];
+
+// Matched as consecutive words
+const PROFANITY_PHRASES = ['kill yourself', 'kill urself', 'go die'];
+
+// Innocent words and phrases that contain a listed word or fragment
+const ALLOWED_WORDS = ['shitake', 'shiitake'];
+const ALLOWED_PHRASES = ['cum laude'];
+
+// Unkind rather than rude: worth a teacher's look in messages to classmates
+const INSULT_WORDS = [
+  'dumb', 'dummy', 'fatso', 'freak', 'idiot', 'idiots', 'loser', 'losers', 'moron', 'stupid',
+  'weirdo'
+];
+
+// Fine as a description ("my cat is fat"), an insult when said to someone ("you're fat")
+const DIRECTED_INSULT_WORDS = ['fat', 'ugly'];
+const ADDRESSEE_WORDS = ['you', 'u', 'ur', 'youre', 'your', 'ya'];
+
+const LEET_MAP: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b',
+  '@': 'a', '$': 's', '!': 'i', '+': 't', '|': 'l'
+};
+
+// Each letter may be stretched ("fuuuck") but doubled letters stay required ("ass" isn't "as")
+const stretchable = (word: string) => word.split('').map(letter => `${letter}+`).join('');
+
+const PROFANITY_WORD_PATTERN = new RegExp(`^(?:${PROFANITY_WORDS.map(stretchable).join('|')})$`);
+const PROFANITY_FRAGMENT_PATTERN = new RegExp(PROFANITY_FRAGMENTS.map(stretchable).join('|'));
+const PROFANITY_PHRASE_PATTERN = new RegExp(`(?:^| )(?:${PROFANITY_PHRASES.map(phrase => phrase.split(' ').map(stretchable).join(' ')).join('|')})(?: |$)`);
+const ALLOWED_PHRASE_PATTERN = new RegExp(`(?:^| )(?:${ALLOWED_PHRASES.join('|')})(?= |$)`, 'g');
+const INSULT_WORD_PATTERN = new RegExp(`^(?:${INSULT_WORDS.map(stretchable).join('|')})$`);
+const DIRECTED_INSULT_PATTERN = new RegExp(
+  `(?:^| )(?:${ADDRESSEE_WORDS.join('|')})(?: (?:are|r|re|is|so|such|a|really|very|too))* (?:${DIRECTED_INSULT_WORDS.map(stretchable).join('|')})(?: |$)`
+);
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+\s*(?:@|\(at\)|\[at\])\s*[a-z0-9-]+(?:\s*(?:\.|\(dot\)|\[dot\])\s*[a-z0-9-]+)+/i;
+// A number written like a phone number: 555-1234, or ten digits (area code first) however
+// they are spaced or punctuated. A plain count like "1000000 coins" isn't one.
+const PHONE_PATTERN = /(?<!\d)(?:\d{3}[.-]\d{4}|(?:\+?1[\s.-]*)?\(?\d{3}\)?[\s.-]*\d{3}[\s.-]*\d{4})(?!\d)/;
+const ADDRESS_PATTERN = /\b\d{1,6}\s+(?:[a-z0-9.'-]+\s+){1,4}(?:street|st|avenue|ave|road|rd|lane|ln|drive|dr|boulevard|blvd|court|ct|way|place|pl|circle|cir|terrace|parkway|pkwy|highway|hwy|trail)\b/i;
+
+/**
+ * Lower-case words with leetspeak and accents undone. Leetspeak is only read inside words
+ * that have letters ("sh1t", "a$$"), so numbers like "455" stay numbers. Runs of single
+ * letters are joined so spaced-out words ("f u c k", "s.h.i.t") are caught.
+ */
+export function normalizeForModeration(text: string): string[] {
+  const tokens = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9@$!+|]+/)
+    .map(token => token.replace(/!+$/, '')) // "ass!" ends a sentence, it isn't "assi"
+    .filter(token => /[a-z]/.test(token))
+    .flatMap(token => token.replace(/[0-9@$!+|]/g, char => LEET_MAP[char] ?? char).split(/[^a-z]+/))
+    .filter(Boolean);
+
+  const words: string[] = [];
+  let letters = '';
+  for (const token of tokens) {
+    if (token.length === 1) {
+      letters += token;
+      continue;
+    }
+    if (letters) words.push(letters);
+    letters = '';
+    words.push(token);
+  }
+  if (letters) words.push(letters);
+  return words;
+}
+
+/**
+ * Check student-written text. Flagged text should be held for a teacher (messages) or
+ * refused (names).
+ */
+export function moderateText(text: string): ModerationResult {
+  const reasons = new Set<ModerationReason>();
+
+  const normalized = normalizeForModeration(text).join(' ').replace(ALLOWED_PHRASE_PATTERN, '');
+  const words = normalized.split(' ').filter(word => word && !ALLOWED_WORDS.includes(word));
+  if (PROFANITY_PHRASE_PATTERN.test(words.join(' '))) {
+    reasons.add('profanity');
+  }
+  if (DIRECTED_INSULT_PATTERN.test(words.join(' '))) {
+    reasons.add('insult');
+  }
+
+  for (const word of words) {
+    if (PROFANITY_WORD_PATTERN.test(word) || PROFANITY_FRAGMENT_PATTERN.test(word)) {
+      reasons.add('profanity');
+    } else if (INSULT_WORD_PATTERN.test(word)) {
+      reasons.add('insult');
+    }
+  }
+
+  if (EMAIL_PATTERN.test(text)) reasons.add('email');
+  if (PHONE_PATTERN.test(text)) reasons.add('phone');
+  if (ADDRESS_PATTERN.test(text)) reasons.add('address');
+
+  return { flagged: reasons.size > 0, reasons: [...reasons] };
+}
+
+// Names that would pass for the app or a grown-up
+const IMPERSONATION_PATTERNS = [
   /\b(admin|administrator|teacher|staff)\b/i,
   /\b(test|debug|dev)\b/i,
-  // Common profanity patterns would go here
 ];
 
 // Reserved names
@@ -49,12 +171,21 @@ export function validatePetName(name: string): ValidationResult {
   }
   
   // Check for blocked patterns
-  for (const pattern of BLOCKED_PATTERNS) {
+  for (const pattern of IMPERSONATION_PATTERNS) {
     if (pattern.test(trimmed)) {
       return { isValid: false, reason: 'Name contains inappropriate content' };
     }
   }
   
+  // Names are shown to the whole class, so anything the filter flags is refused
+  const moderation = moderateText(trimmed);
+  if (moderation.reasons.some(reason => reason === 'profanity' || reason === 'insult')) {
+    return { isValid: false, reason: 'Name contains inappropriate content' };
+  }
+  if (moderation.flagged) {
+    return { isValid: false, reason: 'Names can\'t include personal information' };
+  }
+  
   // Check for valid characters (letters, numbers, spaces, basic punctuation)
   if (!/^[a-zA-Z0-9\s\-'_.!]+$/.test(trimmed)) {
     return { isValid: false, reason: 'Name contains invalid characters' };
@@ -0,0 +1,10 @@
+import { isNull } from "drizzle-orm";
+import { students } from "@shared/schema";
+
+/**
+ * Students who haven't been deleted. Add to every query that lists, counts, groups
+ * or pays students; only the restore and purge paths look at deleted ones.
+ */
+export function isActiveStudent() {
+  return isNull(students.deletedAt);
+}
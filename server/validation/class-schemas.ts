@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { moderateText } from '../utils/profanityFilter';
 
 // Class creation schema
 export const createClassSchema = z.object({
@@ -52,4 +53,259 @@ export const importStudentsSchema = z.object({
   }))
   .min(1, "At least one student is required")
   .max(500, "Cannot import more than 500 students at once")
-});
\ No newline at end of file
+});
+// Generate seating groups schema
+export const generateGroupsSchema = z.object({
+  name: z.string()
+    .max(255, "Name must be less than 255 characters")
+    .trim()
+    .optional(),
+  groupSize: z.number()
+    .int()
+    .min(2, "Groups need at least 2 students")
+    .max(5, "Groups can have at most 5 students"),
+  avoidRepeatsFromLast: z.number()
+    .int()
+    .min(0)
+    .max(10)
+    .optional()
+    .default(1),
+  seed: z.number()
+    .int()
+    .nonnegative()
+    .optional()
+});
+
+// Pairing rule schema
+export const pairingConstraintSchema = z.object({
+  studentAId: z.string().uuid("Invalid student ID"),
+  studentBId: z.string().uuid("Invalid student ID"),
+  type: z.enum(['avoid', 'keep_together']),
+  note: z.string()
+    .max(255, "Note must be less than 255 characters")
+    .trim()
+    .optional()
+    .nullable()
+});
+
+// Class data export schema
+export const classExportSchema = z.object({
+  format: z.enum(['csv', 'json']).optional().default('csv')
+});
+
+// Bulk coin award schema
+export const bulkAwardSchema = z.object({
+  target: z.discriminatedUnion('type', [
+    z.object({
+      type: z.literal('students'),
+      studentIds: z.array(z.string().uuid("Invalid student ID"))
+        .min(1, "Pick at least one student")
+        .max(500, "Cannot award more than 500 students at once")
+    }),
+    z.object({
+      type: z.literal('group'),
+      groupingId: z.string().uuid("Invalid grouping ID"),
+      groupIndex: z.number().int().min(0)
+    }),
+    z.object({
+      type: z.literal('animal'),
+      animalType: z.string().min(1).max(50)
+    }),
+    z.object({ type: z.literal('class') })
+  ]),
+  amount: z.number()
+    .int("Amount must be a whole number")
+    .min(-1000, "Cannot take more than 1000 coins at once")
+    .max(1000, "Cannot give more than 1000 coins at once")
+    .refine(amount => amount !== 0, "Amount cannot be 0"),
+  reason: z.string()
+    .max(255, "Reason must be less than 255 characters")
+    .trim()
+    .optional()
+    .nullable()
+});
+
+// Class reward rule schema
+export const rewardRuleSchema = z.object({
+  trigger: z.enum(['lesson_activity_complete', 'lesson_complete', 'achievement_unlock', 'game_score']),
+  amount: z.number()
+    .int("Amount must be a whole number")
+    .min(1, "Rewards must be at least 1 coin")
+    .max(1000, "Rewards can be at most 1000 coins"),
+  conditions: z.object({
+    achievementCode: z.string().max(50).optional(),
+    gameType: z.string().max(50).optional(),
+    minScore: z.number().int().min(0).optional(),
+    maxPerDay: z.number().int().min(1).max(100).optional()
+  }).optional().default({}),
+  description: z.string()
+    .max(255, "Description must be less than 255 characters")
+    .trim()
+    .optional()
+    .nullable(),
+  isActive: z.boolean().optional()
+});
+
+export const updateRewardRuleSchema = rewardRuleSchema.partial();
+
+// Teacher-made class store item (coupon) schema
+const classStoreItemFields = z.object({
+  name: z.string()
+    .min(1, "Name is required")
+    .max(255, "Name must be less than 255 characters")
+    .trim(),
+  description: z.string()
+    .max(1000, "Description must be less than 1000 characters")
+    .trim()
+    .optional()
+    .nullable(),
+  cost: z.number()
+    .int("Cost must be a whole number")
+    .min(0, "Cost can't be negative")
+    .max(10000, "Cost can be at most 10000 coins"),
+  rarity: z.enum(['common', 'rare', 'epic', 'legendary']).optional(),
+  isActive: z.boolean().optional(),
+  sortOrder: z.number().int().optional(),
+  availableFrom: z.coerce.date().nullable().optional(),
+  availableUntil: z.coerce.date().nullable().optional(),
+  salePercent: z.number().int().min(1).max(90, "Sales can take at most 90% off").nullable().optional(),
+  saleStartsAt: z.coerce.date().nullable().optional(),
+  saleEndsAt: z.coerce.date().nullable().optional(),
+  stockLimit: z.number().int().min(1, "Stock limit must be at least 1").nullable().optional()
+});
+
+const checkItemWindows = (item: Partial<z.infer<typeof classStoreItemFields>>, ctx: z.RefinementCtx) => {
+  if (item.availableFrom && item.availableUntil && item.availableFrom >= item.availableUntil) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['availableUntil'], message: "Must be after availableFrom" });
+  }
+  if (item.saleStartsAt && item.saleEndsAt && item.saleStartsAt >= item.saleEndsAt) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['saleEndsAt'], message: "Must be after saleStartsAt" });
+  }
+};
+
+export const classStoreItemSchema = classStoreItemFields.superRefine(checkItemWindows);
+
+export const updateClassStoreItemSchema = classStoreItemFields.partial().superRefine(checkItemWindows);
+
+// Student redeeming a coupon
+export const redeemItemSchema = z.object({
+  itemId: z.string().uuid("Invalid item ID"),
+  note: z.string()
+    .max(500, "Note must be less than 500 characters")
+    .trim()
+    .optional()
+    .nullable()
+});
+
+// Gift or trade proposal between classmates
+const tradeItemIds = z.array(z.string().uuid("Invalid item ID"))
+  .max(5, "At most 5 items per side")
+  .optional()
+  .default([]);
+
+const tradeCoins = z.number()
+  .int("Coins must be a whole number")
+  .min(0, "Coins can't be negative")
+  .max(500, "At most 500 coins per side")
+  .optional()
+  .default(0);
+
+export const tradeProposalSchema = z.object({
+  kind: z.enum(['gift', 'trade']),
+  toStudentId: z.string().uuid("Invalid student ID"),
+  offerCoins: tradeCoins,
+  offerItemIds: tradeItemIds,
+  requestCoins: tradeCoins,
+  requestItemIds: tradeItemIds,
+  message: z.string()
+    .max(200, "Message must be less than 200 characters")
+    .trim()
+    .refine(message => !moderateText(message).flagged, "Message can't include rude words or personal information")
+    .optional()
+    .nullable()
+});
+
+export const tradeDecisionSchema = z.object({
+  note: z.string()
+    .max(500, "Note must be less than 500 characters")
+    .trim()
+    .optional()
+    .nullable()
+});
+
+// Teacher refund for a disputed purchase: an owned item or a purchase charge
+export const teacherRefundSchema = z.object({
+  studentId: z.string().uuid("Invalid student ID"),
+  itemId: z.string().uuid("Invalid item ID").optional(),
+  transactionId: z.string().uuid("Invalid transaction ID").optional(),
+  amount: z.number()
+    .int("Amount must be a whole number")
+    .min(1, "Amount must be at least 1 coin")
+    .optional(),
+  removeItem: z.boolean().optional().default(false),
+  reason: z.string()
+    .min(1, "Reason is required")
+    .max(255, "Reason must be less than 255 characters")
+    .trim()
+}).refine(
+  data => !!data.itemId !== !!data.transactionId,
+  { message: "Refund either an item or a purchase transaction", path: ['itemId'] }
+);
+
+// Student report of a classmate (by passport code) or of a guestbook message
+export const studentReportSchema = z.object({
+  passportCode: z.string().regex(/^[A-Z]{3}-[A-Z0-9]{3}$/, "Invalid passport code format").optional(),
+  guestbookMessageId: z.string().uuid("Invalid message ID").optional(),
+  reason: z.enum(['unkind', 'inappropriate', 'personal_info', 'other']),
+  details: z.string()
+    .max(500, "Details must be less than 500 characters")
+    .trim()
+    .optional()
+    .nullable()
+}).refine(
+  data => !data.passportCode !== !data.guestbookMessageId,
+  { message: "Report either a classmate or a guestbook message", path: ['passportCode'] }
+);
+
+export const reportDecisionSchema = z.object({
+  note: z.string()
+    .max(500, "Note must be less than 500 characters")
+    .trim()
+    .optional()
+    .nullable()
+});
+
+// Co-teacher invitation and role changes
+const collaboratorPermissionsSchema = z.object({
+  can_manage_students: z.boolean(),
+  can_manage_store: z.boolean(),
+  can_view_analytics: z.boolean(),
+  can_export_data: z.boolean(),
+  can_send_messages: z.boolean(),
+  can_manage_curriculum: z.boolean()
+}).partial().strict();
+
+export const inviteCollaboratorSchema = z.object({
+  email: z.string().email("Invalid email address").trim(),
+  role: z.enum(['viewer', 'editor']).default('viewer'),
+  permissions: collaboratorPermissionsSchema.optional()
+});
+
+export const updateCollaboratorSchema = z.object({
+  role: z.enum(['viewer', 'editor']).optional(),
+  permissions: collaboratorPermissionsSchema.optional()
+}).refine(
+  data => data.role !== undefined || data.permissions !== undefined,
+  { message: "Nothing to update", path: ['role'] }
+);
+
+// Owner handing a class to another teacher
+export const transferClassSchema = z.object({
+  toTeacherEmail: z.string().email("Invalid email address").trim(),
+  keepAccess: z.boolean().optional().default(true), // Stay on as an editor
+  reason: z.string()
+    .max(255, "Reason must be less than 255 characters")
+    .trim()
+    .optional()
+    .nullable()
+});
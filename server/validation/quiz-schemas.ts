@@ -0,0 +1,146 @@
+/**
+ * Quiz Question Bank Validation Schemas
+ * Ensures every published bank version can be scored by calculateResults
+ */
+
+import { z } from 'zod';
+import { SUPPORTED_LOCALES } from '@shared/i18n';
+
+const MBTI_MAPPINGS: Record<string, string[]> = {
+  'E/I': ['E', 'I'],
+  'S/N': ['S', 'N'],
+  'T/F': ['T', 'F'],
+  'J/P': ['J', 'P'],
+  'VARK': ['visual', 'auditory', 'kinesthetic', 'readingWriting']
+};
+
+/**
+ * Single quiz question schema (mirrors the Question interface in shared/quiz-questions.ts)
+ */
+export const quizQuestionSchema = z.object({
+  id: z.number().int().positive(),
+  text: z.string().min(1).max(500),
+  options: z.object({
+    A: z.string().min(1).max(255),
+    B: z.string().min(1).max(255),
+    C: z.string().min(1).max(255).optional(),
+    D: z.string().min(1).max(255).optional()
+  }),
+  dimension: z.enum(['E/I', 'S/N', 'T/F', 'J/P', 'VARK']),
+  mapping: z.record(z.string()),
+  audioFile: z.string().max(255).optional()
+}).superRefine((question, ctx) => {
+  const allowed = MBTI_MAPPINGS[question.dimension];
+
+  for (const [option, value] of Object.entries(question.mapping)) {
+    if (!(option in question.options)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['mapping', option],
+        message: `Mapping references option ${option} which the question does not have`
+      });
+    }
+    if (!allowed.includes(value)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['mapping', option],
+        message: `"${value}" is not a valid result for dimension ${question.dimension}`
+      });
+    }
+  }
+
+  for (const option of Object.keys(question.options)) {
+    if (!(option in question.mapping)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['mapping'],
+        message: `Option ${option} has no mapping`
+      });
+    }
+  }
+});
+
+/**
+ * Translated question text (scoring fields always come from the source question)
+ */
+export const questionTranslationSchema = z.object({
+  text: z.string().min(1).max(500),
+  options: z.object({
+    A: z.string().min(1).max(255),
+    B: z.string().min(1).max(255),
+    C: z.string().min(1).max(255).optional(),
+    D: z.string().min(1).max(255).optional()
+  }),
+  audioFile: z.string().max(255).optional()
+});
+
+/**
+ * New bank version schema
+ */
+export const createQuestionBankSchema = z.object({
+  code: z.string()
+    .min(1, "Bank code is required")
+    .max(50, "Bank code must be less than 50 characters")
+    .regex(/^[a-z0-9-]+$/, "Bank code may only contain lowercase letters, numbers and hyphens"),
+  name: z.string().min(1, "Bank name is required").max(255).trim(),
+  gradeBand: z.enum(['k2', 'elementary', 'middle']).nullable().optional(),
+  description: z.string().max(1000).nullable().optional(),
+  questions: z.array(quizQuestionSchema)
+    .min(1, "A bank needs at least one question")
+    .max(200, "A bank cannot have more than 200 questions")
+    .refine(
+      questions => new Set(questions.map(q => q.id)).size === questions.length,
+      "Question IDs must be unique within a bank"
+    ),
+  translations: z.record(
+    z.enum(SUPPORTED_LOCALES),
+    z.record(z.string().regex(/^\d+$/, "Translation keys must be question IDs"), questionTranslationSchema)
+  ).optional(),
+  isDefault: z.boolean().optional().default(false)
+}).superRefine((bank, ctx) => {
+  const questionIds = new Set(bank.questions.map(q => String(q.id)));
+  for (const [locale, translated] of Object.entries(bank.translations || {})) {
+    for (const questionId of Object.keys(translated || {})) {
+      if (!questionIds.has(questionId)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['translations', locale, questionId],
+          message: `Translation for unknown question ${questionId}`
+        });
+      }
+    }
+  }
+});
+
+/**
+ * Bank status update schema (versions are immutable, only availability changes)
+ */
+export const updateQuestionBankStatusSchema = z.object({
+  isActive: z.boolean().optional(),
+  isDefault: z.boolean().optional()
+}).refine(data => data.isActive !== undefined || data.isDefault !== undefined, {
+  message: "Provide isActive or isDefault"
+});
+
+/**
+ * Class bank pinning schema (null returns the class to the default bank)
+ */
+export const pinQuizBankSchema = z.object({
+  questionBankId: z.string().uuid("Invalid question bank ID").nullable()
+});
+
+/**
+ * Retake submission schema (the server scores the answers itself, and checks there is
+ * one answer for every question in the class's bank)
+ */
+export const quizRetakeSchema = z.object({
+  answers: z.array(z.object({
+    questionId: z.number().int().positive(),
+    answer: z.enum(['A', 'B', 'C', 'D'])
+  }))
+    .min(1, "Answers are required")
+    .max(200)
+    .refine(answers => new Set(answers.map(a => a.questionId)).size === answers.length, {
+      message: "Each question can only be answered once"
+    })
+});
@@ -1,13 +1,34 @@
 // Currency System Types and Constants
 // Shared between client and server
 
-// Transaction types for currency movements
-export type TransactionType = 
-  | 'teacher_gift'      // Teacher manually gives coins
-  | 'quiz_complete'     // Automatic reward for completing quiz
-  | 'achievement'       // Milestone rewards
-  | 'purchase'          // Spending coins in store
-  | 'lesson_complete';  // Automatic reward for lesson completion
+// Transaction types for currency movements (matches check_transaction_amount_valid)
+export const CREDIT_TRANSACTION_TYPES = [
+  'quiz_reward',        // Automatic reward for completing quiz
+  'lesson_complete',    // Automatic reward for lesson completion
+  'teacher_grant',      // Teacher manually gives coins
+  'garden_harvest',     // Selling a harvested crop
+  'bonus',              // Milestone rewards
+  'refund',             // Coins returned (denied purchase request, sell-back)
+  'transfer_in',        // Gift or trade from a classmate
+] as const;
+
+export const DEBIT_TRANSACTION_TYPES = [
+  'purchase',           // Spending coins in store, on pets or pet care
+  'teacher_deduction',  // Teacher takes coins away
+  'penalty',
+  'transfer_out',       // Gift or trade to a classmate
+] as const;
+
+export type TransactionType =
+  | typeof CREDIT_TRANSACTION_TYPES[number]
+  | typeof DEBIT_TRANSACTION_TYPES[number]
+  | 'adjustment';       // Admin correction, either direction
+
+export const TRANSACTION_TYPES: readonly TransactionType[] = [
+  ...CREDIT_TRANSACTION_TYPES,
+  ...DEBIT_TRANSACTION_TYPES,
+  'adjustment',
+];
 
 // Store item categories
 export type ItemType = 
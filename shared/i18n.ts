@@ -0,0 +1,143 @@
+import type { Question } from './quiz-questions';
+import { animalDetails, type AnimalDetails } from './animal-details';
+import { learningStyleDetails, type LearningStyleType } from './learning-styles';
+import { animalGeniusDetails } from './scoring';
+import { es } from './locales/es';
+
+export const SUPPORTED_LOCALES = ['en', 'es'] as const;
+export type Locale = typeof SUPPORTED_LOCALES[number];
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export interface QuestionTranslation {
+  text: string;
+  options: Question['options'];
+  audioFile?: string;
+}
+
+// Keyed by question ID
+export type QuestionTranslations = Record<number, QuestionTranslation>;
+
+// Per-locale translations stored with a question bank version
+export type BankTranslations = Partial<Record<Locale, QuestionTranslations>>;
+
+interface GeniusText {
+  name: string;
+  description: string;
+  strengths: string[];
+}
+
+interface LearningStyleText {
+  name: string;
+  description: string;
+  characteristics: string[];
+  tips: string[];
+}
+
+/**
+ * Everything a locale translates. English lives in the original source files
+ * and is the fallback for anything a locale leaves out.
+ */
+export interface LocaleContent {
+  questions: QuestionTranslations; // Built-in question bank only
+  animalNames: Record<string, string>;
+  animalDetails: Record<string, AnimalDetails>;
+  geniusDetails: Record<string, GeniusText>;
+  learningStyleDetails: Record<LearningStyleType, LearningStyleText>;
+}
+
+const LOCALE_CONTENT: Partial<Record<Locale, LocaleContent>> = { es };
+
+/**
+ * Map a locale string ('es', 'es-MX', 'ES') to a supported locale, or null
+ */
+export function normalizeLocale(value: unknown): Locale | null {
+  if (typeof value !== 'string') return null;
+  const language = value.trim().toLowerCase().split(/[-_]/)[0];
+  return (SUPPORTED_LOCALES as readonly string[]).includes(language) ? language as Locale : null;
+}
+
+/**
+ * First supported locale among the candidates, most specific first
+ * (e.g. request, student, class), falling back to English
+ */
+export function resolveLocale(...candidates: unknown[]): Locale {
+  for (const candidate of candidates) {
+    const locale = normalizeLocale(candidate);
+    if (locale) return locale;
+  }
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * Translations for the built-in question bank
+ */
+export function getBuiltInQuestionTranslations(): BankTranslations {
+  const translations: BankTranslations = {};
+  for (const [locale, content] of Object.entries(LOCALE_CONTENT)) {
+    translations[locale as Locale] = content.questions;
+  }
+  return translations;
+}
+
+/**
+ * Overlay translated text, options and audio on a question set.
+ * Questions without a translation stay in English; scoring fields are never touched.
+ */
+export function localizeQuestions(
+  questionSet: Question[],
+  locale: Locale,
+  translations: BankTranslations | null | undefined
+): Question[] {
+  const localized = translations?.[locale];
+  if (locale === DEFAULT_LOCALE || !localized) return questionSet;
+
+  return questionSet.map(question => {
+    const translation = localized[question.id];
+    if (!translation) return question;
+    return {
+      ...question,
+      text: translation.text,
+      options: { ...question.options, ...translation.options },
+      audioFile: translation.audioFile ?? question.audioFile
+    };
+  });
+}
+
+/**
+ * Localized display name for an animal (English name in, translated name out)
+ */
+export function getAnimalName(animal: string, locale: Locale): string {
+  return LOCALE_CONTENT[locale]?.animalNames[animal] || animal;
+}
+
+/**
+ * Result descriptions for a student's animal, genius type and learning style
+ */
+export function getLocalizedResultText(
+  result: { animal: string | null; animalGenius: string | null; learningStyle: string | null },
+  locale: Locale
+) {
+  const content = LOCALE_CONTENT[locale];
+  const genius = result.animalGenius
+    ? Object.keys(animalGeniusDetails).find(key => key.toLowerCase() === result.animalGenius!.toLowerCase())
+    : undefined;
+  const learningStyle = result.learningStyle && result.learningStyle in learningStyleDetails
+    ? result.learningStyle as LearningStyleType
+    : undefined;
+
+  return {
+    locale,
+    animal: result.animal
+      ? content?.animalDetails[result.animal] || animalDetails[result.animal] || null
+      : null,
+    genius: genius
+      ? {
+          ...animalGeniusDetails[genius as keyof typeof animalGeniusDetails],
+          ...content?.geniusDetails[genius]
+        }
+      : null,
+    learningStyle: learningStyle
+      ? { ...learningStyleDetails[learningStyle], ...content?.learningStyleDetails[learningStyle] }
+      : null
+  };
+}
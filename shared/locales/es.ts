@@ -0,0 +1,761 @@
+import type { LocaleContent } from '../i18n';
+
+/**
+ * Spanish content. Keys match the English sources: question IDs from
+ * quiz-questions.ts, animal names from animal-details.ts, genius names from
+ * scoring.ts and learning style types from learning-styles.ts.
+ */
+export const es: LocaleContent = {
+  questions: {
+    1: {
+      text: "Cuando te encuentras con algo nuevo, ¿qué te gusta hacer normalmente?",
+      options: {
+        A: "Mirar y observar por un momento.",
+        B: "Lanzarme de inmediato y descubrirlo sobre la marcha."
+      },
+      audioFile: 'es/q1.mp3'
+    },
+    2: {
+      text: "Cuando escuchas una idea nueva, ¿qué haces primero?",
+      options: {
+        A: "Probarla y ver qué pasa.",
+        B: "Pensar en cómo se conecta con otras cosas que ya sabes."
+      },
+      audioFile: 'es/q2.mp3'
+    },
+    3: {
+      text: "¿Qué te importa más normalmente?",
+      options: {
+        A: "Que la gente diga la verdad.",
+        B: "Que todos se lleven bien."
+      },
+      audioFile: 'es/q3.mp3'
+    },
+    4: {
+      text: "¿Qué prefieres?",
+      options: {
+        A: "Vivir aventuras y ser flexible.",
+        B: "Tener un plan fijo y saber qué va a pasar después."
+      },
+      audioFile: 'es/q4.mp3'
+    },
+    5: {
+      text: "¿Cuál te parece más divertido?",
+      options: {
+        A: "Participar en las actividades que pasan a tu alrededor.",
+        B: "Usar tu imaginación para crear ideas en tu mente."
+      },
+      audioFile: 'es/q5.mp3'
+    },
+    6: {
+      text: "Tu maestro asigna un proyecto en grupo. ¿Cómo quieres que te expliquen la información?",
+      options: {
+        A: "Viendo un ejemplo",
+        B: "Que me lo expliquen en un mensaje de voz o un video",
+        C: "Que compartan un documento o una lista escrita que pueda seguir",
+        D: "Solo intentarlo e ir descubriéndolo sobre la marcha"
+      },
+      audioFile: 'es/q6.mp3'
+    },
+    7: {
+      text: "¿Qué tipo de maestros prefieres normalmente?",
+      options: {
+        A: "Maestros que son justos y siempre hacen las cosas de la misma manera.",
+        B: "Maestros que son cariñosos y amables."
+      },
+      audioFile: 'es/q7.mp3'
+    },
+    8: {
+      text: "Cuando tienes un proyecto o tarea, normalmente lo empiezas:",
+      options: {
+        A: "A último momento o justo antes de la fecha de entrega.",
+        B: "De inmediato."
+      },
+      audioFile: 'es/q8.mp3'
+    },
+    9: {
+      text: "Cuando pasas el rato, prefieres estar con:",
+      options: {
+        A: "¿Un amigo a la vez?",
+        B: "¿Varios amigos juntos?"
+      },
+      audioFile: 'es/q9.mp3'
+    },
+    10: {
+      text: "Normalmente, ¿tú...?",
+      options: {
+        A: "Imaginas cosas que podrías hacer en el futuro.",
+        B: "Hablas de cosas que puedes hacer ahora mismo."
+      },
+      audioFile: 'es/q10.mp3'
+    },
+    11: {
+      text: "Tienes que estudiar para un examen. ¿Cuál es tu forma ideal de estudiar?",
+      options: {
+        A: "Imaginarlo en mi cabeza",
+        B: "Jugar juegos de repaso con sonido o escuchar un resumen",
+        C: "Escribirlo o leer mis apuntes",
+        D: "Practicarlo o actuarlo"
+      },
+      audioFile: 'es/q11.mp3'
+    },
+    12: {
+      text: "Normalmente, ¿tú...?",
+      options: {
+        A: "Empiezas un proyecto nuevo antes de terminar el que estás haciendo.",
+        B: "Terminas un proyecto antes de empezar uno nuevo."
+      },
+      audioFile: 'es/q12.mp3'
+    },
+    13: {
+      text: "Cuando trabajas en proyectos, ¿qué prefieres?",
+      options: {
+        A: "Recibir ideas y ayuda de otros.",
+        B: "Hacerlo todo tú solo."
+      },
+      audioFile: 'es/q13.mp3'
+    },
+    14: {
+      text: "¿Qué se parece más a ti?",
+      options: {
+        A: "Noto cosas que otras personas no ven, como sonidos, caras o pequeños cambios.",
+        B: "Se me ocurren ideas y posibilidades muy rápido."
+      },
+      audioFile: 'es/q14.mp3'
+    },
+    15: {
+      text: "¿Qué te gusta más?",
+      options: {
+        A: "Competir contra otros.",
+        B: "Trabajar junto con otros."
+      },
+      audioFile: 'es/q15.mp3'
+    },
+    16: {
+      text: "Cuando tienes una lista de cosas por hacer, ¿tú...?",
+      options: {
+        A: "Sigues un orden específico, primero la 1, luego la 2, luego la 3.",
+        B: "Las haces en un orden más al azar, como 2, 5, 1, y a veces te distraes con otras cosas."
+      },
+      audioFile: 'es/q16.mp3'
+    },
+    17: {
+      text: "Quieres aprender a programar o a usar una aplicación nueva. ¿Qué prefieres?",
+      options: {
+        A: "Ver una grabación de pantalla o una demostración",
+        B: "Escuchar un pódcast o una explicación",
+        C: "Leer una guía o instrucciones paso a paso",
+        D: "Empezar a programar de inmediato y aprender sobre la marcha"
+      },
+      audioFile: 'es/q17.mp3'
+    },
+    18: {
+      text: "Cuando piensas en las cosas, normalmente piensas:",
+      options: {
+        A: "¿De forma práctica y literal?",
+        B: "¿De forma creativa e imaginativa?"
+      },
+      audioFile: 'es/q18.mp3'
+    },
+    19: {
+      text: "Si vieras que molestan a otro niño, ¿qué harías primero?",
+      options: {
+        A: "Enfrentar al acosador y hablar de su comportamiento hiriente.",
+        B: "Ver cómo está la víctima para asegurarte de que esté bien."
+      },
+      audioFile: 'es/q19.mp3'
+    },
+    20: {
+      text: "En cuanto a tu cuarto, ¿sueles...?",
+      options: {
+        A: "Mantenerlo ordenado y guardar las cosas en su lugar.",
+        B: "Dejar las cosas afuera donde puedas verlas y encontrarlas fácilmente."
+      },
+      audioFile: 'es/q20.mp3'
+    },
+    21: {
+      text: "¿Tienes...?",
+      options: {
+        A: "¿Pocos amigos cercanos?",
+        B: "¿Muchos amigos?"
+      },
+      audioFile: 'es/q21.mp3'
+    },
+    22: {
+      text: "Estás tratando de aprender a arreglar algo en tu dispositivo. ¿Qué haces primero?",
+      options: {
+        A: "Ver un video corto que lo explique",
+        B: "Pedirle a alguien que me lo explique",
+        C: "Buscarlo en Google y leer los pasos",
+        D: "Empezar a hacer clic para descubrirlo"
+      },
+      audioFile: 'es/q22.mp3'
+    },
+    23: {
+      text: "Si un amigo que te importa está triste, ¿qué harías con más probabilidad?",
+      options: {
+        A: "Distraerlo con actividades divertidas o chistes que lo ayuden a sentirse más feliz.",
+        B: "Pasar tiempo escuchándolo, preguntarle por qué está triste y darle consejos o soluciones para ayudarlo."
+      },
+      audioFile: 'es/q23.mp3'
+    },
+    24: {
+      text: "Cuando se trata de hacer cosas, ¿tú...?",
+      options: {
+        A: "¿Te gusta tener un plan listo?",
+        B: "¿Prefieres la emoción de armar un plan en el momento sobre la marcha?"
+      },
+      audioFile: 'es/q24.mp3'
+    },
+    25: {
+      text: "Elige la opción que mejor te describe:",
+      options: {
+        A: "Conversador",
+        B: "Callado"
+      },
+      audioFile: 'es/q25.mp3'
+    },
+    26: {
+      text: "Si alguien cambiara todas las fotos familiares de tu sala, ¿lo notarías de inmediato?",
+      options: {
+        A: "Sí",
+        B: "No"
+      },
+      audioFile: 'es/q26.mp3'
+    },
+    27: {
+      text: "Cuando te atoras con la tarea, ¿cómo prefieres recibir ayuda?",
+      options: {
+        A: "Ver un video que me muestre cómo hacerlo",
+        B: "Llamar o escribirle a alguien que me lo pueda explicar",
+        C: "Leer un ejemplo o buscar respuestas escritas",
+        D: "Probar diferentes formas hasta descubrirlo"
+      },
+      audioFile: 'es/q27.mp3'
+    },
+    28: {
+      text: "¿Sueles tomar decisiones...",
+      options: {
+        A: "¿Rápidamente?",
+        B: "¿Pensándolo bien?"
+      },
+      audioFile: 'es/q28.mp3'
+    },
+    29: {
+      text: "Elige la que se parece más a ti:",
+      options: {
+        A: "Normalmente me tomo un momento para pensar antes de hacer las cosas.",
+        B: "Normalmente empiezo a hacer las cosas sin pensarlo mucho."
+      },
+      audioFile: 'es/q29.mp3'
+    },
+    30: {
+      text: "¿Qué haces con más frecuencia?",
+      options: {
+        A: "Soñar despierto.",
+        B: "Poner atención al momento presente."
+      },
+      audioFile: 'es/q30.mp3'
+    },
+    31: {
+      text: "¿Cómo manejas normalmente los desacuerdos?",
+      options: {
+        A: "Prefiero tener una conversación para resolver el problema.",
+        B: "Prefiero evitar hablar de eso y seguir adelante porque es incómodo."
+      },
+      audioFile: 'es/q31.mp3'
+    },
+    32: {
+      text: "Entras al consejo estudiantil y ayudas a planear un evento. ¿Qué papel te parece más divertido?",
+      options: {
+        A: "Diseñar carteles, presentaciones o la decoración para que se vea increíble",
+        B: "Dar anuncios o dirigir una conversación para entusiasmar a la gente",
+        C: "Escribir el horario, el presupuesto o la lista para que todo esté organizado",
+        D: "Montar el evento, organizar los materiales o ayudar con el trabajo práctico"
+      },
+      audioFile: 'es/q32.mp3'
+    },
+    33: {
+      text: "Si tuvieras una tarjeta de regalo de $50 para tu tienda favorita, ¿tú...",
+      options: {
+        A: "Elegirías qué comprar rápidamente.",
+        B: "Elegirías qué comprar con cuidado."
+      },
+      audioFile: 'es/q33.mp3'
+    },
+    34: {
+      text: "¿Cuál se parece más a ti?",
+      options: {
+        A: "Soy conversador.",
+        B: "Hablo en voz baja."
+      },
+      audioFile: 'es/q34.mp3'
+    },
+    35: {
+      text: "¿Qué se parece más a ti?",
+      options: {
+        A: "Mi cerebro salta de idea en idea, incluso cuando no lo intento.",
+        B: "Me doy cuenta de lo que pasa a mi alrededor, como ruidos o el estado de ánimo de la gente."
+      },
+      audioFile: 'es/q35.mp3'
+    },
+    36: {
+      text: "Si estás molesto con un amigo, ¿tú...",
+      options: {
+        A: "¿Serías directo y hablarías con tu amigo?",
+        B: "¿Te guardarías tus sentimientos?"
+      },
+      audioFile: 'es/q36.mp3'
+    },
+    37: {
+      text: "En la clase de ciencias, ¿qué esperas con más ganas?",
+      options: {
+        A: "Ver experimentos",
+        B: "Escuchar al maestro explicar datos interesantes",
+        C: "Leer sobre descubrimientos y tomar apuntes",
+        D: "Hacer laboratorios y experimentos con mis manos"
+      },
+      audioFile: 'es/q37.mp3'
+    },
+    38: {
+      text: "Cuando haces un examen con tiempo límite y empiezas a sentir presión, ¿tú...",
+      options: {
+        A: "Te concentras y te esfuerzas para seguir adelante.",
+        B: "Te cuesta concentrarte porque te sientes muy estresado o nervioso."
+      },
+      audioFile: 'es/q38.mp3'
+    },
+    39: {
+      text: "En una fiesta, ¿qué es más probable que hagas?",
+      options: {
+        A: "Quedarte hasta tarde y disfrutar de estar con mucha gente.",
+        B: "Irte temprano porque tanta gente te cansa."
+      },
+      audioFile: 'es/q39.mp3'
+    },
+    40: {
+      text: "Cuando aprendes algo nuevo, prefieres:",
+      options: {
+        A: "Enfocarte en los detalles y hacerlos bien.",
+        B: "Entender primero la idea general."
+      },
+      audioFile: 'es/q40.mp3'
+    },
+    41: {
+      text: "Cuando tomas decisiones, ¿qué te importa más?",
+      options: {
+        A: "Lo que tiene sentido lógico.",
+        B: "Cómo se van a sentir las personas."
+      },
+      audioFile: 'es/q41.mp3'
+    },
+    42: {
+      text: "Prefieres:",
+      options: {
+        A: "Mantener tus opciones abiertas el mayor tiempo posible.",
+        B: "Tomar decisiones rápido y mantenerlas."
+      },
+      audioFile: 'es/q42.mp3'
+    },
+    43: {
+      text: "Estás aprendiendo sobre los volcanes. ¿Cuál te parece la mejor forma de aprender?",
+      options: {
+        A: "Ver un video o imágenes",
+        B: "Escuchar a alguien que lo explique",
+        C: "Leer un artículo o hacer una hoja de trabajo",
+        D: "Construir un modelo y hacerlo hacer erupción"
+      },
+      audioFile: 'es/q43.mp3'
+    },
+    44: {
+      text: "En situaciones sociales, ¿tú...",
+      options: {
+        A: "Te unes a las conversaciones de inmediato.",
+        B: "Esperas a que otros empiecen a hablarte."
+      },
+      audioFile: 'es/q44.mp3'
+    },
+    45: {
+      text: "Cuando trabajas en proyectos, prefieres:",
+      options: {
+        A: "Instrucciones paso a paso.",
+        B: "Libertad creativa para descubrirlo tú mismo."
+      },
+      audioFile: 'es/q45.mp3'
+    },
+    46: {
+      text: "¿Qué es más importante para ti?",
+      options: {
+        A: "Ser honesto, aunque pueda herir los sentimientos de alguien.",
+        B: "Ser amable, aunque eso signifique no decir toda la verdad."
+      },
+      audioFile: 'es/q46.mp3'
+    },
+    47: {
+      text: "Estás aprendiendo sobre un gran evento de la historia. ¿Qué te ayuda a que cobre vida?",
+      options: {
+        A: "Ver mapas, líneas de tiempo o fotos de esa época",
+        B: "Escuchar una historia o ver un documental",
+        C: "Leer un libro de texto, un artículo o un periódico",
+        D: "Recrearlo, construir un modelo o hacer una simulación"
+      },
+      audioFile: 'es/q47.mp3'
+    },
+    48: {
+      text: "Tienes que hacer una presentación para la clase. ¿Qué quieres hacer?",
+      options: {
+        A: "Hacer una presentación con imágenes y gráficos",
+        B: "Hablar sobre tu tema o hacer un video corto o un pódcast",
+        C: "Escribir un informe o diseñar una hoja con todos los detalles",
+        D: "Crear algo para mostrar, como un prototipo, un modelo o una demostración interactiva"
+      },
+      audioFile: 'es/q48.mp3'
+    }
+  },
+
+  animalNames: {
+    'Meerkat': 'Suricata',
+    'Panda': 'Panda',
+    'Owl': 'Búho',
+    'Beaver': 'Castor',
+    'Elephant': 'Elefante',
+    'Otter': 'Nutria',
+    'Parrot': 'Loro',
+    'Border Collie': 'Border Collie'
+  },
+
+  animalDetails: {
+    'Meerkat': {
+      name: 'Suricata',
+      genius: 'Empático',
+      strengths: [
+        'Pensamiento creativo e imaginativo',
+        'Empatía y comprensión profundas',
+        'Expresión auténtica de sí mismo',
+        'Liderazgo guiado por valores',
+        'Crear conexiones significativas'
+      ],
+      growthAreas: [
+        'Hablar frente a grupos grandes',
+        'Tomar decisiones rápidas bajo presión',
+        'Aceptar la crítica constructiva',
+        'Poner límites con los demás',
+        'Enfrentar los conflictos directamente'
+      ],
+      teacherTips: [
+        'Ofrezca espacios creativos para que se expresen',
+        'Dé tiempo para pensar antes de pedir respuestas',
+        'Dé retroalimentación con delicadeza y en privado',
+        'Anime a compartir ideas primero en grupos pequeños',
+        'Reconozca su perspectiva única y su creatividad'
+      ],
+      collaborationTips: [
+        'Hace buena pareja con personalidades más decididas que le ayuden a compartir sus ideas',
+        'Se beneficia de compañeros que valoran sus ideas creativas',
+        'Puede necesitar ánimo para expresar desacuerdos'
+      ]
+    },
+
+    'Panda': {
+      name: 'Panda',
+      genius: 'Empático',
+      strengths: [
+        'Pensamiento estratégico a largo plazo',
+        'Percepción e intuición profundas',
+        'Resolución independiente de problemas',
+        'Planificación y reflexión cuidadosas',
+        'Ver el panorama completo'
+      ],
+      growthAreas: [
+        'Compartir ideas antes de tenerlas completas',
+        'Adaptarse a cambios repentinos',
+        'Trabajar en ambientes ruidosos',
+        'Lluvias de ideas en grupo',
+        'Delegar tareas a otros'
+      ],
+      teacherTips: [
+        'Ofrezca espacios tranquilos para pensar a fondo',
+        'Dé tiempo para reflexionar antes de las conversaciones',
+        'Valore sus ideas estratégicas',
+        'Reduzca las interrupciones durante el trabajo concentrado',
+        'Anime a compartir ideas que todavía están en proceso'
+      ],
+      collaborationTips: [
+        'Trabaja mejor con compañeros que respetan su necesidad de tiempo para pensar',
+        'Es excelente para desarrollar estrategias a largo plazo para el grupo',
+        'Puede preferir la comunicación escrita para ideas complejas'
+      ]
+    },
+
+    'Owl': {
+      name: 'Búho',
+      genius: 'Pensador',
+      strengths: [
+        'Resolución analítica de problemas',
+        'Pensamiento lógico y sistemático',
+        'Aprendizaje independiente',
+        'Adaptabilidad a situaciones nuevas',
+        'Toma de decisiones objetiva'
+      ],
+      growthAreas: [
+        'Tomar en cuenta las emociones de los demás al decidir',
+        'Trabajar en ambientes muy sociales',
+        'Mostrar su entusiasmo hacia afuera',
+        'Proyectos en grupo sin roles definidos',
+        'Lidiar con situaciones ilógicas'
+      ],
+      teacherTips: [
+        'Dé explicaciones lógicas de las reglas y decisiones',
+        'Permita tiempo de trabajo independiente',
+        'Rételos con problemas complejos',
+        'Respete su necesidad de autonomía',
+        'Use datos y hechos en las conversaciones'
+      ],
+      collaborationTips: [
+        'Sobresale cuando recibe problemas específicos que resolver',
+        'Hace buena pareja con compañeros atentos a los detalles',
+        'Puede necesitar recordatorios sobre la dinámica del equipo y los sentimientos'
+      ]
+    },
+
+    'Beaver': {
+      name: 'Castor',
+      genius: 'Hacedor',
+      strengths: [
+        'Habilidades de organización excepcionales',
+        'Responsabilidad y confiabilidad',
+        'Atención a los detalles',
+        'Apoyo a los compañeros de equipo',
+        'Cumplir sus compromisos'
+      ],
+      growthAreas: [
+        'Adaptarse a cambios de último momento',
+        'Tomar riesgos o probar enfoques nuevos',
+        'Expresar sus propias necesidades',
+        'Trabajar sin pautas claras',
+        'Lidiar con la ambigüedad'
+      ],
+      teacherTips: [
+        'Dé expectativas claras y estructura',
+        'Reconozca su esfuerzo constante',
+        'Avise con anticipación de los cambios cuando sea posible',
+        'Valore sus aportes a la organización',
+        'Anime a tomar riesgos calculados en ambientes seguros'
+      ],
+      collaborationTips: [
+        'Apoya al equipo de forma natural y se asegura de que nada quede sin hacer',
+        'Trabaja mejor con roles y responsabilidades claros',
+        'Puede necesitar ánimo para compartir ideas innovadoras'
+      ]
+    },
+
+    'Elephant': {
+      name: 'Elefante',
+      genius: 'Empático',
+      strengths: [
+        'Crear y mantener relaciones',
+        'Generar armonía en los grupos',
+        'Apoyar y animar a los demás',
+        'Buenas habilidades de comunicación',
+        'Liderazgo natural a través del cuidado'
+      ],
+      growthAreas: [
+        'Tomar decisiones difíciles que puedan molestar a otros',
+        'Priorizar sus propias necesidades',
+        'Trabajar solo por mucho tiempo',
+        'Lidiar con conflictos entre personas',
+        'Aceptar que no se puede complacer a todos'
+      ],
+      teacherTips: [
+        'Ofrezca oportunidades de colaboración',
+        'Reconozca su aporte a la armonía del equipo',
+        'Ayúdelos a practicar habilidades para ser asertivos',
+        'Aproveche su liderazgo natural en actividades de grupo',
+        'Reconozca su inteligencia emocional'
+      ],
+      collaborationTips: [
+        'Une a los grupos de forma natural',
+        'Sobresale mediando conflictos entre otros',
+        'Puede hacerse cargo de demasiado por querer ayudar a todos'
+      ]
+    },
+
+    'Otter': {
+      name: 'Nutria',
+      genius: 'Hacedor',
+      strengths: [
+        'Mucha energía y entusiasmo',
+        'Adaptabilidad y flexibilidad',
+        'Vivir el momento',
+        'Hacer que las actividades sean divertidas',
+        'Acción y respuesta rápidas'
+      ],
+      growthAreas: [
+        'Quedarse quieto por mucho tiempo',
+        'Seguir instrucciones escritas detalladas',
+        'Planificar a largo plazo',
+        'Trabajar en ambientes tranquilos y estructurados',
+        'Esperar por una recompensa'
+      ],
+      teacherTips: [
+        'Incluya movimiento y actividades prácticas',
+        'Mantenga las lecciones dinámicas y variadas',
+        'Dé descansos para la actividad física',
+        'Use su entusiasmo para dar energía a la clase',
+        'Canalice su energía hacia un liderazgo positivo'
+      ],
+      collaborationTips: [
+        'Trae energía y diversión a cualquier grupo',
+        'Es muy bueno para destrabar a los equipos con acción',
+        'Puede necesitar compañeros que le ayuden con la planificación y los detalles'
+      ]
+    },
+
+    'Parrot': {
+      name: 'Loro',
+      genius: 'Pensador',
+      strengths: [
+        'Pensamiento creativo e innovador',
+        'Excelentes habilidades de comunicación',
+        'Ver posibilidades y conexiones',
+        'Inspirar y motivar a los demás',
+        'Generar entusiasmo por las ideas'
+      ],
+      growthAreas: [
+        'Llevar a cabo todas sus ideas',
+        'Trabajar aislado',
+        'Enfocarse en una tarea a la vez',
+        'Lidiar con trabajo rutinario o repetitivo',
+        'Escuchar sin interrumpir'
+      ],
+      teacherTips: [
+        'Anime sus aportes creativos',
+        'Ofrezca variedad de actividades y temas',
+        'Déjelos compartir ideas con la clase',
+        'Canalice su energía social de forma productiva',
+        'Ayúdelos a priorizar sus muchas ideas'
+      ],
+      collaborationTips: [
+        'Genera ideas de forma natural e inspira a los equipos',
+        'Sobresale en lluvias de ideas y sesiones creativas',
+        'Puede necesitar ayuda para enfocarse en la ejecución'
+      ]
+    },
+
+    'Border Collie': {
+      name: 'Border Collie',
+      genius: 'Hacedor',
+      strengths: [
+        'Habilidades naturales de liderazgo',
+        'Orientado a metas y con determinación',
+        'Excelentes habilidades de organización',
+        'Toma de decisiones firme',
+        'Motivar a otros hacia las metas'
+      ],
+      growthAreas: [
+        'Tener paciencia con compañeros de ritmo más lento',
+        'Aceptar que otros tienen estilos de trabajo diferentes',
+        'Delegar sin controlar cada detalle',
+        'Tomar en cuenta los sentimientos al decidir',
+        'Relajarse y tener tiempo sin estructura'
+      ],
+      teacherTips: [
+        'Deles oportunidades de liderazgo',
+        'Fije metas desafiantes pero alcanzables',
+        'Reconozca sus logros en público',
+        'Ayúdelos a desarrollar paciencia y empatía',
+        'Enséñeles el valor de los diferentes estilos de trabajo'
+      ],
+      collaborationTips: [
+        'Líder natural de equipo que logra resultados',
+        'Sobresale organizando y dirigiendo el esfuerzo del grupo',
+        'Puede necesitar practicar un liderazgo inclusivo'
+      ]
+    }
+  },
+
+  geniusDetails: {
+    'Thinker': {
+      name: 'Pensador',
+      description: 'Mentes estratégicas que sobresalen en el pensamiento creativo y la resolución de problemas',
+      strengths: ['Pensamiento creativo', 'Originalidad', 'Pensamiento crítico y razonamiento ético', 'Visión y previsión estratégica']
+    },
+    'Feeler': {
+      name: 'Empático',
+      description: 'Líderes con inteligencia emocional que construyen relaciones sólidas',
+      strengths: ['Inteligencia emocional', 'Empatía', 'Construcción de relaciones', 'Comunicación', 'Inclusión y valentía moral']
+    },
+    'Doer': {
+      name: 'Hacedor',
+      description: 'Personas orientadas a la acción que logran resultados y se adaptan rápidamente',
+      strengths: ['Resiliencia', 'Flexibilidad', 'Mentalidad de crecimiento', 'Agilidad para aprender', 'Liderazgo y motivación del equipo']
+    }
+  },
+
+  learningStyleDetails: {
+    visual: {
+      name: "Aprendiz visual",
+      description: "Aprendes mejor viendo y con apoyos visuales",
+      characteristics: [
+        "Prefiere gráficas, diagramas e imágenes",
+        "Le gustan los materiales coloridos y organizados",
+        "Recuerda mejor las caras que los nombres",
+        "Le ayuda subrayar y usar colores"
+      ],
+      tips: [
+        "Usa mapas mentales y organizadores gráficos",
+        "Mira videos educativos",
+        "Dibuja diagramas para entender los conceptos",
+        "Usa tarjetas de estudio con imágenes"
+      ]
+    },
+    auditory: {
+      name: "Aprendiz auditivo",
+      description: "Aprendes mejor escuchando y conversando",
+      characteristics: [
+        "Disfruta escuchar explicaciones y conversaciones",
+        "Aprende bien con instrucciones habladas",
+        "Le gusta hablar de los problemas para resolverlos",
+        "Recuerda la información que escucha en voz alta"
+      ],
+      tips: [
+        "Lee los materiales en voz alta",
+        "Únete a grupos de estudio para conversar",
+        "Usa música y rimas para memorizar",
+        "Graba las lecciones para escucharlas después"
+      ]
+    },
+    kinesthetic: {
+      name: "Aprendiz kinestésico",
+      description: "Aprendes mejor con actividades prácticas y movimiento",
+      characteristics: [
+        "Prefiere las actividades prácticas",
+        "Le gusta moverse mientras aprende",
+        "Aprende haciendo y experimentando",
+        "Disfruta construir y crear"
+      ],
+      tips: [
+        "Usa materiales manipulables y modelos",
+        "Toma descansos frecuentes para moverte",
+        "Actúa los conceptos cuando puedas",
+        "Usa gestos mientras estudias"
+      ]
+    },
+    readingWriting: {
+      name: "Aprendiz de lectura y escritura",
+      description: "Aprendes mejor con actividades de lectura y escritura",
+      characteristics: [
+        "Disfruta leer y escribir",
+        "Prefiere la información en texto",
+        "Le gusta tomar apuntes detallados",
+        "Aprende bien con libros y artículos"
+      ],
+      tips: [
+        "Toma apuntes completos",
+        "Vuelve a escribir la información con tus propias palabras",
+        "Usa listas y resúmenes escritos",
+        "Lee varias fuentes sobre los temas"
+      ]
+    }
+  }
+};
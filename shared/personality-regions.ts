@@ -55,7 +55,12 @@ export function getAnimalEmoji(animalType: string): string {
     "Butterfly": "🦋",
     "Eagle": "🦅",
     "Owl": "🦉",
-    "Tiger": "🐯"
+    "Tiger": "🐯",
+    "Meerkat": "🦡", // No meerkat or mongoose emoji exists; the badger is the nearest lookalike
+    "Panda": "🐼",
+    "Otter": "🦦",
+    "Parrot": "🦜",
+    "Border Collie": "🐕"
   };
   
   return animalEmojis[animalType] || "🦁"; // Default to lion if not found
@@ -126,15 +126,6 @@ export const harvestLogs = pgTable('harvest_logs', {
   };
 });
 
-// Feature flags
-export const featureFlags = pgTable('feature_flags', {
-  id: varchar('id', { length: 50 }).primaryKey(),
-  isEnabled: boolean('is_enabled').default(false),
-  rolloutPercentage: integer('rollout_percentage').default(0),
-  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
-  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
-});
-
 // ============================
 // Garden System Relations
 // ============================
@@ -202,8 +193,6 @@ export type GardenTheme = typeof gardenThemes.$inferSelect;
 export type NewGardenTheme = typeof gardenThemes.$inferInsert;
 export type HarvestLog = typeof harvestLogs.$inferSelect;
 export type NewHarvestLog = typeof harvestLogs.$inferInsert;
-export type FeatureFlag = typeof featureFlags.$inferSelect;
-export type NewFeatureFlag = typeof featureFlags.$inferInsert;
 
 // Import base schema (need to fix circular dependency)
 import { students, classes, storeItems } from './schema';
\ No newline at end of file
@@ -1,9 +1,20 @@
-import { pgTable, text, varchar, integer, boolean, timestamp, jsonb, uuid, numeric, uniqueIndex, index, pgSchema } from 'drizzle-orm/pg-core';
+import { pgTable, text, varchar, integer, boolean, timestamp, jsonb, uuid, numeric, uniqueIndex, index, pgSchema, customType } from 'drizzle-orm/pg-core';
 import { relations, sql } from 'drizzle-orm';
+import type { Question } from './quiz-questions';
+import type { MbtiDimension, PreferenceStrength, BorderlineResult } from './scoring';
+import type { BankTranslations } from './i18n';
+import type { TransactionType } from './currency-types';
 
 // Define the auth schema to reference auth.users
 const authSchema = pgSchema('auth');
 
+// Binary column (node-postgres returns bytea as a Buffer)
+const bytea = customType<{ data: Buffer; driverData: Buffer }>({
+  dataType() {
+    return 'bytea';
+  },
+});
+
 // Reference to auth.users table (for foreign key purposes only)
 const authUsers = authSchema.table('users', {
   id: uuid('id').primaryKey(),
@@ -15,7 +26,8 @@ export const animalTypes = pgTable('animal_types', {
   code: varchar('code', { length: 50 }).notNull().unique(),
   name: varchar('name', { length: 100 }).notNull(),
   personalityType: varchar('personality_type', { length: 4 }),
-  geniusType: varchar('genius_type', { length: 100 }),
+  geniusType: varchar('genius_type', { length: 100 }), // Legacy display value; genius_type_id is authoritative
+  geniusTypeId: uuid('genius_type_id').references(() => geniusTypes.id, { onDelete: 'restrict' }),
   description: text('description'),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
@@ -31,6 +43,37 @@ export const geniusTypes = pgTable('genius_types', {
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
 });
 
+// MBTI type -> animal. The authoritative mapping; hard-coded copies are checked against it at startup
+export const personalityAnimalMappings = pgTable('personality_animal_mappings', {
+  personalityType: varchar('personality_type', { length: 4 }).primaryKey(), // e.g. 'INFP'
+  animalTypeId: uuid('animal_type_id').notNull().references(() => animalTypes.id, { onDelete: 'restrict' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+});
+
+// Quiz question banks (versioned sets of quiz questions)
+// A bank version is immutable once students have answered it; edits are published as a new version
+export const quizQuestionBanks = pgTable('quiz_question_banks', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  code: varchar('code', { length: 50 }).notNull(), // e.g. 'core', 'k2'
+  version: integer('version').notNull().default(1),
+  name: varchar('name', { length: 255 }).notNull(),
+  gradeBand: varchar('grade_band', { length: 20 }), // 'k2', 'elementary', 'middle'
+  description: text('description'),
+  questions: jsonb('questions').$type<Question[]>().notNull(),
+  translations: jsonb('translations').$type<BankTranslations>().default({}).notNull(), // { es: { [questionId]: { text, options, audioFile } } }
+  isActive: boolean('is_active').default(true).notNull(),
+  isDefault: boolean('is_default').default(false).notNull(),
+  createdBy: uuid('created_by').references(() => profiles.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => {
+  return {
+    uniqueCodeVersion: uniqueIndex('unique_quiz_bank_code_version').on(table.code, table.version),
+    activeIdx: index('idx_quiz_question_banks_active').on(table.isActive).where(sql`is_active = true`),
+  };
+});
+
 // Profiles table (extends Supabase auth.users)
 export const profiles = pgTable('profiles', {
   id: uuid('id').primaryKey().references(() => authUsers.id, { onDelete: 'cascade' }),
@@ -63,16 +106,26 @@ export const classes = pgTable('classes', {
   icon: varchar('icon', { length: 50 }).default('book'),
   backgroundColor: varchar('background_color', { length: 7 }).default('#829B79'),
   numberOfStudents: integer('number_of_students'),
-  isArchived: boolean('is_archived').default(false),
+  isArchived: boolean('is_archived').default(false), // Read-only; students can't sign in
+  archivedAt: timestamp('archived_at', { withTimezone: true }),
   hasValuesSet: boolean('has_values_set').default(false),
   valuesSetAt: timestamp('values_set_at', { withTimezone: true }),
+  quizBankId: uuid('quiz_bank_id').references(() => quizQuestionBanks.id, { onDelete: 'set null' }), // null = default bank
+  quizRetakePolicy: varchar('quiz_retake_policy', { length: 20 }).notNull().default('always'), // 'always', 'never', 'once', 'after_days', 'teacher_unlock'
+  quizRetakeCooldownDays: integer('quiz_retake_cooldown_days'), // Only used by 'after_days'
+  defaultLocale: varchar('default_locale', { length: 10 }).notNull().default('en'), // Quiz and result language unless the student picks one
+  tradingEnabled: boolean('trading_enabled').notNull().default(false), // Students may gift and trade items/coins with classmates
+  tradingRequiresApproval: boolean('trading_requires_approval').notNull().default(true), // Gifts and accepted trades wait for the teacher
+  petSlots: integer('pet_slots').notNull().default(1), // How many pets each student may own
+  petVacation: jsonb('pet_vacation').$type<PetVacationSettings>().notNull().default({ weekends: false, breaks: [] }), // When pets don't get hungry or sad
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
-  deletedAt: timestamp('deleted_at', { withTimezone: true }),
+  deletedAt: timestamp('deleted_at', { withTimezone: true }), // Restorable for 30 days, then purged
 }, (table) => {
   return {
     teacherIdIdx: index('idx_classes_teacher_id').on(table.teacherId),
     activeIdx: index('idx_classes_active').on(table.teacherId).where(sql`deleted_at IS NULL`),
+    deletedAtIdx: index('idx_classes_deleted_at').on(table.deletedAt).where(sql`deleted_at IS NOT NULL`),
   };
 });
 
@@ -88,6 +141,9 @@ export const students = pgTable('students', {
   animalTypeId: uuid('animal_type_id').references(() => animalTypes.id, { onDelete: 'set null' }),
   geniusTypeId: uuid('genius_type_id').references(() => geniusTypes.id, { onDelete: 'set null' }),
   learningStyle: varchar('learning_style', { length: 50 }),
+  locale: varchar('locale', { length: 10 }), // null = class default
+  quizRetakeUnlockedAt: timestamp('quiz_retake_unlocked_at', { withTimezone: true }), // Set by a teacher, cleared when the retake is submitted
+  quizRetakeUnlockedBy: uuid('quiz_retake_unlocked_by').references(() => profiles.id, { onDelete: 'set null' }),
   // Game state
   currencyBalance: integer('currency_balance').default(0).notNull(),
   avatarData: jsonb('avatar_data').default({}),
@@ -95,11 +151,14 @@ export const students = pgTable('students', {
   roomVisibility: varchar('room_visibility', { length: 20 }).default('class'), // 'private', 'class', 'invite_only'
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+  deletedAt: timestamp('deleted_at', { withTimezone: true }), // Same value as the class's when deleted with it
 }, (table) => {
   return {
     classIdIdx: index('idx_students_class_id').on(table.classId),
     passportCodeIdx: index('idx_students_passport_code').on(table.passportCode),
-    uniqueClassStudent: uniqueIndex('unique_class_student').on(table.classId, table.studentName),
+    // A deleted student's name can be used again; restoring checks for a clash
+    uniqueClassStudent: uniqueIndex('unique_class_student').on(table.classId, table.studentName).where(sql`deleted_at IS NULL`),
+    deletedAtIdx: index('idx_students_deleted_at').on(table.deletedAt).where(sql`deleted_at IS NOT NULL`),
   };
 });
 
@@ -109,13 +168,21 @@ export const quizSubmissions = pgTable('quiz_submissions', {
   studentId: uuid('student_id').notNull().references(() => students.id, { onDelete: 'cascade' }),
   animalTypeId: uuid('animal_type_id').notNull().references(() => animalTypes.id, { onDelete: 'restrict' }),
   geniusTypeId: uuid('genius_type_id').notNull().references(() => geniusTypes.id, { onDelete: 'restrict' }),
+  questionBankId: uuid('question_bank_id').references(() => quizQuestionBanks.id, { onDelete: 'restrict' }), // null = answered before banks were versioned
   answers: jsonb('answers').notNull(),
+  personalityType: varchar('personality_type', { length: 20 }), // Result of this attempt; students table holds the current one
+  learningStyle: varchar('learning_style', { length: 50 }),
+  preferenceStrengths: jsonb('preference_strengths').$type<Record<MbtiDimension, PreferenceStrength>>(), // null = scored before confidence was recorded
+  borderline: jsonb('borderline').$type<BorderlineResult>(),
+  isBorderline: boolean('is_borderline').notNull().default(false),
   coinsEarned: integer('coins_earned').default(0),
   completedAt: timestamp('completed_at', { withTimezone: true }).defaultNow(),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
 }, (table) => {
   return {
     studentIdIdx: index('idx_quiz_submissions_student_id').on(table.studentId),
+    questionBankIdIdx: index('idx_quiz_submissions_question_bank_id').on(table.questionBankId),
+    borderlineIdx: index('idx_quiz_submissions_borderline').on(table.studentId).where(sql`is_borderline = true`),
   };
 });
 
@@ -181,6 +248,16 @@ export const storeItems = pgTable('store_items', {
   assetType: varchar('asset_type', { length: 50 }).default('image').notNull(), // NEW: Support for Rive animations
   thumbnailUrl: text('thumbnail_url'), // NEW: URL for 128x128 thumbnail image
   patternId: uuid('pattern_id').references(() => patterns.id, { onDelete: 'set null' }), // Link to pattern if this is a pattern item
+  classId: uuid('class_id').references(() => classes.id, { onDelete: 'cascade' }), // Set for a teacher's class-only item; null = global catalog
+  createdBy: uuid('created_by').references(() => profiles.id, { onDelete: 'set null' }),
+  availableFrom: timestamp('available_from', { withTimezone: true }), // Seasonal window; null = no limit on that side
+  availableUntil: timestamp('available_until', { withTimezone: true }),
+  salePercent: integer('sale_percent'), // Percentage off while the sale runs
+  saleStartsAt: timestamp('sale_starts_at', { withTimezone: true }),
+  saleEndsAt: timestamp('sale_ends_at', { withTimezone: true }),
+  stockLimit: integer('stock_limit'), // First N buyers; null = unlimited
+  stockSold: integer('stock_sold').default(0).notNull(),
+  isRedeemable: boolean('is_redeemable').default(false).notNull(), // Coupon-style: used up when the student redeems it
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
 }, (table) => {
@@ -188,6 +265,7 @@ export const storeItems = pgTable('store_items', {
     assetIdIdx: index('idx_store_items_asset_id').on(table.assetId),
     activeIdx: index('idx_store_items_active').on(table.isActive).where(sql`is_active = true`),
     patternIdIdx: index('idx_store_items_pattern_id').on(table.patternId),
+    classIdIdx: index('idx_store_items_class_id').on(table.classId).where(sql`class_id IS NOT NULL`),
   };
 });
 
@@ -198,6 +276,8 @@ export const studentInventory = pgTable('student_inventory', {
   storeItemId: uuid('store_item_id').notNull().references(() => storeItems.id, { onDelete: 'cascade' }),
   acquiredAt: timestamp('acquired_at', { withTimezone: true }).defaultNow(),
   isEquipped: boolean('is_equipped').default(false),
+  purchasePrice: integer('purchase_price'), // Coins paid; null for gifts, trades and older purchases
+  purchaseTransactionId: uuid('purchase_transaction_id').references(() => currencyTransactions.id, { onDelete: 'set null' }),
 }, (table) => {
   return {
     uniqueStudentItem: uniqueIndex('unique_student_item').on(table.studentId, table.storeItemId),
@@ -212,31 +292,100 @@ export const currencyTransactions = pgTable('currency_transactions', {
   studentId: uuid('student_id').notNull().references(() => students.id, { onDelete: 'cascade' }),
   teacherId: uuid('teacher_id').references(() => profiles.id, { onDelete: 'set null' }), // Made nullable to preserve history
   amount: integer('amount').notNull(),
-  transactionType: varchar('transaction_type', { length: 20 }).notNull(),
+  transactionType: varchar('transaction_type', { length: 20 }).$type<TransactionType>().notNull(),
   description: text('description'),
+  idempotencyKey: varchar('idempotency_key', { length: 150 }), // Same key = same movement; posting it again is a no-op
+  balanceAfter: integer('balance_after'), // Student's balance once this was applied (null for rows before the ledger)
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
 }, (table) => {
   return {
     studentIdIdx: index('idx_currency_transactions_student_id').on(table.studentId),
     teacherIdIdx: index('idx_currency_transactions_teacher_id').on(table.teacherId),
+    idempotencyKeyIdx: uniqueIndex('unique_currency_transactions_idempotency_key').on(table.idempotencyKey).where(sql`idempotency_key IS NOT NULL`),
   };
 });
 
+// Double-entry legs of each currency transaction; the legs of a transaction sum to zero.
+// Student legs have account 'student' and a student_id; the other side is a system
+// account ('system:rewards', 'system:store', ...) or, for transfers, another student
+export const ledgerEntries = pgTable('ledger_entries', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  transactionId: uuid('transaction_id').notNull().references(() => currencyTransactions.id, { onDelete: 'cascade' }),
+  account: varchar('account', { length: 50 }).notNull(),
+  studentId: uuid('student_id').references(() => students.id, { onDelete: 'cascade' }),
+  amount: integer('amount').notNull(), // Positive = into the account
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => {
+  return {
+    transactionIdIdx: index('idx_ledger_entries_transaction_id').on(table.transactionId),
+    studentIdIdx: index('idx_ledger_entries_student_id').on(table.studentId),
+    accountIdx: index('idx_ledger_entries_account').on(table.account),
+  };
+});
 
-// Store settings
+// Results of comparing students.currency_balance with the ledger
+export const ledgerReconciliations = pgTable('ledger_reconciliations', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  classId: uuid('class_id').references(() => classes.id, { onDelete: 'cascade' }), // null = every class
+  status: varchar('status', { length: 20 }).notNull().default('running'), // running | clean | drift | failed
+  studentsChecked: integer('students_checked').notNull().default(0),
+  driftCount: integer('drift_count').notNull().default(0),
+  totalDrift: integer('total_drift').notNull().default(0), // Sum of (balance - ledger), signed
+  report: jsonb('report').$type<LedgerReconciliationReport>(),
+  error: text('error'),
+  requestedBy: uuid('requested_by').references(() => profiles.id, { onDelete: 'set null' }), // null = scheduled run
+  startedAt: timestamp('started_at', { withTimezone: true }).defaultNow(),
+  finishedAt: timestamp('finished_at', { withTimezone: true }),
+}, (table) => {
+  return {
+    startedAtIdx: index('idx_ledger_reconciliations_started_at').on(table.startedAt),
+  };
+});
+
+export interface LedgerReconciliationReport {
+  drift: Array<{
+    studentId: string;
+    studentName: string | null;
+    classId: string;
+    balance: number;
+    ledgerBalance: number;
+    drift: number; // balance - ledgerBalance
+  }>;
+  unbalancedTransactions: Array<{ transactionId: string; sum: number }>; // Legs that don't net to zero
+  unpostedTransactions: { count: number; sample: string[] }; // currency_transactions written without ledger legs
+}
+
+
+// Weekly store schedule, in the class's local time
+export interface StoreHours {
+  openTime: string; // "HH:MM", 24-hour
+  closeTime: string; // "HH:MM"; earlier than openTime means the store is open overnight
+  timezone: string; // IANA zone, e.g. "America/Phoenix"
+  days?: number[]; // 0 = Sunday ... 6 = Saturday; empty or missing = every day
+}
+
+export interface StoreSettingsConfig {
+  autoApprovalThreshold?: number | null; // Missing = no approval needed; null = every purchase needs approval
+  hours?: StoreHours | null;
+  sellBackPercent?: number; // Share of an item's cost paid back when a student sells it; 0 turns sell-back off
+  refundGraceMinutes?: number; // Selling within this long of buying refunds the full price paid
+}
+
+// Store settings (one row per class)
 export const storeSettings = pgTable('store_settings', {
   id: uuid('id').primaryKey().defaultRandom(),
-  teacherId: uuid('teacher_id').notNull().references(() => profiles.id, { onDelete: 'cascade' }).unique(),
+  teacherId: uuid('teacher_id').notNull().references(() => profiles.id, { onDelete: 'cascade' }),
   classId: uuid('class_id').references(() => classes.id, { onDelete: 'cascade' }),
   isOpen: boolean('is_open').default(false),
   openedAt: timestamp('opened_at', { withTimezone: true }),
   closesAt: timestamp('closes_at', { withTimezone: true }),
-  settings: jsonb('settings').default({}),
+  settings: jsonb('settings').$type<StoreSettingsConfig>().default({}),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
 }, (table) => {
   return {
     classIdIdx: index('idx_store_settings_class_id').on(table.classId),
+    uniqueClass: uniqueIndex('unique_store_settings_class').on(table.classId),
   };
 });
 
@@ -248,15 +397,33 @@ export const adminLogs = pgTable('admin_logs', {
   targetType: varchar('target_type', { length: 50 }),
   targetId: uuid('target_id'),
   targetUserId: uuid('target_user_id').references(() => profiles.id, { onDelete: 'set null' }),
-  details: jsonb('details'),
+  details: jsonb('details'), // For audited requests: method, path, before/after and the changed fields
+  ipAddress: varchar('ip_address', { length: 45 }),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
 }, (table) => {
   return {
     adminIdIdx: index('idx_admin_logs_admin_id').on(table.adminId),
     targetUserIdIdx: index('idx_admin_logs_target_user_id').on(table.targetUserId),
+    targetTypeIdx: index('idx_admin_logs_target_type').on(table.targetType, table.createdAt),
+    createdAtIdx: index('idx_admin_logs_created_at').on(table.createdAt),
   };
 });
 
+// Feature flags. An enabled flag is on for a school on the allow list, off for one on the
+// deny list, and otherwise on for rolloutPercentage% of teachers (or classes), picked by
+// hashing their id so the same ones stay in as the percentage grows.
+export const featureFlags = pgTable('feature_flags', {
+  id: varchar('id', { length: 50 }).primaryKey(),
+  description: text('description'),
+  isEnabled: boolean('is_enabled').default(false),
+  rolloutPercentage: integer('rollout_percentage').default(0),
+  bucketBy: varchar('bucket_by', { length: 10 }).notNull().default('teacher'), // teacher | class
+  allowedSchools: jsonb('allowed_schools').$type<string[]>().notNull().default([]),
+  deniedSchools: jsonb('denied_schools').$type<string[]>().notNull().default([]),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+});
+
 // Item animal positions
 export const itemAnimalPositions = pgTable('item_animal_positions', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -274,13 +441,23 @@ export const itemAnimalPositions = pgTable('item_animal_positions', {
   };
 });
 
+// What a co-teacher may do beyond their role's defaults (true) or not (false)
+export type CollaboratorPermission =
+  | 'can_manage_students'
+  | 'can_manage_store'
+  | 'can_view_analytics'
+  | 'can_export_data'
+  | 'can_send_messages'
+  | 'can_manage_curriculum';
+export type CollaboratorPermissions = Partial<Record<CollaboratorPermission, boolean>>;
+
 // Class collaborators (co-teachers)
 export const classCollaborators = pgTable('class_collaborators', {
   id: uuid('id').primaryKey().defaultRandom(),
   classId: uuid('class_id').notNull().references(() => classes.id, { onDelete: 'cascade' }),
   teacherId: uuid('teacher_id').notNull().references(() => profiles.id, { onDelete: 'cascade' }),
-  role: varchar('role', { length: 20 }).notNull().default('viewer'),
-  permissions: jsonb('permissions').default({}),
+  role: varchar('role', { length: 20 }).notNull().default('viewer'), // viewer | editor
+  permissions: jsonb('permissions').$type<CollaboratorPermissions>().default({}),
   
   // Invitation tracking
   invitedBy: uuid('invited_by').notNull().references(() => profiles.id, { onDelete: 'restrict' }),
@@ -306,6 +483,370 @@ export const classCollaborators = pgTable('class_collaborators', {
   };
 });
 
+// An owner handing their class to another teacher; the class moves when that teacher accepts
+export const classTransferRequests = pgTable('class_transfer_requests', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  classId: uuid('class_id').notNull().references(() => classes.id, { onDelete: 'cascade' }),
+  fromTeacherId: uuid('from_teacher_id').notNull().references(() => profiles.id, { onDelete: 'cascade' }),
+  toTeacherId: uuid('to_teacher_id').notNull().references(() => profiles.id, { onDelete: 'cascade' }),
+  keepPreviousOwner: boolean('keep_previous_owner').notNull().default(true), // Owner stays on as an editor
+  reason: varchar('reason', { length: 255 }),
+  status: varchar('status', { length: 20 }).notNull().default('pending'), // pending | accepted | declined | cancelled
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  respondedAt: timestamp('responded_at', { withTimezone: true }),
+}, (table) => {
+  return {
+    pendingClassIdx: uniqueIndex('unique_pending_class_transfer').on(table.classId)
+      .where(sql`status = 'pending'`),
+    toTeacherIdx: index('idx_class_transfer_requests_to_teacher').on(table.toTeacherId, table.status),
+  };
+});
+
+// Teacher rules for generated seating groups: 'avoid' keeps two students apart, 'keep_together' seats them together
+// Pairs are stored with student_a_id < student_b_id so each pair has one row
+export const classPairingConstraints = pgTable('class_pairing_constraints', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  classId: uuid('class_id').notNull().references(() => classes.id, { onDelete: 'cascade' }),
+  studentAId: uuid('student_a_id').notNull().references(() => students.id, { onDelete: 'cascade' }),
+  studentBId: uuid('student_b_id').notNull().references(() => students.id, { onDelete: 'cascade' }),
+  type: varchar('type', { length: 20 }).notNull(), // 'avoid' | 'keep_together'
+  note: varchar('note', { length: 255 }),
+  createdBy: uuid('created_by').references(() => profiles.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => {
+  return {
+    uniquePair: uniqueIndex('unique_class_pairing_constraint').on(table.classId, table.studentAId, table.studentBId),
+    classIdIdx: index('idx_class_pairing_constraints_class_id').on(table.classId),
+  };
+});
+
+// Saved seating groups, newest first per class. Members are snapshotted so history reads
+// the same after students change results or leave the class
+export const classGroupings = pgTable('class_groupings', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  classId: uuid('class_id').notNull().references(() => classes.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 255 }).notNull(),
+  groupSize: integer('group_size').notNull(),
+  groups: jsonb('groups').$type<Array<{
+    members: Array<{ studentId: string; name: string; animal: string | null; genius: string | null; learningStyle: string | null }>;
+    repeatedPairs: number;
+  }>>().notNull(),
+  settings: jsonb('settings').$type<{
+    avoidRepeatsFrom: string[]; // Grouping IDs whose pairs were avoided
+    constraintCount: number;
+    seed: number;
+  }>().notNull(),
+  warnings: jsonb('warnings').$type<string[]>().default([]).notNull(),
+  createdBy: uuid('created_by').references(() => profiles.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => {
+  return {
+    classCreatedIdx: index('idx_class_groupings_class_created').on(table.classId, table.createdAt),
+  };
+});
+
+// Background jobs (database-backed stand-in for Bull/Redis; survives restarts and works across instances)
+export const backgroundJobs = pgTable('background_jobs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  queue: varchar('queue', { length: 100 }).notNull(), // e.g. 'pairing-generation', 'async-tasks'
+  name: varchar('name', { length: 100 }).notNull(), // Job type within the queue, e.g. 'generate-pairings'
+  data: jsonb('data').default({}).notNull(),
+  status: varchar('status', { length: 20 }).notNull().default('waiting'), // waiting | active | completed | failed | cancelled
+  progress: integer('progress').notNull().default(0), // 0-100
+  result: jsonb('result'),
+  error: text('error'), // Last failure message
+  attempts: integer('attempts').notNull().default(0),
+  maxAttempts: integer('max_attempts').notNull().default(3),
+  backoffMs: integer('backoff_ms').notNull().default(2000), // Doubled on each retry
+  runAt: timestamp('run_at', { withTimezone: true }).defaultNow().notNull(), // Not picked up before this (retry backoff)
+  ownerId: uuid('owner_id').references(() => profiles.id, { onDelete: 'cascade' }), // Teacher who requested it
+  lockedBy: varchar('locked_by', { length: 100 }), // Worker processing it
+  lockedAt: timestamp('locked_at', { withTimezone: true }),
+  startedAt: timestamp('started_at', { withTimezone: true }),
+  finishedAt: timestamp('finished_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => {
+  return {
+    pendingIdx: index('idx_background_jobs_pending').on(table.queue, table.runAt).where(sql`status = 'waiting'`),
+    ownerIdx: index('idx_background_jobs_owner').on(table.ownerId),
+    finishedIdx: index('idx_background_jobs_finished').on(table.finishedAt),
+  };
+});
+
+// Short-lived job results (the database stand-in for the Redis cache used with Bull)
+export const backgroundJobCache = pgTable('background_job_cache', {
+  key: varchar('key', { length: 255 }).primaryKey(),
+  value: text('value').notNull(),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+});
+
+// Roster imports: each upload's per-row validation report, kept so it can be downloaded later.
+// A dry run is stored as a 'preview' and can be committed afterwards without re-uploading
+export const rosterImports = pgTable('roster_imports', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  classId: uuid('class_id').notNull().references(() => classes.id, { onDelete: 'cascade' }),
+  teacherId: uuid('teacher_id').references(() => profiles.id, { onDelete: 'set null' }),
+  fileName: varchar('file_name', { length: 255 }),
+  status: varchar('status', { length: 20 }).notNull().default('preview'), // 'preview' | 'committed'
+  columnMapping: jsonb('column_mapping').$type<Record<string, string | null>>().notNull(), // field -> source header
+  summary: jsonb('summary').$type<{
+    total: number;
+    ready: number;
+    created: number;
+    invalid: number;
+    duplicates: number;
+  }>().notNull(),
+  rows: jsonb('rows').$type<Array<{
+    row: number; // Line / sheet row number in the source file
+    firstName: string | null;
+    lastInitial: string | null;
+    studentName: string | null;
+    gradeLevel: string | null;
+    personalityType: string | null;
+    status: 'ready' | 'created' | 'invalid' | 'duplicate_in_file' | 'already_in_class';
+    errors: string[];
+    studentId?: string;
+    passportCode?: string;
+  }>>().notNull(),
+  committedAt: timestamp('committed_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => {
+  return {
+    classCreatedIdx: index('idx_roster_imports_class_created').on(table.classId, table.createdAt),
+  };
+});
+
+// Class data exports (roster, quiz results, coins, inventory, lessons, class values) for
+// report cards, school moves and records requests. The file is kept until expires_at
+export const classExports = pgTable('class_exports', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  classId: uuid('class_id').notNull().references(() => classes.id, { onDelete: 'cascade' }),
+  requestedBy: uuid('requested_by').references(() => profiles.id, { onDelete: 'set null' }),
+  format: varchar('format', { length: 10 }).notNull(), // 'csv' (zip of CSVs) | 'json'
+  status: varchar('status', { length: 20 }).notNull().default('pending'), // pending | completed | failed
+  jobId: varchar('job_id', { length: 100 }), // Background job building it, if not built inline
+  fileName: varchar('file_name', { length: 255 }),
+  contentType: varchar('content_type', { length: 100 }),
+  content: bytea('content'),
+  sizeBytes: integer('size_bytes'),
+  counts: jsonb('counts').$type<Record<string, number>>(), // Rows per section
+  error: text('error'),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+  completedAt: timestamp('completed_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => {
+  return {
+    classCreatedIdx: index('idx_class_exports_class_created').on(table.classId, table.createdAt),
+    expiresIdx: index('idx_class_exports_expires').on(table.expiresAt),
+  };
+});
+
+// Purchases waiting for teacher approval. The cost is taken from the student's balance
+// when the request is made (reservation) and refunded if it is denied or cancelled
+export const purchaseRequests = pgTable('purchase_requests', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  studentId: uuid('student_id').notNull().references(() => students.id, { onDelete: 'cascade' }),
+  classId: uuid('class_id').notNull().references(() => classes.id, { onDelete: 'cascade' }),
+  storeItemId: uuid('store_item_id').notNull().references(() => storeItems.id, { onDelete: 'restrict' }),
+  cost: integer('cost').notNull(), // Coins reserved; the item's price at request time
+  status: varchar('status', { length: 20 }).notNull().default('pending'), // pending | approved | denied | cancelled
+  reservationTransactionId: uuid('reservation_transaction_id').references(() => currencyTransactions.id, { onDelete: 'set null' }),
+  refundTransactionId: uuid('refund_transaction_id').references(() => currencyTransactions.id, { onDelete: 'set null' }),
+  decidedBy: uuid('decided_by').references(() => profiles.id, { onDelete: 'set null' }),
+  decidedAt: timestamp('decided_at', { withTimezone: true }),
+  note: text('note'), // Teacher's reason when denying
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => {
+  return {
+    classStatusIdx: index('idx_purchase_requests_class_status').on(table.classId, table.status),
+    studentIdIdx: index('idx_purchase_requests_student_id').on(table.studentId),
+    uniquePending: uniqueIndex('unique_pending_purchase_request').on(table.studentId, table.storeItemId).where(sql`status = 'pending'`),
+  };
+});
+
+// Coupon redemptions ("homework pass"): redeeming takes the item out of the student's
+// inventory and leaves a record here for the teacher to honor
+export const storeRedemptions = pgTable('store_redemptions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  studentId: uuid('student_id').notNull().references(() => students.id, { onDelete: 'cascade' }),
+  classId: uuid('class_id').notNull().references(() => classes.id, { onDelete: 'cascade' }),
+  storeItemId: uuid('store_item_id').notNull().references(() => storeItems.id, { onDelete: 'cascade' }),
+  itemName: varchar('item_name', { length: 255 }).notNull(), // Kept in case the teacher renames the item
+  status: varchar('status', { length: 20 }).notNull().default('pending'), // pending | fulfilled | declined
+  note: text('note'), // Student's note ("for the math worksheet")
+  decidedBy: uuid('decided_by').references(() => profiles.id, { onDelete: 'set null' }),
+  decidedAt: timestamp('decided_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => {
+  return {
+    classStatusIdx: index('idx_store_redemptions_class_status').on(table.classId, table.status),
+    studentIdIdx: index('idx_store_redemptions_student_id').on(table.studentId),
+  };
+});
+
+// Standing coin rewards a teacher sets for a class, e.g. "+5 for every lesson activity".
+// The lesson, achievement and game-score paths look these up when their event happens.
+export interface RewardRuleConditions {
+  achievementCode?: string; // achievement_unlock: only this achievement
+  gameType?: string; // game_score: only this game
+  minScore?: number; // game_score: only scores at or above this
+  maxPerDay?: number; // Cap on how often one student can earn this rule per day
+}
+
+export const classRewardRules = pgTable('class_reward_rules', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  classId: uuid('class_id').notNull().references(() => classes.id, { onDelete: 'cascade' }),
+  trigger: varchar('trigger', { length: 40 }).notNull(), // lesson_activity_complete | lesson_complete | achievement_unlock | game_score
+  amount: integer('amount').notNull(), // Coins per student each time the rule fires
+  conditions: jsonb('conditions').$type<RewardRuleConditions>().default({}).notNull(),
+  description: varchar('description', { length: 255 }),
+  isActive: boolean('is_active').default(true).notNull(),
+  createdBy: uuid('created_by').references(() => profiles.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => {
+  return {
+    classTriggerIdx: index('idx_class_reward_rules_class_trigger').on(table.classId, table.trigger),
+  };
+});
+
+// Items sold back by students and refunds given by teachers
+export const itemRefunds = pgTable('item_refunds', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  studentId: uuid('student_id').notNull().references(() => students.id, { onDelete: 'cascade' }),
+  classId: uuid('class_id').notNull().references(() => classes.id, { onDelete: 'cascade' }),
+  storeItemId: uuid('store_item_id').references(() => storeItems.id, { onDelete: 'set null' }),
+  itemName: varchar('item_name', { length: 255 }),
+  kind: varchar('kind', { length: 20 }).notNull(), // sell_back | grace_refund | teacher_refund
+  amount: integer('amount').notNull(), // Coins given back (0 when the item was worth nothing)
+  transactionId: uuid('transaction_id').references(() => currencyTransactions.id, { onDelete: 'set null' }),
+  itemRemoved: boolean('item_removed').notNull().default(true),
+  refundedBy: uuid('refunded_by').references(() => profiles.id, { onDelete: 'set null' }), // Teacher, for teacher refunds
+  reason: text('reason'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => {
+  return {
+    classIdIdx: index('idx_item_refunds_class_id').on(table.classId, table.createdAt),
+    studentIdIdx: index('idx_item_refunds_student_id').on(table.studentId),
+  };
+});
+
+// Gifts and trades between classmates. A gift only has the "offer" side and goes straight
+// to the teacher (or completes); a trade waits for the other student to accept first.
+// Nothing is held while it waits: coins and items are checked and moved on completion.
+export const studentTrades = pgTable('student_trades', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  classId: uuid('class_id').notNull().references(() => classes.id, { onDelete: 'cascade' }),
+  kind: varchar('kind', { length: 10 }).notNull(), // gift | trade
+  fromStudentId: uuid('from_student_id').notNull().references(() => students.id, { onDelete: 'cascade' }),
+  toStudentId: uuid('to_student_id').notNull().references(() => students.id, { onDelete: 'cascade' }),
+  offerCoins: integer('offer_coins').notNull().default(0),
+  offerItemIds: jsonb('offer_item_ids').$type<string[]>().default([]).notNull(), // store item IDs from the sender's inventory
+  requestCoins: integer('request_coins').notNull().default(0),
+  requestItemIds: jsonb('request_item_ids').$type<string[]>().default([]).notNull(),
+  message: varchar('message', { length: 200 }),
+  status: varchar('status', { length: 20 }).notNull().default('pending'), // pending | awaiting_approval | completed | declined | cancelled | rejected
+  decidedBy: uuid('decided_by').references(() => profiles.id, { onDelete: 'set null' }), // Teacher who approved or rejected
+  note: text('note'), // Teacher's reason when rejecting
+  completedAt: timestamp('completed_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => {
+  return {
+    classStatusIdx: index('idx_student_trades_class_status').on(table.classId, table.status),
+    fromStudentIdx: index('idx_student_trades_from_student').on(table.fromStudentId),
+    toStudentIdx: index('idx_student_trades_to_student').on(table.toStudentId),
+  };
+});
+
+// Every step of a gift or trade, for the teacher's audit trail
+export const studentTradeEvents = pgTable('student_trade_events', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tradeId: uuid('trade_id').notNull().references(() => studentTrades.id, { onDelete: 'cascade' }),
+  event: varchar('event', { length: 20 }).notNull(), // proposed | accepted | declined | cancelled | approved | rejected | completed | failed
+  actorStudentId: uuid('actor_student_id').references(() => students.id, { onDelete: 'set null' }),
+  actorTeacherId: uuid('actor_teacher_id').references(() => profiles.id, { onDelete: 'set null' }),
+  details: jsonb('details'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => {
+  return {
+    tradeIdIdx: index('idx_student_trade_events_trade_id').on(table.tradeId, table.createdAt),
+  };
+});
+
+// Student-written text the moderation filter flagged, waiting for the class's teacher.
+// The content stays hidden until it is approved; `content` is a snapshot of what was written.
+export const moderationQueue = pgTable('moderation_queue', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  classId: uuid('class_id').notNull().references(() => classes.id, { onDelete: 'cascade' }),
+  studentId: uuid('student_id').notNull().references(() => students.id, { onDelete: 'cascade' }), // Author
+  contentType: varchar('content_type', { length: 30 }).notNull(), // guestbook_message
+  contentId: uuid('content_id').notNull(),
+  content: text('content').notNull(),
+  reasons: jsonb('reasons').$type<string[]>().notNull().default([]), // profanity | insult | phone | email | address
+  status: varchar('status', { length: 20 }).notNull().default('pending'), // pending | approved | hidden
+  reviewedBy: uuid('reviewed_by').references(() => profiles.id, { onDelete: 'set null' }),
+  reviewedAt: timestamp('reviewed_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => {
+  return {
+    classStatusIdx: index('idx_moderation_queue_class_status').on(table.classId, table.status, table.createdAt),
+    uniqueContent: uniqueIndex('unique_moderation_queue_content').on(table.contentType, table.contentId),
+  };
+});
+
+// Classmates a student has blocked: the blocked student can't visit their room, sign
+// their guestbook or see them in the classmates list
+export const studentBlocks = pgTable('student_blocks', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  blockerStudentId: uuid('blocker_student_id').notNull().references(() => students.id, { onDelete: 'cascade' }),
+  blockedStudentId: uuid('blocked_student_id').notNull().references(() => students.id, { onDelete: 'cascade' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => {
+  return {
+    uniqueBlock: uniqueIndex('unique_student_block').on(table.blockerStudentId, table.blockedStudentId),
+    blockedIdx: index('idx_student_blocks_blocked').on(table.blockedStudentId),
+  };
+});
+
+// A student reporting a classmate or one of their guestbook messages to the teacher
+export const studentReports = pgTable('student_reports', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  classId: uuid('class_id').notNull().references(() => classes.id, { onDelete: 'cascade' }),
+  reporterStudentId: uuid('reporter_student_id').notNull().references(() => students.id, { onDelete: 'cascade' }),
+  reportedStudentId: uuid('reported_student_id').notNull().references(() => students.id, { onDelete: 'cascade' }),
+  guestbookMessageId: uuid('guestbook_message_id').references(() => roomGuestbook.id, { onDelete: 'set null' }),
+  messageSnapshot: text('message_snapshot'), // The reported message as it was, in case it is deleted
+  reason: varchar('reason', { length: 20 }).notNull(), // unkind | inappropriate | personal_info | other
+  details: varchar('details', { length: 500 }),
+  status: varchar('status', { length: 20 }).notNull().default('open'), // open | resolved | dismissed
+  resolvedBy: uuid('resolved_by').references(() => profiles.id, { onDelete: 'set null' }),
+  resolvedAt: timestamp('resolved_at', { withTimezone: true }),
+  teacherNote: text('teacher_note'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => {
+  return {
+    classStatusIdx: index('idx_student_reports_class_status').on(table.classId, table.status, table.createdAt),
+    reportedIdx: index('idx_student_reports_reported').on(table.reportedStudentId),
+  };
+});
+
+// A growth stage a pet reaches once it has earned `minXp` from care; the first stage is the baby
+export interface PetEvolutionStage {
+  name: string; // e.g. "Kitten", "Cat"
+  minXp: number;
+  riveArtboard?: string; // Artboard the pet switches to at this stage
+}
+
+// Time a class's pets are paused, in the class's local time
+export interface PetVacationSettings {
+  weekends: boolean; // Saturdays and Sundays
+  breaks: Array<{ startDate: string; endDate: string; label?: string }>; // "YYYY-MM-DD", both days included
+  timezone?: string; // IANA zone; defaults to the store's default timezone
+}
+
 // Pet catalog table
 export const pets = pgTable('pets', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -319,6 +860,7 @@ export const pets = pgTable('pets', {
     hungerDecayRate: number; // points per hour
     happinessDecayRate: number; // points per hour
   }>().notNull().default({ hungerDecayRate: 0.42, happinessDecayRate: 0.625 }),
+  evolutionStages: jsonb('evolution_stages').$type<PetEvolutionStage[]>().notNull().default([]), // Empty = the pet doesn't evolve
   isActive: boolean('is_active').default(true),
   sortOrder: integer('sort_order').default(0),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
@@ -338,6 +880,9 @@ export const studentPets = pgTable('student_pets', {
   // Current stats
   hunger: integer('hunger').notNull().default(80), // 0-100
   happiness: integer('happiness').notNull().default(80), // 0-100
+  // Growth
+  xp: integer('xp').notNull().default(0),
+  stage: integer('stage').notNull().default(0), // Index into the pet's evolutionStages
   // Time tracking for passive state calculation
   lastInteractionAt: timestamp('last_interaction_at', { withTimezone: true }).defaultNow().notNull(),
   // Room position
@@ -356,8 +901,6 @@ export const studentPets = pgTable('student_pets', {
 }, (table) => {
   return {
     studentIdIdx: index('idx_student_pets_student_id').on(table.studentId),
-    // Ensure one pet per student for MVP
-    uniqueStudentPet: uniqueIndex('unique_student_pet').on(table.studentId),
   };
 });
 
@@ -409,6 +952,7 @@ export const petInteractions = pgTable('pet_interactions', {
   happinessAfter: integer('happiness_after').notNull(),
   // Cost (if any)
   coinsCost: integer('coins_cost').default(0),
+  xpGained: integer('xp_gained').notNull().default(0),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
 }, (table) => {
   return {
@@ -531,6 +1075,10 @@ export const classesRelations = relations(classes, ({ one, many }) => ({
     fields: [classes.teacherId],
     references: [profiles.id],
   }),
+  quizBank: one(quizQuestionBanks, {
+    fields: [classes.quizBankId],
+    references: [quizQuestionBanks.id],
+  }),
   students: many(students),
   collaborators: many(classCollaborators),
   lessonProgress: many(lessonProgress),
@@ -552,6 +1100,22 @@ export const quizSubmissionsRelations = relations(quizSubmissions, ({ one }) =>
     fields: [quizSubmissions.studentId],
     references: [students.id],
   }),
+  questionBank: one(quizQuestionBanks, {
+    fields: [quizSubmissions.questionBankId],
+    references: [quizQuestionBanks.id],
+  }),
+}));
+
+export const personalityAnimalMappingsRelations = relations(personalityAnimalMappings, ({ one }) => ({
+  animalType: one(animalTypes, {
+    fields: [personalityAnimalMappings.animalTypeId],
+    references: [animalTypes.id],
+  }),
+}));
+
+export const quizQuestionBanksRelations = relations(quizQuestionBanks, ({ many }) => ({
+  classes: many(classes),
+  submissions: many(quizSubmissions),
 }));
 
 export const assetsRelations = relations(assets, ({ many }) => ({
@@ -635,6 +1199,20 @@ export const classCollaboratorsRelations = relations(classCollaborators, ({ one
   }),
 }));
 
+export const classPairingConstraintsRelations = relations(classPairingConstraints, ({ one }) => ({
+  class: one(classes, {
+    fields: [classPairingConstraints.classId],
+    references: [classes.id],
+  }),
+}));
+
+export const classGroupingsRelations = relations(classGroupings, ({ one }) => ({
+  class: one(classes, {
+    fields: [classGroupings.classId],
+    references: [classes.id],
+  }),
+}));
+
 export const petsRelations = relations(pets, ({ many }) => ({
   studentPets: many(studentPets),
 }));
@@ -740,6 +1318,9 @@ export type Student = typeof students.$inferSelect;
 export type NewStudent = typeof students.$inferInsert;
 export type QuizSubmission = typeof quizSubmissions.$inferSelect;
 export type NewQuizSubmission = typeof quizSubmissions.$inferInsert;
+export type PersonalityAnimalMapping = typeof personalityAnimalMappings.$inferSelect;
+export type QuizQuestionBank = typeof quizQuestionBanks.$inferSelect;
+export type NewQuizQuestionBank = typeof quizQuestionBanks.$inferInsert;
 export type Asset = typeof assets.$inferSelect;
 export type NewAsset = typeof assets.$inferInsert;
 export type StoreItem = typeof storeItems.$inferSelect;
@@ -752,10 +1333,37 @@ export type StoreSettings = typeof storeSettings.$inferSelect;
 export type NewStoreSettings = typeof storeSettings.$inferInsert;
 export type AdminLog = typeof adminLogs.$inferSelect;
 export type NewAdminLog = typeof adminLogs.$inferInsert;
+export type FeatureFlag = typeof featureFlags.$inferSelect;
+export type NewFeatureFlag = typeof featureFlags.$inferInsert;
 export type ItemAnimalPosition = typeof itemAnimalPositions.$inferSelect;
 export type NewItemAnimalPosition = typeof itemAnimalPositions.$inferInsert;
 export type ClassCollaborator = typeof classCollaborators.$inferSelect;
 export type NewClassCollaborator = typeof classCollaborators.$inferInsert;
+export type ClassTransferRequest = typeof classTransferRequests.$inferSelect;
+export type NewClassTransferRequest = typeof classTransferRequests.$inferInsert;
+export type ClassPairingConstraint = typeof classPairingConstraints.$inferSelect;
+export type NewClassPairingConstraint = typeof classPairingConstraints.$inferInsert;
+export type ClassGrouping = typeof classGroupings.$inferSelect;
+export type NewClassGrouping = typeof classGroupings.$inferInsert;
+export type BackgroundJob = typeof backgroundJobs.$inferSelect;
+export type NewBackgroundJob = typeof backgroundJobs.$inferInsert;
+export type RosterImport = typeof rosterImports.$inferSelect;
+export type NewRosterImport = typeof rosterImports.$inferInsert;
+export type ClassExport = typeof classExports.$inferSelect;
+export type NewClassExport = typeof classExports.$inferInsert;
+export type PurchaseRequest = typeof purchaseRequests.$inferSelect;
+export type NewPurchaseRequest = typeof purchaseRequests.$inferInsert;
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+export type LedgerReconciliation = typeof ledgerReconciliations.$inferSelect;
+export type StoreRedemption = typeof storeRedemptions.$inferSelect;
+export type ClassRewardRule = typeof classRewardRules.$inferSelect;
+export type NewClassRewardRule = typeof classRewardRules.$inferInsert;
+export type ItemRefund = typeof itemRefunds.$inferSelect;
+export type StudentTrade = typeof studentTrades.$inferSelect;
+export type StudentTradeEvent = typeof studentTradeEvents.$inferSelect;
+export type ModerationQueueItem = typeof moderationQueue.$inferSelect;
+export type StudentBlock = typeof studentBlocks.$inferSelect;
+export type StudentReport = typeof studentReports.$inferSelect;
 export type Pattern = typeof patterns.$inferSelect;
 export type NewPattern = typeof patterns.$inferInsert;
 export type Pet = typeof pets.$inferSelect;
@@ -1,4 +1,4 @@
-import { questions } from './quiz-questions';
+import { questions, type Question } from './quiz-questions';
 import { type LearningStyleScores, type LearningStyleType } from './learning-styles';
 
 export interface QuizAnswer {
@@ -24,6 +24,31 @@ export interface QuizResults {
   // Learning style scoring
   learningScores: LearningStyleScores;
   learningStyle: LearningStyleType;
+  // How clear-cut the MBTI result is
+  preferenceStrengths: Record<MbtiDimension, PreferenceStrength>;
+  borderline: BorderlineResult;
+}
+
+export type MbtiDimension = 'E/I' | 'S/N' | 'T/F' | 'J/P';
+
+type MbtiLetter = keyof QuizResults['scores'];
+
+export interface PreferenceStrength {
+  preference: MbtiLetter;
+  percentage: number; // Share of the dimension's answers that went to the preference (50-100)
+}
+
+export interface BorderlineAlternative {
+  dimension: MbtiDimension;
+  mbtiType: string;
+  animal: string;
+  changesAnimal: boolean;
+}
+
+export interface BorderlineResult {
+  isBorderline: boolean; // One answer away from a different MBTI type
+  changesAnimal: boolean; // At least one of those types is a different animal
+  alternatives: BorderlineAlternative[];
 }
 
 // MBTI to Animal mapping - Your Original 8 Animals
@@ -78,7 +103,85 @@ export const animalGeniusDetails = {
   }
 };
 
-export function calculateResults(answers: QuizAnswer[]): QuizResults {
+// Types are built in this order. Ties go to tieWinner.
+const MBTI_DIMENSIONS: Array<{ dimension: MbtiDimension; first: MbtiLetter; second: MbtiLetter; tieWinner: MbtiLetter }> = [
+  { dimension: 'E/I', first: 'E', second: 'I', tieWinner: 'I' },
+  { dimension: 'S/N', first: 'S', second: 'N', tieWinner: 'S' },
+  { dimension: 'T/F', first: 'T', second: 'F', tieWinner: 'F' },
+  { dimension: 'J/P', first: 'J', second: 'P', tieWinner: 'J' }
+];
+
+function pickPreference(dim: typeof MBTI_DIMENSIONS[number], scores: QuizResults['scores']): MbtiLetter {
+  if (scores[dim.first] === scores[dim.second]) return dim.tieWinner;
+  return scores[dim.first] > scores[dim.second] ? dim.first : dim.second;
+}
+
+function buildType(scores: QuizResults['scores']): string {
+  return MBTI_DIMENSIONS.map(dim => pickPreference(dim, scores)).join('');
+}
+
+/**
+ * Work out the MBTI type from letter counts, how strong each preference is, and
+ * which other types the student is a single answer away from.
+ * Accepts partial or stored scores so older submissions can be analysed too.
+ */
+export function analyzeMbtiScores(
+  rawScores: Partial<Record<MbtiLetter, unknown>>
+): Pick<QuizResults, 'scores' | 'mbtiType' | 'preferenceStrengths' | 'borderline'> {
+  const scores = {} as QuizResults['scores'];
+  (['E', 'I', 'S', 'N', 'T', 'F', 'J', 'P'] as MbtiLetter[]).forEach(letter => {
+    scores[letter] = Number(rawScores[letter]) || 0;
+  });
+
+  const mbtiType = buildType(scores);
+  const animal = animalMap[mbtiType] || 'Unknown';
+
+  const preferenceStrengths = {} as Record<MbtiDimension, PreferenceStrength>;
+  const alternatives: BorderlineAlternative[] = [];
+
+  MBTI_DIMENSIONS.forEach(dim => {
+    const preference = pickPreference(dim, scores);
+    const other = preference === dim.first ? dim.second : dim.first;
+    const total = scores[dim.first] + scores[dim.second];
+
+    preferenceStrengths[dim.dimension] = {
+      preference,
+      percentage: total > 0 ? Math.round((scores[preference] / total) * 100) : 50
+    };
+
+    // Would moving one answer to the other side flip this letter?
+    if (scores[preference] === 0) return;
+    const shifted = { ...scores, [preference]: scores[preference] - 1, [other]: scores[other] + 1 };
+    if (pickPreference(dim, shifted) === preference) return;
+
+    const alternateType = buildType(shifted);
+    const alternateAnimal = animalMap[alternateType] || 'Unknown';
+    alternatives.push({
+      dimension: dim.dimension,
+      mbtiType: alternateType,
+      animal: alternateAnimal,
+      changesAnimal: alternateAnimal !== animal
+    });
+  });
+
+  return {
+    scores,
+    mbtiType,
+    preferenceStrengths,
+    borderline: {
+      isBorderline: alternatives.length > 0,
+      changesAnimal: alternatives.some(a => a.changesAnimal),
+      alternatives
+    }
+  };
+}
+
+/**
+ * Score a set of answers against a question bank.
+ * Defaults to the built-in bank; pass the questions of the bank version the
+ * student actually answered when scoring or re-scoring versioned submissions.
+ */
+export function calculateResults(answers: QuizAnswer[], questionSet: Question[] = questions): QuizResults {
   // Initialize MBTI scores
   const scores = {
     E: 0, I: 0,
@@ -89,7 +192,7 @@ export function calculateResults(answers: QuizAnswer[]): QuizResults {
 
   // Calculate MBTI scores
   answers.forEach(answer => {
-    const question = questions.find(q => q.id === answer.questionId);
+    const question = questionSet.find(q => q.id === answer.questionId);
     if (question) {
       const dimension = question.mapping[answer.answer];
       if (dimension in scores) {
@@ -98,15 +201,10 @@ export function calculateResults(answers: QuizAnswer[]): QuizResults {
     }
   });
 
-  // Determine MBTI type with improved tie-breaking
-  // In case of ties, we alternate preferences to avoid systematic bias
+  // Determine MBTI type (ties go to I, S, F, J)
   console.log('🔍 MBTI Scores:', scores);
   
-  const mbtiType = 
-    (scores.E > scores.I ? 'E' : 'I') +   // Strict greater than, ties go to I
-    (scores.S >= scores.N ? 'S' : 'N') +  // Ties go to S (Sensing)
-    (scores.T > scores.F ? 'T' : 'F') +   // Strict greater than, ties go to F
-    (scores.J >= scores.P ? 'J' : 'P');   // Ties go to J (Judging)
+  const { mbtiType, preferenceStrengths, borderline } = analyzeMbtiScores(scores);
   
   console.log('🎯 Calculated MBTI:', mbtiType, '→ Animal:', animalMap[mbtiType]);
 
@@ -115,7 +213,7 @@ export function calculateResults(answers: QuizAnswer[]): QuizResults {
 
   // Calculate learning style from VARK questions
   const varkAnswers = answers.filter(answer => {
-    const question = questions.find(q => q.id === answer.questionId);
+    const question = questionSet.find(q => q.id === answer.questionId);
     return question?.dimension === 'VARK';
   });
   
@@ -128,7 +226,7 @@ export function calculateResults(answers: QuizAnswer[]): QuizResults {
 
   // Score VARK questions
   varkAnswers.forEach(answer => {
-    const question = questions.find(q => q.id === answer.questionId);
+    const question = questionSet.find(q => q.id === answer.questionId);
     if (question?.dimension === 'VARK') {
       const style = question.mapping[answer.answer] as LearningStyleType;
       if (style in learningScores) {
@@ -171,6 +269,8 @@ export function calculateResults(answers: QuizAnswer[]): QuizResults {
     animal,
     animalGenius,
     learningScores: learningResult.scores,
-    learningStyle: learningResult.primaryStyle
+    learningStyle: learningResult.primaryStyle,
+    preferenceStrengths,
+    borderline
   };
 }
\ No newline at end of file
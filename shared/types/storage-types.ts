@@ -1,5 +1,7 @@
 // Type definitions for storage-uuid.ts
 
+import type { MbtiDimension, PreferenceStrength, BorderlineResult } from '../scoring';
+
 export interface SubmissionDetails {
   id: string;
   studentId: string;
@@ -50,6 +52,8 @@ export interface ClassAnalyticsStudent {
   learningStyle: string;
   learningScores: LearningScores;
   scores?: PersonalityScores | any;
+  preferenceStrengths?: Record<MbtiDimension, PreferenceStrength> | null;
+  borderline?: BorderlineResult | null;
   completedAt: Date | null;
   passportCode: string;
   currencyBalance: number;
@@ -0,0 +1,36 @@
+// Locale helpers for edge functions (mirrors shared/i18n.ts)
+
+export const SUPPORTED_LOCALES = ['en', 'es'] as const
+export type Locale = typeof SUPPORTED_LOCALES[number]
+export const DEFAULT_LOCALE: Locale = 'en'
+
+const ANIMAL_NAMES: Partial<Record<Locale, Record<string, string>>> = {
+  es: {
+    'Meerkat': 'Suricata',
+    'Panda': 'Panda',
+    'Owl': 'Búho',
+    'Beaver': 'Castor',
+    'Elephant': 'Elefante',
+    'Otter': 'Nutria',
+    'Parrot': 'Loro',
+    'Border Collie': 'Border Collie'
+  }
+}
+
+export function normalizeLocale(value: unknown): Locale | null {
+  if (typeof value !== 'string') return null
+  const language = value.trim().toLowerCase().split(/[-_]/)[0]
+  return (SUPPORTED_LOCALES as readonly string[]).includes(language) ? language as Locale : null
+}
+
+export function resolveLocale(...candidates: unknown[]): Locale {
+  for (const candidate of candidates) {
+    const locale = normalizeLocale(candidate)
+    if (locale) return locale
+  }
+  return DEFAULT_LOCALE
+}
+
+export function getAnimalName(animal: string, locale: Locale): string {
+  return ANIMAL_NAMES[locale]?.[animal] || animal
+}
@@ -0,0 +1,33 @@
+/**
+ * Class and student lifecycle checks for Supabase Edge Functions
+ * Mirrors getStudentSignInBlock in server/services/classLifecycleService.ts
+ */
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+/**
+ * Why a student can't sign in right now, or null if they can: they, or their class,
+ * were deleted, or the class is archived
+ */
+export async function getStudentSignInBlock(
+  supabaseAdmin: SupabaseClient,
+  studentId: string
+): Promise<string | null> {
+  const { data: student, error } = await supabaseAdmin
+    .from('students')
+    .select('deleted_at, classes!inner(deleted_at, is_archived)')
+    .eq('id', studentId)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  const classData = student?.classes as { deleted_at: string | null; is_archived: boolean } | undefined
+  if (!student || student.deleted_at || !classData || classData.deleted_at) {
+    return 'This passport code is no longer active'
+  }
+  if (classData.is_archived) {
+    return 'This class has been archived. Ask your teacher if you need access.'
+  }
+  return null
+}
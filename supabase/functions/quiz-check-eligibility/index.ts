@@ -71,8 +71,9 @@ serve(async (req) => {
     // Check class exists and is active
     const { data: classData, error: classError } = await supabaseAdmin
       .from('classes')
-      .select('id, name, seat_limit, teacher_id, class_code, is_active, expires_at')
+      .select('id, name, seat_limit, teacher_id, class_code, is_active, is_archived, expires_at')
       .eq('class_code', classCode.toUpperCase())
+      .is('deleted_at', null)
       .single()
 
     // Add rate limit headers to all responses
@@ -108,6 +109,17 @@ serve(async (req) => {
       )
     }
 
+    if (classData.is_archived) {
+      return new Response(
+        JSON.stringify({
+          eligible: false,
+          reason: 'CLASS_ARCHIVED',
+          message: 'This class has been archived and is no longer accepting students.'
+        }),
+        { status: 200, headers }
+      )
+    }
+
     if (classData.expires_at && new Date(classData.expires_at) < new Date()) {
       return new Response(
         JSON.stringify({
@@ -119,11 +131,12 @@ serve(async (req) => {
       )
     }
 
-    // Check if class is full
+    // Check if class is full (deleted students don't take a seat)
     const { count } = await supabaseAdmin
       .from('students')
       .select('*', { count: 'exact', head: true })
       .eq('class_id', classData.id)
+      .is('deleted_at', null)
 
     if (classData.seat_limit && count >= classData.seat_limit) {
       return new Response(
@@ -144,6 +157,7 @@ serve(async (req) => {
       .select('id')
       .eq('class_id', classData.id)
       .eq('student_name', studentName)
+      .is('deleted_at', null)
       .single()
 
     if (existingStudent) {
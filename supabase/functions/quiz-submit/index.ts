@@ -2,12 +2,47 @@ import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { RateLimiter, RATE_LIMITS, setRateLimitHeaders, rateLimitErrorResponse } from '../_shared/rate-limit.ts'
 import { calculateResults, animalMap, animalGeniusMap } from '../_shared/scoring.ts'
+import type { Question } from '../_shared/quiz-questions.ts'
+import { normalizeLocale, resolveLocale, getAnimalName } from '../_shared/i18n.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+/**
+ * Look up the class's quiz settings: its pinned bank (else the active default bank)
+ * and default language. bank is null when no bank has been seeded, in which case
+ * the bundled questions are used.
+ */
+async function resolveClassQuiz(
+  supabaseAdmin: ReturnType<typeof createClient>,
+  classCode: string
+): Promise<{ bank: { id: string; questions: Question[] } | null; defaultLocale: string | null }> {
+  const { data: classData } = await supabaseAdmin
+    .from('classes')
+    .select('quiz_bank_id, default_locale')
+    .eq('class_code', classCode.toUpperCase())
+    .is('deleted_at', null)
+    .maybeSingle()
+
+  const defaultLocale = classData?.default_locale ?? null
+  const query = supabaseAdmin.from('quiz_question_banks').select('id, questions')
+  const { data: bank, error } = classData?.quiz_bank_id
+    ? await query.eq('id', classData.quiz_bank_id).maybeSingle()
+    : await query.eq('is_default', true).eq('is_active', true).maybeSingle()
+
+  if (error) {
+    console.error('Failed to load question bank, using bundled questions:', error)
+    return { bank: null, defaultLocale }
+  }
+
+  return {
+    bank: bank ? { id: bank.id, questions: bank.questions as Question[] } : null,
+    defaultLocale
+  }
+}
+
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -18,7 +53,7 @@ serve(async (req) => {
   const clientIp = RateLimiter.getClientIp(req)
 
   try {
-    const { classCode, firstName, lastInitial, grade, answers } = await req.json()
+    const { classCode, firstName, lastInitial, grade, answers, locale } = await req.json()
 
     // Validate inputs
     if (!classCode || !firstName || !lastInitial || !answers) {
@@ -29,7 +64,7 @@ serve(async (req) => {
     }
 
     // Validate name format
-    if (!/^[a-zA-Z\s\-']+$/.test(firstName) || !/^[A-Z]$/.test(lastInitial)) {
+    if (!/^[\p{L}\s\-']+$/u.test(firstName) || !/^\p{Lu}$/u.test(lastInitial)) {
       return new Response(
         JSON.stringify({ error: 'Invalid name format' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -165,17 +200,23 @@ serve(async (req) => {
 
     const authUser = authData // Keep same variable name for compatibility
 
+    // Resolve the question bank version the class is pinned to (or the default bank)
+    const { bank: questionBank, defaultLocale } = await resolveClassQuiz(supabaseAdmin, classCode)
+    // Result language: what the student picked on the quiz, else the class default
+    const resultLocale = resolveLocale(locale, defaultLocale)
+
     // Calculate quiz results using shared frontend logic
     console.log('Calculating quiz results for:', `${firstName} ${lastInitial}`)
     const quizResults = calculateResults(transformedAnswers.map(a => ({
       questionId: a.questionId,
       answer: a.answer.toUpperCase() as 'A' | 'B' | 'C' | 'D'
-    })))
+    })), questionBank?.questions)
     
     console.log('Quiz calculation results:', {
       mbtiType: quizResults.mbtiType,
       animal: quizResults.animal,
-      animalGenius: quizResults.animalGenius
+      animalGenius: quizResults.animalGenius,
+      isBorderline: quizResults.borderline.isBorderline
     })
 
     // Call simplified database function with user_id and calculated results
@@ -190,7 +231,12 @@ serve(async (req) => {
       calculated_animal: quizResults.animal.toLowerCase().replace(' ', '_'),
       calculated_genius: quizResults.animalGenius,
       calculated_mbti: quizResults.mbtiType,
-      calculated_learning_style: quizResults.learningStyle
+      calculated_learning_style: quizResults.learningStyle,
+      p_question_bank_id: questionBank?.id ?? null,
+      p_preference_strengths: quizResults.preferenceStrengths,
+      p_borderline: quizResults.borderline,
+      // Only remember the language if the student chose one
+      p_locale: normalizeLocale(locale)
     })
 
     // If student creation failed, clean up the auth user (compensating transaction)
@@ -225,6 +271,13 @@ serve(async (req) => {
         )
       }
       
+      if (error.message.includes('CLASS_ARCHIVED')) {
+        return new Response(
+          JSON.stringify({ error: 'This class has been archived and is no longer accepting students.' }),
+          { status: 400, headers }
+        )
+      }
+      
       if (error.message.includes('reached its capacity') || error.message.includes('CLASS_FULL')) {
         return new Response(
           JSON.stringify({ error: 'This class is full. Please contact your teacher.' }),
@@ -273,8 +326,12 @@ serve(async (req) => {
         success: true,
         passportCode: result.passport_code,
         animalType: animalDisplayNames[result.animal_type] || result.animal_type,
+        animalName: getAnimalName(animalDisplayNames[result.animal_type] || result.animal_type, resultLocale),
+        locale: resultLocale,
         firstName: result.first_name,
-        message: `Welcome ${result.first_name}! Your passport code is ${result.passport_code}`
+        message: resultLocale === 'es'
+          ? `¡Hola ${result.first_name}! Tu código de pasaporte es ${result.passport_code}`
+          : `Welcome ${result.first_name}! Your passport code is ${result.passport_code}`
       }),
       { status: 200, headers }
     )
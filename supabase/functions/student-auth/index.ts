@@ -1,5 +1,6 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getStudentSignInBlock } from '../_shared/student-access.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -50,6 +51,15 @@ serve(async (req) => {
       )
     }
 
+    // Deleted students, and students of an archived or deleted class, can't sign in
+    const signInBlock = await getStudentSignInBlock(supabase, student.student_id)
+    if (signInBlock) {
+      return new Response(
+        JSON.stringify({ error: signInBlock }), 
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
     // Return student data (no JWT needed - system uses passport headers)
     return new Response(JSON.stringify({ 
       success: true,
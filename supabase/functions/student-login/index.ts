@@ -1,6 +1,7 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.0'
 import { RateLimiter, RATE_LIMITS, setRateLimitHeaders, rateLimitErrorResponse } from '../_shared/rate-limit.ts'
+import { getStudentSignInBlock } from '../_shared/student-access.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -86,6 +87,18 @@ serve(async (req) => {
       )
     }
 
+    // Deleted students, and students of an archived or deleted class, can't sign in
+    const signInBlock = await getStudentSignInBlock(supabaseAdmin, studentData.student_id)
+    if (signInBlock) {
+      const headers = new Headers({ ...corsHeaders, 'Content-Type': 'application/json' })
+      setRateLimitHeaders(headers, ipLimit)
+
+      return new Response(
+        JSON.stringify({ error: signInBlock }),
+        { status: 403, headers }
+      )
+    }
+
     // Get additional student data
     const { data: fullStudentData } = await supabaseAdmin
       .from('students')
@@ -0,0 +1,70 @@
+-- Read the MBTI -> animal and animal -> genius mappings from their tables
+-- calculate_animal_type and get_animal_genius kept their own CASE copies of the mappings,
+-- which could drift from personality_animal_mappings and animal_types.genius_type_id
+-- (migrations/0019_add_personality_animal_mappings.sql). They now look them up, keeping
+-- their old fallbacks for anything unmapped.
+
+CREATE OR REPLACE FUNCTION public.calculate_animal_type(quiz_answers JSONB) RETURNS TEXT AS $$
+DECLARE
+  e_score INTEGER := 0;
+  s_score INTEGER := 0;
+  t_score INTEGER := 0;
+  j_score INTEGER := 0;
+  mbti_type TEXT;
+  v_animal TEXT;
+BEGIN
+  -- E/I dimension (questions 1-4: id 0-3 in array)
+  IF (quiz_answers->0->>'answer')::TEXT = 'B' THEN e_score := e_score + 1; END IF;
+  IF (quiz_answers->1->>'answer')::TEXT = 'A' THEN e_score := e_score + 1; END IF;
+  IF (quiz_answers->2->>'answer')::TEXT = 'A' THEN e_score := e_score + 1; END IF;
+  IF (quiz_answers->3->>'answer')::TEXT = 'A' THEN e_score := e_score + 1; END IF;
+  
+  -- S/N dimension (questions 5-8: id 4-7 in array)
+  IF (quiz_answers->4->>'answer')::TEXT = 'A' THEN s_score := s_score + 1; END IF;
+  IF (quiz_answers->5->>'answer')::TEXT = 'B' THEN s_score := s_score + 1; END IF;
+  IF (quiz_answers->6->>'answer')::TEXT = 'A' THEN s_score := s_score + 1; END IF;
+  IF (quiz_answers->7->>'answer')::TEXT = 'B' THEN s_score := s_score + 1; END IF;
+  
+  -- T/F dimension (questions 9-12: id 8-11 in array)
+  IF (quiz_answers->8->>'answer')::TEXT = 'A' THEN t_score := t_score + 1; END IF;
+  IF (quiz_answers->9->>'answer')::TEXT = 'A' THEN t_score := t_score + 1; END IF;
+  IF (quiz_answers->10->>'answer')::TEXT = 'B' THEN t_score := t_score + 1; END IF;
+  IF (quiz_answers->11->>'answer')::TEXT = 'A' THEN t_score := t_score + 1; END IF;
+  
+  -- J/P dimension (questions 13-16: id 12-15 in array)
+  IF (quiz_answers->12->>'answer')::TEXT = 'A' THEN j_score := j_score + 1; END IF;
+  IF (quiz_answers->13->>'answer')::TEXT = 'A' THEN j_score := j_score + 1; END IF;
+  IF (quiz_answers->14->>'answer')::TEXT = 'A' THEN j_score := j_score + 1; END IF;
+  IF (quiz_answers->15->>'answer')::TEXT = 'A' THEN j_score := j_score + 1; END IF;
+  
+  -- Build MBTI type (ties handled as specified in scoring.ts)
+  mbti_type := '';
+  mbti_type := mbti_type || CASE WHEN e_score >= 2 THEN 'E' ELSE 'I' END;  -- Ties go to E
+  mbti_type := mbti_type || CASE WHEN s_score > 2 THEN 'S' ELSE 'N' END;   -- Ties go to N
+  mbti_type := mbti_type || CASE WHEN t_score >= 2 THEN 'T' ELSE 'F' END;  -- Ties go to T
+  mbti_type := mbti_type || CASE WHEN j_score > 2 THEN 'J' ELSE 'P' END;   -- Ties go to P
+  
+  SELECT a.name INTO v_animal
+  FROM public.personality_animal_mappings m
+  JOIN public.animal_types a ON a.id = m.animal_type_id
+  WHERE m.personality_type = mbti_type;
+
+  RETURN COALESCE(v_animal, 'Owl');
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION public.get_animal_genius(animal_type TEXT) RETURNS TEXT AS $$
+DECLARE
+  v_genius TEXT;
+BEGIN
+  SELECT g.name INTO v_genius
+  FROM public.animal_types a
+  JOIN public.genius_types g ON g.id = a.genius_type_id
+  WHERE LOWER(a.name) = LOWER(animal_type);
+
+  RETURN COALESCE(v_genius, 'Thinker');
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.calculate_animal_type TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_animal_genius TO anon, authenticated;
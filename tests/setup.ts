@@ -1,5 +1,4 @@
 import { beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
-import { db } from '../server/db';
 
 // Mock environment variables for testing
 process.env.NODE_ENV = 'test';